@@ -0,0 +1,47 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/// @title DiagnosisRegistry
+/// @notice Stores the fingerprint of each reviewed diagnosis so anyone holding
+/// the record can check it has not been altered. Only hashes go on-chain;
+/// no medical data does.
+contract DiagnosisRegistry {
+    struct Anchor {
+        bytes32 recordHash;
+        uint64 anchoredAt;
+        address anchoredBy;
+    }
+
+    address public immutable owner;
+
+    // keccak256 of the diagnosis id => latest anchor. Re-anchoring after an
+    // amendment replaces the entry; earlier ones remain in the event log.
+    mapping(bytes32 => Anchor) private anchors;
+
+    event DiagnosisAnchored(bytes32 indexed diagnosisKey, bytes32 recordHash, address indexed anchoredBy, uint64 anchoredAt);
+
+    error NotOwner();
+    error EmptyHash();
+
+    constructor() {
+        owner = msg.sender;
+    }
+
+    function anchor(bytes32 diagnosisKey, bytes32 recordHash) external {
+        if (msg.sender != owner) revert NotOwner();
+        if (recordHash == bytes32(0)) revert EmptyHash();
+
+        uint64 anchoredAt = uint64(block.timestamp);
+        anchors[diagnosisKey] = Anchor(recordHash, anchoredAt, msg.sender);
+        emit DiagnosisAnchored(diagnosisKey, recordHash, msg.sender, anchoredAt);
+    }
+
+    function getAnchor(bytes32 diagnosisKey)
+        external
+        view
+        returns (bytes32 recordHash, uint64 anchoredAt, address anchoredBy)
+    {
+        Anchor memory entry = anchors[diagnosisKey];
+        return (entry.recordHash, entry.anchoredAt, entry.anchoredBy);
+    }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyPassword } from '@/lib/auth/password';
+import { setSessionCookie } from '@/lib/auth/guards';
+import { getUsersRepository } from '@/lib/store/usersStore';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { email, password } = await request.json();
+
+    if (typeof email !== 'string' || typeof password !== 'string' || !email.trim() || !password) {
+      return NextResponse.json(
+        { error: "Email and password are required" },
+        { status: 400 }
+      );
+    }
+
+    const user = await getUsersRepository().findUserByEmail(email);
+    if (!user || !(await verifyPassword(password, user.passwordHash))) {
+      return NextResponse.json(
+        { error: "Invalid email or password" },
+        { status: 401 }
+      );
+    }
+
+    const sessionUser = {
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      role: user.role,
+      careTeamId: user.careTeamId,
+    };
+    const response = NextResponse.json({ success: true, user: sessionUser });
+    await setSessionCookie(response, sessionUser);
+    return response;
+  } catch (error) {
+    console.error("Login error:", error);
+    return NextResponse.json(
+      { error: "Failed to sign in" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_CARE_TEAM_ID } from '@/lib/auth/access';
+import { hashPassword } from '@/lib/auth/password';
+import { setSessionCookie } from '@/lib/auth/guards';
+import { getUsersRepository } from '@/lib/store/usersStore';
+
+// Self-service sign-up is for patients only; clinician accounts are
+// created by an admin through /api/users
+export async function POST(request: NextRequest) {
+  try {
+    const { name, email, password } = await request.json();
+
+    if (typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json(
+        { error: "Name is required" },
+        { status: 400 }
+      );
+    }
+
+    if (typeof email !== 'string' || !/^[^\s@]+@[^\s@]+$/.test(email.trim())) {
+      return NextResponse.json(
+        { error: "A valid email is required" },
+        { status: 400 }
+      );
+    }
+
+    if (typeof password !== 'string' || password.length < 8) {
+      return NextResponse.json(
+        { error: "Password must be at least 8 characters" },
+        { status: 400 }
+      );
+    }
+
+    const users = getUsersRepository();
+    if (await users.findUserByEmail(email)) {
+      return NextResponse.json(
+        { error: "An account with this email already exists" },
+        { status: 409 }
+      );
+    }
+
+    const user = await users.addUser({
+      name: name.trim(),
+      email,
+      role: 'patient',
+      careTeamId: DEFAULT_CARE_TEAM_ID,
+      passwordHash: await hashPassword(password),
+      createdAt: new Date().toISOString(),
+    });
+
+    const sessionUser = {
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      role: user.role,
+      careTeamId: user.careTeamId,
+    };
+    const response = NextResponse.json({ success: true, user: sessionUser }, { status: 201 });
+    await setSessionCookie(response, sessionUser);
+    return response;
+  } catch (error) {
+    console.error("Registration error:", error);
+    return NextResponse.json(
+      { error: "Failed to create account" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth/guards';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request);
+    if (!session) {
+      return NextResponse.json({ user: null });
+    }
+
+    const { id, name, email, role, careTeamId } = session;
+    return NextResponse.json({ user: { id, name, email, role, careTeamId } });
+  } catch (error) {
+    console.error("Session error:", error);
+    return NextResponse.json(
+      { error: "Failed to read session" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { recordDiagnosisAudit } from '@/lib/audit/auditLog';
+import { authorize } from '@/lib/auth/guards';
+import { consentGrantStatus, getConsentRepository } from '@/lib/store/consentStore';
+import { getDiagnosis } from '@/lib/store/diagnosesStore';
+
+// The patient withdraws a grant. The record is kept, marked revoked, so it
+// still shows in the patient's past grants.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { session, error: authError } = await authorize(request, ['patient']);
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+    const repository = getConsentRepository();
+
+    const grant = await repository.getGrant(id);
+    if (!grant || grant.patientId !== session.id) {
+      return NextResponse.json(
+        { error: "Consent grant not found" },
+        { status: 404 }
+      );
+    }
+
+    if (grant.revokedAt) {
+      return NextResponse.json(
+        { error: "Consent grant is already revoked" },
+        { status: 409 }
+      );
+    }
+
+    const revoked = await repository.revokeGrant(id, new Date().toISOString());
+    if (!revoked) {
+      return NextResponse.json(
+        { error: "Consent grant not found" },
+        { status: 404 }
+      );
+    }
+
+    for (const diagnosisId of grant.diagnosisIds) {
+      const diagnosis = await getDiagnosis(diagnosisId);
+      if (!diagnosis) continue;
+      await recordDiagnosisAudit(request, session, {
+        action: 'share',
+        before: diagnosis,
+        after: diagnosis,
+        details: { grantId: id, revoked: true }
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      grant: { ...revoked, status: consentGrantStatus(revoked) }
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke consent grant" },
+      { status: 500 }
+    );
+  }
+}
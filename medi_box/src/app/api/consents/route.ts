@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { recordDiagnosisAudit } from '@/lib/audit/auditLog';
+import { authorize } from '@/lib/auth/guards';
+import {
+  CONSENT_SCOPES,
+  ConsentGrant,
+  consentGrantStatus,
+  ConsentGrantee,
+  ConsentScope,
+  getConsentRepository
+} from '@/lib/store/consentStore';
+import { DiagnosisData, getDiagnosis } from '@/lib/store/diagnosesStore';
+import { getUsersRepository } from '@/lib/store/usersStore';
+
+// Consent is given for a limited time; a year is the longest grant
+const MAX_GRANT_DAYS = 365;
+
+const ConsentGrantRequestSchema = z.object({
+  grantee: z.discriminatedUnion('type', [
+    z.object({ type: z.literal('doctor'), email: z.string().trim().email() }),
+    z.object({ type: z.literal('organization'), careTeamId: z.string().trim().min(1) }),
+  ]),
+  diagnosisIds: z.array(z.string().min(1)).min(1),
+  scopes: z.array(z.enum(CONSENT_SCOPES as [ConsentScope, ...ConsentScope[]])).min(1),
+  expiresAt: z.string().datetime({ offset: true }),
+});
+
+// A grant plus the status and summaries of the diagnoses it covers
+async function toPublicGrant(grant: ConsentGrant, now: string) {
+  const diagnoses = await Promise.all(grant.diagnosisIds.map((id) => getDiagnosis(id)));
+  return {
+    ...grant,
+    status: consentGrantStatus(grant, now),
+    diagnoses: diagnoses
+      .filter((diagnosis): diagnosis is DiagnosisData => !!diagnosis)
+      .map(({ id, aiDiagnosis, type, diagnosisDate, patientName }) => ({ id, aiDiagnosis, type, diagnosisDate, patientName }))
+  };
+}
+
+// Patients see every grant they gave; doctors see the active grants that
+// name them or their organization
+export async function GET(request: NextRequest) {
+  const { session, error: authError } = await authorize(request, ['patient', 'doctor']);
+  if (authError) return authError;
+
+  try {
+    const now = new Date().toISOString();
+    const repository = getConsentRepository();
+    const grants = session.role === 'patient'
+      ? await repository.listGrantsByPatient(session.id)
+      : await repository.listActiveGrantsFor({ doctorId: session.id, careTeamId: session.careTeamId }, now);
+
+    return NextResponse.json({
+      grants: await Promise.all(grants.map((grant) => toPublicGrant(grant, now)))
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch consent grants" },
+      { status: 500 }
+    );
+  }
+}
+
+// Grant a doctor or organization access to some of the patient's diagnoses
+export async function POST(request: NextRequest) {
+  const { session, error: authError } = await authorize(request, ['patient']);
+  if (authError) return authError;
+
+  try {
+    const parsed = ConsentGrantRequestSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid consent grant", issues: parsed.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`) },
+        { status: 400 }
+      );
+    }
+    const { grantee, diagnosisIds, scopes, expiresAt } = parsed.data;
+
+    const expiry = new Date(expiresAt);
+    if (expiry.getTime() <= Date.now() || expiry.getTime() > Date.now() + MAX_GRANT_DAYS * 24 * 60 * 60 * 1000) {
+      return NextResponse.json(
+        { error: `Expiry must be in the future and at most ${MAX_GRANT_DAYS} days away` },
+        { status: 400 }
+      );
+    }
+
+    const uniqueIds = Array.from(new Set(diagnosisIds));
+    const diagnoses: DiagnosisData[] = [];
+    for (const diagnosisId of uniqueIds) {
+      const diagnosis = await getDiagnosis(diagnosisId);
+      if (!diagnosis || diagnosis.patientId !== session.id) {
+        return NextResponse.json(
+          { error: "Diagnosis not found" },
+          { status: 404 }
+        );
+      }
+      diagnoses.push(diagnosis);
+    }
+
+    let resolvedGrantee: ConsentGrantee;
+    if (grantee.type === 'doctor') {
+      const doctor = await getUsersRepository().findUserByEmail(grantee.email);
+      if (!doctor || doctor.role !== 'doctor') {
+        return NextResponse.json(
+          { error: "No doctor is registered with this email" },
+          { status: 404 }
+        );
+      }
+      resolvedGrantee = { type: 'doctor', doctorId: doctor.id, name: doctor.name, email: doctor.email };
+    } else {
+      resolvedGrantee = grantee;
+    }
+
+    // Every grant lets the grantee read the diagnoses
+    const grantScopes = Array.from(new Set<ConsentScope>(['view', ...scopes]));
+
+    const grant = await getConsentRepository().addGrant({
+      patientId: session.id,
+      grantee: resolvedGrantee,
+      diagnosisIds: uniqueIds,
+      scopes: grantScopes,
+      createdAt: new Date().toISOString(),
+      expiresAt: expiry.toISOString()
+    });
+
+    for (const diagnosis of diagnoses) {
+      await recordDiagnosisAudit(request, session, {
+        action: 'share',
+        before: diagnosis,
+        after: diagnosis,
+        details: { grantId: grant.id, grantee: resolvedGrantee, scopes: grantScopes, expiresAt: grant.expiresAt }
+      });
+    }
+
+    return NextResponse.json(
+      { success: true, grant: await toPublicGrant(grant, new Date().toISOString()) },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to create consent grant" },
+      { status: 500 }
+    );
+  }
+}
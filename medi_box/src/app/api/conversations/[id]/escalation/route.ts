@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authorize } from '@/lib/auth/guards';
+import { notifyChatEscalated } from '@/lib/notifications/notify';
+import { getConversationRepository } from '@/lib/store/conversationStore';
+import { getDiagnosis } from '@/lib/store/diagnosesStore';
+
+const EscalationSchema = z.object({
+  note: z.string().trim().min(1).max(2000).optional(),
+});
+
+// The patient hands their conversation to a doctor. It goes to the inbox of
+// their care team, with the whole transcript; a conversation about a
+// diagnosis also goes to the doctor assigned to it. Asking again after a
+// doctor replied reopens it.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { session, error: authError } = await authorize(request, ['patient']);
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+    const parsed = EscalationSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid escalation", issues: parsed.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`) },
+        { status: 400 }
+      );
+    }
+
+    const repository = getConversationRepository();
+    const conversation = await repository.getConversation(id);
+    if (!conversation || conversation.userId !== session.id) {
+      return NextResponse.json(
+        { error: "Conversation not found" },
+        { status: 404 }
+      );
+    }
+
+    const { note } = parsed.data;
+    if (conversation.messages.length === 0 && !note) {
+      return NextResponse.json(
+        { error: "Write a question for the doctor first" },
+        { status: 400 }
+      );
+    }
+
+    if (conversation.escalation?.status === 'open') {
+      return NextResponse.json(
+        { error: "This conversation is already waiting for a doctor" },
+        { status: 409 }
+      );
+    }
+
+    const diagnosis = conversation.diagnosisId ? await getDiagnosis(conversation.diagnosisId) : undefined;
+    if (conversation.diagnosisId && (!diagnosis || diagnosis.patientId !== session.id)) {
+      return NextResponse.json(
+        { error: "Diagnosis not found" },
+        { status: 404 }
+      );
+    }
+
+    const escalated = await repository.setEscalation(id, {
+      status: 'open',
+      patientName: session.name,
+      careTeamId: diagnosis?.careTeamId ?? session.careTeamId,
+      note,
+      requestedAt: new Date().toISOString(),
+    });
+    if (!escalated) {
+      return NextResponse.json(
+        { error: "Conversation not found" },
+        { status: 404 }
+      );
+    }
+    await notifyChatEscalated(escalated, diagnosis);
+
+    return NextResponse.json({ success: true, escalation: escalated.escalation });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to escalate conversation" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authorize } from '@/lib/auth/guards';
+import { getConversationRepository } from '@/lib/store/conversationStore';
+
+const MessageSchema = z.object({
+  content: z.string().trim().min(1).max(5000),
+});
+
+// Append a message written by the signed-in user. Assistant replies are
+// never taken from the client: POST /api/gemini with a conversationId
+// records the user's message and the reply itself.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { session, error: authError } = await authorize(request);
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+    const parsed = MessageSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid message", issues: parsed.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`) },
+        { status: 400 }
+      );
+    }
+
+    const repository = getConversationRepository();
+    const conversation = await repository.getConversation(id);
+    if (!conversation || conversation.userId !== session.id) {
+      return NextResponse.json(
+        { error: "Conversation not found" },
+        { status: 404 }
+      );
+    }
+
+    const updated = await repository.appendMessages(id, [{ role: 'user', content: parsed.data.content }]);
+    return NextResponse.json(
+      { success: true, message: updated?.messages[updated.messages.length - 1], title: updated?.title },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to add message" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authorize } from '@/lib/auth/guards';
+import { getConversationRepository, MAX_CONVERSATION_TITLE_LENGTH } from '@/lib/store/conversationStore';
+
+const RenameSchema = z.object({
+  title: z.string().trim().min(1).max(MAX_CONVERSATION_TITLE_LENGTH),
+});
+
+// Other users' conversations are reported as missing
+function conversationNotFound() {
+  return NextResponse.json(
+    { error: "Conversation not found" },
+    { status: 404 }
+  );
+}
+
+// A conversation with all its messages, oldest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { session, error: authError } = await authorize(request);
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+    const conversation = await getConversationRepository().getConversation(id);
+    if (!conversation || conversation.userId !== session.id) return conversationNotFound();
+
+    return NextResponse.json({ conversation });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch conversation" },
+      { status: 500 }
+    );
+  }
+}
+
+// Rename a conversation
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { session, error: authError } = await authorize(request);
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+    const parsed = RenameSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid title", issues: parsed.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`) },
+        { status: 400 }
+      );
+    }
+
+    const repository = getConversationRepository();
+    const conversation = await repository.getConversation(id);
+    if (!conversation || conversation.userId !== session.id) return conversationNotFound();
+
+    const renamed = await repository.renameConversation(id, parsed.data.title);
+    if (!renamed) return conversationNotFound();
+
+    return NextResponse.json({ success: true, conversation: renamed });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to rename conversation" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { session, error: authError } = await authorize(request);
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+    const repository = getConversationRepository();
+    const conversation = await repository.getConversation(id);
+    if (!conversation || conversation.userId !== session.id) return conversationNotFound();
+
+    await repository.deleteConversation(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete conversation" },
+      { status: 500 }
+    );
+  }
+}
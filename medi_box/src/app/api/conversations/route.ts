@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authorize } from '@/lib/auth/guards';
+import {
+  DEFAULT_CONVERSATION_TITLE,
+  getConversationRepository,
+  MAX_CONVERSATION_TITLE_LENGTH
+} from '@/lib/store/conversationStore';
+import { getDiagnosis } from '@/lib/store/diagnosesStore';
+
+// Chat conversations with the AI assistant. Every conversation belongs to
+// the user who started it and is only visible to them. A patient can start
+// one about their own diagnosis; its record then grounds the replies.
+
+const NewConversationSchema = z.object({
+  title: z.string().trim().min(1).max(MAX_CONVERSATION_TITLE_LENGTH).optional(),
+  diagnosisId: z.string().min(1).optional(),
+});
+
+// The signed-in user's conversations, most recently active first, without
+// their messages. `?diagnosisId=` keeps those about one diagnosis.
+export async function GET(request: NextRequest) {
+  const { session, error: authError } = await authorize(request);
+  if (authError) return authError;
+
+  try {
+    const diagnosisId = request.nextUrl.searchParams.get('diagnosisId') ?? undefined;
+    const conversations = await getConversationRepository().listConversations(session.id, { diagnosisId });
+    return NextResponse.json({ conversations });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch conversations" },
+      { status: 500 }
+    );
+  }
+}
+
+// Start a conversation. Without a title it is named after its first message,
+// or after the diagnosis it is about.
+export async function POST(request: NextRequest) {
+  const { session, error: authError } = await authorize(request);
+  if (authError) return authError;
+
+  try {
+    const parsed = NewConversationSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid conversation", issues: parsed.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`) },
+        { status: 400 }
+      );
+    }
+
+    const { title, diagnosisId } = parsed.data;
+
+    // Only the patient's own diagnoses; anyone else's are reported missing
+    const diagnosis = diagnosisId ? await getDiagnosis(diagnosisId) : undefined;
+    if (diagnosisId && (!diagnosis || diagnosis.patientId !== session.id)) {
+      return NextResponse.json(
+        { error: "Diagnosis not found" },
+        { status: 404 }
+      );
+    }
+
+    const conversation = await getConversationRepository().addConversation({
+      userId: session.id,
+      title: title ?? (diagnosis ? `Questions about ${diagnosis.type}` : DEFAULT_CONVERSATION_TITLE),
+      diagnosisId: diagnosis?.id
+    });
+    return NextResponse.json({ success: true, conversation }, { status: 201 });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to create conversation" },
+      { status: 500 }
+    );
+  }
+}
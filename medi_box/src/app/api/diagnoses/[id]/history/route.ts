@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { canAccessDiagnosis, canAccessDiagnosisWithConsent } from '@/lib/auth/access';
+import { authorize } from '@/lib/auth/guards';
+import { AuditEntry, getAuditRepository } from '@/lib/store/auditStore';
+import { getDiagnosis } from '@/lib/store/diagnosesStore';
+
+// Audit trail of a diagnosis, oldest entry first. Entries carry request
+// metadata such as IP addresses, so only clinicians may read them, and
+// doctors reading through a consent grant get them without the origin.
+function withoutRequestOrigin(entry: AuditEntry): AuditEntry {
+  const { method, path } = entry.request;
+  return { ...entry, request: { method, path } };
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { session, error: authError } = await authorize(request, ['doctor']);
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1);
+    const limit = Math.min(200, Math.max(1, parseInt(searchParams.get('limit') || '50') || 50));
+
+    const diagnosis = await getDiagnosis(id);
+    if (!diagnosis || !(await canAccessDiagnosisWithConsent(session, diagnosis))) {
+      return NextResponse.json(
+        { error: "Diagnosis not found" },
+        { status: 404 }
+      );
+    }
+
+    const repository = getAuditRepository();
+    const [entries, total] = await Promise.all([
+      repository.listEntries(id, { offset: (page - 1) * limit, limit }),
+      repository.countEntries(id)
+    ]);
+
+    const fullHistory = canAccessDiagnosis(session, diagnosis);
+    return NextResponse.json({
+      entries: fullHistory ? entries : entries.map(withoutRequestOrigin),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit)
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch diagnosis history" },
+      { status: 500 }
+    );
+  }
+}
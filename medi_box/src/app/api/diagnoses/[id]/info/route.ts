@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { recordDiagnosisAudit } from '@/lib/audit/auditLog';
+import { canAccessDiagnosis } from '@/lib/auth/access';
+import { authorize } from '@/lib/auth/guards';
+import { transitionDiagnosis } from '@/lib/diagnoses/lifecycle';
+import { InvalidTransitionError } from '@/lib/diagnoses/status';
+import { notifyDiagnosisPending } from '@/lib/notifications/notify';
+import { getDiagnosis } from '@/lib/store/diagnosesStore';
+
+// The patient answers a doctor's request for more information, which puts
+// the diagnosis back in the review queue
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { session, error: authError } = await authorize(request, ['patient']);
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const { information } = body;
+
+    if (typeof information !== 'string' || information.trim() === '') {
+      return NextResponse.json(
+        { error: "Additional information is required" },
+        { status: 400 }
+      );
+    }
+
+    const diagnosis = await getDiagnosis(id);
+    if (!diagnosis || !canAccessDiagnosis(session, diagnosis)) {
+      return NextResponse.json(
+        { error: "Diagnosis not found" },
+        { status: 404 }
+      );
+    }
+
+    // awaiting_review is also reachable from in_review, which is the doctor's
+    // call to make, so only an open information request can be answered
+    if (diagnosis.status !== 'needs_more_info') {
+      return NextResponse.json(
+        { error: "No additional information has been requested for this diagnosis", from: diagnosis.status, to: 'awaiting_review' },
+        { status: 409 }
+      );
+    }
+
+    const updated = await transitionDiagnosis(diagnosis, 'awaiting_review', {
+      additionalInfo: [
+        ...(diagnosis.additionalInfo ?? []),
+        { message: information.trim(), providedAt: new Date().toISOString() }
+      ]
+    });
+    await recordDiagnosisAudit(request, session, {
+      action: 'additional_info',
+      before: diagnosis,
+      after: updated
+    });
+    await notifyDiagnosisPending(updated, 'answered');
+
+    return NextResponse.json({
+      success: true,
+      diagnosisId: id,
+      status: updated.status
+    });
+  } catch (error) {
+    if (error instanceof InvalidTransitionError) {
+      return NextResponse.json(
+        { error: error.message, from: error.from, to: error.to },
+        { status: 409 }
+      );
+    }
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to submit additional information" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { canAccessDiagnosisWithConsent } from '@/lib/auth/access';
+import { authorize } from '@/lib/auth/guards';
+import { pollingEventStream, serverSentEvent } from '@/lib/events/serverSentEvents';
+import { analysisStatusOf } from '@/lib/jobs/diagnosisAnalysisJob';
+import { getDiagnosis } from '@/lib/store/diagnosesStore';
+
+const POLL_INTERVAL_MS = 1000;
+
+// Server-sent events with the analysis status of a diagnosis: a `progress`
+// event whenever it changes, then a `done` event once the job has
+// succeeded or is dead, after which the stream closes.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { session, error: authError } = await authorize(request);
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+    const diagnosis = await getDiagnosis(id);
+    if (!diagnosis || !(await canAccessDiagnosisWithConsent(session, diagnosis))) {
+      return NextResponse.json(
+        { error: "Diagnosis not found" },
+        { status: 404 }
+      );
+    }
+
+    let lastSent = '';
+    return pollingEventStream(request.signal, async () => {
+      const status = await analysisStatusOf(id);
+      if (status.finished) {
+        return { events: [serverSentEvent('done', status)], done: true };
+      }
+
+      const data = JSON.stringify(status);
+      if (data === lastSent) return { events: [] };
+      lastSent = data;
+      return { events: [serverSentEvent('progress', status)] };
+    }, POLL_INTERVAL_MS);
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to stream analysis status" },
+      { status: 500 }
+    );
+  }
+}
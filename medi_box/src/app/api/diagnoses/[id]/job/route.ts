@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { canAccessDiagnosisWithConsent } from '@/lib/auth/access';
+import { authorize } from '@/lib/auth/guards';
+import { analysisStatusOf } from '@/lib/jobs/diagnosisAnalysisJob';
+import { getDiagnosis } from '@/lib/store/diagnosesStore';
+
+// Progress of a diagnosis's background analysis, for clients that poll.
+// /job/events streams the same status as it changes.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { session, error: authError } = await authorize(request);
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+    const diagnosis = await getDiagnosis(id);
+    if (!diagnosis || !(await canAccessDiagnosisWithConsent(session, diagnosis))) {
+      return NextResponse.json(
+        { error: "Diagnosis not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(await analysisStatusOf(id));
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch analysis status" },
+      { status: 500 }
+    );
+  }
+}
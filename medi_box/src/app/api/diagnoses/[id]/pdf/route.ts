@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { recordDiagnosisAudit } from '@/lib/audit/auditLog';
+import { canAccessDiagnosisWithConsent } from '@/lib/auth/access';
+import { authorize } from '@/lib/auth/guards';
+import { renderDiagnosisPdf } from '@/lib/reports/diagnosisPdf';
+import { loadReportImages } from '@/lib/reports/reportImages';
+import { getDiagnosis } from '@/lib/store/diagnosesStore';
+
+// Downloads the diagnosis as a PDF report. Doctors outside the care
+// relationship need a consent grant with the export scope.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { session, error: authError } = await authorize(request);
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+    const diagnosis = await getDiagnosis(id);
+    if (!diagnosis || !(await canAccessDiagnosisWithConsent(session, diagnosis, 'export'))) {
+      return NextResponse.json(
+        { error: "Diagnosis not found" },
+        { status: 404 }
+      );
+    }
+
+    const images = await loadReportImages(diagnosis);
+    const pdf = await renderDiagnosisPdf(diagnosis, {
+      images,
+      generatedAt: new Date(),
+      generatedFor: session.name
+    });
+
+    await recordDiagnosisAudit(request, session, {
+      action: 'export',
+      before: diagnosis,
+      after: diagnosis,
+      details: { format: 'pdf', images: images.length, bytes: pdf.length }
+    });
+
+    const fileName = `medibox-report-${diagnosis.diagnosisDate}-${diagnosis.id.slice(0, 8)}.pdf`;
+    return new NextResponse(pdf, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Length': String(pdf.length),
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to generate the PDF report" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,36 +1,67 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { recordDiagnosisAudit, requestMetadata } from '@/lib/audit/auditLog';
+import { canAccessDiagnosis } from '@/lib/auth/access';
+import { authorize } from '@/lib/auth/guards';
+import { isAnchoringConfigured } from '@/lib/blockchain/diagnosisRegistry';
+import {
+  amendableValuesOf,
+  AmendmentRequestSchema,
+  diffAmendableValues
+} from '@/lib/diagnoses/amendments';
+import { transitionDiagnosis } from '@/lib/diagnoses/lifecycle';
+import { DiagnosisStatus, InvalidTransitionError, REVIEWED_STATUSES } from '@/lib/diagnoses/status';
+import { enqueueJob } from '@/lib/jobs/jobQueue';
+import { notifyDoctorReply, notifyReviewCompleted } from '@/lib/notifications/notify';
+import { getDiagnosis, DiagnosisData } from '@/lib/store/diagnosesStore';
 
-// In a real app, this would be connected to the database that stores diagnoses
-// For this demo, we'll access a shared diagnoses store
-import diagnoses from '@/lib/store/diagnosesStore';
+// Review actions and the status each one moves the diagnosis to
+const REVIEW_ACTIONS: Record<string, DiagnosisStatus> = {
+  start_review: 'in_review',
+  release: 'awaiting_review',
+  request_info: 'needs_more_info',
+  approve: 'approved',
+  amend: 'amended',
+  reject: 'rejected',
+  close: 'closed'
+};
+
+// Actions that record a clinical opinion and therefore need written feedback
+const FEEDBACK_ACTIONS = ['request_info', 'approve', 'amend', 'reject'];
 
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  // Only clinicians may review; their identity comes from the session,
+  // never from the request body
+  const { session, error: authError } = await authorize(request, ['doctor']);
+  if (authError) return authError;
+
   try {
     const { id } = await params;
     const body = await request.json();
-    const { action, feedback, doctorName } = body;
+    const { action, feedback, amendments } = body;
 
-    // Validate the request data
-    if (!action || !['approve', 'reject'].includes(action)) {
+    // Validate the request data; own keys only, so "toString" is no action
+    if (typeof action !== 'string' || !Object.hasOwn(REVIEW_ACTIONS, action)) {
       return NextResponse.json(
-        { error: "Invalid action. Must be 'approve' or 'reject'" },
+        { error: `Invalid action. Must be one of: ${Object.keys(REVIEW_ACTIONS).join(', ')}` },
         { status: 400 }
       );
     }
 
-    if (!feedback || feedback.trim() === '') {
+    if (FEEDBACK_ACTIONS.includes(action) && (typeof feedback !== 'string' || feedback.trim() === '')) {
       return NextResponse.json(
         { error: "Doctor feedback is required" },
         { status: 400 }
       );
     }
 
-    if (!doctorName || doctorName.trim() === '') {
+    // Amending means changing at least one AI field
+    const parsedAmendments = action === 'amend' ? AmendmentRequestSchema.safeParse(amendments ?? {}) : undefined;
+    if (parsedAmendments && !parsedAmendments.success) {
       return NextResponse.json(
-        { error: "Doctor name is required" },
+        { error: "Invalid amendments", issues: parsedAmendments.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`) },
         { status: 400 }
       );
     }
@@ -38,36 +69,97 @@ export async function POST(
     // Simulate API latency
     await new Promise(resolve => setTimeout(resolve, 800));
 
-    // Check if diagnosis exists in sample data
-    if (diagnoses[id]) {
-      // Update the diagnosis with doctor's review
-      diagnoses[id] = {
-        ...diagnoses[id],
-        status: action === 'approve' ? 'approved' : 'rejected',
-        doctorName: doctorName,
-        doctorFeedback: feedback,
-        reviewDate: new Date().toISOString()
+    const diagnosis = await getDiagnosis(id);
+    if (!diagnosis || !canAccessDiagnosis(session, diagnosis)) {
+      return NextResponse.json(
+        { error: "Diagnosis not found" },
+        { status: 404 }
+      );
+    }
+
+    // Any review action on a queued diagnosis assigns it to the reviewing
+    // doctor, except release, which hands it back to the care team's queue;
+    // actions with feedback also record the review itself
+    const updates: Partial<DiagnosisData> = action === 'release'
+      ? { assignedDoctorId: undefined, doctorName: "Pending Review" }
+      : { assignedDoctorId: diagnosis.assignedDoctorId ?? session.id, doctorName: session.name };
+    if (FEEDBACK_ACTIONS.includes(action)) {
+      updates.doctorFeedback = feedback;
+      updates.reviewedBy = session.id;
+      updates.reviewDate = new Date().toISOString();
+    }
+
+    if (parsedAmendments?.success) {
+      // Diffs are always against the AI output, which a re-amendment keeps
+      const original = diagnosis.amendment?.original ?? amendableValuesOf(diagnosis);
+      const amended = { ...amendableValuesOf(diagnosis), ...parsedAmendments.data };
+      const diff = diffAmendableValues(original, amended);
+      if (diffAmendableValues(amendableValuesOf(diagnosis), amended).length === 0) {
+        return NextResponse.json(
+          { error: "Amendments must change the diagnosis, treatment recommendations or risk factors" },
+          { status: 400 }
+        );
+      }
+
+      Object.assign(updates, amended);
+      updates.amendment = {
+        original,
+        amended,
+        diff,
+        amendedBy: session.id,
+        amendedByName: session.name,
+        amendedAt: new Date().toISOString()
       };
+    }
 
-      return NextResponse.json({
-        success: true,
-        message: `Diagnosis ${action === 'approve' ? 'approved' : 'rejected'} successfully`,
-        diagnosisId: id
-      });
+    const updated = await transitionDiagnosis(diagnosis, REVIEW_ACTIONS[action], updates);
+    await recordDiagnosisAudit(request, session, {
+      action: action === 'amend' ? 'amendment' : 'review',
+      before: diagnosis,
+      after: updated,
+      details: {
+        reviewAction: action,
+        ...(updates.doctorFeedback !== undefined ? { feedback: updates.doctorFeedback } : {}),
+        ...(action === 'amend' ? { diff: updated.amendment?.diff } : {})
+      }
+    });
+
+    if (action === 'request_info') {
+      await notifyDoctorReply(updated, session.name);
     } else {
-      // For static demo, we'll pretend the update was successful even if we don't have the ID
-      // In a real app, you would return a 404 here if the diagnosis doesn't exist
-      return NextResponse.json({
-        success: true,
-        message: `Diagnosis ${action === 'approve' ? 'approved' : 'rejected'} successfully`,
-        diagnosisId: id
+      await notifyReviewCompleted(updated);
+    }
+
+    // Reviewed records are fingerprinted on-chain by the job queue, so the
+    // review does not wait for the chain
+    let anchorJobId: string | undefined;
+    if (REVIEWED_STATUSES.includes(updated.status) && isAnchoringConfigured()) {
+      const job = await enqueueJob('diagnosis_anchor', {}, {
+        diagnosisId: id,
+        requestedBy: { userId: session.id, request: requestMetadata(request) }
       });
+      anchorJobId = job.id;
     }
+
+    return NextResponse.json({
+      success: true,
+      message: `Diagnosis moved to ${updated.status}`,
+      diagnosisId: id,
+      status: updated.status,
+      amendment: updated.amendment,
+      anchorJobId
+    });
   } catch (error) {
+    if (error instanceof InvalidTransitionError) {
+      return NextResponse.json(
+        { error: error.message, from: error.from, to: error.to },
+        { status: 409 }
+      );
+    }
     console.error("API error:", error);
     return NextResponse.json(
       { error: "Failed to process doctor review" },
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
@@ -1,25 +1,34 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { recordDiagnosisAudit } from '@/lib/audit/auditLog';
+import { canAccessDiagnosisWithConsent } from '@/lib/auth/access';
+import { authorize } from '@/lib/auth/guards';
 import { getDiagnosis } from '@/lib/store/diagnosesStore';
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const { session, error: authError } = await authorize(request);
+  if (authError) return authError;
+
   try {
     const { id } = await params;
     
     // Simulate API latency
     await new Promise(resolve => setTimeout(resolve, 800));
     
-    // Check if diagnosis exists
-    const diagnosis = getDiagnosis(id);
-    if (!diagnosis) {
+    // Check if diagnosis exists; records outside the caller's scope are
+    // reported as missing so their existence is not revealed
+    const diagnosis = await getDiagnosis(id);
+    if (!diagnosis || !(await canAccessDiagnosisWithConsent(session, diagnosis))) {
       return NextResponse.json(
         { error: "Diagnosis not found" },
         { status: 404 }
       );
     }
     
+    await recordDiagnosisAudit(request, session, { action: 'view', before: diagnosis, after: diagnosis });
+
     // Return the diagnosis data
     return NextResponse.json(diagnosis);
   } catch (error) {
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { canAccessDiagnosisWithConsent } from '@/lib/auth/access';
+import { authorize } from '@/lib/auth/guards';
+import { BlockchainNotConfiguredError, verifyDiagnosisAnchor } from '@/lib/blockchain/diagnosisRegistry';
+import { getDiagnosis } from '@/lib/store/diagnosesStore';
+
+// Recompute the diagnosis fingerprint and compare it with the on-chain anchor
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { session, error: authError } = await authorize(request);
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+
+    const diagnosis = await getDiagnosis(id);
+    if (!diagnosis || !(await canAccessDiagnosisWithConsent(session, diagnosis))) {
+      return NextResponse.json(
+        { error: "Diagnosis not found" },
+        { status: 404 }
+      );
+    }
+
+    const verification = await verifyDiagnosisAnchor(diagnosis);
+
+    return NextResponse.json({
+      diagnosisId: id,
+      ...verification,
+      transactionHash: diagnosis.blockchainAnchor?.status === 'anchored' ? diagnosis.blockchainAnchor.transactionHash : undefined
+    });
+  } catch (error) {
+    if (error instanceof BlockchainNotConfiguredError) {
+      return NextResponse.json(
+        { error: "Blockchain verification is not available" },
+        { status: 503 }
+      );
+    }
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to verify diagnosis on-chain" },
+      { status: 502 }
+    );
+  }
+}
@@ -1,18 +1,36 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { 
-  analyzeSymptomsWithGemini, 
-  analyzeMedicalImageWithGemini,
-  parseGeminiResponse,
-  SymptomData,
-  MedicalImageData
-} from '@/lib/gemini';
+import { z } from 'zod';
+import { getAIProvider, SymptomData } from '@/lib/ai/ai';
+import { recordDiagnosisAudit, requestMetadata } from '@/lib/audit/auditLog';
+import { diagnosisScopeFor } from '@/lib/auth/access';
+import { authorize } from '@/lib/auth/guards';
+import { DIAGNOSIS_STATUSES, DiagnosisStatus, isDiagnosisStatus } from '@/lib/diagnoses/status';
+import { DiagnosisAnalysisPayload } from '@/lib/jobs/diagnosisAnalysisJob';
+import { enqueueJob } from '@/lib/jobs/jobQueue';
 import { 
   addDiagnosis, 
-  getAllDiagnoses, 
-  DiagnosisData 
+  DIAGNOSIS_SORTS,
+  DiagnosisFilter,
+  DiagnosisSort,
+  getDiagnosesRepository, 
+  NewDiagnosis 
 } from '@/lib/store/diagnosesStore';
+import { toPublicJob } from '@/lib/store/jobStore';
+import { getUploadsRepository, UploadRecord } from '@/lib/store/uploadsStore';
+import { triageText } from '@/lib/triage/triage';
+import { MAX_STUDY_IMAGES, toDiagnosisImage } from '@/lib/uploads/medicalImages';
+
+const SymptomDataSchema = z.object({
+  description: z.string().trim().min(1),
+  duration: z.string().trim().min(1),
+  severity: z.string().trim().min(1),
+  medicalHistory: z.string().trim().optional(),
+});
 
 export async function POST(request: NextRequest) {
+  const { session, error: authError } = await authorize(request, ['patient']);
+  if (authError) return authError;
+
   try {
     const body = await request.json();
     const { type, data } = body;
@@ -24,19 +42,66 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    let aiResult;
-    let structured;
-
-    // Process based on diagnosis type
-    if (type === 'symptoms') {
-      const symptomData = data as SymptomData;
-      aiResult = await analyzeSymptomsWithGemini(symptomData);
-      structured = parseGeminiResponse(aiResult);
-    } 
-    else if (type === 'image') {
-      const imageData = data as MedicalImageData;
-      aiResult = await analyzeMedicalImageWithGemini(imageData);
-      structured = parseGeminiResponse(aiResult);
+    const uploads: UploadRecord[] = [];
+    let symptomData: SymptomData | undefined;
+
+    if (type === 'image') {
+      // Images are uploaded first through /api/uploads and referenced by id.
+      // A study is an ordered list of uploads; `uploadId` is the single-image form.
+      const uploadIds: unknown[] = Array.isArray(data.uploadIds) ? data.uploadIds : data.uploadId ? [data.uploadId] : [];
+      if (uploadIds.length === 0 || uploadIds.some((uploadId) => typeof uploadId !== 'string')) {
+        return NextResponse.json(
+          { error: "At least one uploaded image is required" },
+          { status: 400 }
+        );
+      }
+      if (uploadIds.length > MAX_STUDY_IMAGES) {
+        return NextResponse.json(
+          { error: `A study can contain at most ${MAX_STUDY_IMAGES} images` },
+          { status: 400 }
+        );
+      }
+      if (new Set(uploadIds).size !== uploadIds.length) {
+        return NextResponse.json(
+          { error: "Each image can only appear once in a study" },
+          { status: 400 }
+        );
+      }
+
+      for (const uploadId of uploadIds as string[]) {
+        const upload = await getUploadsRepository().getUpload(uploadId);
+        if (!upload || upload.ownerId !== session.id) {
+          return NextResponse.json(
+            { error: "Uploaded image not found" },
+            { status: 400 }
+          );
+        }
+
+        if (upload.diagnosisId) {
+          return NextResponse.json(
+            { error: `${upload.fileName} is already attached to another diagnosis` },
+            { status: 400 }
+          );
+        }
+        uploads.push(upload);
+      }
+
+      if (!data.imageType || !data.bodyPart) {
+        return NextResponse.json(
+          { error: "Image type and body part are required" },
+          { status: 400 }
+        );
+      }
+    }
+    else if (type === 'symptoms') {
+      const parsed = SymptomDataSchema.safeParse(data);
+      if (!parsed.success) {
+        return NextResponse.json(
+          { error: "Invalid symptom data", issues: parsed.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`) },
+          { status: 400 }
+        );
+      }
+      symptomData = parsed.data;
     }
     else {
       return NextResponse.json(
@@ -44,42 +109,104 @@ export async function POST(request: NextRequest) {
         { status: 400 }
       );
     }
-    
-    // Create new diagnosis object
-    const newDiagnosisData: Omit<DiagnosisData, 'id'> = {
+
+    const provider = getAIProvider();
+    const images = uploads.map(toDiagnosisImage);
+
+    // Emergency red flags in what the patient wrote are caught here, before
+    // the analysis; the analysis job checks its result again
+    const patientText = symptomData
+      ? [symptomData.description, symptomData.medicalHistory].filter(Boolean).join('\n')
+      : '';
+    const emergency = await triageText(patientText);
+
+    // The diagnosis is recorded as submitted straight away; a failed
+    // analysis leaves an ai_failed record behind instead of nothing
+    const newDiagnosisData: NewDiagnosis = {
+      patientId: session.id,
+      patientName: session.name,
+      careTeamId: session.careTeamId,
       diagnosisDate: new Date().toISOString().split('T')[0],
       type: type === 'symptoms' ? 'Symptom Analysis' : `${data.imageType} Analysis`,
-      aiDiagnosis: structured.primaryDiagnosis || "Pending AI diagnosis",
-      confidence: parseInt(structured.confidenceLevel) || 0,
-      status: "pending",
-      symptoms: type === 'symptoms' ? data.description : "",
+      aiDiagnosis: "Pending AI diagnosis",
+      confidence: 0,
+      status: 'submitted',
+      statusUpdatedAt: new Date().toISOString(),
+      symptoms: symptomData?.description ?? "",
       doctorName: "Pending Review",
       doctorFeedback: "",
-      imageSrc: type === 'image' ? `/sample-${Date.now()}.jpg` : "", // In a real app, we'd store the image
+      imageSrc: images[0]?.src ?? "",
+      imageUploadId: images[0]?.uploadId,
+      thumbnailSrc: images[0]?.thumbnailSrc,
+      images: images.length > 0 ? images : undefined,
       aiModelData: {
-        modelVersion: type === 'symptoms' ? "GeminiMedical-2.0" : "GeminiVision-1.5",
-        analysisTimestamp: new Date().toISOString(),
-        processingTime: "2.1 seconds",
+        modelVersion: type === 'symptoms' ? provider.models.text : provider.models.vision,
+        analysisTimestamp: "",
+        processingTime: "",
         featuresAnalyzed: type === 'symptoms' ? "46 symptom patterns analyzed" : "217 anatomical landmarks detected"
       },
-      treatmentRecommendations: structured.recommendations || [],
-      riskFactors: [
-        "To be determined by doctor review"
-      ],
-      aiResponse: {
-        fullText: structured.fullText,
-        sections: structured.sections
-      }
+      treatmentRecommendations: [],
+      riskFactors: [],
+      triage: { urgent: !!emergency, matches: emergency?.matches ?? [], checkedAt: new Date().toISOString() }
     };
     
     // Add the diagnosis to the store
-    const newDiagnosis = addDiagnosis(newDiagnosisData);
-    
-    return NextResponse.json({ 
-      success: true,
-      diagnosisId: newDiagnosis.id,
-      diagnosis: newDiagnosis
+    const submitted = await addDiagnosis(newDiagnosisData);
+
+    // The check above can race another submission of the same upload; the
+    // attach itself decides. The loser lets go of what it got and closes
+    // its diagnosis before it is ever analysed.
+    const attached: UploadRecord[] = [];
+    for (const upload of uploads) {
+      if (await getUploadsRepository().attachUpload(upload.id, submitted.id)) {
+        attached.push(upload);
+        continue;
+      }
+
+      for (const { id } of attached) {
+        await getUploadsRepository().detachUpload(id, submitted.id);
+      }
+      const closed = await getDiagnosesRepository().updateDiagnosisIfStatus(submitted.id, 'submitted', {
+        status: 'closed',
+        statusUpdatedAt: new Date().toISOString()
+      });
+      await recordDiagnosisAudit(request, session, {
+        action: 'create',
+        after: closed ?? submitted,
+        details: { type, uploadIds: uploads.map(({ id }) => id), attachConflict: upload.id }
+      });
+      return NextResponse.json(
+        { error: `${upload.fileName} is already attached to another diagnosis` },
+        { status: 400 }
+      );
+    }
+    await recordDiagnosisAudit(request, session, {
+      action: 'create',
+      after: submitted,
+      details: { type, uploadIds: uploads.map((upload) => upload.id), urgent: !!emergency }
+    });
+
+    // The analysis runs in the job queue; the client follows its progress
+    // through /api/diagnoses/<id>/job
+    const payload: DiagnosisAnalysisPayload = symptomData
+      ? { type: 'symptoms', data: symptomData }
+      : { type: 'image', data: { imageType: data.imageType, bodyPart: data.bodyPart }, uploadIds: uploads.map((upload) => upload.id) };
+    const job = await enqueueJob('diagnosis_analysis', payload, {
+      diagnosisId: submitted.id,
+      requestedBy: { userId: session.id, request: requestMetadata(request) }
     });
+
+    return NextResponse.json(
+      {
+        success: true,
+        diagnosisId: submitted.id,
+        diagnosis: submitted,
+        job: toPublicJob(job),
+        // Shown to the patient straight away, before the analysis finishes
+        emergency: emergency ?? null
+      },
+      { status: 202 }
+    );
   } catch (error) {
     console.error("Diagnosis creation error:", error);
     return NextResponse.json(
@@ -89,34 +216,68 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// Get all diagnoses (paginated)
+// List the diagnoses visible to the caller, filtered, sorted and paginated
 export async function GET(request: NextRequest) {
+  const { session, error: authError } = await authorize(request);
+  if (authError) return authError;
+
   try {
     // Get query parameters
     const { searchParams } = new URL(request.url);
-    const page = parseInt(searchParams.get('page') || '1');
-    const limit = parseInt(searchParams.get('limit') || '10');
-    const status = searchParams.get('status');
-    
-    // Get all diagnoses
-    let diagnosisArray = getAllDiagnoses();
-    
-    // Apply filters
-    if (status) {
-      diagnosisArray = diagnosisArray.filter(d => d.status === status);
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1);
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '10') || 10));
+    // One status or a comma-separated list
+    const statuses = searchParams.get('status')?.split(',').filter(Boolean) ?? [];
+    const typeFilter = searchParams.get('type');
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    const reviewedFrom = searchParams.get('reviewedFrom');
+    const sort = searchParams.get('sort') || 'newest';
+
+    if (!DIAGNOSIS_SORTS.includes(sort as DiagnosisSort)) {
+      return NextResponse.json(
+        { error: `Invalid sort. Must be one of: ${DIAGNOSIS_SORTS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const unknownStatus = statuses.find((status) => !isDiagnosisStatus(status));
+    if (unknownStatus) {
+      return NextResponse.json(
+        { error: `Invalid status "${unknownStatus}". Must be one of: ${DIAGNOSIS_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+    if ([from, to, reviewedFrom].some((date) => date && !datePattern.test(date))) {
+      return NextResponse.json(
+        { error: "Dates must use the YYYY-MM-DD format" },
+        { status: 400 }
+      );
     }
     
-    // Apply pagination
-    const startIndex = (page - 1) * limit;
-    const endIndex = page * limit;
-    const paginatedDiagnoses = diagnosisArray.slice(startIndex, endIndex);
+    // Only the diagnoses this user may see, with the requested filters applied
+    const filter: DiagnosisFilter = {
+      ...diagnosisScopeFor(session),
+      ...(statuses.length > 0 ? { status: statuses as DiagnosisStatus[] } : {}),
+      ...(typeFilter ? { type: typeFilter } : {}),
+      ...(from ? { from } : {}),
+      ...(to ? { to } : {}),
+      ...(reviewedFrom ? { reviewedFrom } : {})
+    };
+    const repository = getDiagnosesRepository();
+    const [diagnoses, total] = await Promise.all([
+      repository.listDiagnoses(filter, { sort: sort as DiagnosisSort, offset: (page - 1) * limit, limit }),
+      repository.countDiagnoses(filter)
+    ]);
     
     return NextResponse.json({
-      diagnoses: paginatedDiagnoses,
-      total: diagnosisArray.length,
+      diagnoses,
+      total,
       page,
       limit,
-      totalPages: Math.ceil(diagnosisArray.length / limit)
+      totalPages: Math.ceil(total / limit)
     });
   } catch (error) {
     console.error("API error:", error);
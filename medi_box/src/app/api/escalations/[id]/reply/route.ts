@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { canAccessDiagnosisWithConsent, canAnswerEscalation } from '@/lib/auth/access';
+import { authorize } from '@/lib/auth/guards';
+import { notifyEscalationAnswered } from '@/lib/notifications/notify';
+import { getConversationRepository } from '@/lib/store/conversationStore';
+import { getDiagnosis } from '@/lib/store/diagnosesStore';
+
+const ReplySchema = z.object({
+  content: z.string().trim().min(1).max(5000),
+});
+
+// A doctor answers an escalated conversation. The reply is added to the
+// patient's thread as a `doctor` message and the escalation is marked
+// answered; the doctor can keep replying afterwards. A doctor outside the
+// care team replies through a consent grant, which needs the comment scope.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { session, error: authError } = await authorize(request, ['doctor']);
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+    const parsed = ReplySchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid reply", issues: parsed.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`) },
+        { status: 400 }
+      );
+    }
+
+    const repository = getConversationRepository();
+    const conversation = await repository.getConversation(id);
+    const diagnosis = conversation?.diagnosisId ? await getDiagnosis(conversation.diagnosisId) : undefined;
+    if (!conversation?.escalation) {
+      return NextResponse.json(
+        { error: "Conversation not found" },
+        { status: 404 }
+      );
+    }
+    if (!canAnswerEscalation(session, conversation, diagnosis)) {
+      if (!diagnosis || !(await canAccessDiagnosisWithConsent(session, diagnosis))) {
+        return NextResponse.json(
+          { error: "Conversation not found" },
+          { status: 404 }
+        );
+      }
+      if (!(await canAccessDiagnosisWithConsent(session, diagnosis, 'comment'))) {
+        return NextResponse.json(
+          { error: "The patient's consent does not cover replying" },
+          { status: 403 }
+        );
+      }
+    }
+
+    const updated = await repository.appendMessages(id, [
+      { role: 'doctor', content: parsed.data.content, author: { id: session.id, name: session.name } },
+    ]);
+    const answered = updated && await repository.setEscalation(id, {
+      ...conversation.escalation,
+      status: 'answered',
+      doctorId: session.id,
+      doctorName: session.name,
+      answeredAt: new Date().toISOString(),
+    });
+    if (!updated || !answered) {
+      return NextResponse.json(
+        { error: "Conversation not found" },
+        { status: 404 }
+      );
+    }
+    await notifyEscalationAnswered(answered, session.name);
+
+    return NextResponse.json(
+      { success: true, message: updated.messages[updated.messages.length - 1], escalation: answered.escalation },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to send reply" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { canAccessDiagnosisWithConsent, canAnswerEscalation } from '@/lib/auth/access';
+import { authorize } from '@/lib/auth/guards';
+import { getConversationRepository } from '@/lib/store/conversationStore';
+import { getDiagnosis } from '@/lib/store/diagnosesStore';
+
+// An escalated conversation with its full transcript. Conversations that
+// were not escalated, or that went to another team, are reported missing.
+// Doctors outside the care team may read one about a diagnosis the patient
+// shared with them.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { session, error: authError } = await authorize(request, ['doctor']);
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+    const conversation = await getConversationRepository().getConversation(id);
+    const diagnosis = conversation?.diagnosisId ? await getDiagnosis(conversation.diagnosisId) : undefined;
+    const readable = !!conversation?.escalation && (
+      canAnswerEscalation(session, conversation, diagnosis) ||
+      (!!diagnosis && await canAccessDiagnosisWithConsent(session, diagnosis))
+    );
+    if (!conversation || !readable) {
+      return NextResponse.json(
+        { error: "Conversation not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ conversation });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch conversation" },
+      { status: 500 }
+    );
+  }
+}
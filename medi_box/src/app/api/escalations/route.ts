@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/guards';
+import { canAnswerEscalation, escalationScopeFor } from '@/lib/auth/access';
+import { EscalationStatus, getConversationRepository } from '@/lib/store/conversationStore';
+import { getDiagnosis } from '@/lib/store/diagnosesStore';
+
+const ESCALATION_STATUSES: EscalationStatus[] = ['open', 'answered'];
+
+// The doctor's inbox: conversations patients handed to a doctor, open ones
+// first and longest waiting first, without their messages.
+// `?status=open|answered` keeps one kind.
+export async function GET(request: NextRequest) {
+  const { session, error: authError } = await authorize(request, ['doctor']);
+  if (authError) return authError;
+
+  try {
+    const status = request.nextUrl.searchParams.get('status');
+    if (status && !ESCALATION_STATUSES.includes(status as EscalationStatus)) {
+      return NextResponse.json(
+        { error: `Invalid status. Must be one of: ${ESCALATION_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const candidates = await getConversationRepository().listEscalations({
+      ...escalationScopeFor(session),
+      status: (status as EscalationStatus | null) ?? undefined,
+    });
+    const answerable = await Promise.all(candidates.map(async (escalation) => canAnswerEscalation(
+      session,
+      escalation,
+      escalation.diagnosisId ? await getDiagnosis(escalation.diagnosisId) : undefined
+    )));
+    const escalations = candidates.filter((_, index) => answerable[index]);
+    return NextResponse.json({ escalations });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch escalations" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest } from 'next/server';
+import { recordDiagnosisAudit } from '@/lib/audit/auditLog';
+import { canAccessDiagnosisWithConsent } from '@/lib/auth/access';
+import { authorize } from '@/lib/auth/guards';
+import { diagnosticReportOf } from '@/lib/fhir/diagnosisExport';
+import { fhirError, fhirResponse } from '@/lib/fhir/responses';
+import { getDiagnosis } from '@/lib/store/diagnosesStore';
+
+// One diagnosis as a FHIR DiagnosticReport, with its Observations,
+// Condition, Media and Practitioner contained. Doctors outside the care
+// relationship need a consent grant with the export scope.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { session, error: authError } = await authorize(request);
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+    const diagnosis = await getDiagnosis(id);
+    if (!diagnosis || !(await canAccessDiagnosisWithConsent(session, diagnosis, 'export'))) {
+      return fhirError(404, 'not-found', [`DiagnosticReport/${id} not found`]);
+    }
+
+    await recordDiagnosisAudit(request, session, {
+      action: 'export',
+      before: diagnosis,
+      after: diagnosis,
+      details: { format: 'fhir_r4', resource: 'DiagnosticReport' }
+    });
+
+    return fhirResponse(diagnosticReportOf(diagnosis, request.nextUrl.origin));
+  } catch (error) {
+    console.error("API error:", error);
+    return fhirError(500, 'exception', ["Failed to export the diagnostic report"]);
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest } from 'next/server';
+import { recordDiagnosisAudit } from '@/lib/audit/auditLog';
+import { canAccessDiagnosisWithConsent } from '@/lib/auth/access';
+import { authorize } from '@/lib/auth/guards';
+import { patientBundleOf } from '@/lib/fhir/diagnosisExport';
+import { fhirError, fhirResponse } from '@/lib/fhir/responses';
+import { getDiagnosesRepository } from '@/lib/store/diagnosesStore';
+import { getUsersRepository } from '@/lib/store/usersStore';
+
+// Patient $everything: a searchset Bundle with every diagnosis of the
+// patient the caller may export. Patients export their own record; doctors
+// get the diagnoses their care relationship or consent grants cover.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { session, error: authError } = await authorize(request);
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+    const patient = await getUsersRepository().getUser(id);
+    if (!patient || patient.role !== 'patient' || (session.role === 'patient' && session.id !== id)) {
+      return fhirError(404, 'not-found', [`Patient/${id} not found`]);
+    }
+
+    const diagnoses = await getDiagnosesRepository().listDiagnoses({ patientId: id }, { sort: 'newest' });
+    const exported = [];
+    for (const diagnosis of diagnoses) {
+      if (await canAccessDiagnosisWithConsent(session, diagnosis, 'export')) {
+        exported.push(diagnosis);
+      }
+    }
+    // Other patients' records stay invisible, including whether they exist
+    if (exported.length === 0 && session.id !== id && session.role !== 'admin') {
+      return fhirError(404, 'not-found', [`Patient/${id} not found`]);
+    }
+
+    for (const diagnosis of exported) {
+      await recordDiagnosisAudit(request, session, {
+        action: 'export',
+        before: diagnosis,
+        after: diagnosis,
+        details: { format: 'fhir_r4', resource: 'Bundle' }
+      });
+    }
+
+    return fhirResponse(patientBundleOf(patient, exported, request.nextUrl.origin));
+  } catch (error) {
+    console.error("API error:", error);
+    return fhirError(500, 'exception', ["Failed to export the patient's records"]);
+  }
+}
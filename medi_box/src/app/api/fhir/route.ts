@@ -0,0 +1,182 @@
+import { NextRequest } from 'next/server';
+import { recordDiagnosisAudit } from '@/lib/audit/auditLog';
+import { authorize } from '@/lib/auth/guards';
+import { ImportedReport, importedReportsOf, PatientMatch } from '@/lib/fhir/bundleImport';
+import { parseBundle } from '@/lib/fhir/resources';
+import { fhirError, fhirResponse, operationOutcome } from '@/lib/fhir/responses';
+import { addDiagnosis } from '@/lib/store/diagnosesStore';
+import { getUploadsRepository, UploadRecord } from '@/lib/store/uploadsStore';
+import { getUsersRepository, UserRecord } from '@/lib/store/usersStore';
+import {
+  MAX_STUDY_IMAGES,
+  storeMedicalImage,
+  toDiagnosisImage,
+  validateImageFile
+} from '@/lib/uploads/medicalImages';
+
+type MappedReport = Exclude<ImportedReport, { skipped: string }>;
+
+// A report whose patient is resolved and whose images passed validation
+interface ReadyReport {
+  report: MappedReport;
+  patient: UserRecord;
+  files: File[];
+  uploads: UploadRecord[];
+}
+
+async function findPatient(match: PatientMatch): Promise<UserRecord | undefined> {
+  const users = getUsersRepository();
+  const user = (match.patientId ? await users.getUser(match.patientId) : undefined)
+    ?? (match.email ? await users.findUserByEmail(match.email) : undefined);
+  return user?.role === 'patient' ? user : undefined;
+}
+
+function imageFiles(report: MappedReport): File[] {
+  return report.images.map((image, index) => new File(
+    [Buffer.from(image.data ?? '', 'base64')],
+    image.title || `image-${index + 1}`,
+    { type: image.contentType }
+  ));
+}
+
+// Import a Bundle from another system. Every DiagnosticReport becomes a
+// diagnosis of the MediBox patient its subject identifies, by MediBox
+// patient id or email. The whole bundle is validated and every patient
+// resolved before any diagnosis is written. Doctors import for patients
+// of their own care team. Transaction bundles are refused: the reports are
+// written one by one, which a batch allows but a transaction does not.
+export async function POST(request: NextRequest) {
+  const { session, error: authError } = await authorize(request, ['doctor']);
+  if (authError) return authError;
+
+  try {
+    const body = await request.json().catch(() => undefined);
+    const parsed = parseBundle(body);
+    if (!parsed.success) {
+      return fhirError(400, 'invalid', parsed.issues);
+    }
+
+    const { bundle, resources } = parsed;
+    if (bundle.type === 'transaction') {
+      return fhirError(422, 'not-supported', ["Transaction bundles are not supported; send the reports as a batch"]);
+    }
+    const reports = importedReportsOf(resources);
+    if (reports.length === 0) {
+      return fhirError(422, 'processing', ["The bundle contains no DiagnosticReport"]);
+    }
+
+    const issues: string[] = [];
+    const ready = new Map<ImportedReport, ReadyReport>();
+    for (const report of reports) {
+      if (report.skipped !== undefined) continue;
+
+      const patient = await findPatient(report.patient);
+      if (!patient) {
+        const subject = report.patient.display ? ` (${report.patient.display})` : '';
+        issues.push(`${report.source}: subject${subject} does not match a MediBox patient by id or email`);
+        continue;
+      }
+      if (session.role === 'doctor' && patient.careTeamId !== session.careTeamId) {
+        issues.push(`${report.source}: the patient is not in your care team`);
+        continue;
+      }
+      if (report.images.length > MAX_STUDY_IMAGES) {
+        issues.push(`${report.source}: a report may have at most ${MAX_STUDY_IMAGES} images`);
+        continue;
+      }
+
+      const files = imageFiles(report);
+      const fileErrors = files
+        .map(validateImageFile)
+        .filter((message): message is string => !!message);
+      issues.push(...fileErrors.map((message) => `${report.source}: ${message}`));
+      ready.set(report, { report, patient, files, uploads: [] });
+    }
+
+    if (issues.length > 0) {
+      return fhirError(422, 'processing', issues);
+    }
+
+    // Images are stored before any diagnosis so undecodable content still
+    // rejects the bundle; uploads of a rejected bundle stay unattached
+    try {
+      for (const item of ready.values()) {
+        for (const file of item.files) {
+          item.uploads.push(await storeMedicalImage(item.patient.id, file));
+        }
+      }
+    } catch (error) {
+      return fhirError(422, 'processing', [error instanceof Error ? error.message : "An image could not be stored"]);
+    }
+
+    const importedAt = new Date().toISOString();
+    const entry = [];
+    for (const report of reports) {
+      const item = ready.get(report);
+      if (!item) {
+        entry.push({
+          response: {
+            status: '422 Unprocessable Entity',
+            outcome: operationOutcome('processing', [`${report.source} was not imported: ${report.skipped}`], 'warning'),
+          },
+        });
+        continue;
+      }
+
+      const { patient, uploads } = item;
+      const images = uploads.map(toDiagnosisImage);
+      const created = await addDiagnosis({
+        ...item.report.diagnosis,
+        patientId: patient.id,
+        patientName: patient.name,
+        careTeamId: patient.careTeamId,
+        imageSrc: images[0]?.src ?? "",
+        imageUploadId: images[0]?.uploadId,
+        thumbnailSrc: images[0]?.thumbnailSrc,
+        images: images.length > 0 ? images : undefined,
+        importedFrom: {
+          format: 'fhir_r4',
+          bundleId: bundle.id,
+          reportId: report.reportId,
+          importedAt,
+          importedBy: session.id,
+          ...item.report.sourceReview,
+        },
+      });
+      for (const upload of uploads) {
+        await getUploadsRepository().updateUpload(upload.id, { diagnosisId: created.id });
+      }
+      await recordDiagnosisAudit(request, session, {
+        action: 'create',
+        after: created,
+        details: {
+          source: 'fhir_r4',
+          bundleId: bundle.id,
+          reportId: report.reportId,
+          uploadIds: uploads.map((upload) => upload.id)
+        }
+      });
+
+      const skippedImages = item.report.skippedImages;
+      entry.push({
+        response: {
+          status: '201 Created',
+          location: `DiagnosticReport/${created.id}`,
+          outcome: skippedImages > 0
+            ? operationOutcome('not-supported', [`${skippedImages} image(s) without embedded data were not imported`], 'warning')
+            : undefined,
+        },
+      });
+    }
+
+    return fhirResponse({
+      resourceType: 'Bundle',
+      type: 'batch-response',
+      timestamp: importedAt,
+      entry
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return fhirError(500, 'exception', ["Failed to import the bundle"]);
+  }
+}
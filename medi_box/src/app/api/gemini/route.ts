@@ -1,56 +1,56 @@
-import {
-  GoogleGenerativeAI,
-  HarmCategory,
-  HarmBlockThreshold,
-} from "@google/generative-ai";
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
+import { ChatMessage, getAIProvider } from "@/lib/ai/ai";
+import { authorize } from "@/lib/auth/guards";
+import { chatGroundingOf, citationsIn } from "@/lib/diagnoses/chatGrounding";
+import { ChatStreamEvent, chatStreamEvent } from "@/lib/events/chatStream";
+import { CONVERSATION_CONTEXT_MESSAGES, ConversationMessage, getConversationRepository } from "@/lib/store/conversationStore";
+import { getDiagnosis } from "@/lib/store/diagnosesStore";
+import { emergencyNotice, triageText } from "@/lib/triage/triage";
 
 export const dynamic = "force-dynamic";
 export const maxDuration = 60;
 
-if (!process.env.GOOGLE_AI_API_KEY) {
-  console.error("GOOGLE_AI_API_KEY is not configured");
+// User-facing message for a failed chat request
+function chatErrorResponse(error: unknown): { message: string; status: number } {
+  if (error instanceof Error && error.message?.includes("API key")) {
+    return { message: "API configuration error. Please contact support.", status: 500 };
+  }
+
+  if (error instanceof Error && error.message?.includes("quota")) {
+    return { message: "Service temporarily unavailable. Please try again later.", status: 503 };
+  }
+
+  return { message: "Failed to process your request. Please try again.", status: 500 };
 }
 
-const genAI = new GoogleGenerativeAI(process.env.GOOGLE_AI_API_KEY || "");
-
-// Enhanced safety settings for medical content
-const safetySettings = [
-  {
-    category: HarmCategory.HARM_CATEGORY_HARASSMENT,
-    threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
-  },
-  {
-    category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
-    threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
-  },
-  {
-    category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
-    threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
-  },
-  {
-    category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
-    threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
-  },
-];
-
-// Enhanced generation config
-const generationConfig = {
-  temperature: 0.7,
-  topP: 0.9,
-  topK: 40,
-  maxOutputTokens: 2048,
-};
-
-const model = genAI.getGenerativeModel({
-  model: "gemini-2.5-flash-lite",
-  safetySettings,
-  generationConfig,
-});
-
-export async function POST(request: Request) {
+// A doctor's reply in an escalated conversation reaches the model as a turn
+// on the care side, labelled so the model does not take it for its own
+function toChatMessage({ role, content, author }: ConversationMessage): ChatMessage {
+  if (role !== "doctor") return { role, content };
+  return { role: "assistant", content: `[Reply from ${author?.name ?? "the patient's doctor"}, not the assistant]\n${content}` };
+}
+
+export async function POST(request: NextRequest) {
+  const { session, error: authError } = await authorize(request);
+  if (authError) return authError;
+
   try {
-    const { message, category, conversationHistory } = await request.json();
+    const body = await request.json();
+    const provider = getAIProvider();
+
+    // Follow-up recommendations for an existing diagnosis
+    if (body.type === "followup") {
+      if (!body.data?.diagnosis || typeof body.data.diagnosis !== "string") {
+        return NextResponse.json(
+          { error: "Diagnosis is required" },
+          { status: 400 }
+        );
+      }
+      const result = await provider.followUp(body.data.diagnosis, body.patientQuestion);
+      return NextResponse.json({ result });
+    }
+
+    const { message, category, conversationHistory, conversationId } = body;
 
     // Validate input
     if (!message || typeof message !== "string") {
@@ -67,84 +67,76 @@ export async function POST(request: Request) {
       );
     }
 
-    // Build conversation context if history exists
-    let conversationContext = "";
-    if (
-      conversationHistory &&
-      Array.isArray(conversationHistory) &&
-      conversationHistory.length > 0
-    ) {
-      conversationContext =
-        "\n\nPrevious conversation context:\n" +
-        conversationHistory
-          .slice(-6)
-          .map(
-            (msg: { role: string; content: string }) =>
-              `${msg.role === "user" ? "Patient" : "MedAssist"}: ${msg.content}`
-          )
-          .join("\n");
+    // In a stored conversation the history comes from the server and the
+    // exchange is recorded there; otherwise the client sends the history
+    const conversations = getConversationRepository();
+    const conversation = conversationId ? await conversations.getConversation(String(conversationId)) : undefined;
+    if (conversationId && (!conversation || conversation.userId !== session.id)) {
+      return NextResponse.json(
+        { error: "Conversation not found" },
+        { status: 404 }
+      );
     }
 
-    const contextPrompt = `You are MedAssist, a compassionate and knowledgeable AI medical assistant integrated into a healthcare platform. Your purpose is to provide helpful, evidence-based health information while maintaining appropriate boundaries.
-
-Key Principles:
-- Provide clear, accurate, and empathetic responses
-- Use medical knowledge responsibly and cite general medical consensus when applicable
-- Always acknowledge uncertainty and recommend professional consultation when appropriate
-- Format responses for readability with markdown (headings, bullet points, bold for emphasis)
-- Be conversational yet professional
-- Never diagnose or prescribe medication
-- Prioritize patient safety and well-being
-
-Current Context:
-- Health Category: ${category || "General Health"}
-- Patient Query: ${message}${conversationContext}
-
-Response Guidelines:
-1. Address the query directly and comprehensively
-2. Structure information clearly (use headings, lists, or numbered points when appropriate)
-3. Highlight important information using **bold** text
-4. Include relevant context or explanations
-5. Add appropriate disclaimers (e.g., "This is general information, not medical advice")
-6. If emergency symptoms are mentioned, emphasize seeking immediate medical attention
-7. End with 3-4 relevant follow-up questions the patient might ask
-
-Format your follow-up questions section as:
-
-**Follow-up Questions:**
-- Question 1
-- Question 2  
-- Question 3
-- Question 4
-
-Remember: You're here to educate and guide, not to replace healthcare professionals.`;
-
-    // Use real streaming from Gemini
-    const result = await model.generateContentStream(contextPrompt);
+    // A conversation about a diagnosis is grounded in that record alone,
+    // and only while it is still the signed-in patient's own
+    const diagnosis = conversation?.diagnosisId ? await getDiagnosis(conversation.diagnosisId) : undefined;
+    if (conversation?.diagnosisId && (!diagnosis || diagnosis.patientId !== session.id)) {
+      return NextResponse.json(
+        { error: "Diagnosis not found" },
+        { status: 404 }
+      );
+    }
+    const grounding = diagnosis ? chatGroundingOf(diagnosis) : undefined;
+
+    const history: ChatMessage[] = conversation
+      ? conversation.messages
+          .slice(-CONVERSATION_CONTEXT_MESSAGES)
+          .map(toChatMessage)
+      : Array.isArray(conversationHistory)
+      ? conversationHistory.map((msg: { role: string; content: string }) => ({
+          role: msg.role === "user" ? "user" : "assistant",
+          content: String(msg.content),
+        }))
+      : [];
+
+    // Emergencies are caught by rule before the model is asked, so the
+    // patient is warned even if the model misses them or fails
+    const emergency = await triageText(message);
+    const emergencies = emergency?.matches.map((match) => match.title);
+
+    // Wait for the first chunk so provider failures still map to an error response
+    const chunks = provider.streamChat({ message, category, history, grounding, emergencies })[Symbol.asyncIterator]();
+    const first = await chunks.next();
 
-    // Create a new ReadableStream for streaming the response
     const stream = new ReadableStream({
       async start(controller) {
         const encoder = new TextEncoder();
+        const send = (event: ChatStreamEvent) => controller.enqueue(encoder.encode(chatStreamEvent(event)));
 
         try {
           let fullText = '';
+          let blocked = false;
           let chunkCount = 0;
           const startTime = Date.now();
 
           console.log('🚀 Starting streaming at:', new Date().toISOString());
 
-          // Stream chunks as Gemini generates them
-          for await (const chunk of result.stream) {
-            chunkCount++;
-            const chunkText = chunk.text();
-            fullText += chunkText;
-            
-            const elapsed = Date.now() - startTime;
-            console.log(`📤 Chunk ${chunkCount} at ${elapsed}ms:`, chunkText.substring(0, 50).replace(/\n/g, '↵'));
-            
-            // Send each chunk immediately as it arrives from Gemini
-            controller.enqueue(encoder.encode(chunkText));
+          if (emergency) send({ event: 'emergency', data: emergency });
+
+          // Stream chunks as the provider generates them
+          for (let next = first; !next.done; next = await chunks.next()) {
+            const chunk = next.value;
+            if (chunk.type === 'text') {
+              chunkCount++;
+              fullText += chunk.text;
+              send({ event: 'delta', data: { text: chunk.text } });
+            } else if (chunk.type === 'safety') {
+              blocked = chunk.safety.blocked;
+              send({ event: 'safety', data: chunk.safety });
+            } else {
+              send({ event: 'usage', data: chunk.usage });
+            }
           }
 
           console.log(`✅ Loop finished at ${Date.now() - startTime}ms. Total chunks: ${chunkCount}`);
@@ -162,53 +154,61 @@ Remember: You're here to educate and guide, not to replace healthcare profession
               .filter((line) => line.length > 10 && line.length < 150);
           }
 
-          // Send suggestions and metadata as the final chunk
-          const metadata = {
-            suggestions,
-            done: true,
-            timestamp: new Date().toISOString(),
-            category: category || "general",
-          };
+          // The reply to an emergency must say how to get help; when the
+          // model left that out it is added, after the suggestions were read.
+          // The reply itself is not triaged: its warning signs are advice
+          // on what to watch for, not what the patient has.
+          if (emergency && !blocked && !fullText.includes(emergency.emergencyNumber)) {
+            const notice = emergencyNotice(emergency);
+            fullText += notice;
+            send({ event: 'delta', data: { text: notice } });
+          }
+
+          send({ event: 'suggestions', data: { suggestions } });
 
-          controller.enqueue(
-            encoder.encode("\n___METADATA___\n" + JSON.stringify(metadata))
-          );
+          const citations = grounding ? citationsIn(fullText, grounding) : [];
+          if (grounding) send({ event: 'citations', data: { citations } });
 
+          // Recorded only once the reply is complete, so a failed exchange
+          // can be retried without leaving half of it behind. A blocked
+          // reply is not kept either.
+          const stored = !!conversation && !blocked;
+          if (stored) {
+            await conversations.appendMessages(conversation.id, [
+              { role: "user", content: message },
+              { role: "assistant", content: fullText, suggestions, ...(grounding && { citations }), ...(emergency && { emergency }) },
+            ]);
+          }
+
+          send({
+            event: 'done',
+            data: {
+              category: category || "general",
+              timestamp: new Date().toISOString(),
+              stored,
+            },
+          });
           controller.close();
         } catch (error) {
+          // The client went away while the reply was being written
+          if (request.signal.aborted) return;
+          // The response has started, so the failure is reported in the stream
           console.error("Streaming error:", error);
-          controller.error(error);
+          send({ event: 'error', data: { message: chatErrorResponse(error).message } });
+          controller.close();
         }
       },
     });
 
     return new Response(stream, {
       headers: {
-        "Content-Type": "text/plain; charset=utf-8",
-        "Transfer-Encoding": "chunked",
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
       },
     });
   } catch (error: unknown) {
     console.error("Error in chat API:", error);
-
-    // Handle specific error types
-    if (error instanceof Error && error.message?.includes("API key")) {
-      return NextResponse.json(
-        { error: "API configuration error. Please contact support." },
-        { status: 500 }
-      );
-    }
-
-    if (error instanceof Error && error.message?.includes("quota")) {
-      return NextResponse.json(
-        { error: "Service temporarily unavailable. Please try again later." },
-        { status: 503 }
-      );
-    }
-
-    return NextResponse.json(
-      { error: "Failed to process your request. Please try again." },
-      { status: 500 }
-    );
+    const { message, status } = chatErrorResponse(error);
+    return NextResponse.json({ error: message }, { status });
   }
 }
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/guards';
+import { retryDeadJob } from '@/lib/jobs/jobQueue';
+import { toPublicJob } from '@/lib/store/jobStore';
+
+// Move a dead-lettered job back to the queue (admin only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { error: authError } = await authorize(request, ['admin']);
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+    const job = await retryDeadJob(id);
+    if (!job) {
+      return NextResponse.json(
+        { error: "No dead-lettered job with this id" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, job: toPublicJob(job) });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to retry job" },
+      { status: 500 }
+    );
+  }
+}
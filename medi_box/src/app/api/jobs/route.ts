@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/guards';
+import { getJobRepository, JOB_STATUSES, JobStatus, toPublicJob } from '@/lib/store/jobStore';
+
+// Background jobs, newest first (admin only). ?status=dead lists the
+// dead-letter queue; every job carries the errors of its failed attempts.
+export async function GET(request: NextRequest) {
+  const { error: authError } = await authorize(request, ['admin']);
+  if (authError) return authError;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') as JobStatus | null;
+    if (status && !JOB_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `Invalid status. Expected one of: ${JOB_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    const limit = Math.min(200, Math.max(1, parseInt(searchParams.get('limit') || '50') || 50));
+
+    const jobs = await getJobRepository().listJobs({ status: status ?? undefined }, limit);
+    return NextResponse.json({
+      jobs: jobs.map((job) => ({ ...toPublicJob(job), errors: job.errors }))
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch jobs" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/guards';
+import { pollingEventStream, serverSentEvent } from '@/lib/events/serverSentEvents';
+import { getNotificationRepository } from '@/lib/store/notificationStore';
+
+const POLL_INTERVAL_MS = 3000;
+
+// Server-sent events for the signed-in user: a `notification` event for
+// every notification created after the stream opened, and an `unread` event
+// with the unread count when the stream opens and whenever it changes,
+// including when another tab marks notifications read.
+export async function GET(request: NextRequest) {
+  const { session, error: authError } = await authorize(request);
+  if (authError) return authError;
+
+  try {
+    const repository = getNotificationRepository();
+    let since = new Date().toISOString();
+    // Notifications created in the same millisecond as `since` are listed
+    // again by the next poll
+    const sentAtSince = new Set<string>();
+    let unreadCount: number | undefined;
+
+    return pollingEventStream(request.signal, async () => {
+      const events: string[] = [];
+
+      const created = (await repository.listNotifications(session.id, { since, limit: 100 }))
+        .filter((notification) => !sentAtSince.has(notification.id))
+        .reverse();
+      for (const notification of created) {
+        events.push(serverSentEvent('notification', notification));
+      }
+      if (created.length > 0) {
+        const latest = created[created.length - 1].createdAt;
+        if (latest !== since) sentAtSince.clear();
+        since = latest;
+        created
+          .filter((notification) => notification.createdAt === since)
+          .forEach((notification) => sentAtSince.add(notification.id));
+      }
+
+      const count = await repository.countUnread(session.id);
+      if (count !== unreadCount) {
+        unreadCount = count;
+        events.push(serverSentEvent('unread', { count }));
+      }
+      return { events };
+    }, POLL_INTERVAL_MS);
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to stream notifications" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/guards';
+import { getNotificationRepository } from '@/lib/store/notificationStore';
+
+// Mark notifications read: the ones listed in `ids`, or all of the user's
+// notifications when `ids` is left out
+export async function POST(request: NextRequest) {
+  const { session, error: authError } = await authorize(request);
+  if (authError) return authError;
+
+  try {
+    const { ids } = await request.json().catch(() => ({}));
+    if (ids !== undefined && !(Array.isArray(ids) && ids.every((id) => typeof id === 'string'))) {
+      return NextResponse.json(
+        { error: "ids must be a list of notification ids" },
+        { status: 400 }
+      );
+    }
+
+    const repository = getNotificationRepository();
+    const updated = await repository.markRead(session.id, new Date().toISOString(), ids);
+    return NextResponse.json({
+      success: true,
+      updated,
+      unreadCount: await repository.countUnread(session.id)
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to update notifications" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/guards';
+import { getNotificationRepository } from '@/lib/store/notificationStore';
+
+// The signed-in user's notifications, newest first. ?unread=true leaves
+// out the ones already read.
+export async function GET(request: NextRequest) {
+  const { session, error: authError } = await authorize(request);
+  if (authError) return authError;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20') || 20));
+
+    const repository = getNotificationRepository();
+    const [notifications, unreadCount] = await Promise.all([
+      repository.listNotifications(session.id, { unreadOnly: searchParams.get('unread') === 'true', limit }),
+      repository.countUnread(session.id)
+    ]);
+
+    return NextResponse.json({ notifications, unreadCount });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch notifications" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { recordDiagnosisAudit } from '@/lib/audit/auditLog';
+import { authorize } from '@/lib/auth/guards';
+import { getDiagnosis } from '@/lib/store/diagnosesStore';
+import { getShareLinkRepository, shareLinkStatus } from '@/lib/store/shareLinkStore';
+
+// The patient disables a share link. Anyone holding the URL gets a 410 from
+// then on; the record stays in the patient's list as revoked.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { session, error: authError } = await authorize(request, ['patient']);
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+    const repository = getShareLinkRepository();
+
+    const link = await repository.getLink(id);
+    if (!link || link.patientId !== session.id) {
+      return NextResponse.json(
+        { error: "Share link not found" },
+        { status: 404 }
+      );
+    }
+
+    if (link.revokedAt) {
+      return NextResponse.json(
+        { error: "Share link is already revoked" },
+        { status: 409 }
+      );
+    }
+
+    const revoked = await repository.revokeLink(id, new Date().toISOString());
+    if (!revoked) {
+      return NextResponse.json(
+        { error: "Share link not found" },
+        { status: 404 }
+      );
+    }
+
+    const diagnosis = await getDiagnosis(link.diagnosisId);
+    if (diagnosis) {
+      await recordDiagnosisAudit(request, session, {
+        action: 'share',
+        before: diagnosis,
+        after: diagnosis,
+        details: { shareLinkId: id, revoked: true }
+      });
+    }
+
+    const { pinHash, ...rest } = revoked;
+    return NextResponse.json({
+      success: true,
+      link: { ...rest, hasPin: !!pinHash, status: shareLinkStatus(revoked) }
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke share link" },
+      { status: 500 }
+    );
+  }
+}
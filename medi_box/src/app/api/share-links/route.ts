@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { recordDiagnosisAudit } from '@/lib/audit/auditLog';
+import { authorize } from '@/lib/auth/guards';
+import { hashPassword } from '@/lib/auth/password';
+import { createShareLinkToken, SHARE_LINK_MAX_DAYS, shareLinkUrl } from '@/lib/auth/shareLinks';
+import { getDiagnosis } from '@/lib/store/diagnosesStore';
+import { getShareLinkRepository, ShareLink, shareLinkStatus } from '@/lib/store/shareLinkStore';
+
+const ShareLinkRequestSchema = z.object({
+  diagnosisId: z.string().min(1),
+  expiresAt: z.string().datetime({ offset: true }),
+  pin: z.string().regex(/^\d{4,8}$/, 'PIN must be 4 to 8 digits').optional(),
+  maxViews: z.number().int().min(1).max(100).optional(),
+});
+
+// A link as shown to its owner: never the PIN hash, always the URL
+async function toPublicLink(link: ShareLink, origin: string, now: string) {
+  const { pinHash, ...rest } = link;
+  const diagnosis = await getDiagnosis(link.diagnosisId);
+  return {
+    ...rest,
+    hasPin: !!pinHash,
+    status: shareLinkStatus(link, now),
+    url: shareLinkUrl(origin, await createShareLinkToken({ linkId: link.id, diagnosisId: link.diagnosisId })),
+    diagnosis: diagnosis
+      ? { id: diagnosis.id, type: diagnosis.type, aiDiagnosis: diagnosis.aiDiagnosis, diagnosisDate: diagnosis.diagnosisDate }
+      : undefined
+  };
+}
+
+// Every share link the patient created
+export async function GET(request: NextRequest) {
+  const { session, error: authError } = await authorize(request, ['patient']);
+  if (authError) return authError;
+
+  try {
+    const now = new Date().toISOString();
+    const links = await getShareLinkRepository().listLinksByPatient(session.id);
+
+    return NextResponse.json({
+      links: await Promise.all(links.map((link) => toPublicLink(link, request.nextUrl.origin, now)))
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch share links" },
+      { status: 500 }
+    );
+  }
+}
+
+// Create an expiring link that opens a read-only copy of one diagnosis
+export async function POST(request: NextRequest) {
+  const { session, error: authError } = await authorize(request, ['patient']);
+  if (authError) return authError;
+
+  try {
+    const parsed = ShareLinkRequestSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid share link", issues: parsed.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`) },
+        { status: 400 }
+      );
+    }
+    const { diagnosisId, expiresAt, pin, maxViews } = parsed.data;
+
+    const expiry = new Date(expiresAt);
+    if (expiry.getTime() <= Date.now() || expiry.getTime() > Date.now() + SHARE_LINK_MAX_DAYS * 24 * 60 * 60 * 1000) {
+      return NextResponse.json(
+        { error: `Expiry must be in the future and at most ${SHARE_LINK_MAX_DAYS} days away` },
+        { status: 400 }
+      );
+    }
+
+    const diagnosis = await getDiagnosis(diagnosisId);
+    if (!diagnosis || diagnosis.patientId !== session.id) {
+      return NextResponse.json(
+        { error: "Diagnosis not found" },
+        { status: 404 }
+      );
+    }
+
+    const link = await getShareLinkRepository().addLink({
+      diagnosisId,
+      patientId: session.id,
+      createdAt: new Date().toISOString(),
+      expiresAt: expiry.toISOString(),
+      pinHash: pin ? await hashPassword(pin) : undefined,
+      maxViews
+    });
+
+    await recordDiagnosisAudit(request, session, {
+      action: 'share',
+      before: diagnosis,
+      after: diagnosis,
+      details: { shareLinkId: link.id, expiresAt: link.expiresAt, hasPin: !!pin, maxViews }
+    });
+
+    return NextResponse.json(
+      { success: true, link: await toPublicLink(link, request.nextUrl.origin, new Date().toISOString()) },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to create share link" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { recordShareLinkAudit } from '@/lib/audit/auditLog';
+import { verifyPassword } from '@/lib/auth/password';
+import { createShareAccessToken, readShareLinkToken } from '@/lib/auth/shareLinks';
+import { patientReportOf, withImageAccess } from '@/lib/diagnoses/patientReport';
+import { notifyShareAccessed } from '@/lib/notifications/notify';
+import { getDiagnosis } from '@/lib/store/diagnosesStore';
+import { getShareLinkRepository, MAX_PIN_ATTEMPTS, ShareLinkStatus, shareLinkStatus } from '@/lib/store/shareLinkStore';
+
+// Public share link endpoints. No session is involved: the signed token in
+// the URL identifies the link, and the stored link decides whether it still
+// opens. Every attempt to open it goes to the diagnosis's audit trail.
+
+const UNAVAILABLE_MESSAGES: Record<Exclude<ShareLinkStatus, 'active'>, string> = {
+  expired: "This share link has expired",
+  revoked: "This share link has been revoked",
+  exhausted: "This share link has reached its view limit",
+  locked: "This share link is locked after too many incorrect PINs",
+};
+
+async function resolveLink(token: string) {
+  const claims = await readShareLinkToken(token);
+  if (!claims) return undefined;
+
+  const link = await getShareLinkRepository().getLink(claims.linkId);
+  if (!link || link.diagnosisId !== claims.diagnosisId) return undefined;
+
+  const diagnosis = await getDiagnosis(link.diagnosisId);
+  return diagnosis ? { link, diagnosis } : undefined;
+}
+
+function linkNotFound() {
+  return NextResponse.json(
+    { error: "Share link not found" },
+    { status: 404 }
+  );
+}
+
+// What the recipient needs before opening: whether the link still works and
+// whether it asks for a PIN. Does not count as a view.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const resolved = await resolveLink(token);
+    if (!resolved) return linkNotFound();
+
+    const { link } = resolved;
+    const status = shareLinkStatus(link);
+    return NextResponse.json({
+      status,
+      error: status === 'active' ? undefined : UNAVAILABLE_MESSAGES[status],
+      pinRequired: !!link.pinHash,
+      expiresAt: link.expiresAt
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to open share link" },
+      { status: 500 }
+    );
+  }
+}
+
+// Open the report, with `pin` in the body when the link has one
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const resolved = await resolveLink(token);
+    if (!resolved) return linkNotFound();
+
+    const { diagnosis, link } = resolved;
+    const repository = getShareLinkRepository();
+
+    const status = shareLinkStatus(link);
+    if (status !== 'active') {
+      await recordShareLinkAudit(request, diagnosis, link.id, { outcome: status });
+      return NextResponse.json(
+        { error: UNAVAILABLE_MESSAGES[status], status },
+        { status: 410 }
+      );
+    }
+
+    if (link.pinHash) {
+      const body = await request.json().catch(() => ({}));
+      const pin = typeof body.pin === 'string' ? body.pin : '';
+      if (!pin) {
+        return NextResponse.json(
+          { error: "PIN required", pinRequired: true },
+          { status: 401 }
+        );
+      }
+
+      // The attempt is counted before the slow comparison, so parallel
+      // guesses cannot all get past the lock; a correct PIN clears the count
+      const attempt = await repository.claimPinAttempt(link.id);
+      if (!attempt) {
+        await recordShareLinkAudit(request, diagnosis, link.id, { outcome: 'locked' });
+        return NextResponse.json(
+          { error: UNAVAILABLE_MESSAGES.locked, status: 'locked' },
+          { status: 410 }
+        );
+      }
+
+      if (!(await verifyPassword(pin, link.pinHash))) {
+        await recordShareLinkAudit(request, diagnosis, link.id, {
+          outcome: 'wrong_pin',
+          failedPinAttempts: attempt.failedPinAttempts
+        });
+        return NextResponse.json(
+          {
+            error: "Incorrect PIN",
+            pinRequired: true,
+            attemptsRemaining: Math.max(MAX_PIN_ATTEMPTS - attempt.failedPinAttempts, 0)
+          },
+          { status: 401 }
+        );
+      }
+      await repository.clearPinAttempts(link.id);
+    }
+
+    // Re-checked atomically: another open may have used the last view
+    const viewed = await repository.recordView(link.id, new Date().toISOString());
+    if (!viewed) {
+      const current = (await repository.getLink(link.id)) ?? link;
+      const currentStatus = shareLinkStatus(current);
+      const reason = currentStatus === 'active' ? 'exhausted' : currentStatus;
+      await recordShareLinkAudit(request, diagnosis, link.id, { outcome: reason });
+      return NextResponse.json(
+        { error: UNAVAILABLE_MESSAGES[reason], status: reason },
+        { status: 410 }
+      );
+    }
+
+    await recordShareLinkAudit(request, diagnosis, link.id, {
+      outcome: 'opened',
+      viewCount: viewed.viewCount,
+      maxViews: viewed.maxViews
+    });
+    await notifyShareAccessed(diagnosis, viewed);
+
+    const accessToken = await createShareAccessToken({ linkId: link.id, diagnosisId: diagnosis.id }, link.expiresAt);
+    return NextResponse.json({
+      report: withImageAccess(patientReportOf(diagnosis), accessToken),
+      expiresAt: viewed.expiresAt,
+      viewsRemaining: viewed.maxViews === undefined ? undefined : viewed.maxViews - viewed.viewCount
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to open share link" },
+      { status: 500 }
+    );
+  }
+}
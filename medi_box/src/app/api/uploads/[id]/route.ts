@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { canAccessDiagnosisWithConsent } from '@/lib/auth/access';
+import { authorize } from '@/lib/auth/guards';
+import { readShareAccessToken } from '@/lib/auth/shareLinks';
+import { getObjectStorage } from '@/lib/storage/storage';
+import { getDiagnosis } from '@/lib/store/diagnosesStore';
+import { getShareLinkRepository } from '@/lib/store/shareLinkStore';
+import { getUploadsRepository } from '@/lib/store/uploadsStore';
+
+// Whether a share link's access token covers this diagnosis. Revoking the
+// link cuts off its images too; view limits only apply to opening the report.
+async function shareAccessAllows(accessToken: string, diagnosisId: string | undefined): Promise<boolean> {
+  const claims = await readShareAccessToken(accessToken);
+  if (!claims || !diagnosisId || claims.diagnosisId !== diagnosisId) return false;
+
+  const link = await getShareLinkRepository().getLink(claims.linkId);
+  return !!link && !link.revokedAt && link.expiresAt > new Date().toISOString();
+}
+
+// Serves an uploaded image, its thumbnail (?variant=thumbnail) or a rendered
+// DICOM frame (?variant=frame&frame=n). Share link recipients have no session
+// and pass the access token from the opened report as ?share=.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const searchParams = new URL(request.url).searchParams;
+  const shareAccess = searchParams.get('share');
+
+  const { session, error: authError } = shareAccess
+    ? { session: null, error: null }
+    : await authorize(request);
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+    const upload = await getUploadsRepository().getUpload(id);
+
+    // Owners always see their files; anyone else needs access to the
+    // diagnosis the file is attached to
+    let allowed = false;
+    if (upload && shareAccess) {
+      allowed = await shareAccessAllows(shareAccess, upload.diagnosisId);
+    } else if (upload && session) {
+      allowed = upload.ownerId === session.id || session.role === 'admin';
+      if (!allowed && upload.diagnosisId) {
+        const diagnosis = await getDiagnosis(upload.diagnosisId);
+        allowed = !!diagnosis && (await canAccessDiagnosisWithConsent(session, diagnosis));
+      }
+    }
+
+    if (!upload || !allowed) {
+      return NextResponse.json(
+        { error: "File not found" },
+        { status: 404 }
+      );
+    }
+
+    const variant = searchParams.get('variant');
+    let key = variant === 'thumbnail' && upload.thumbnailKey ? upload.thumbnailKey : upload.storageKey;
+    if (variant === 'frame') {
+      const frameKey = upload.frameKeys?.[Number(searchParams.get('frame') ?? 0)];
+      if (!frameKey) {
+        return NextResponse.json(
+          { error: "Frame not found" },
+          { status: 404 }
+        );
+      }
+      key = frameKey;
+    }
+    const stored = await getObjectStorage().get(key);
+    if (!stored) {
+      return NextResponse.json(
+        { error: "File not found" },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(new Uint8Array(stored.bytes), {
+      headers: {
+        'Content-Type': stored.contentType,
+        'Content-Length': String(stored.bytes.length),
+        'Content-Disposition': `inline; filename="${encodeURIComponent(upload.fileName)}"`,
+        'Cache-Control': 'private, max-age=3600',
+      },
+    });
+  } catch (error) {
+    console.error("API error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch file" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/guards';
+import {
+  MAX_UPLOAD_BYTES,
+  storeMedicalImage,
+  toPublicUpload,
+  validateImageFile
+} from '@/lib/uploads/medicalImages';
+
+// Accepts one or more medical images as multipart/form-data under `file`
+export async function POST(request: NextRequest) {
+  const { session, error: authError } = await authorize(request, ['patient']);
+  if (authError) return authError;
+
+  try {
+    let formData: FormData;
+    try {
+      formData = await request.formData();
+    } catch {
+      return NextResponse.json(
+        { error: "Expected multipart/form-data" },
+        { status: 400 }
+      );
+    }
+
+    const files = formData.getAll('file').filter((entry): entry is File => entry instanceof File);
+    if (files.length === 0) {
+      return NextResponse.json(
+        { error: "No files provided" },
+        { status: 400 }
+      );
+    }
+
+    // Validate everything before storing anything
+    const validationErrors = files.map(validateImageFile).filter(Boolean);
+    if (validationErrors.length > 0) {
+      return NextResponse.json(
+        { error: validationErrors.join('; '), maxBytes: MAX_UPLOAD_BYTES },
+        { status: 400 }
+      );
+    }
+
+    const uploads = [];
+    for (const file of files) {
+      try {
+        uploads.push(await storeMedicalImage(session.id, file));
+      } catch (err) {
+        return NextResponse.json(
+          { error: err instanceof Error ? err.message : `${file.name}: invalid image` },
+          { status: 400 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { success: true, uploads: uploads.map(toPublicUpload) },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Upload error:", error);
+    return NextResponse.json(
+      { error: "Failed to upload files" },
+      { status: 500 }
+    );
+  }
+}
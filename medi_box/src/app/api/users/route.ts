@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_CARE_TEAM_ID } from '@/lib/auth/access';
+import { authorize } from '@/lib/auth/guards';
+import { hashPassword } from '@/lib/auth/password';
+import { Role, ROLES } from '@/lib/auth/session';
+import { getUsersRepository, UserRecord } from '@/lib/store/usersStore';
+
+// Never send password hashes to the client
+function toPublicUser({ id, name, email, role, careTeamId, createdAt }: UserRecord) {
+  return { id, name, email, role, careTeamId, createdAt };
+}
+
+// List users (admin only), optionally filtered by role
+export async function GET(request: NextRequest) {
+  const { error } = await authorize(request, ['admin']);
+  if (error) return error;
+
+  try {
+    const role = new URL(request.url).searchParams.get('role') as Role | null;
+    const users = await getUsersRepository().listUsers(role && ROLES.includes(role) ? role : undefined);
+    return NextResponse.json({ users: users.map(toPublicUser) });
+  } catch (err) {
+    console.error("API error:", err);
+    return NextResponse.json(
+      { error: "Failed to fetch users" },
+      { status: 500 }
+    );
+  }
+}
+
+// Create an account of any role (admin only)
+export async function POST(request: NextRequest) {
+  const { error } = await authorize(request, ['admin']);
+  if (error) return error;
+
+  try {
+    const { name, email, password, role, careTeamId } = await request.json();
+
+    if (!name || !email || !password || !ROLES.includes(role)) {
+      return NextResponse.json(
+        { error: "Name, email, password and a valid role are required" },
+        { status: 400 }
+      );
+    }
+
+    const users = getUsersRepository();
+    if (await users.findUserByEmail(email)) {
+      return NextResponse.json(
+        { error: "An account with this email already exists" },
+        { status: 409 }
+      );
+    }
+
+    const user = await users.addUser({
+      name,
+      email,
+      role,
+      careTeamId: careTeamId || (role === 'admin' ? undefined : DEFAULT_CARE_TEAM_ID),
+      passwordHash: await hashPassword(password),
+      createdAt: new Date().toISOString(),
+    });
+
+    return NextResponse.json({ success: true, user: toPublicUser(user) }, { status: 201 });
+  } catch (err) {
+    console.error("API error:", err);
+    return NextResponse.json(
+      { error: "Failed to create user" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,55 +1,230 @@
 "use client"
 
-import { useState } from "react"
+import { useCallback, useEffect, useState } from "react"
 import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Avatar } from "@/components/ui/avatar"
 import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { toast } from "sonner"
+import { AlertTriangle, ChevronLeft, ChevronRight, Inbox, Loader2 } from "lucide-react"
+import LogoutButton from "@/components/auth/LogoutButton"
+import StatusBadge from "@/components/diagnosis/StatusBadge"
+import NotificationCenter, { AppNotification } from "@/components/notifications/NotificationCenter"
+import { DIAGNOSIS_STATUSES, OPEN_REVIEW_STATUSES, REVIEWED_STATUSES, STATUS_DISPLAY } from "@/lib/diagnoses/status"
+import { useSession } from "@/lib/hooks/useSession"
 
-// Sample data for demonstration
-const pendingDiagnoses = [
-  {
-    id: "1",
-    patientName: "John Doe",
-    dateSubmitted: "2023-05-10",
-    type: "X-Ray Analysis",
-    aiDiagnosis: "Possible pneumonia (87% confidence)",
-    status: "pending"
-  },
-  {
-    id: "2",
-    patientName: "Jane Smith",
-    dateSubmitted: "2023-05-12",
-    type: "Symptom Analysis",
-    aiDiagnosis: "Migraine (92% confidence)",
-    status: "pending"
-  },
-  {
-    id: "3",
-    patientName: "Robert Johnson",
-    dateSubmitted: "2023-05-14",
-    type: "Blood Test Results",
-    aiDiagnosis: "Anemia (78% confidence)",
-    status: "pending"
-  }
-]
+// Row of the review queue as returned by GET /api/diagnoses
+interface QueueDiagnosis {
+  id: string
+  patientName: string
+  diagnosisDate: string
+  type: string
+  aiDiagnosis: string
+  confidence: number
+  status: string
+  // Set when emergency triage flagged the submission
+  triage?: { urgent: boolean }
+}
+
+interface QueueFilters {
+  status: string
+  type: string
+  from: string
+  to: string
+  sort: string
+}
+
+interface QueueStats {
+  pending: number
+  approved: number
+  rejected: number
+}
+
+type ReviewAction = "approve" | "reject"
+
+// Active consent grant as returned by GET /api/consents
+interface SharedGrant {
+  id: string
+  expiresAt: string
+  scopes: string[]
+  diagnoses: { id: string; patientName: string; type: string; aiDiagnosis: string; diagnosisDate: string }[]
+}
+
+const PAGE_SIZE = 10
+
+// Status filter value for the open queue: waiting for or under review
+const OPEN_QUEUE = OPEN_REVIEW_STATUSES.join(",")
+
+const selectClassName = "border-input dark:bg-input/30 h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+
+function queueQuery(filters: QueueFilters, page: number, limit = PAGE_SIZE) {
+  const params = new URLSearchParams({ page: String(page), limit: String(limit), sort: filters.sort })
+  if (filters.status !== "all") params.set("status", filters.status)
+  if (filters.type.trim()) params.set("type", filters.type.trim())
+  if (filters.from) params.set("from", filters.from)
+  if (filters.to) params.set("to", filters.to)
+  return params.toString()
+}
+
+function daysWaiting(diagnosisDate: string) {
+  const days = Math.floor((Date.now() - new Date(diagnosisDate).getTime()) / (24 * 60 * 60 * 1000))
+  if (days <= 0) return "Today"
+  return days === 1 ? "1 day ago" : `${days} days ago`
+}
+
+async function countDiagnoses(params: Record<string, string>) {
+  const response = await fetch(`/api/diagnoses?${new URLSearchParams({ ...params, limit: "1" })}`)
+  if (!response.ok) throw new Error(`Failed to fetch counts: ${response.statusText}`)
+  const data = await response.json()
+  return data.total as number
+}
 
 export default function DoctorDashboard() {
-  const [diagnosisCount, setDiagnosisCount] = useState(pendingDiagnoses.length)
+  const { user } = useSession()
+  const [filters, setFilters] = useState<QueueFilters>({ status: OPEN_QUEUE, type: "", from: "", to: "", sort: "urgent" })
+  const [page, setPage] = useState(1)
+  const [diagnoses, setDiagnoses] = useState<QueueDiagnosis[]>([])
+  const [total, setTotal] = useState(0)
+  const [totalPages, setTotalPages] = useState(0)
+  const [isLoading, setIsLoading] = useState(true)
+  const [stats, setStats] = useState<QueueStats | null>(null)
+  const [reviewTarget, setReviewTarget] = useState<{ diagnosis: QueueDiagnosis; action: ReviewAction } | null>(null)
+  const [feedback, setFeedback] = useState("")
+  const [sharedGrants, setSharedGrants] = useState<SharedGrant[]>([])
+
+  const fetchQueue = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch(`/api/diagnoses?${queueQuery(filters, page)}`)
+      if (!response.ok) {
+        throw new Error(`Failed to fetch diagnoses: ${response.statusText}`)
+      }
+      const data = await response.json()
+      setDiagnoses(data.diagnoses)
+      setTotal(data.total)
+      setTotalPages(data.totalPages)
+    } catch (error) {
+      console.error("Error fetching review queue:", error)
+      toast.error("Failed to load the review queue")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [filters, page])
+
+  // Headline numbers: the whole open queue plus this month's reviewed
+  // submissions; amended diagnoses count as endorsed
+  const fetchStats = useCallback(async () => {
+    const monthStart = new Date()
+    monthStart.setDate(1)
+    const from = monthStart.toISOString().split("T")[0]
+    try {
+      const [pending, approved, rejected] = await Promise.all([
+        countDiagnoses({ status: OPEN_QUEUE }),
+        countDiagnoses({ status: REVIEWED_STATUSES.join(","), reviewedFrom: from }),
+        countDiagnoses({ status: "rejected", reviewedFrom: from }),
+      ])
+      setStats({ pending, approved, rejected })
+    } catch (error) {
+      console.error("Error fetching dashboard stats:", error)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchQueue()
+  }, [fetchQueue])
+
+  useEffect(() => {
+    fetchStats()
+  }, [fetchStats])
+
+  // Diagnoses outside the care relationship that patients chose to share
+  useEffect(() => {
+    async function fetchSharedGrants() {
+      try {
+        const response = await fetch("/api/consents")
+        if (!response.ok) {
+          throw new Error(`Failed to fetch shared diagnoses: ${response.statusText}`)
+        }
+        const data = await response.json()
+        setSharedGrants(data.grants)
+      } catch (error) {
+        console.error("Error fetching shared diagnoses:", error)
+      }
+    }
 
-  const handleApprove = (id: string) => {
-    toast.success(`Diagnosis #${id} approved`)
-    setDiagnosisCount(prev => prev - 1)
+    fetchSharedGrants()
+  }, [])
+
+  const updateFilter = (field: keyof QueueFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [field]: value }))
+    setPage(1)
+  }
+
+  const openReview = (diagnosis: QueueDiagnosis, action: ReviewAction) => {
+    setFeedback("")
+    setReviewTarget({ diagnosis, action })
+  }
+
+  // Apply the review locally first and roll back if the server rejects it
+  const submitReview = async () => {
+    if (!reviewTarget || !feedback.trim()) return
+    const { diagnosis, action } = reviewTarget
+    const newStatus = action === "approve" ? "approved" : "rejected"
+    const previous = { diagnoses, total, stats }
+
+    setReviewTarget(null)
+    if (filters.status === OPEN_QUEUE) {
+      setDiagnoses(prev => prev.filter(item => item.id !== diagnosis.id))
+      setTotal(prev => prev - 1)
+    } else {
+      setDiagnoses(prev => prev.map(item => (item.id === diagnosis.id ? { ...item, status: newStatus } : item)))
+    }
+    if (stats && OPEN_REVIEW_STATUSES.some(status => status === diagnosis.status)) {
+      setStats({
+        pending: stats.pending - 1,
+        approved: stats.approved + (action === "approve" ? 1 : 0),
+        rejected: stats.rejected + (action === "reject" ? 1 : 0),
+      })
+    }
+
+    try {
+      const response = await fetch(`/api/diagnoses/${diagnosis.id}/review`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, feedback }),
+      })
+      // 409 means someone else moved the diagnosis on first
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}))
+        throw new Error(result.error || `Review failed: ${response.statusText}`)
+      }
+      toast.success(`Diagnosis for ${diagnosis.patientName} ${newStatus}`)
+      // Pull the next item onto this page and resync the counters
+      fetchQueue()
+      fetchStats()
+    } catch (error) {
+      console.error("Error submitting review:", error)
+      setDiagnoses(previous.diagnoses)
+      setTotal(previous.total)
+      setStats(previous.stats)
+      toast.error(error instanceof Error ? error.message : "Failed to submit review")
+    }
   }
 
-  const handleReject = (id: string) => {
-    toast.success(`Diagnosis #${id} rejected with feedback`)
-    setDiagnosisCount(prev => prev - 1)
+  // New work in the queue shows up without a reload
+  const handleNotification = (notification: AppNotification) => {
+    if (notification.type !== "diagnosis_pending") return
+    fetchQueue()
+    fetchStats()
   }
 
+  const reviewed = stats ? stats.approved + stats.rejected : 0
+
   return (
     <div className="min-h-screen bg-slate-50 dark:bg-slate-900 p-4 md:p-8">
       <header className="max-w-7xl mx-auto mb-8">
@@ -65,12 +240,19 @@ export default function DoctorDashboard() {
             </Avatar>
             <div>
               <h1 className="text-3xl font-bold">Doctor Dashboard</h1>
-              <p className="text-muted-foreground">Dr. Sarah Williams, MD</p>
+              <p className="text-muted-foreground">{user?.name ?? "Loading..."}</p>
             </div>
           </div>
-          <Link href="/">
-            <Button variant="outline">Logout</Button>
-          </Link>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" asChild>
+              <Link href="/doctor/inbox">
+                <Inbox className="h-4 w-4 mr-2" />
+                Patient messages
+              </Link>
+            </Button>
+            <NotificationCenter onNotification={handleNotification} />
+            <LogoutButton variant="outline" />
+          </div>
         </div>
       </header>
 
@@ -81,7 +263,7 @@ export default function DoctorDashboard() {
               <CardTitle className="text-xl">Pending Diagnoses</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-3xl font-bold">{diagnosisCount}</div>
+              <div className="text-3xl font-bold">{stats?.pending ?? "–"}</div>
               <p className="text-sm text-muted-foreground">Waiting for your review</p>
             </CardContent>
           </Card>
@@ -91,8 +273,8 @@ export default function DoctorDashboard() {
               <CardTitle className="text-xl">Approved Diagnoses</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-3xl font-bold">42</div>
-              <p className="text-sm text-muted-foreground">This month</p>
+              <div className="text-3xl font-bold">{stats?.approved ?? "–"}</div>
+              <p className="text-sm text-muted-foreground">Submitted this month</p>
             </CardContent>
           </Card>
           
@@ -101,21 +283,87 @@ export default function DoctorDashboard() {
               <CardTitle className="text-xl">AI Accuracy</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-3xl font-bold">94%</div>
-              <p className="text-sm text-muted-foreground">Based on your feedback</p>
+              <div className="text-3xl font-bold">
+                {stats && reviewed > 0 ? `${Math.round((stats.approved / reviewed) * 100)}%` : "–"}
+              </div>
+              <p className="text-sm text-muted-foreground">Approval rate for this month&apos;s submissions</p>
             </CardContent>
           </Card>
         </div>
 
         <Card>
           <CardHeader>
-            <CardTitle>Pending Diagnosis Requests</CardTitle>
+            <CardTitle>Diagnosis Review Queue</CardTitle>
             <CardDescription>
               Review AI-generated diagnoses and provide your medical opinion
             </CardDescription>
           </CardHeader>
-          <CardContent>
-            {pendingDiagnoses.length > 0 ? (
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+              <div className="space-y-1">
+                <label className="text-xs font-medium text-muted-foreground" htmlFor="filter-status">Status</label>
+                <select
+                  id="filter-status"
+                  className={selectClassName}
+                  value={filters.status}
+                  onChange={(e) => updateFilter("status", e.target.value)}
+                >
+                  <option value={OPEN_QUEUE}>Open queue</option>
+                  {DIAGNOSIS_STATUSES.map((status) => (
+                    <option key={status} value={status}>{STATUS_DISPLAY[status].label}</option>
+                  ))}
+                  <option value="all">All</option>
+                </select>
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs font-medium text-muted-foreground" htmlFor="filter-type">Type</label>
+                <Input
+                  id="filter-type"
+                  placeholder="e.g. X-Ray"
+                  value={filters.type}
+                  onChange={(e) => updateFilter("type", e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs font-medium text-muted-foreground" htmlFor="filter-from">From</label>
+                <Input
+                  id="filter-from"
+                  type="date"
+                  value={filters.from}
+                  onChange={(e) => updateFilter("from", e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs font-medium text-muted-foreground" htmlFor="filter-to">To</label>
+                <Input
+                  id="filter-to"
+                  type="date"
+                  value={filters.to}
+                  onChange={(e) => updateFilter("to", e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs font-medium text-muted-foreground" htmlFor="filter-sort">Sort by</label>
+                <select
+                  id="filter-sort"
+                  className={selectClassName}
+                  value={filters.sort}
+                  onChange={(e) => updateFilter("sort", e.target.value)}
+                >
+                  <option value="urgent">Urgent first</option>
+                  <option value="oldest">Oldest first</option>
+                  <option value="newest">Newest first</option>
+                  <option value="confidence_desc">Highest AI confidence</option>
+                  <option value="confidence_asc">Lowest AI confidence</option>
+                </select>
+              </div>
+            </div>
+
+            {isLoading && diagnoses.length === 0 ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : diagnoses.length > 0 ? (
               <Table>
                 <TableHeader>
                   <TableRow>
@@ -128,50 +376,158 @@ export default function DoctorDashboard() {
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {pendingDiagnoses.map((diagnosis) => (
-                    <TableRow key={diagnosis.id}>
-                      <TableCell className="font-medium">{diagnosis.patientName}</TableCell>
-                      <TableCell>{diagnosis.dateSubmitted}</TableCell>
-                      <TableCell>{diagnosis.type}</TableCell>
-                      <TableCell>{diagnosis.aiDiagnosis}</TableCell>
-                      <TableCell>
-                        <Badge variant="outline" className="bg-yellow-100 text-yellow-800 dark:bg-yellow-800/20 dark:text-yellow-500">
-                          Pending
-                        </Badge>
-                      </TableCell>
-                      <TableCell className="text-right">
-                        <div className="flex justify-end gap-2">
-                          <Link href={`/doctor/diagnosis/${diagnosis.id}`}>
-                            <Button size="sm" variant="outline">View</Button>
-                          </Link>
-                          <Button 
-                            size="sm" 
-                            variant="default"
-                            onClick={() => handleApprove(diagnosis.id)}
-                          >
-                            Approve
-                          </Button>
-                          <Button 
-                            size="sm" 
-                            variant="destructive"
-                            onClick={() => handleReject(diagnosis.id)}
-                          >
-                            Reject
-                          </Button>
-                        </div>
-                      </TableCell>
-                    </TableRow>
-                  ))}
+                  {diagnoses.map((diagnosis) => {
+                    return (
+                      <TableRow key={diagnosis.id}>
+                        <TableCell className="font-medium">{diagnosis.patientName}</TableCell>
+                        <TableCell>
+                          <div>{diagnosis.diagnosisDate}</div>
+                          <div className="text-xs text-muted-foreground">{daysWaiting(diagnosis.diagnosisDate)}</div>
+                        </TableCell>
+                        <TableCell>{diagnosis.type}</TableCell>
+                        <TableCell>{diagnosis.aiDiagnosis} ({diagnosis.confidence}% confidence)</TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap items-center gap-1">
+                            <StatusBadge status={diagnosis.status} />
+                            {diagnosis.triage?.urgent && (
+                              <Badge variant="destructive">
+                                <AlertTriangle />
+                                Urgent
+                              </Badge>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-2">
+                            <Link href={`/doctor/diagnosis/${diagnosis.id}`}>
+                              <Button size="sm" variant="outline">View</Button>
+                            </Link>
+                            {OPEN_REVIEW_STATUSES.some(status => status === diagnosis.status) && (
+                              <>
+                                <Button 
+                                  size="sm" 
+                                  variant="default"
+                                  onClick={() => openReview(diagnosis, "approve")}
+                                >
+                                  Approve
+                                </Button>
+                                <Button 
+                                  size="sm" 
+                                  variant="destructive"
+                                  onClick={() => openReview(diagnosis, "reject")}
+                                >
+                                  Reject
+                                </Button>
+                              </>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
                 </TableBody>
               </Table>
             ) : (
               <div className="text-center py-8 text-muted-foreground">
-                <p>No pending diagnoses to review.</p>
+                <p>No diagnoses match these filters.</p>
+              </div>
+            )}
+
+            {totalPages > 1 && (
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-muted-foreground">
+                  Page {page} of {totalPages} · {total} diagnoses
+                </p>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => setPage(prev => prev - 1)} disabled={page <= 1 || isLoading}>
+                    <ChevronLeft className="h-4 w-4 mr-1" />
+                    Previous
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setPage(prev => prev + 1)} disabled={page >= totalPages || isLoading}>
+                    Next
+                    <ChevronRight className="h-4 w-4 ml-1" />
+                  </Button>
+                </div>
               </div>
             )}
           </CardContent>
         </Card>
+
+        {sharedGrants.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Shared with you</CardTitle>
+              <CardDescription>
+                Diagnoses patients have shared with you or your organization, until their consent expires or is revoked
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Patient</TableHead>
+                    <TableHead>Diagnosis</TableHead>
+                    <TableHead>Access</TableHead>
+                    <TableHead>Expires</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sharedGrants.flatMap((grant) =>
+                    grant.diagnoses.map((diagnosis) => (
+                      <TableRow key={`${grant.id}-${diagnosis.id}`}>
+                        <TableCell className="font-medium">{diagnosis.patientName}</TableCell>
+                        <TableCell>
+                          <div>{diagnosis.type}: {diagnosis.aiDiagnosis}</div>
+                          <div className="text-xs text-muted-foreground">{diagnosis.diagnosisDate}</div>
+                        </TableCell>
+                        <TableCell className="capitalize">{grant.scopes.join(", ")}</TableCell>
+                        <TableCell>{new Date(grant.expiresAt).toLocaleDateString()}</TableCell>
+                        <TableCell className="text-right">
+                          <Link href={`/doctor/diagnosis/${diagnosis.id}`}>
+                            <Button size="sm" variant="outline">View</Button>
+                          </Link>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
       </main>
+
+      <Dialog open={!!reviewTarget} onOpenChange={(open) => !open && setReviewTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {reviewTarget?.action === "approve" ? "Approve Diagnosis" : "Reject Diagnosis"}
+            </DialogTitle>
+            <DialogDescription>
+              {reviewTarget?.diagnosis.patientName}: {reviewTarget?.diagnosis.aiDiagnosis}
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            placeholder="Enter your medical opinion for the patient..."
+            className="min-h-[120px]"
+            value={feedback}
+            onChange={(e) => setFeedback(e.target.value)}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewTarget(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={reviewTarget?.action === "approve" ? "default" : "destructive"}
+              onClick={submitReview}
+              disabled={!feedback.trim()}
+            >
+              {reviewTarget?.action === "approve" ? "Confirm Approval" : "Confirm Rejection"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   )
-} 
\ No newline at end of file
+}
@@ -6,10 +6,42 @@ import { useParams, useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Textarea } from "@/components/ui/textarea"
+import { Input } from "@/components/ui/input"
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { Badge } from "@/components/ui/badge"
+import AmendmentDiff from "@/components/diagnosis/AmendmentDiff"
+import HistoryTimeline from "@/components/diagnosis/HistoryTimeline"
+import SecondOpinionCard, { SecondOpinionData } from "@/components/diagnosis/SecondOpinionCard"
+import StatusBadge from "@/components/diagnosis/StatusBadge"
+import StudyImageGallery, { StudyImage, studyImagesOf } from "@/components/diagnosis/StudyImageGallery"
+import { EmergencyBanner } from "@/components/triage/EmergencyAlert"
 import { toast } from "sonner"
 import { Loader2 } from "lucide-react"
+import { AmendableValues, DiagnosisAmendment, diffAmendableValues } from "@/lib/diagnoses/amendments"
+import { allowedTransitions, DiagnosisStatus, normalizeDiagnosisStatus } from "@/lib/diagnoses/status"
+import type { TriageMatch } from "@/lib/triage/rules"
+
+type ReviewAction = "start_review" | "release" | "request_info" | "approve" | "amend" | "reject" | "close"
+
+// Review actions in the order their buttons appear; each is only offered
+// when the lifecycle allows its target status from the current one
+const REVIEW_ACTIONS: {
+  action: ReviewAction
+  to: DiagnosisStatus
+  label: string
+  question: string
+  success: string
+  requiresFeedback: boolean
+  variant: "default" | "outline" | "destructive"
+}[] = [
+  { action: "start_review", to: "in_review", label: "Start Review", question: "Take this diagnosis out of the queue and review it yourself?", success: "Diagnosis assigned to you", requiresFeedback: false, variant: "outline" },
+  { action: "release", to: "awaiting_review", label: "Return to Queue", question: "Put this diagnosis back in the review queue?", success: "Diagnosis returned to the queue", requiresFeedback: false, variant: "outline" },
+  { action: "request_info", to: "needs_more_info", label: "Request Info", question: "Ask the patient for more information? Your feedback is sent to them as the question.", success: "Information requested from the patient", requiresFeedback: true, variant: "outline" },
+  { action: "reject", to: "rejected", label: "Reject Diagnosis", question: "Are you sure you want to reject this AI diagnosis?", success: "Diagnosis rejected with your feedback", requiresFeedback: true, variant: "destructive" },
+  { action: "amend", to: "amended", label: "Amend Diagnosis", question: "Record your feedback as an amendment to this AI diagnosis?", success: "Diagnosis amended and feedback sent to patient", requiresFeedback: true, variant: "outline" },
+  { action: "approve", to: "approved", label: "Approve Diagnosis", question: "Are you sure you want to approve this AI diagnosis?", success: "Diagnosis approved and feedback sent to patient", requiresFeedback: true, variant: "default" },
+  { action: "close", to: "closed", label: "Close", question: "Close this diagnosis? Closed diagnoses cannot be reopened.", success: "Diagnosis closed", requiresFeedback: false, variant: "outline" },
+]
 
 // Type definition for diagnosis data
 interface DiagnosisData {
@@ -25,10 +57,49 @@ interface DiagnosisData {
   symptoms: string;
   medicalHistory: string;
   imageSrc: string;
+  imageUploadId?: string;
+  images?: StudyImage[];
+  aiModelData?: {
+    secondOpinion?: SecondOpinionData;
+  };
+  aiAnalysis?: {
+    differential: { condition: string; confidence: number; rationale: string }[];
+    redFlags: string[];
+  };
   aiResponse?: {
     fullText: string;
     sections: string[];
   };
+  treatmentRecommendations?: string[];
+  riskFactors?: string[];
+  amendment?: DiagnosisAmendment;
+  aiError?: string;
+  additionalInfo?: { message: string; providedAt: string }[];
+  triage?: { urgent: boolean; matches: TriageMatch[]; checkedAt: string };
+}
+
+// Editable copy of the amendable fields; lists are edited one item per line
+interface AmendmentDraft {
+  aiDiagnosis: string
+  treatmentRecommendations: string
+  riskFactors: string
+}
+
+function currentValues(diagnosis: DiagnosisData): AmendableValues {
+  return {
+    aiDiagnosis: diagnosis.aiDiagnosis,
+    treatmentRecommendations: diagnosis.treatmentRecommendations ?? [],
+    riskFactors: diagnosis.riskFactors ?? [],
+  }
+}
+
+function draftValues(draft: AmendmentDraft): AmendableValues {
+  const lines = (text: string) => text.split("\n").map(line => line.trim()).filter(Boolean)
+  return {
+    aiDiagnosis: draft.aiDiagnosis.trim(),
+    treatmentRecommendations: lines(draft.treatmentRecommendations),
+    riskFactors: lines(draft.riskFactors),
+  }
 }
 
 export default function DiagnosisDetail() {
@@ -37,11 +108,12 @@ export default function DiagnosisDetail() {
   const { id } = params
   const [feedback, setFeedback] = useState("")
   const [showConfirmDialog, setShowConfirmDialog] = useState(false)
-  const [dialogAction, setDialogAction] = useState<"approve" | "reject">("approve")
+  const [dialogAction, setDialogAction] = useState(REVIEW_ACTIONS[0])
   const [diagnosisData, setDiagnosisData] = useState<DiagnosisData | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [draft, setDraft] = useState<AmendmentDraft>({ aiDiagnosis: "", treatmentRecommendations: "", riskFactors: "" })
 
   useEffect(() => {
     async function fetchDiagnosisData() {
@@ -72,7 +144,7 @@ export default function DiagnosisDetail() {
           type: "X-Ray Analysis",
           aiDiagnosis: "Possible pneumonia",
           confidence: 87,
-          status: "pending",
+          status: "awaiting_review",
           symptoms: "Persistent cough for 10 days, fever, chest pain, difficulty breathing",
           medicalHistory: "Smoker (15 years), previous bronchitis (2020)",
           imageSrc: "/xray-sample.jpg"
@@ -85,7 +157,17 @@ export default function DiagnosisDetail() {
     fetchDiagnosisData()
   }, [id])
 
-  const handleAction = (action: "approve" | "reject") => {
+  // Start every edit from the values currently on the diagnosis
+  useEffect(() => {
+    if (!diagnosisData) return
+    setDraft({
+      aiDiagnosis: diagnosisData.aiDiagnosis,
+      treatmentRecommendations: (diagnosisData.treatmentRecommendations ?? []).join("\n"),
+      riskFactors: (diagnosisData.riskFactors ?? []).join("\n"),
+    })
+  }, [diagnosisData])
+
+  const handleAction = (action: (typeof REVIEW_ACTIONS)[number]) => {
     setDialogAction(action)
     setShowConfirmDialog(true)
   }
@@ -103,31 +185,37 @@ export default function DiagnosisDetail() {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          action: dialogAction,
+          action: dialogAction.action,
           feedback,
-          doctorName: "Dr. Sarah Williams", // In a real app, this would come from the doctor's session
+          ...(dialogAction.action === "amend" ? { amendments: draftValues(draft) } : {}),
         }),
       })
+      const result = await response.json()
       
+      // 409 means the diagnosis moved on since it was loaded
       if (!response.ok) {
-        throw new Error(`API error: ${response.statusText}`)
+        throw new Error(result.error || `API error: ${response.statusText}`)
       }
       
       // Show success message
-      if (dialogAction === "approve") {
-        toast.success("Diagnosis approved and feedback sent to patient")
-      } else {
-        toast.success("Diagnosis rejected with your feedback")
-      }
-      
-      // Close dialog and redirect after a short delay
+      toast.success(dialogAction.success)
       setShowConfirmDialog(false)
-      setTimeout(() => {
-        router.push("/doctor/dashboard")
-      }, 1500)
+      setDiagnosisData({
+        ...diagnosisData,
+        status: result.status,
+        ...(result.amendment ? { ...result.amendment.amended, amendment: result.amendment } : {}),
+      })
+
+      // Claiming or releasing keeps the doctor on the page; anything else
+      // finishes their part and returns them to the dashboard
+      if (dialogAction.requiresFeedback || dialogAction.action === "close") {
+        setTimeout(() => {
+          router.push("/doctor/dashboard")
+        }, 1500)
+      }
     } catch (error) {
       console.error("Error updating diagnosis:", error)
-      toast.error(`Failed to ${dialogAction} diagnosis. Please try again.`)
+      toast.error(error instanceof Error ? error.message : "Failed to update diagnosis. Please try again.")
     } finally {
       setIsSubmitting(false)
     }
@@ -158,6 +246,12 @@ export default function DiagnosisDetail() {
     )
   }
 
+  const studyImages = studyImagesOf(diagnosisData)
+  const status = normalizeDiagnosisStatus(diagnosisData.status)
+  const availableActions = REVIEW_ACTIONS.filter(({ to }) => allowedTransitions(status).includes(to))
+  const canAmend = availableActions.some(({ action }) => action === "amend")
+  const draftDiff = diffAmendableValues(currentValues(diagnosisData), draftValues(draft))
+
   return (
     <div className="min-h-screen bg-slate-50 dark:bg-slate-900 p-4 md:p-8">
       <header className="max-w-7xl mx-auto mb-8">
@@ -171,10 +265,21 @@ export default function DiagnosisDetail() {
             </Button>
           </Link>
           <div>
-            <h1 className="text-2xl font-bold">Diagnosis Review #{id}</h1>
+            <div className="flex items-center gap-2 flex-wrap">
+              <h1 className="text-2xl font-bold">Diagnosis Review #{id}</h1>
+              <StatusBadge status={status} />
+            </div>
             <p className="text-muted-foreground">Patient: {diagnosisData.patientName}</p>
           </div>
         </div>
+        {diagnosisData.triage?.urgent && (
+          <div className="mt-4">
+            <EmergencyBanner
+              title="Triage flagged this submission as urgent"
+              matches={diagnosisData.triage.matches}
+            />
+          </div>
+        )}
       </header>
 
       <main className="max-w-7xl mx-auto grid gap-6 md:grid-cols-2">
@@ -262,37 +367,36 @@ export default function DiagnosisDetail() {
                   <p className="text-sm text-muted-foreground mt-1">
                     Based on {diagnosisData.type}
                   </p>
+                  {diagnosisData.amendment && diagnosisData.amendment.original.aiDiagnosis !== diagnosisData.aiDiagnosis && (
+                    <p className="text-sm text-muted-foreground mt-1">
+                      AI originally suggested: {diagnosisData.amendment.original.aiDiagnosis}
+                    </p>
+                  )}
                 </div>
-                <div className="rounded-lg border overflow-hidden">
-                  <div className="relative aspect-video">
-                    {diagnosisData.imageSrc ? (
-                      <div className="absolute inset-0 flex items-center justify-center bg-muted">
-                        {/* In a real app, this would be the actual image from the database */}
-                        <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="h-12 w-12 text-muted-foreground">
-                          <rect width="18" height="18" x="3" y="3" rx="2" ry="2"></rect>
-                          <circle cx="8.5" cy="8.5" r="1.5"></circle>
-                          <path d="m21 15-5-5L5 21"></path>
-                        </svg>
-                      </div>
-                    ) : (
+                {studyImages.length > 0 ? (
+                  <div>
+                    <h3 className="text-sm font-medium text-muted-foreground mb-2">
+                      {studyImages.length > 1 ? `Study images (${studyImages.length}, in submission order)` : "Submitted image"}
+                    </h3>
+                    <StudyImageGallery
+                      images={studyImages}
+                      label={`${diagnosisData.type} image`}
+                      viewerClassName="aspect-video"
+                    />
+                  </div>
+                ) : (
+                  <div className="rounded-lg border overflow-hidden">
+                    <div className="relative aspect-video">
                       <div className="absolute inset-0 flex items-center justify-center bg-muted">
                         <p className="text-muted-foreground text-sm">No image available</p>
                       </div>
-                    )}
-                  </div>
-                  <div className="p-3 bg-muted/50">
-                    <p className="text-sm font-medium">
-                      {diagnosisData.imageSrc 
-                        ? "Medical image with AI analysis overlay" 
-                        : "Text-based analysis only"}
-                    </p>
-                    <p className="text-xs text-muted-foreground">
-                      {diagnosisData.imageSrc 
-                        ? "Red areas indicate regions of interest for the diagnosis"
-                        : "Based on symptom description provided by patient"}
-                    </p>
+                    </div>
+                    <div className="p-3 bg-muted/50">
+                      <p className="text-sm font-medium">Text-based analysis only</p>
+                      <p className="text-xs text-muted-foreground">Based on symptom description provided by patient</p>
+                    </div>
                   </div>
-                </div>
+                )}
                 <div>
                   <h3 className="text-sm font-medium text-muted-foreground mb-2">AI Explanation</h3>
                   <p className="text-sm">
@@ -301,10 +405,128 @@ export default function DiagnosisDetail() {
                       : "The model identified patterns in the patient data that are consistent with the diagnosis. This preliminary assessment requires your medical validation."}
                   </p>
                 </div>
+                {diagnosisData.aiAnalysis && (
+                  <div>
+                    <h3 className="text-sm font-medium text-muted-foreground mb-2">Differential Diagnosis</h3>
+                    <ul className="space-y-2">
+                      {diagnosisData.aiAnalysis.differential.map((item) => (
+                        <li key={item.condition} className="text-sm">
+                          <div className="flex justify-between gap-2">
+                            <span className="font-medium">{item.condition}</span>
+                            <span className="text-muted-foreground">{Math.round(item.confidence)}%</span>
+                          </div>
+                          {item.rationale && (
+                            <p className="text-xs text-muted-foreground">{item.rationale}</p>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {diagnosisData.aiAnalysis && diagnosisData.aiAnalysis.redFlags.length > 0 && (
+                  <div className="rounded-md border border-red-200 bg-red-50 dark:border-red-900 dark:bg-red-950/30 p-3">
+                    <h3 className="text-sm font-medium text-red-700 dark:text-red-400 mb-1">Red Flags</h3>
+                    <ul className="text-sm list-disc list-inside">
+                      {diagnosisData.aiAnalysis.redFlags.map((flag) => (
+                        <li key={flag}>{flag}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
               </div>
             </CardContent>
           </Card>
 
+          {diagnosisData.aiModelData?.secondOpinion && (
+            <SecondOpinionCard
+              secondOpinion={diagnosisData.aiModelData.secondOpinion}
+              aiDiagnosis={diagnosisData.aiDiagnosis}
+            />
+          )}
+
+          {diagnosisData.amendment && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Amendments to the AI Output</CardTitle>
+                <CardDescription>
+                  By {diagnosisData.amendment.amendedByName} on {new Date(diagnosisData.amendment.amendedAt).toLocaleString()}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <AmendmentDiff diff={diagnosisData.amendment.diff} />
+              </CardContent>
+            </Card>
+          )}
+
+          {canAmend && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Amend AI Output</CardTitle>
+                <CardDescription>
+                  Edit the diagnosis and lists, then choose Amend Diagnosis. The original AI output is kept.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-1">
+                  <label className="text-sm font-medium text-muted-foreground" htmlFor="amend-diagnosis">Diagnosis</label>
+                  <Input
+                    id="amend-diagnosis"
+                    value={draft.aiDiagnosis}
+                    onChange={(e) => setDraft({ ...draft, aiDiagnosis: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <label className="text-sm font-medium text-muted-foreground" htmlFor="amend-treatment">Treatment recommendations (one per line)</label>
+                  <Textarea
+                    id="amend-treatment"
+                    className="min-h-[100px]"
+                    value={draft.treatmentRecommendations}
+                    onChange={(e) => setDraft({ ...draft, treatmentRecommendations: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <label className="text-sm font-medium text-muted-foreground" htmlFor="amend-risks">Risk factors (one per line)</label>
+                  <Textarea
+                    id="amend-risks"
+                    className="min-h-[80px]"
+                    value={draft.riskFactors}
+                    onChange={(e) => setDraft({ ...draft, riskFactors: e.target.value })}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {diagnosisData.additionalInfo && diagnosisData.additionalInfo.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Information From the Patient</CardTitle>
+                <CardDescription>Answers to your requests for more information</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ul className="space-y-2 text-sm">
+                  {diagnosisData.additionalInfo.map((info, i) => (
+                    <li key={i} className="border rounded-md p-3">
+                      <p>{info.message}</p>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {new Date(info.providedAt).toLocaleString()}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          )}
+
+          {status === "ai_failed" && (
+            <Card className="border-red-200 dark:border-red-900">
+              <CardHeader>
+                <CardTitle className="text-red-700 dark:text-red-400">AI Analysis Failed</CardTitle>
+                <CardDescription>{diagnosisData.aiError || "The AI analysis could not be completed."}</CardDescription>
+              </CardHeader>
+            </Card>
+          )}
+
           <Card>
             <CardHeader>
               <CardTitle>Your Medical Opinion</CardTitle>
@@ -320,22 +542,25 @@ export default function DiagnosisDetail() {
                 onChange={(e) => setFeedback(e.target.value)}
               />
             </CardContent>
-            <CardFooter className="flex justify-between">
-              <Button 
-                variant="outline" 
-                onClick={() => handleAction("reject")}
-                disabled={isSubmitting}
-              >
-                Reject Diagnosis
-              </Button>
-              <Button 
-                onClick={() => handleAction("approve")}
-                disabled={isSubmitting}
-              >
-                Approve Diagnosis
-              </Button>
+            <CardFooter className="flex flex-wrap justify-end gap-2">
+              {availableActions.length === 0 ? (
+                <p className="text-sm text-muted-foreground mr-auto">
+                  No review actions are available for a diagnosis in this state.
+                </p>
+              ) : availableActions.map((reviewAction) => (
+                <Button 
+                  key={reviewAction.action}
+                  variant={reviewAction.variant}
+                  onClick={() => handleAction(reviewAction)}
+                  disabled={isSubmitting}
+                >
+                  {reviewAction.label}
+                </Button>
+              ))}
             </CardFooter>
           </Card>
+
+          <HistoryTimeline diagnosisId={id as string} refreshKey={`${status}:${diagnosisData.amendment?.amendedAt ?? ""}`} />
         </div>
       </main>
 
@@ -343,12 +568,10 @@ export default function DiagnosisDetail() {
         <DialogContent>
           <DialogHeader>
             <DialogTitle>
-              {dialogAction === "approve" ? "Approve Diagnosis" : "Reject Diagnosis"}
+              {dialogAction.label}
             </DialogTitle>
             <DialogDescription>
-              {dialogAction === "approve" 
-                ? "Are you sure you want to approve this AI diagnosis?" 
-                : "Are you sure you want to reject this AI diagnosis?"}
+              {dialogAction.question}
             </DialogDescription>
           </DialogHeader>
           <div className="py-4">
@@ -360,10 +583,22 @@ export default function DiagnosisDetail() {
                 <p className="text-sm font-medium">Your feedback:</p>
                 <p className="text-sm mt-1">{feedback}</p>
               </div>
-            ) : (
+            ) : dialogAction.requiresFeedback ? (
               <p className="text-sm text-yellow-500 mt-2">
-                Warning: You haven&apos;t provided any feedback yet.
+                Feedback is required for this action. Add it under Your Medical Opinion first.
               </p>
+            ) : null}
+            {dialogAction.action === "amend" && (
+              <div className="mt-4">
+                <p className="text-sm font-medium mb-2">Your changes:</p>
+                {draftDiff.length > 0 ? (
+                  <AmendmentDiff diff={draftDiff} />
+                ) : (
+                  <p className="text-sm text-yellow-500">
+                    Edit the diagnosis, treatment recommendations or risk factors under Amend AI Output first.
+                  </p>
+                )}
+              </div>
             )}
           </div>
           <DialogFooter>
@@ -375,9 +610,13 @@ export default function DiagnosisDetail() {
               Cancel
             </Button>
             <Button 
-              variant={dialogAction === "approve" ? "default" : "destructive"}
+              variant={dialogAction.variant === "destructive" ? "destructive" : "default"}
               onClick={confirmAction}
-              disabled={isSubmitting}
+              disabled={
+                isSubmitting ||
+                (dialogAction.requiresFeedback && !feedback.trim()) ||
+                (dialogAction.action === "amend" && draftDiff.length === 0)
+              }
             >
               {isSubmitting ? (
                 <>
@@ -385,7 +624,7 @@ export default function DiagnosisDetail() {
                   Processing...
                 </>
               ) : (
-                `Confirm ${dialogAction === "approve" ? "Approval" : "Rejection"}`
+                `Confirm: ${dialogAction.label}`
               )}
             </Button>
           </DialogFooter>
@@ -0,0 +1,326 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import ReactMarkdown from "react-markdown"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Textarea } from "@/components/ui/textarea"
+import { toast } from "sonner"
+import { ArrowLeft, FileText, Loader2, Send, Stethoscope } from "lucide-react"
+import LogoutButton from "@/components/auth/LogoutButton"
+import NotificationCenter, { AppNotification } from "@/components/notifications/NotificationCenter"
+import { EmergencyBanner } from "@/components/triage/EmergencyAlert"
+import type { Conversation, EscalationSummary } from "@/lib/store/conversationRepository"
+
+type InboxFilter = "open" | "answered" | "all"
+
+const FILTERS: { value: InboxFilter; label: string }[] = [
+  { value: "open", label: "Waiting" },
+  { value: "answered", label: "Answered" },
+  { value: "all", label: "All" },
+]
+
+const AUTHOR_LABELS = {
+  user: "Patient",
+  assistant: "AI assistant",
+  doctor: "Doctor",
+}
+
+function formatDate(date: string) {
+  return new Date(date).toLocaleString([], { dateStyle: "medium", timeStyle: "short" })
+}
+
+// Conversations patients handed to a doctor, with the transcript of the one
+// selected and a reply box. Replies show up in the patient's thread.
+export default function DoctorInbox() {
+  const [filter, setFilter] = useState<InboxFilter>("open")
+  const [escalations, setEscalations] = useState<EscalationSummary[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [conversation, setConversation] = useState<Conversation | null>(null)
+  const [isLoadingConversation, setIsLoadingConversation] = useState(false)
+  const [reply, setReply] = useState("")
+  const [isReplying, setIsReplying] = useState(false)
+
+  // A notification link opens its conversation
+  useEffect(() => {
+    const requested = new URLSearchParams(window.location.search).get("conversation")
+    if (requested) {
+      setSelectedId(requested)
+      setFilter("all")
+    }
+  }, [])
+
+  const fetchEscalations = useCallback(async () => {
+    try {
+      const query = filter === "all" ? "" : `?status=${filter}`
+      const response = await fetch(`/api/escalations${query}`)
+      if (!response.ok) {
+        throw new Error(`Failed to fetch escalations: ${response.statusText}`)
+      }
+      const data = await response.json()
+      setEscalations(data.escalations)
+    } catch (error) {
+      console.error("Error fetching inbox:", error)
+      toast.error("Failed to load your inbox")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [filter])
+
+  useEffect(() => {
+    fetchEscalations()
+  }, [fetchEscalations])
+
+  useEffect(() => {
+    if (!selectedId) {
+      setConversation(null)
+      return
+    }
+
+    let cancelled = false
+
+    async function fetchConversation() {
+      setIsLoadingConversation(true)
+      try {
+        const response = await fetch(`/api/escalations/${selectedId}`)
+        if (!response.ok) {
+          throw new Error(response.status === 404 ? "Conversation not found" : `Failed to fetch conversation: ${response.statusText}`)
+        }
+        const data = await response.json()
+        if (!cancelled) setConversation(data.conversation)
+      } catch (error) {
+        console.error("Error fetching conversation:", error)
+        if (!cancelled) {
+          setConversation(null)
+          toast.error(error instanceof Error ? error.message : "Failed to load the conversation")
+        }
+      } finally {
+        if (!cancelled) setIsLoadingConversation(false)
+      }
+    }
+
+    fetchConversation()
+    return () => {
+      cancelled = true
+    }
+  }, [selectedId])
+
+  const handleReply = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    if (!conversation || !reply.trim()) return
+
+    setIsReplying(true)
+    try {
+      const response = await fetch(`/api/escalations/${conversation.id}/reply`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ content: reply.trim() }),
+      })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(result.error || `Failed to send reply: ${response.statusText}`)
+      }
+      setConversation({
+        ...conversation,
+        escalation: result.escalation,
+        messages: [...conversation.messages, result.message],
+      })
+      setReply("")
+      toast.success("Reply sent to the patient")
+      fetchEscalations()
+    } catch (error) {
+      console.error("Error sending reply:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to send reply")
+    } finally {
+      setIsReplying(false)
+    }
+  }
+
+  // New escalations show up without a reload
+  const handleNotification = (notification: AppNotification) => {
+    if (notification.type === "chat_escalated") fetchEscalations()
+  }
+
+  const escalation = conversation?.escalation
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-900 p-4 md:p-8">
+      <header className="max-w-7xl mx-auto mb-8">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Link href="/doctor/dashboard">
+              <Button variant="outline" size="icon" className="h-8 w-8">
+                <ArrowLeft className="h-4 w-4" />
+                <span className="sr-only">Back</span>
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-2xl font-bold">Patient Messages</h1>
+              <p className="text-muted-foreground">Chat conversations patients asked a doctor to answer</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <NotificationCenter onNotification={handleNotification} />
+            <LogoutButton variant="outline" />
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto grid gap-6 md:grid-cols-3">
+        <Card className="md:col-span-1">
+          <CardHeader>
+            <CardTitle>Inbox</CardTitle>
+            <div className="flex gap-2 pt-2">
+              {FILTERS.map(({ value, label }) => (
+                <Button
+                  key={value}
+                  size="sm"
+                  variant={filter === value ? "default" : "outline"}
+                  onClick={() => setFilter(value)}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : escalations.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-8 text-center">No conversations here</p>
+            ) : (
+              <ul className="space-y-1">
+                {escalations.map((item) => (
+                  <li key={item.id}>
+                    <button
+                      type="button"
+                      onClick={() => setSelectedId(item.id)}
+                      className={`w-full text-left rounded-md p-2 transition-colors ${
+                        item.id === selectedId ? "bg-primary/10" : "hover:bg-muted/50"
+                      }`}
+                    >
+                      <span className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-medium truncate">{item.escalation.patientName}</span>
+                        {item.escalation.status === "open" ? (
+                          <Badge variant="secondary" className="bg-amber-100 text-amber-800">Waiting</Badge>
+                        ) : (
+                          <Badge variant="outline">Answered</Badge>
+                        )}
+                      </span>
+                      <span className="flex items-center gap-1 text-xs text-muted-foreground mt-0.5">
+                        {item.diagnosisId && <FileText className="h-3 w-3 flex-shrink-0" aria-label="About a diagnosis" />}
+                        <span className="truncate">{item.title}</span>
+                      </span>
+                      <span className="block text-xs text-muted-foreground mt-0.5">
+                        Asked {formatDate(item.escalation.requestedAt)}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="md:col-span-2">
+          {isLoadingConversation ? (
+            <CardContent className="flex justify-center py-16">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </CardContent>
+          ) : conversation && escalation ? (
+            <>
+              <CardHeader>
+                <CardTitle>{conversation.title}</CardTitle>
+                <CardDescription>
+                  {escalation.patientName} asked for a doctor on {formatDate(escalation.requestedAt)}
+                  {escalation.doctorName && escalation.answeredAt && (
+                    <> · last answered by {escalation.doctorName} on {formatDate(escalation.answeredAt)}</>
+                  )}
+                </CardDescription>
+                {conversation.diagnosisId && (
+                  <Link href={`/doctor/diagnosis/${conversation.diagnosisId}`} className="text-sm text-primary underline">
+                    Open the diagnosis this conversation is about
+                  </Link>
+                )}
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {escalation.note && (
+                  <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900">
+                    <p className="font-medium">Patient&apos;s question for you</p>
+                    <p className="whitespace-pre-wrap mt-1">{escalation.note}</p>
+                  </div>
+                )}
+
+                <div className="max-h-[55vh] overflow-y-auto space-y-4 pr-1">
+                  {conversation.messages.length === 0 && (
+                    <p className="text-sm text-muted-foreground">The patient has not chatted with the assistant yet.</p>
+                  )}
+                  {conversation.messages.map((message) => (
+                    <div key={message.id} className="space-y-1">
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        {message.role === "doctor" && <Stethoscope className="h-3 w-3 text-blue-700" />}
+                        <span className="font-medium">
+                          {message.role === "doctor" ? message.author?.name ?? AUTHOR_LABELS.doctor : AUTHOR_LABELS[message.role]}
+                        </span>
+                        <span>{formatDate(message.createdAt)}</span>
+                      </div>
+                      {message.emergency && (
+                        <EmergencyBanner title="Triage flagged this message as an emergency" matches={message.emergency.matches} />
+                      )}
+                      <div
+                        className={`rounded-md p-3 text-sm ${
+                          message.role === "user"
+                            ? "bg-slate-100 dark:bg-slate-800"
+                            : message.role === "doctor"
+                            ? "bg-blue-50 text-blue-950 border border-blue-200 whitespace-pre-wrap"
+                            : "border"
+                        }`}
+                      >
+                        {message.role === "assistant" ? (
+                          <div className="prose prose-slate prose-sm max-w-none">
+                            <ReactMarkdown>{message.content}</ReactMarkdown>
+                          </div>
+                        ) : (
+                          message.content
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                <form onSubmit={handleReply} className="space-y-2 border-t pt-4">
+                  <label htmlFor="doctor-reply" className="text-sm font-medium">
+                    Reply to {escalation.patientName}
+                  </label>
+                  <Textarea
+                    id="doctor-reply"
+                    value={reply}
+                    onChange={(e) => setReply(e.target.value)}
+                    placeholder="Your reply appears in the patient's conversation"
+                    rows={4}
+                    maxLength={5000}
+                  />
+                  <div className="flex justify-end">
+                    <Button type="submit" disabled={isReplying || !reply.trim()}>
+                      {isReplying ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+                      Send reply
+                    </Button>
+                  </div>
+                </form>
+              </CardContent>
+            </>
+          ) : (
+            <CardContent className="py-16 text-center text-muted-foreground">
+              Select a conversation to read it and reply
+            </CardContent>
+          )}
+        </Card>
+      </main>
+    </div>
+  )
+}
@@ -1,12 +1,17 @@
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { BrainCircuit, LockKeyhole, BadgeCheck, MessageSquare, Cpu } from "lucide-react";
+import LoginForm from "@/components/auth/LoginForm";
+
+export default async function Home({
+  searchParams,
+}: {
+  searchParams: Promise<{ next?: string }>;
+}) {
+  const { next } = await searchParams;
 
-export default function Home() {
   return (
     <div className="min-h-screen flex flex-col bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
       <header className="border-b bg-white/95 dark:bg-slate-950/95 backdrop-blur-sm sticky top-0 z-10">
@@ -103,34 +108,10 @@ export default function Home() {
                     <TabsTrigger value="doctor">Doctor</TabsTrigger>
                   </TabsList>
                   <TabsContent value="patient">
-                    <div className="space-y-4">
-                      <div className="space-y-2">
-                        <Label htmlFor="username">Username</Label>
-                        <Input id="username" placeholder="Enter your username" />
-                      </div>
-                      <div className="space-y-2">
-                        <Label htmlFor="password">Password</Label>
-                        <Input id="password" type="password" placeholder="Enter your password" />
-                      </div>
-                      <Link href="/patient/dashboard" className="w-full">
-                        <Button className="w-full">Login as Patient</Button>
-                      </Link>
-                    </div>
+                    <LoginForm role="patient" next={next} />
                   </TabsContent>
                   <TabsContent value="doctor">
-                    <div className="space-y-4">
-                      <div className="space-y-2">
-                        <Label htmlFor="doctor-username">Username</Label>
-                        <Input id="doctor-username" placeholder="Enter your username" />
-                      </div>
-                      <div className="space-y-2">
-                        <Label htmlFor="doctor-password">Password</Label>
-                        <Input id="doctor-password" type="password" placeholder="Enter your password" />
-                      </div>
-                      <Link href="/doctor/dashboard" className="w-full">
-                        <Button className="w-full">Login as Doctor</Button>
-                      </Link>
-                    </div>
+                    <LoginForm role="doctor" next={next} />
                   </TabsContent>
                 </Tabs>
               </CardContent>
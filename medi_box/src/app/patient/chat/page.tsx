@@ -1,10 +1,12 @@
 "use client";
 
-import { useRef, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import ChatInterface from "@/components/Chat/ChatInterface";
+import ConversationSidebar from "@/components/Chat/ConversationSidebar";
+import { useChatWidget } from "@/lib/hooks/useChatWidget";
 
 interface ChatInterfaceRef {
   sendMessage: (message: string) => void;
@@ -13,6 +15,14 @@ interface ChatInterfaceRef {
 export default function PatientChatPage() {
   const chatRef = useRef<ChatInterfaceRef>(null);
   const [suggestions, setSuggestions] = useState<string[]>([]);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const setConversationId = useChatWidget((state) => state.setConversationId);
+
+  // The chat widget links here with the conversation it was showing
+  useEffect(() => {
+    const requested = new URLSearchParams(window.location.search).get("conversation");
+    if (requested) setConversationId(requested);
+  }, [setConversationId]);
 
   const handleTopicClick = (topic: string) => {
     if (chatRef.current) {
@@ -35,13 +45,22 @@ export default function PatientChatPage() {
       </header>
 
       <main className="max-w-7xl mx-auto grid gap-6 md:grid-cols-12">
+        {/* Past conversations */}
+        <div className="md:col-span-3 md:h-[80vh]">
+          <ConversationSidebar refreshKey={historyVersion} />
+        </div>
+
         {/* Chat interface - takes up more space */}
-        <div className="md:col-span-8 h-[80vh]">
-          <ChatInterface ref={chatRef} onSuggestionsChange={setSuggestions} />
+        <div className="md:col-span-6 h-[80vh]">
+          <ChatInterface
+            ref={chatRef}
+            onSuggestionsChange={setSuggestions}
+            onStored={() => setHistoryVersion((version) => version + 1)}
+          />
         </div>
 
         {/* Sidebar */}
-        <div className="md:col-span-4 space-y-6">
+        <div className="md:col-span-3 space-y-6">
           <Card className="p-4 border-primary/20 shadow-md">
             <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
               <span className="text-primary">💡</span>
@@ -138,7 +157,8 @@ export default function PatientChatPage() {
                 immediately.
               </p>
               <p className="text-xs mt-4 border-t pt-4">
-                Your conversation is private and securely encrypted.
+                Your conversations are saved to your account so you can
+                continue them on any device. Only you can see them.
               </p>
             </div>
           </Card>
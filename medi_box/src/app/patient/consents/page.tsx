@@ -0,0 +1,308 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { toast } from "sonner"
+import { Building2, Copy, Link2, Loader2, Stethoscope } from "lucide-react"
+import { SCOPE_LABELS } from "@/components/consent/ShareDiagnosisDialog"
+import type { ConsentGrant, ConsentGrantStatus } from "@/lib/store/consentRepository"
+import type { ShareLink, ShareLinkStatus } from "@/lib/store/shareLinkRepository"
+
+// Grant as returned by GET /api/consents
+interface PublicGrant extends ConsentGrant {
+  status: ConsentGrantStatus
+  diagnoses: { id: string; aiDiagnosis: string; type: string; diagnosisDate: string }[]
+}
+
+// Link as returned by GET /api/share-links
+interface PublicShareLink extends Omit<ShareLink, "pinHash"> {
+  hasPin: boolean
+  status: ShareLinkStatus
+  url: string
+  diagnosis?: { id: string; aiDiagnosis: string; type: string; diagnosisDate: string }
+}
+
+const LINK_STATUS_LABELS: Record<ShareLinkStatus, string> = {
+  active: "Active",
+  expired: "Expired",
+  revoked: "Revoked",
+  exhausted: "View limit reached",
+  locked: "Locked (wrong PINs)",
+}
+
+const GRANT_STATUS_DISPLAY: Record<ConsentGrantStatus, { label: string; className: string }> = {
+  active: { label: "Active", className: "bg-green-100 text-green-800 hover:bg-green-100 dark:bg-green-900/20 dark:text-green-400" },
+  expired: { label: "Expired", className: "bg-slate-100 text-slate-700 hover:bg-slate-100 dark:bg-slate-800 dark:text-slate-300" },
+  revoked: { label: "Revoked", className: "bg-red-100 text-red-800 hover:bg-red-100 dark:bg-red-900/20 dark:text-red-400" },
+}
+
+function GrantCard({ grant, onRevoke, isRevoking }: { grant: PublicGrant; onRevoke?: () => void; isRevoking?: boolean }) {
+  const display = GRANT_STATUS_DISPLAY[grant.status]
+
+  return (
+    <div className="border rounded-lg p-4 space-y-3">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div className="flex items-center gap-2">
+          {grant.grantee.type === "doctor" ? (
+            <Stethoscope className="h-4 w-4 text-muted-foreground" />
+          ) : (
+            <Building2 className="h-4 w-4 text-muted-foreground" />
+          )}
+          <div>
+            <p className="font-medium">
+              {grant.grantee.type === "doctor" ? grant.grantee.name : `Organization ${grant.grantee.careTeamId}`}
+            </p>
+            {grant.grantee.type === "doctor" && (
+              <p className="text-xs text-muted-foreground">{grant.grantee.email}</p>
+            )}
+          </div>
+        </div>
+        <Badge className={display.className}>{display.label}</Badge>
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {grant.scopes.map((scope) => (
+          <Badge key={scope} variant="outline">{SCOPE_LABELS[scope].label}</Badge>
+        ))}
+      </div>
+      <ul className="text-sm space-y-1">
+        {grant.diagnoses.map((diagnosis) => (
+          <li key={diagnosis.id}>
+            <Link href={`/patient/diagnosis/${diagnosis.id}`} className="hover:underline">
+              {diagnosis.type}: {diagnosis.aiDiagnosis}
+            </Link>
+            <span className="text-muted-foreground"> · {diagnosis.diagnosisDate}</span>
+          </li>
+        ))}
+      </ul>
+      <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+        <span>
+          Granted {new Date(grant.createdAt).toLocaleDateString()} ·{" "}
+          {grant.revokedAt
+            ? `revoked ${new Date(grant.revokedAt).toLocaleDateString()}`
+            : `${grant.status === "expired" ? "expired" : "expires"} ${new Date(grant.expiresAt).toLocaleDateString()}`}
+        </span>
+        {onRevoke && (
+          <Button variant="outline" size="sm" onClick={onRevoke} disabled={isRevoking}>
+            {isRevoking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Revoke
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function ShareLinkRow({ link, onRevoke, isRevoking }: { link: PublicShareLink; onRevoke: () => void; isRevoking: boolean }) {
+  const isActive = link.status === "active"
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(link.url)
+      toast.success("Link copied")
+    } catch {
+      toast.error("Copy failed. Select the link and copy it manually.")
+    }
+  }
+
+  return (
+    <div className="border rounded-lg p-4 space-y-2">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Link2 className="h-4 w-4 text-muted-foreground" />
+          {link.diagnosis ? (
+            <Link href={`/patient/diagnosis/${link.diagnosis.id}`} className="font-medium hover:underline">
+              {link.diagnosis.type}: {link.diagnosis.aiDiagnosis}
+            </Link>
+          ) : (
+            <span className="font-medium">Deleted diagnosis</span>
+          )}
+        </div>
+        <Badge className={GRANT_STATUS_DISPLAY[isActive ? "active" : link.revokedAt ? "revoked" : "expired"].className}>
+          {LINK_STATUS_LABELS[link.status]}
+        </Badge>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Opened {link.viewCount}{link.maxViews !== undefined && ` of ${link.maxViews}`} times
+        {link.lastViewedAt && `, last ${new Date(link.lastViewedAt).toLocaleString()}`}
+        {" · "}{link.hasPin ? "PIN protected" : "no PIN"}
+        {" · "}{isActive ? "expires" : "expiry"} {new Date(link.expiresAt).toLocaleDateString()}
+      </p>
+      {isActive && (
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={handleCopy}>
+            <Copy className="mr-2 h-4 w-4" />
+            Copy link
+          </Button>
+          <Button variant="outline" size="sm" onClick={onRevoke} disabled={isRevoking}>
+            {isRevoking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Revoke
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function PatientConsentsPage() {
+  const [grants, setGrants] = useState<PublicGrant[]>([])
+  const [links, setLinks] = useState<PublicShareLink[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [revokingId, setRevokingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    async function fetchSharing() {
+      setIsLoading(true)
+      try {
+        const [grantsResponse, linksResponse] = await Promise.all([
+          fetch("/api/consents"),
+          fetch("/api/share-links"),
+        ])
+        if (!grantsResponse.ok || !linksResponse.ok) {
+          throw new Error(`Failed to fetch sharing settings: ${(grantsResponse.ok ? linksResponse : grantsResponse).statusText}`)
+        }
+        const [grantsData, linksData] = await Promise.all([grantsResponse.json(), linksResponse.json()])
+        setGrants(grantsData.grants)
+        setLinks(linksData.links)
+      } catch (error) {
+        console.error("Error fetching sharing settings:", error)
+        toast.error("Failed to load your sharing settings")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchSharing()
+  }, [])
+
+  const handleRevoke = async (grantId: string) => {
+    setRevokingId(grantId)
+    try {
+      const response = await fetch(`/api/consents/${grantId}/revoke`, { method: "POST" })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || `API error: ${response.statusText}`)
+      }
+
+      setGrants((current) =>
+        current.map((grant) => (grant.id === grantId ? { ...grant, ...result.grant } : grant))
+      )
+      toast.success("Access revoked")
+    } catch (error) {
+      console.error("Error revoking consent grant:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to revoke access. Please try again.")
+    } finally {
+      setRevokingId(null)
+    }
+  }
+
+  const handleRevokeLink = async (linkId: string) => {
+    setRevokingId(linkId)
+    try {
+      const response = await fetch(`/api/share-links/${linkId}/revoke`, { method: "POST" })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || `API error: ${response.statusText}`)
+      }
+
+      setLinks((current) =>
+        current.map((link) => (link.id === linkId ? { ...link, ...result.link } : link))
+      )
+      toast.success("Link revoked")
+    } catch (error) {
+      console.error("Error revoking share link:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to revoke the link. Please try again.")
+    } finally {
+      setRevokingId(null)
+    }
+  }
+
+  const activeGrants = grants.filter((grant) => grant.status === "active")
+  const pastGrants = grants.filter((grant) => grant.status !== "active")
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-900 p-4 md:p-8">
+      <header className="max-w-4xl mx-auto mb-8">
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold">Sharing</h1>
+          <Link href="/patient/dashboard">
+            <Button variant="outline">Back to Dashboard</Button>
+          </Link>
+        </div>
+        <p className="text-muted-foreground mt-2">
+          Doctors, organizations and links you have given access to your diagnoses. Your own care team always keeps its access.
+        </p>
+      </header>
+
+      <main className="max-w-4xl mx-auto space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>Active access</CardTitle>
+                <CardDescription>Share a diagnosis from its detail page to add someone here</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {activeGrants.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">You are not sharing any diagnoses.</p>
+                ) : (
+                  activeGrants.map((grant) => (
+                    <GrantCard
+                      key={grant.id}
+                      grant={grant}
+                      onRevoke={() => handleRevoke(grant.id)}
+                      isRevoking={revokingId === grant.id}
+                    />
+                  ))
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Share links</CardTitle>
+                <CardDescription>Read-only links for people without a MediBox account. Each time a link is opened is counted here.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {links.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">You have not created any share links.</p>
+                ) : (
+                  links.map((link) => (
+                    <ShareLinkRow
+                      key={link.id}
+                      link={link}
+                      onRevoke={() => handleRevokeLink(link.id)}
+                      isRevoking={revokingId === link.id}
+                    />
+                  ))
+                )}
+              </CardContent>
+            </Card>
+
+            {pastGrants.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Past access</CardTitle>
+                  <CardDescription>Expired and revoked grants</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {pastGrants.map((grant) => (
+                    <GrantCard key={grant.id} grant={grant} />
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -22,33 +22,59 @@ import {
   Stethoscope,
   AlertCircle,
   Loader2,
-  MessageSquare
+  MessageSquare,
+  ArrowUp,
+  ArrowDown,
+  Share2
 } from "lucide-react"
 import { Badge } from "@/components/ui/badge"
-import { useGeminiDiagnosis } from "@/lib/hooks/useGeminiDiagnosis"
+import { useSession } from "@/lib/hooks/useSession"
+import { DiagnosisStatus, normalizeDiagnosisStatus, OPEN_REVIEW_STATUSES, REVIEWED_STATUSES } from "@/lib/diagnoses/status"
+import type { EmergencyAlert } from "@/lib/triage/rules"
+import LogoutButton from "@/components/auth/LogoutButton"
+import AnalysisProgress, { AnalysisStatus } from "@/components/diagnosis/AnalysisProgress"
+import EmergencyAlertDialog from "@/components/triage/EmergencyAlert"
+import StatusBadge from "@/components/diagnosis/StatusBadge"
+import NotificationCenter from "@/components/notifications/NotificationCenter"
+
+// Image stored through /api/uploads, waiting to be submitted
+interface UploadedImage {
+  id: string;
+  fileName: string;
+  thumbnailUrl?: string;
+  frameUrls?: string[];
+  // Values read from a DICOM header
+  suggested?: { imageType?: string; bodyPart?: string };
+}
 
 // Type definition for diagnoses
 interface Diagnosis {
   id: string;
   title: string;
   date: string;
-  status: string;
+  status: DiagnosisStatus;
   doctor: string;
 }
 
 export default function PatientDashboard() {
   const router = useRouter()
   const [isUploading, setIsUploading] = useState(false)
-  const [uploadedFiles, setUploadedFiles] = useState<string[]>([])
+  const [uploadedFiles, setUploadedFiles] = useState<UploadedImage[]>([])
+  const [imageType, setImageType] = useState("X-Ray")
+  const [bodyPart, setBodyPart] = useState("Chest")
   const [activeTab, setActiveTab] = useState("upload")
   const [symptoms, setSymptoms] = useState("")
   const [duration, setDuration] = useState("")
   const [severity, setSeverity] = useState("")
   const [medicalHistory, setMedicalHistory] = useState("")
   const [isSubmitting, setIsSubmitting] = useState(false)
+  // Diagnosis whose AI analysis is running in the background
+  const [analyzingId, setAnalyzingId] = useState<string | null>(null)
+  // Emergency red flags triage found in the last submission
+  const [emergency, setEmergency] = useState<EmergencyAlert | null>(null)
   const [pastDiagnoses, setPastDiagnoses] = useState<Diagnosis[]>([])
   const [isLoading, setIsLoading] = useState(true)
-  const { fileToBase64 } = useGeminiDiagnosis()
+  const { user } = useSession()
   
   useEffect(() => {
     // Fetch past diagnoses
@@ -75,7 +101,7 @@ export default function PatientDashboard() {
           id: d.id,
           title: d.aiDiagnosis,
           date: d.diagnosisDate,
-          status: d.status === "approved" ? "Confirmed" : "Pending Review",
+          status: normalizeDiagnosisStatus(d.status),
           doctor: d.doctorName
         }))
         
@@ -85,8 +111,8 @@ export default function PatientDashboard() {
         
         // Fallback to sample data
         setPastDiagnoses([
-          {id: "1", title: "Chest pain and shortness of breath", date: "May 15, 2023", status: "Confirmed", doctor: "Dr. Sarah Williams"},
-          {id: "2", title: "Recurring migraine headaches", date: "Jun 22, 2023", status: "Pending Review", doctor: "Awaiting doctor review"},
+          {id: "1", title: "Chest pain and shortness of breath", date: "May 15, 2023", status: "approved", doctor: "Dr. Sarah Williams"},
+          {id: "2", title: "Recurring migraine headaches", date: "Jun 22, 2023", status: "awaiting_review", doctor: "Awaiting doctor review"},
         ])
       } finally {
         setIsLoading(false)
@@ -141,11 +167,8 @@ export default function PatientDashboard() {
       const result = await response.json()
       
       toast.success("Symptoms submitted for analysis")
-      
-      // Redirect to the new diagnosis
-      setTimeout(() => {
-        router.push(`/patient/diagnosis/${result.diagnosisId}`)
-      }, 1000)
+      setEmergency(result.emergency)
+      setAnalyzingId(result.diagnosisId)
     } catch (error) {
       console.error("Error submitting symptoms:", error)
       toast.error("Failed to analyze symptoms. Please try again.")
@@ -160,31 +183,40 @@ export default function PatientDashboard() {
 
     setIsUploading(true)
     
-    // Process file uploads
+    // Upload the selected files to storage
     const processFiles = async () => {
       try {
-        const newFiles = Array.from(files).map(file => file.name)
-        setUploadedFiles(prev => [...prev, ...newFiles])
-        
-        // Convert the first file to base64 for processing
-        if (files[0]) {
-          const base64Data = await fileToBase64(files[0])
-          
-          // Store in state for later submission
-          // In a real app, you might want to store this in a more appropriate state variable
-          setUploadedFiles(prev => [...prev, base64Data.substring(0, 20) + '...'])
+        const formData = new FormData()
+        Array.from(files).forEach(file => formData.append('file', file))
+
+        const response = await fetch('/api/uploads', {
+          method: 'POST',
+          body: formData,
+        })
+
+        const result = await response.json()
+        if (!response.ok) {
+          throw new Error(result.error || `Upload failed: ${response.statusText}`)
         }
-        
+
+        setUploadedFiles(prev => [...prev, ...result.uploads])
+
+        // Pre-fill the analysis fields from the DICOM header when available
+        const suggested = (result.uploads as UploadedImage[]).find(upload => upload.suggested)?.suggested
+        if (suggested?.imageType) setImageType(suggested.imageType)
+        if (suggested?.bodyPart) setBodyPart(suggested.bodyPart)
         toast.success(`${files.length} file(s) uploaded successfully`)
       } catch (error) {
         console.error("Error processing files:", error)
-        toast.error("Failed to process files. Please try again.")
+        toast.error(error instanceof Error ? error.message : "Failed to process files. Please try again.")
       } finally {
         setIsUploading(false)
       }
     }
     
     processFiles()
+    // Allow selecting the same file again after removing it
+    e.target.value = ""
   }
 
   const handleFilesSubmit = async () => {
@@ -196,8 +228,6 @@ export default function PatientDashboard() {
     setIsSubmitting(true)
     
     try {
-      // In a real app, you would send the actual image data
-      // This is simplified for demonstration purposes
       const response = await fetch('/api/diagnoses', {
         method: 'POST',
         headers: {
@@ -206,9 +236,9 @@ export default function PatientDashboard() {
         body: JSON.stringify({
           type: 'image',
           data: {
-            imageData: "data:image/jpeg;base64,/9j/4AAQSkZJRgABAQEASABIAAD/...", // Dummy data
-            imageType: "X-Ray",
-            bodyPart: "Chest"
+            uploadIds: uploadedFiles.map(file => file.id),
+            imageType,
+            bodyPart
           }
         }),
       })
@@ -220,11 +250,7 @@ export default function PatientDashboard() {
       const result = await response.json()
       
       toast.success("Medical images submitted for analysis")
-      
-      // Redirect to the new diagnosis
-      setTimeout(() => {
-        router.push(`/patient/diagnosis/${result.diagnosisId}`)
-      }, 1000)
+      setAnalyzingId(result.diagnosisId)
     } catch (error) {
       console.error("Error submitting images:", error)
       toast.error("Failed to analyze images. Please try again.")
@@ -237,6 +263,30 @@ export default function PatientDashboard() {
     setUploadedFiles(prev => prev.filter((_, i) => i !== index))
   }
 
+  // Study order is the order the images are sent to the model and displayed
+  const moveFile = (index: number, offset: -1 | 1) => {
+    setUploadedFiles(prev => {
+      const target = index + offset
+      if (target < 0 || target >= prev.length) return prev
+      const next = [...prev]
+      const [moved] = next.splice(index, 1)
+      next.splice(target, 0, moved)
+      return next
+    })
+  }
+
+  // Open the diagnosis once it is ready; a failed analysis stays on screen
+  const handleAnalysisFinished = (status: AnalysisStatus) => {
+    if (status.job?.status === "dead") {
+      toast.error("The AI analysis failed. Please try again.")
+      return
+    }
+    toast.success("Analysis complete")
+    // An emergency alert is not taken off screen; the card links to the result
+    if (emergency) return
+    router.push(`/patient/diagnosis/${analyzingId}`)
+  }
+
   return (
     <div className="min-h-screen bg-slate-50 dark:bg-slate-900">
       {/* Header */}
@@ -259,6 +309,16 @@ export default function PatientDashboard() {
                   Chat
                 </Button>
               </Link>
+              <Link href="/patient/consents">
+                <Button 
+                  variant="ghost" 
+                  size="sm" 
+                  className="flex items-center gap-1"
+                >
+                  <Share2 className="h-4 w-4" />
+                  Sharing
+                </Button>
+              </Link>
             </nav>
           </div>
           <div className="flex items-center gap-3">
@@ -267,11 +327,12 @@ export default function PatientDashboard() {
                 <User size={20} />
               </Avatar>
               <div className="text-sm">
-                <div>John Smith</div>
+                <div>{user?.name ?? "Patient"}</div>
                 <div className="text-xs text-muted-foreground">Patient</div>
               </div>
             </div>
-            <Link href="/patient/dashboard/chat">
+            <NotificationCenter />
+            <Link href="/patient/chat">
               <Button 
                 variant="ghost" 
                 size="icon" 
@@ -281,9 +342,7 @@ export default function PatientDashboard() {
                 <MessageSquare className="h-5 w-5" />
               </Button>
             </Link>
-            <Link href="/">
-              <Button variant="outline" size="sm">Logout</Button>
-            </Link>
+            <LogoutButton variant="outline" size="sm" />
           </div>
         </div>
       </header>
@@ -291,13 +350,39 @@ export default function PatientDashboard() {
       {/* Main Content */}
       <main className="container mx-auto px-4 py-6">
         <div className="mb-6">
-          <h2 className="text-2xl font-bold">Welcome back, John</h2>
+          <h2 className="text-2xl font-bold">Welcome back{user ? `, ${user.name.split(" ")[0]}` : ""}</h2>
           <p className="text-muted-foreground">Upload medical reports or describe your symptoms for AI analysis</p>
         </div>
 
         <div className="grid gap-6 md:grid-cols-3">
           {/* Main Work Area - Takes 2/3 of the grid on desktop */}
           <div className="md:col-span-2 space-y-6">
+            {analyzingId && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Analyzing Your Submission</CardTitle>
+                  <CardDescription>
+                    You will be taken to your diagnosis as soon as the AI analysis is ready
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <AnalysisProgress
+                    key={analyzingId}
+                    diagnosisId={analyzingId}
+                    onFinished={handleAnalysisFinished}
+                  />
+                </CardContent>
+                <CardFooter className="justify-end gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setAnalyzingId(null)}>
+                    Dismiss
+                  </Button>
+                  <Link href={`/patient/diagnosis/${analyzingId}`}>
+                    <Button variant="outline" size="sm">View Diagnosis</Button>
+                  </Link>
+                </CardFooter>
+              </Card>
+            )}
+
             <Card>
               <CardHeader>
                 <CardTitle>Create New Diagnosis</CardTitle>
@@ -324,18 +409,19 @@ export default function PatientDashboard() {
                         <FileImage className="h-10 w-10 text-muted-foreground mb-2" />
                         <h3 className="font-medium">Upload Medical Images</h3>
                         <p className="text-sm text-muted-foreground mb-4">
-                          Support for X-rays, MRIs, CT scans, and other medical images
+                          Support for X-rays, MRIs, CT scans, and other medical images, including DICOM (.dcm)
                         </p>
                         <Input
                           type="file"
-                          accept="image/*"
+                          accept="image/png,image/jpeg,image/webp,.dcm,application/dicom"
                           className="hidden"
                           id="file-upload"
                           onChange={handleFileUpload}
+                          disabled={isUploading}
                           multiple
                         />
-                        <label htmlFor="file-upload">
-                          <Button variant="outline" className="relative" disabled={isUploading}>
+                        <Button asChild variant="outline" className="relative" aria-disabled={isUploading}>
+                          <label htmlFor="file-upload" className="cursor-pointer">
                             {isUploading ? (
                               <>
                                 <Loader2 className="h-4 w-4 mr-2 animate-spin" />
@@ -347,42 +433,104 @@ export default function PatientDashboard() {
                                 Select Files
                               </>
                             )}
-                          </Button>
-                        </label>
+                          </label>
+                        </Button>
                       </div>
                       
                       {uploadedFiles.length > 0 && (
                         <div className="border rounded-md">
                           <div className="p-3 border-b bg-muted/30">
                             <h4 className="font-medium">Uploaded Files</h4>
+                            {uploadedFiles.length > 1 && (
+                              <p className="text-xs text-muted-foreground">
+                                These images are analyzed together as one study, in the order shown
+                              </p>
+                            )}
                           </div>
                           <ul className="divide-y">
                             {uploadedFiles.map((file, index) => (
-                              <li key={index} className="flex items-center justify-between p-3">
+                              <li key={file.id} className="flex items-center justify-between p-3">
+                                <div className="flex items-center">
+                                  {file.thumbnailUrl ? (
+                                    // eslint-disable-next-line @next/next/no-img-element
+                                    <img
+                                      src={file.thumbnailUrl}
+                                      alt={file.fileName}
+                                      className="h-10 w-10 mr-3 rounded object-cover border"
+                                    />
+                                  ) : (
+                                    <FileImage className="h-4 w-4 mr-2 text-primary" />
+                                  )}
+                                  <span className="text-sm truncate max-w-md">{file.fileName}</span>
+                                  {file.frameUrls && file.frameUrls.length > 0 && (
+                                    <Badge variant="outline" className="ml-2">
+                                      DICOM · {file.frameUrls.length} frame{file.frameUrls.length === 1 ? "" : "s"}
+                                    </Badge>
+                                  )}
+                                </div>
                                 <div className="flex items-center">
-                                  <FileImage className="h-4 w-4 mr-2 text-primary" />
-                                  <span className="text-sm truncate max-w-md">{file}</span>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-8 w-8"
+                                    onClick={() => moveFile(index, -1)}
+                                    disabled={index === 0}
+                                    aria-label="Move up"
+                                  >
+                                    <ArrowUp className="h-4 w-4" />
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-8 w-8"
+                                    onClick={() => moveFile(index, 1)}
+                                    disabled={index === uploadedFiles.length - 1}
+                                    aria-label="Move down"
+                                  >
+                                    <ArrowDown className="h-4 w-4" />
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-8 w-8"
+                                    onClick={() => removeFile(index)}
+                                    aria-label="Remove"
+                                  >
+                                    <X className="h-4 w-4" />
+                                  </Button>
                                 </div>
-                                <Button
-                                  variant="ghost"
-                                  size="icon"
-                                  className="h-8 w-8"
-                                  onClick={() => removeFile(index)}
-                                >
-                                  <X className="h-4 w-4" />
-                                </Button>
                               </li>
                             ))}
                           </ul>
+                          <div className="p-3 border-t grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                              <label className="text-sm font-medium" htmlFor="image-type">Image type</label>
+                              <Input
+                                id="image-type"
+                                value={imageType}
+                                onChange={(e) => setImageType(e.target.value)}
+                                placeholder="e.g., X-Ray, MRI, CT scan"
+                              />
+                            </div>
+                            <div className="space-y-2">
+                              <label className="text-sm font-medium" htmlFor="body-part">Body part</label>
+                              <Input
+                                id="body-part"
+                                value={bodyPart}
+                                onChange={(e) => setBodyPart(e.target.value)}
+                                placeholder="e.g., Chest, Brain, Knee"
+                              />
+                            </div>
+                          </div>
                           <div className="p-3 border-t flex justify-end">
                             <Button 
                               onClick={handleFilesSubmit} 
-                              disabled={isUploading || isSubmitting}
+                              disabled={isUploading || isSubmitting || !imageType.trim() || !bodyPart.trim()}
                             >
                               {isSubmitting ? (
                                 <>
                                   <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                                  Processing...
+                                  Submitting...
                                 </>
                               ) : "Submit for Analysis"}
                             </Button>
@@ -458,7 +606,7 @@ export default function PatientDashboard() {
                           {isSubmitting ? (
                             <>
                               <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                              Analyzing...
+                              Submitting...
                             </>
                           ) : "Submit for Analysis"}
                         </Button>
@@ -490,9 +638,7 @@ export default function PatientDashboard() {
                             <div>
                               <div className="flex items-center gap-2">
                                 <h3 className="font-medium">{diagnosis.title}</h3>
-                                <Badge className={diagnosis.status === "Confirmed" ? "bg-green-100 text-green-800" : "bg-yellow-100 text-yellow-800"}>
-                                  {diagnosis.status}
-                                </Badge>
+                                <StatusBadge status={diagnosis.status} audience="patient" />
                               </div>
                               <div className="text-sm text-muted-foreground mt-1 flex items-center gap-3">
                                 <span className="flex items-center gap-1">
@@ -602,7 +748,7 @@ export default function PatientDashboard() {
                     <span>Doctor Reviews</span>
                   </div>
                   <span className="font-medium">
-                    {isLoading ? "-" : pastDiagnoses.filter(d => d.status === "Confirmed").length}
+                    {isLoading ? "-" : pastDiagnoses.filter(d => REVIEWED_STATUSES.includes(d.status)).length}
                   </span>
                 </div>
                 <div className="flex items-center justify-between">
@@ -613,7 +759,7 @@ export default function PatientDashboard() {
                     <span>Pending Reviews</span>
                   </div>
                   <span className="font-medium">
-                    {isLoading ? "-" : pastDiagnoses.filter(d => d.status === "Pending Review").length}
+                    {isLoading ? "-" : pastDiagnoses.filter(d => OPEN_REVIEW_STATUSES.includes(d.status)).length}
                   </span>
                 </div>
               </CardContent>
@@ -627,6 +773,8 @@ export default function PatientDashboard() {
           </div>
         </div>
       </main>
+
+      <EmergencyAlertDialog alert={emergency} onClose={() => setEmergency(null)} />
     </div>
   )
 } 
\ No newline at end of file
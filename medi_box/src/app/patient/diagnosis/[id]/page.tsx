@@ -1,7 +1,7 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import { useParams, useRouter } from "next/navigation"
+import { useParams, useRouter, useSearchParams } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
@@ -10,6 +10,13 @@ import { toast } from "sonner"
 import { Avatar } from "@/components/ui/avatar"
 import { Textarea } from "@/components/ui/textarea"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import ShareDiagnosisDialog from "@/components/consent/ShareDiagnosisDialog"
+import ChatInterface from "@/components/Chat/ChatInterface"
+import AnalysisProgress from "@/components/diagnosis/AnalysisProgress"
+import ChangedByDoctor from "@/components/diagnosis/ChangedByDoctor"
+import StatusBadge from "@/components/diagnosis/StatusBadge"
+import StudyImageGallery, { StudyImage, studyImagesOf } from "@/components/diagnosis/StudyImageGallery"
+import { EmergencyBanner } from "@/components/triage/EmergencyAlert"
 import { 
   FileText, 
   User, 
@@ -24,9 +31,13 @@ import {
   MessageSquare,
   Printer,
   Brain,
-  Loader2
+  Loader2,
+  AlertTriangle,
+  ShieldCheck
 } from "lucide-react"
-import { useGeminiDiagnosis } from "@/lib/hooks/useGeminiDiagnosis"
+import { DiagnosisAmendment, isChangedByDoctor } from "@/lib/diagnoses/amendments"
+import { normalizeDiagnosisStatus, REVIEWED_STATUSES, STATUS_DISPLAY } from "@/lib/diagnoses/status"
+import type { TriageMatch } from "@/lib/triage/rules"
 
 // Type definition for diagnosis data
 interface DiagnosisData {
@@ -40,6 +51,8 @@ interface DiagnosisData {
   doctorName: string;
   doctorFeedback: string;
   imageSrc: string;
+  imageUploadId?: string;
+  images?: StudyImage[];
   aiModelData: {
     modelVersion: string;
     analysisTimestamp: string;
@@ -48,19 +61,69 @@ interface DiagnosisData {
   };
   treatmentRecommendations: string[];
   riskFactors: string[];
+  aiAnalysis?: {
+    redFlags: string[];
+  };
+  amendment?: DiagnosisAmendment;
+  aiError?: string;
+  additionalInfo?: { message: string; providedAt: string }[];
+  triage?: { urgent: boolean; matches: TriageMatch[]; checkedAt: string };
+}
+
+// Result of GET /api/diagnoses/:id/verify
+interface IntegrityCheck {
+  status: "verified" | "mismatch" | "not_anchored";
+  recordHash: string;
+  onChainHash?: string;
+  anchoredAt?: string;
+  contractAddress: string;
+  chainId: number;
+  transactionHash?: string;
 }
 
+const INTEGRITY_MESSAGES: Record<IntegrityCheck["status"], { title: string; description: string; className: string }> = {
+  verified: {
+    title: "Record verified",
+    description: "This report matches the fingerprint recorded on the blockchain when your doctor reviewed it.",
+    className: "text-green-700 dark:text-green-400",
+  },
+  mismatch: {
+    title: "Record does not match",
+    description: "This report differs from the fingerprint recorded on the blockchain. Please contact your care team.",
+    className: "text-red-700 dark:text-red-400",
+  },
+  not_anchored: {
+    title: "Not yet on the blockchain",
+    description: "This report has not been anchored yet. Reports are anchored once a doctor approves or amends them.",
+    className: "text-yellow-700 dark:text-yellow-500",
+  },
+}
+
+// Tabs a link can open with ?tab=
+const TABS = ["summary", "ai-analysis", "doctor-review", "images", "ask"]
+
 export default function PatientDiagnosisDetail() {
   const params = useParams()
   const router = useRouter()
+  const requestedTab = useSearchParams().get("tab")
   const { id } = params
   const [showAIModelDialog, setShowAIModelDialog] = useState(false)
   const [activeTab, setActiveTab] = useState("summary")
-  const [question, setQuestion] = useState("")
   const [diagnosisData, setDiagnosisData] = useState<DiagnosisData | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const { getFollowUpRecommendations } = useGeminiDiagnosis()
+  const [additionalInfo, setAdditionalInfo] = useState("")
+  const [isSendingInfo, setIsSendingInfo] = useState(false)
+  const [integrityCheck, setIntegrityCheck] = useState<IntegrityCheck | null>(null)
+  const [isVerifying, setIsVerifying] = useState(false)
+  const [showShareDialog, setShowShareDialog] = useState(false)
+  const [isDownloadingPdf, setIsDownloadingPdf] = useState(false)
+
+  // Links such as a doctor's reply notification open a given tab, also
+  // when the page is already open
+  useEffect(() => {
+    if (requestedTab && TABS.includes(requestedTab)) setActiveTab(requestedTab)
+  }, [requestedTab])
 
   useEffect(() => {
     async function fetchDiagnosisData() {
@@ -121,31 +184,102 @@ export default function PatientDiagnosisDetail() {
     fetchDiagnosisData()
   }, [id])
 
+  // Reload the diagnosis to show the analysis result, or why it failed
+  const handleAnalysisFinished = async () => {
+    try {
+      const response = await fetch(`/api/diagnoses/${id}`)
+      if (!response.ok) {
+        throw new Error(`Failed to fetch diagnosis: ${response.statusText}`)
+      }
+      setDiagnosisData(await response.json())
+    } catch (err) {
+      console.error("Error fetching diagnosis:", err)
+      toast.error("The analysis finished, but the diagnosis could not be reloaded. Please refresh the page.")
+    }
+  }
+
   const handleShareClick = () => {
-    toast.success("Diagnosis shared with your healthcare provider")
+    setShowShareDialog(true)
+  }
+
+  // The PDF is rendered on the server; save it under the name the server gives it
+  const handleDownloadPdf = async () => {
+    setIsDownloadingPdf(true)
+    try {
+      const response = await fetch(`/api/diagnoses/${id}/pdf`)
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}))
+        throw new Error(result.error || `API error: ${response.statusText}`)
+      }
+
+      const fileName = response.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ?? `medibox-report-${id}.pdf`
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement("a")
+      link.href = url
+      link.download = fileName
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error("Error downloading report:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to download the report. Please try again.")
+    } finally {
+      setIsDownloadingPdf(false)
+    }
+  }
+
+  // Recompute the report fingerprint on the server and compare it on-chain
+  const handleVerifyClick = async () => {
+    setIsVerifying(true)
+    try {
+      const response = await fetch(`/api/diagnoses/${id}/verify`)
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || `API error: ${response.statusText}`)
+      }
+
+      setIntegrityCheck(result)
+    } catch (error) {
+      console.error("Error verifying diagnosis:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to verify this report. Please try again.")
+    } finally {
+      setIsVerifying(false)
+    }
   }
 
-  const handleQuestionSubmit = async (e: React.FormEvent) => {
+  // Answer the doctor's request for more information
+  const handleInfoSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
-    if (!question.trim() || !diagnosisData) return
-    
+    if (!additionalInfo.trim() || !diagnosisData) return
+
+    setIsSendingInfo(true)
     try {
-      // Use Gemini API to get AI response for patient questions
-      const recommendationsResult = await getFollowUpRecommendations(
-        diagnosisData.aiDiagnosis, 
-        question
-      )
-      
-      if (recommendationsResult) {
-        toast.success("Your question has been answered by AI and sent to your doctor")
-      } else {
-        toast.success("Question submitted to your doctor")
+      const response = await fetch(`/api/diagnoses/${id}/info`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ information: additionalInfo })
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || `API error: ${response.statusText}`)
       }
-      
-      setQuestion("")
+
+      setDiagnosisData({
+        ...diagnosisData,
+        status: result.status,
+        additionalInfo: [
+          ...(diagnosisData.additionalInfo ?? []),
+          { message: additionalInfo.trim(), providedAt: new Date().toISOString() }
+        ]
+      })
+      setAdditionalInfo("")
+      toast.success("Your answer has been sent to your doctor")
     } catch (error) {
-      console.error("Error submitting question:", error)
-      toast.error("Failed to submit question. Please try again.")
+      console.error("Error sending additional information:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to send your answer. Please try again.")
+    } finally {
+      setIsSendingInfo(false)
     }
   }
 
@@ -174,6 +308,12 @@ export default function PatientDiagnosisDetail() {
     )
   }
 
+  const studyImages = studyImagesOf(diagnosisData)
+  const status = normalizeDiagnosisStatus(diagnosisData.status)
+  // Doctor feedback is shown once the review is finished or while the doctor
+  // is waiting on an answer from the patient
+  const hasDoctorReview = REVIEWED_STATUSES.includes(status) || status === "rejected" || status === "closed"
+
   return (
     <div className="min-h-screen bg-slate-50 dark:bg-slate-900">
       {/* Header */}
@@ -186,9 +326,7 @@ export default function PatientDiagnosisDetail() {
             <div>
               <div className="flex items-center gap-2 flex-wrap">
                 <h1 className="text-xl font-bold">Medical Report #{id}</h1>
-                <Badge className={diagnosisData.status === "approved" ? "bg-green-100 text-green-800 dark:bg-green-800/20 dark:text-green-500" : "bg-yellow-100 text-yellow-800 dark:bg-yellow-800/20 dark:text-yellow-500"}>
-                  {diagnosisData.status === "approved" ? "Doctor Approved" : "Pending Review"}
-                </Badge>
+                <StatusBadge status={status} audience="patient" />
               </div>
               <p className="text-sm text-muted-foreground flex items-center gap-1">
                 <CalendarClock className="h-3 w-3" />
@@ -201,10 +339,18 @@ export default function PatientDiagnosisDetail() {
               <Brain className="h-4 w-4 mr-2" />
               AI Model
             </Button>
+            <Button variant="outline" size="sm" onClick={handleVerifyClick} disabled={isVerifying}>
+              {isVerifying ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ShieldCheck className="h-4 w-4 mr-2" />}
+              Verify integrity
+            </Button>
             <Button variant="outline" size="sm" onClick={handleShareClick}>
               <Share2 size={16} className="mr-2" />
               Share
             </Button>
+            <Button variant="outline" size="sm" onClick={handleDownloadPdf} disabled={isDownloadingPdf}>
+              {isDownloadingPdf ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download size={16} className="mr-2" />}
+              Download PDF
+            </Button>
             <Button variant="outline" size="sm">
               <Printer size={16} className="mr-2" />
               Print
@@ -214,7 +360,13 @@ export default function PatientDiagnosisDetail() {
       </header>
 
       <main className="container mx-auto px-4 py-6">
-        <Tabs defaultValue={activeTab} onValueChange={setActiveTab} className="w-full">
+        {diagnosisData.triage?.urgent && (
+          <div className="mb-6">
+            <EmergencyBanner title="Your symptoms may need urgent care" matches={diagnosisData.triage.matches} />
+          </div>
+        )}
+
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
           <TabsList className="mb-6 w-full justify-start overflow-auto">
             <TabsTrigger value="summary">
               <FileText className="h-4 w-4 mr-2" />
@@ -242,6 +394,56 @@ export default function PatientDiagnosisDetail() {
           <TabsContent value="summary">
             <div className="grid gap-6 md:grid-cols-3">
               <div className="md:col-span-2 space-y-6">
+                {(status === "submitted" || status === "ai_processing") && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>AI Analysis in Progress</CardTitle>
+                      <CardDescription>
+                        The results will appear here as soon as the analysis is ready
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <AnalysisProgress diagnosisId={diagnosisData.id} onFinished={handleAnalysisFinished} />
+                    </CardContent>
+                  </Card>
+                )}
+
+                {status === "ai_failed" && (
+                  <Card className="border-red-200 dark:border-red-900">
+                    <CardHeader>
+                      <CardTitle className="text-red-700 dark:text-red-400">Analysis Failed</CardTitle>
+                      <CardDescription>
+                        {diagnosisData.aiError || "The AI analysis could not be completed."} Please submit your symptoms or images again from the dashboard.
+                      </CardDescription>
+                    </CardHeader>
+                  </Card>
+                )}
+
+                {status === "needs_more_info" && (
+                  <Card className="border-orange-200 dark:border-orange-900">
+                    <CardHeader>
+                      <CardTitle>Your Doctor Needs More Information</CardTitle>
+                      <CardDescription>
+                        {diagnosisData.doctorName} asked: &ldquo;{diagnosisData.doctorFeedback}&rdquo;
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <form onSubmit={handleInfoSubmit} className="space-y-3">
+                        <Textarea
+                          placeholder="Type your answer here..."
+                          className="min-h-[100px]"
+                          value={additionalInfo}
+                          onChange={(e) => setAdditionalInfo(e.target.value)}
+                        />
+                        <Button type="submit" disabled={!additionalInfo.trim() || isSendingInfo}>
+                          {isSendingInfo && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                          Send to Doctor
+                        </Button>
+                      </form>
+                    </CardContent>
+                  </Card>
+                )}
+
                 <Card>
                   <CardHeader>
                     <CardTitle>Diagnosis Summary</CardTitle>
@@ -253,9 +455,13 @@ export default function PatientDiagnosisDetail() {
                     <div>
                       <h3 className="text-xl font-medium flex items-center gap-2">
                         {diagnosisData.aiDiagnosis}
-                        <Badge variant="outline" className="ml-2 bg-primary/10">
-                          {diagnosisData.confidence}% Confidence
-                        </Badge>
+                        {isChangedByDoctor(diagnosisData.amendment, "aiDiagnosis") ? (
+                          <ChangedByDoctor />
+                        ) : (
+                          <Badge variant="outline" className="ml-2 bg-primary/10">
+                            {diagnosisData.confidence}% Confidence
+                          </Badge>
+                        )}
                       </h3>
                       <p className="text-sm text-muted-foreground mt-1">
                         Based on {diagnosisData.type}
@@ -268,19 +474,32 @@ export default function PatientDiagnosisDetail() {
                           <Stethoscope className="h-4 w-4 text-primary" />
                           Doctor&apos;s Assessment
                         </h4>
-                        <p className="text-sm">
-                          {diagnosisData.doctorFeedback}
-                        </p>
-                        <div className="mt-2 text-sm text-muted-foreground">
-                          Reviewed by {diagnosisData.doctorName}
-                        </div>
+                        {hasDoctorReview ? (
+                          <>
+                            <p className="text-sm">
+                              {diagnosisData.doctorFeedback}
+                            </p>
+                            <div className="mt-2 text-sm text-muted-foreground">
+                              Reviewed by {diagnosisData.doctorName}
+                            </div>
+                          </>
+                        ) : (
+                          <p className="text-sm text-muted-foreground">
+                            {STATUS_DISPLAY[status].patientLabel}. Your doctor&apos;s assessment will appear here once the review is complete.
+                          </p>
+                        )}
                       </div>
 
                       <div className="border rounded-md p-4">
                         <h4 className="font-medium mb-2">Treatment Recommendations</h4>
                         <ul className="text-sm space-y-1 list-disc list-inside">
                           {diagnosisData.treatmentRecommendations.map((item, i) => (
-                            <li key={i}>{item}</li>
+                            <li key={i}>
+                              {item}
+                              {isChangedByDoctor(diagnosisData.amendment, "treatmentRecommendations", item) && (
+                                <span className="ml-2"><ChangedByDoctor /></span>
+                              )}
+                            </li>
                           ))}
                         </ul>
                       </div>
@@ -292,32 +511,46 @@ export default function PatientDiagnosisDetail() {
                   <CardHeader>
                     <CardTitle>Uploaded Reports</CardTitle>
                   </CardHeader>
-                  <CardContent>
-                    <div className="border rounded-md overflow-hidden">
-                      <div className="relative aspect-video">
-                        <div className="absolute inset-0 flex items-center justify-center bg-muted">
-                          <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="h-12 w-12 text-muted-foreground">
-                            <rect width="18" height="18" x="3" y="3" rx="2" ry="2"></rect>
-                            <circle cx="8.5" cy="8.5" r="1.5"></circle>
-                            <path d="m21 15-5-5L5 21"></path>
-                          </svg>
+                  <CardContent className="space-y-3">
+                    {studyImages.length === 0 && (
+                      <p className="text-sm text-muted-foreground">No images were submitted with this diagnosis.</p>
+                    )}
+                    {studyImages.map((image, index) => (
+                      <div key={image.uploadId ?? image.src} className="border rounded-md overflow-hidden">
+                        <div className="relative aspect-video bg-muted">
+                          {image.thumbnailSrc || image.src ? (
+                            // eslint-disable-next-line @next/next/no-img-element
+                            <img
+                              src={image.thumbnailSrc ?? image.src}
+                              alt={image.fileName ?? `${diagnosisData.type} image ${index + 1}`}
+                              className="absolute inset-0 h-full w-full object-contain"
+                            />
+                          ) : (
+                            <div className="absolute inset-0 flex items-center justify-center">
+                              <FileImage className="h-12 w-12 text-muted-foreground" />
+                            </div>
+                          )}
                         </div>
-                      </div>
-                      <div className="p-3 bg-muted/50">
-                        <div className="flex items-center justify-between">
-                          <div>
-                            <p className="text-sm font-medium">Chest X-ray</p>
-                            <p className="text-xs text-muted-foreground">
-                              Uploaded on May 10, 2023
-                            </p>
+                        <div className="p-3 bg-muted/50">
+                          <div className="flex items-center justify-between gap-2">
+                            <div className="min-w-0">
+                              <p className="text-sm font-medium truncate">{image.fileName ?? diagnosisData.type}</p>
+                              <p className="text-xs text-muted-foreground">
+                                Uploaded on {new Date(diagnosisData.diagnosisDate).toLocaleDateString()}
+                              </p>
+                            </div>
+                            {image.uploadId && (
+                              <Button variant="outline" size="sm" asChild>
+                                <a href={`/api/uploads/${image.uploadId}`} download={image.fileName ?? true}>
+                                  <Download size={14} className="mr-2" />
+                                  Download
+                                </a>
+                              </Button>
+                            )}
                           </div>
-                          <Button variant="outline" size="sm">
-                            <Download size={14} className="mr-2" />
-                            Download
-                          </Button>
                         </div>
                       </div>
-                    </div>
+                    ))}
                   </CardContent>
                 </Card>
               </div>
@@ -332,6 +565,24 @@ export default function PatientDiagnosisDetail() {
                   </CardContent>
                 </Card>
 
+                {diagnosisData.aiAnalysis && diagnosisData.aiAnalysis.redFlags.length > 0 && (
+                  <Card className="border-red-200 dark:border-red-900">
+                    <CardHeader>
+                      <CardTitle className="text-red-700 dark:text-red-400">Seek Urgent Care If</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <ul className="space-y-1">
+                        {diagnosisData.aiAnalysis.redFlags.map((flag, i) => (
+                          <li key={i} className="flex items-center gap-2">
+                            <AlertTriangle className="h-4 w-4 text-red-500 shrink-0" />
+                            {flag}
+                          </li>
+                        ))}
+                      </ul>
+                    </CardContent>
+                  </Card>
+                )}
+
                 <Card>
                   <CardHeader>
                     <CardTitle>Risk Factors</CardTitle>
@@ -342,6 +593,7 @@ export default function PatientDiagnosisDetail() {
                         <li key={i} className="flex items-center gap-2">
                           <div className="h-1.5 w-1.5 rounded-full bg-red-500"></div>
                           {risk}
+                          {isChangedByDoctor(diagnosisData.amendment, "riskFactors", risk) && <ChangedByDoctor />}
                         </li>
                       ))}
                     </ul>
@@ -505,10 +757,28 @@ export default function PatientDiagnosisDetail() {
               <CardContent className="space-y-6">
                 <div className="border-l-4 border-primary p-4 bg-primary/5 rounded-r-md">
                   <p className="italic">
-                    &ldquo;{diagnosisData.doctorFeedback}&rdquo;
+                    {hasDoctorReview || status === "needs_more_info"
+                      ? <>&ldquo;{diagnosisData.doctorFeedback}&rdquo;</>
+                      : "Your diagnosis has not been reviewed by a doctor yet."}
                   </p>
                 </div>
 
+                {diagnosisData.additionalInfo && diagnosisData.additionalInfo.length > 0 && (
+                  <div>
+                    <h3 className="font-medium mb-3">Information You Provided</h3>
+                    <ul className="space-y-2 text-sm">
+                      {diagnosisData.additionalInfo.map((info, i) => (
+                        <li key={i} className="border rounded-md p-3">
+                          <p>{info.message}</p>
+                          <p className="text-xs text-muted-foreground mt-1">
+                            Sent {new Date(info.providedAt).toLocaleString()}
+                          </p>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 <div className="grid gap-6 md:grid-cols-2">
                   <div>
                     <h3 className="font-medium mb-3">Treatment Plan</h3>
@@ -518,7 +788,12 @@ export default function PatientDiagnosisDetail() {
                           <div className="h-5 w-5 bg-green-100 dark:bg-green-800/20 rounded-full flex items-center justify-center text-xs font-medium text-green-800 dark:text-green-400 mt-0.5">
                             ✓
                           </div>
-                          {item}
+                          <span>
+                            {item}
+                            {isChangedByDoctor(diagnosisData.amendment, "treatmentRecommendations", item) && (
+                              <span className="ml-2"><ChangedByDoctor /></span>
+                            )}
+                          </span>
                         </li>
                       ))}
                     </ul>
@@ -552,7 +827,7 @@ export default function PatientDiagnosisDetail() {
                       <div className="text-sm text-muted-foreground">AI Accuracy</div>
                     </div>
                     <div className="border rounded-md p-3 text-center">
-                      <div className="text-lg font-bold text-green-600">Confirmed</div>
+                      <div className="text-lg font-bold text-green-600">{STATUS_DISPLAY[status].patientLabel}</div>
                       <div className="text-sm text-muted-foreground">Diagnosis Status</div>
                     </div>
                     <div className="border rounded-md p-3 text-center">
@@ -575,34 +850,15 @@ export default function PatientDiagnosisDetail() {
           {/* Images Tab */}
           <TabsContent value="images">
             <div className="grid gap-6 md:grid-cols-2">
-              <Card>
+              <Card className={studyImages.length > 1 ? "md:col-span-2" : undefined}>
                 <CardHeader>
-                  <CardTitle>Original X-ray Image</CardTitle>
+                  <CardTitle>{studyImages.length > 1 ? `Study Images (${studyImages.length})` : "Original Image"}</CardTitle>
+                  <CardDescription>
+                    Taken on {new Date(diagnosisData.diagnosisDate).toLocaleDateString()}
+                  </CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <div className="border rounded-lg overflow-hidden">
-                    <div className="relative aspect-square">
-                      <div className="absolute inset-0 flex items-center justify-center bg-muted">
-                        <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="h-12 w-12 text-muted-foreground">
-                          <rect width="18" height="18" x="3" y="3" rx="2" ry="2"></rect>
-                          <circle cx="8.5" cy="8.5" r="1.5"></circle>
-                          <path d="m21 15-5-5L5 21"></path>
-                        </svg>
-                      </div>
-                    </div>
-                    <div className="p-3 bg-muted/50 flex justify-between items-center">
-                      <div>
-                        <p className="text-sm font-medium">Chest X-ray (Original)</p>
-                        <p className="text-xs text-muted-foreground">
-                          Taken on May 10, 2023
-                        </p>
-                      </div>
-                      <Button variant="outline" size="sm">
-                        <Download size={14} className="mr-2" />
-                        Download
-                      </Button>
-                    </div>
-                  </div>
+                  <StudyImageGallery images={studyImages} label={`${diagnosisData.type} (Original)`} />
                 </CardContent>
               </Card>
 
@@ -621,17 +877,11 @@ export default function PatientDiagnosisDetail() {
                         </svg>
                       </div>
                     </div>
-                    <div className="p-3 bg-muted/50 flex justify-between items-center">
-                      <div>
-                        <p className="text-sm font-medium">AI Analysis Heatmap</p>
-                        <p className="text-xs text-muted-foreground">
-                          Showing areas of concern
-                        </p>
-                      </div>
-                      <Button variant="outline" size="sm">
-                        <Download size={14} className="mr-2" />
-                        Download
-                      </Button>
+                    <div className="p-3 bg-muted/50">
+                      <p className="text-sm font-medium">AI Analysis Heatmap</p>
+                      <p className="text-xs text-muted-foreground">
+                        Showing areas of concern
+                      </p>
                     </div>
                   </div>
                 </CardContent>
@@ -685,25 +935,16 @@ export default function PatientDiagnosisDetail() {
               <div className="md:col-span-2">
                 <Card>
                   <CardHeader>
-                    <CardTitle>Ask Your Doctor</CardTitle>
+                    <CardTitle>Ask About This Diagnosis</CardTitle>
                     <CardDescription>
-                      Have questions about your diagnosis? Ask Dr. Sarah Williams directly.
+                      The assistant answers from this record only, and shows which part of it each answer is based on.
+                      Use &quot;Ask a doctor&quot; to have your care team read the conversation and reply here.
                     </CardDescription>
                   </CardHeader>
                   <CardContent>
-                    <form onSubmit={handleQuestionSubmit} className="space-y-4">
-                      <Textarea 
-                        value={question}
-                        onChange={(e) => setQuestion(e.target.value)}
-                        placeholder="e.g., How long should I take the antibiotics? Are there any side effects I should watch for?"
-                        className="min-h-[150px]"
-                      />
-                      <div className="flex justify-end">
-                        <Button type="submit" disabled={!question.trim()}>
-                          Send Question
-                        </Button>
-                      </div>
-                    </form>
+                    <div className="h-[60vh]">
+                      <ChatInterface key={diagnosisData.id} diagnosisId={diagnosisData.id} />
+                    </div>
                     <div className="mt-6 border-t pt-6">
                       <h3 className="font-medium mb-3">Frequently Asked Questions</h3>
                       <div className="space-y-4">
@@ -745,7 +986,7 @@ export default function PatientDiagnosisDetail() {
                       <p className="text-xs text-muted-foreground mt-1">
                         Detailed information about managing pneumonia at home
                       </p>
-                      <Button variant="link" className="p-0 h-auto mt-1 text-sm">
+                      <Button variant="link" className="p-0 h-auto mt-1 text-sm" onClick={handleDownloadPdf} disabled={isDownloadingPdf}>
                         Download PDF
                       </Button>
                     </div>
@@ -864,6 +1105,60 @@ export default function PatientDiagnosisDetail() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <Dialog open={!!integrityCheck} onOpenChange={(open) => !open && setIntegrityCheck(null)}>
+        <DialogContent className="sm:max-w-md">
+          {integrityCheck && (
+            <>
+              <DialogHeader>
+                <DialogTitle className={INTEGRITY_MESSAGES[integrityCheck.status].className}>
+                  {INTEGRITY_MESSAGES[integrityCheck.status].title}
+                </DialogTitle>
+                <DialogDescription>
+                  {INTEGRITY_MESSAGES[integrityCheck.status].description}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="grid grid-cols-4 gap-3 text-sm py-2">
+                <div className="col-span-1 font-medium text-muted-foreground">Report</div>
+                <div className="col-span-3 font-mono text-xs break-all">{integrityCheck.recordHash}</div>
+
+                {integrityCheck.onChainHash && (
+                  <>
+                    <div className="col-span-1 font-medium text-muted-foreground">On-chain</div>
+                    <div className="col-span-3 font-mono text-xs break-all">{integrityCheck.onChainHash}</div>
+                  </>
+                )}
+
+                {integrityCheck.anchoredAt && (
+                  <>
+                    <div className="col-span-1 font-medium text-muted-foreground">Anchored</div>
+                    <div className="col-span-3">{new Date(integrityCheck.anchoredAt).toLocaleString()}</div>
+                  </>
+                )}
+
+                {integrityCheck.transactionHash && (
+                  <>
+                    <div className="col-span-1 font-medium text-muted-foreground">Transaction</div>
+                    <div className="col-span-3 font-mono text-xs break-all">{integrityCheck.transactionHash}</div>
+                  </>
+                )}
+
+                <div className="col-span-1 font-medium text-muted-foreground">Registry</div>
+                <div className="col-span-3 font-mono text-xs break-all">
+                  {integrityCheck.contractAddress} (chain {integrityCheck.chainId})
+                </div>
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setIntegrityCheck(null)}>
+                  Close
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <ShareDiagnosisDialog diagnosisId={String(id)} open={showShareDialog} onOpenChange={setShowShareDialog} />
     </div>
   )
 } 
\ No newline at end of file
@@ -0,0 +1,286 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { useParams } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { AlertTriangle, CalendarClock, Loader2, Lock, Stethoscope } from "lucide-react"
+import ChangedByDoctor from "@/components/diagnosis/ChangedByDoctor"
+import StatusBadge from "@/components/diagnosis/StatusBadge"
+import StudyImageGallery, { studyImagesOf } from "@/components/diagnosis/StudyImageGallery"
+import { isChangedByDoctor } from "@/lib/diagnoses/amendments"
+import type { PatientReport } from "@/lib/diagnoses/patientReport"
+import { normalizeDiagnosisStatus, REVIEWED_STATUSES, STATUS_DISPLAY } from "@/lib/diagnoses/status"
+
+// Result of POST /api/share/:token
+interface SharedReport {
+  report: PatientReport
+  expiresAt: string
+  viewsRemaining?: number
+}
+
+type LinkState =
+  | { stage: "loading" }
+  | { stage: "unavailable"; message: string }
+  | { stage: "pin"; error?: string }
+  | { stage: "open"; shared: SharedReport }
+
+const CHANGED_LABEL = "Changed by the doctor"
+
+// Read-only report opened from a patient's share link; no account needed
+export default function SharedDiagnosisPage() {
+  const { token } = useParams<{ token: string }>()
+  const [state, setState] = useState<LinkState>({ stage: "loading" })
+  const [pin, setPin] = useState("")
+  const [isOpening, setIsOpening] = useState(false)
+  // Opening counts a view, so it must run once even when effects run twice
+  const openedRef = useRef(false)
+
+  const openReport = async (pinValue?: string) => {
+    setIsOpening(true)
+    try {
+      const response = await fetch(`/api/share/${token}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(pinValue ? { pin: pinValue } : {}),
+      })
+      const result = await response.json()
+
+      if (response.status === 401 && result.pinRequired) {
+        const remaining = typeof result.attemptsRemaining === "number" ? ` ${result.attemptsRemaining} attempts left.` : ""
+        setState({ stage: "pin", error: pinValue ? `${result.error}.${remaining}` : undefined })
+        return
+      }
+      if (!response.ok) {
+        setState({ stage: "unavailable", message: result.error || "This share link cannot be opened" })
+        return
+      }
+
+      setState({ stage: "open", shared: result })
+    } catch (error) {
+      console.error("Error opening shared report:", error)
+      setState({ stage: "unavailable", message: "Failed to open this report. Please try again later." })
+    } finally {
+      setIsOpening(false)
+    }
+  }
+
+  useEffect(() => {
+    if (openedRef.current) return
+    openedRef.current = true
+
+    async function checkLink() {
+      try {
+        const response = await fetch(`/api/share/${token}`)
+        const result = await response.json()
+
+        if (!response.ok || result.status !== "active") {
+          setState({ stage: "unavailable", message: result.error || "This share link cannot be opened" })
+        } else if (result.pinRequired) {
+          setState({ stage: "pin" })
+        } else {
+          await openReport()
+        }
+      } catch (error) {
+        console.error("Error checking share link:", error)
+        setState({ stage: "unavailable", message: "Failed to open this report. Please try again later." })
+      }
+    }
+
+    checkLink()
+    // openReport only depends on the token
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token])
+
+  if (state.stage === "loading") {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-50 dark:bg-slate-900">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (state.stage === "unavailable" || state.stage === "pin") {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-50 dark:bg-slate-900 p-4">
+        <Card className="w-full max-w-sm">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Lock className="h-5 w-5" />
+              Shared medical report
+            </CardTitle>
+            <CardDescription>
+              {state.stage === "unavailable" ? state.message : "Enter the PIN the patient gave you to open this report."}
+            </CardDescription>
+          </CardHeader>
+          {state.stage === "pin" && (
+            <CardContent>
+              <form
+                className="space-y-3"
+                onSubmit={(e) => {
+                  e.preventDefault()
+                  openReport(pin.trim())
+                }}
+              >
+                <Input
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  placeholder="PIN"
+                  value={pin}
+                  onChange={(e) => setPin(e.target.value)}
+                />
+                {state.error && <p className="text-sm text-red-600 dark:text-red-400">{state.error}</p>}
+                <Button type="submit" className="w-full" disabled={!pin.trim() || isOpening}>
+                  {isOpening && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Open report
+                </Button>
+              </form>
+            </CardContent>
+          )}
+        </Card>
+      </div>
+    )
+  }
+
+  const { report, expiresAt, viewsRemaining } = state.shared
+  const status = normalizeDiagnosisStatus(report.status)
+  const hasDoctorReview = REVIEWED_STATUSES.includes(status) || status === "rejected" || status === "closed"
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-900">
+      <header className="bg-white dark:bg-slate-950 border-b">
+        <div className="container mx-auto px-4 py-3 flex flex-wrap items-center justify-between gap-2">
+          <div>
+            <div className="flex items-center gap-2 flex-wrap">
+              <h1 className="text-xl font-bold">Medical Report for {report.patientName}</h1>
+              <StatusBadge status={status} audience="patient" />
+            </div>
+            <p className="text-sm text-muted-foreground flex items-center gap-1">
+              <CalendarClock className="h-3 w-3" />
+              Generated on {report.diagnosisDate}
+            </p>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Shared read-only by the patient · link expires {new Date(expiresAt).toLocaleString()}
+            {viewsRemaining !== undefined && ` · ${viewsRemaining} views left`}
+          </p>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 grid gap-6 md:grid-cols-3">
+        <div className="md:col-span-2 space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Diagnosis Summary</CardTitle>
+              <CardDescription>AI-generated diagnosis with doctor verification</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <h3 className="text-xl font-medium flex items-center gap-2">
+                  {report.aiDiagnosis}
+                  {isChangedByDoctor(report.amendment, "aiDiagnosis") ? (
+                    <ChangedByDoctor label={CHANGED_LABEL} />
+                  ) : (
+                    <Badge variant="outline" className="ml-2 bg-primary/10">
+                      {report.confidence}% Confidence
+                    </Badge>
+                  )}
+                </h3>
+                <p className="text-sm text-muted-foreground mt-1">Based on {report.type}</p>
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="border rounded-md p-4">
+                  <h4 className="font-medium mb-2 flex items-center gap-2">
+                    <Stethoscope className="h-4 w-4 text-primary" />
+                    Doctor&apos;s Assessment
+                  </h4>
+                  {hasDoctorReview ? (
+                    <>
+                      <p className="text-sm">{report.doctorFeedback}</p>
+                      <div className="mt-2 text-sm text-muted-foreground">Reviewed by {report.doctorName}</div>
+                    </>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">{STATUS_DISPLAY[status].patientLabel}.</p>
+                  )}
+                </div>
+
+                <div className="border rounded-md p-4">
+                  <h4 className="font-medium mb-2">Treatment Recommendations</h4>
+                  <ul className="text-sm space-y-1 list-disc list-inside">
+                    {report.treatmentRecommendations.map((item, i) => (
+                      <li key={i}>
+                        {item}
+                        {isChangedByDoctor(report.amendment, "treatmentRecommendations", item) && (
+                          <span className="ml-2"><ChangedByDoctor label={CHANGED_LABEL} /></span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Images</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <StudyImageGallery images={studyImagesOf(report)} label={report.type} />
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Reported Symptoms</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p>{report.symptoms}</p>
+            </CardContent>
+          </Card>
+
+          {report.aiAnalysis && report.aiAnalysis.redFlags.length > 0 && (
+            <Card className="border-red-200 dark:border-red-900">
+              <CardHeader>
+                <CardTitle className="text-red-700 dark:text-red-400">Seek Urgent Care If</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ul className="space-y-1">
+                  {report.aiAnalysis.redFlags.map((flag, i) => (
+                    <li key={i} className="flex items-center gap-2">
+                      <AlertTriangle className="h-4 w-4 text-red-500 shrink-0" />
+                      {flag}
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Risk Factors</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ul className="space-y-1">
+                {report.riskFactors.map((risk, i) => (
+                  <li key={i} className="flex items-center gap-2">
+                    <div className="h-1.5 w-1.5 rounded-full bg-red-500"></div>
+                    {risk}
+                    {isChangedByDoctor(report.amendment, "riskFactors", risk) && <ChangedByDoctor label={CHANGED_LABEL} />}
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,75 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+
+interface AskDoctorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Resolves once the conversation is with a doctor; throws to keep the dialog open
+  onEscalate: (note?: string) => Promise<void>;
+  // Without earlier messages the note is the whole question
+  requireNote?: boolean;
+}
+
+// Confirms handing the conversation to a doctor of the patient's care team
+export default function AskDoctorDialog({ open, onOpenChange, onEscalate, requireNote }: AskDoctorDialogProps) {
+  const [note, setNote] = useState("");
+  const [isSending, setIsSending] = useState(false);
+
+  const handleSend = async () => {
+    setIsSending(true);
+    try {
+      await onEscalate(note);
+      toast.success("Your conversation has been sent to your care team");
+      setNote("");
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error escalating conversation:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to contact a doctor");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Ask a doctor</DialogTitle>
+          <DialogDescription>
+            A doctor from your care team will read this conversation and reply here. This is not for
+            emergencies; replies can take a working day.
+          </DialogDescription>
+        </DialogHeader>
+        <Textarea
+          placeholder={requireNote ? "Your question for the doctor" : "What would you like the doctor to look at? (optional)"}
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          rows={4}
+          maxLength={2000}
+        />
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSending}>
+            Cancel
+          </Button>
+          <Button onClick={handleSend} disabled={isSending || (requireNote && !note.trim())}>
+            {isSending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Send to doctor
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
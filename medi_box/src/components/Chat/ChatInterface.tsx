@@ -8,27 +8,31 @@ import {
   useImperativeHandle,
   ReactNode,
 } from "react";
+import { Stethoscope } from "lucide-react";
+import AskDoctorDialog from "@/components/Chat/AskDoctorDialog";
+import EmergencyAlertDialog, { EmergencyBanner } from "@/components/triage/EmergencyAlert";
+import { ThreadEscalation, useConversation } from "@/lib/hooks/useConversation";
 
 interface ChatInterfaceProps {
   onSuggestionsChange?: (suggestions: string[]) => void;
+  // Called after a message exchange is stored in the conversation
+  onStored?: () => void;
+  // Ground the chat in this diagnosis of the signed-in patient
+  diagnosisId?: string;
 }
 
 interface ChatInterfaceRef {
   sendMessage: (message: string) => void;
 }
 
-interface Message {
-  id: string;
-  message: string;
-  sender: "user" | "ai";
-  timestamp: string;
-  streaming?: boolean;
-  status?: string;
-}
-
-interface ConversationMessage {
-  role: "user" | "assistant";
-  content: string;
+// Where the hand-off to a doctor stands, shown above the input
+function escalationStatus(escalation: ThreadEscalation): string {
+  if (escalation.status === "open") {
+    return `Sent to your care team on ${new Date(escalation.requestedAt).toLocaleString()}. A doctor will reply in this conversation.`;
+  }
+  return `${escalation.doctorName ?? "A doctor"} replied${
+    escalation.answeredAt ? ` on ${new Date(escalation.answeredAt).toLocaleString()}` : ""
+  }. You can ask a doctor again if you have more questions.`;
 }
 
 // Helper to format text styling like bold, italic, etc.
@@ -149,17 +153,22 @@ function formatAIResponse(text: string): ReactNode {
 }
 
 const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(
-  ({ onSuggestionsChange }, ref) => {
-    const [messages, setMessages] = useState<Message[]>([]);
+  ({ onSuggestionsChange, onStored, diagnosisId }, ref) => {
     const [inputMessage, setInputMessage] = useState<string>("");
-    const [isLoading, setIsLoading] = useState<boolean>(false);
-    const [suggestions, setSuggestions] = useState<string[]>([]);
-    const [streamingMessage, setStreamingMessage] = useState<string>("");
-    const [conversationHistory, setConversationHistory] = useState<
-      ConversationMessage[]
-    >([]);
+    const [showAskDoctor, setShowAskDoctor] = useState(false);
+    const {
+      messages,
+      streamingText: streamingMessage,
+      suggestions,
+      isLoading: isLoadingThread,
+      isSending: isLoading,
+      emergency,
+      dismissEmergency,
+      escalation,
+      escalate,
+      sendMessage,
+    } = useConversation({ onStored, diagnosisId });
     const messagesEndRef = useRef<HTMLDivElement>(null);
-    const abortControllerRef = useRef<AbortController | null>(null);
 
     // Update parent component when suggestions change
     useEffect(() => {
@@ -185,156 +194,13 @@ const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(
 
       const messageText = inputMessage.trim();
       setInputMessage("");
-      setIsLoading(true);
-      setSuggestions([]);
-
-      // Add user message
-      const userMessage: Message = {
-        id: `user-${Date.now()}`,
-        message: messageText,
-        sender: "user",
-        timestamp: new Date().toISOString(),
-      };
-
-      setMessages((prev) => [...prev, userMessage]);
-
-      // Update conversation history
-      const newHistory: ConversationMessage[] = [
-        ...conversationHistory,
-        { role: "user" as const, content: messageText },
-      ].slice(-10);
-
-      setConversationHistory(newHistory);
-
-      try {
-        abortControllerRef.current = new AbortController();
-
-        const response = await fetch("/api/gemini", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            message: messageText,
-            category: "general",
-            conversationHistory: newHistory,
-          }),
-          signal: abortControllerRef.current.signal,
-        });
-
-        if (!response.ok) throw new Error("Failed to get response");
-
-        const reader = response?.body?.getReader();
-        const decoder = new TextDecoder();
-        const chunks = [];
-        let lastUpdateTime = Date.now();
-        const UPDATE_INTERVAL = 50; // Throttle updates to every 50ms
-
-        // Add placeholder for AI message
-        const aiMessageId = `ai-${Date.now()}`;
-        setMessages((prev) => [
-          ...prev,
-          {
-            id: aiMessageId,
-            message: "",
-            sender: "ai" as const,
-            timestamp: new Date().toISOString(),
-            streaming: true,
-          },
-        ]);
-
-        while (true) {
-          const { done, value } = (await reader?.read()) ?? {
-            done: true,
-            value: undefined,
-          };
-          if (done) break;
-
-          const chunk = decoder.decode(value, { stream: true });
-          chunks.push(chunk);
-
-          const accumulatedText = chunks.join("");
-
-          // Check for metadata marker
-          if (accumulatedText.includes("___METADATA___")) {
-            const [textPart, metadataPart] =
-              accumulatedText.split("___METADATA___");
-
-            // Final update with complete text
-            setStreamingMessage(textPart);
-
-            try {
-              const metadata = JSON.parse(metadataPart);
-              if (metadata.suggestions) setSuggestions(metadata.suggestions);
-            } catch (e) {
-              console.error("Failed to parse metadata:", e);
-            }
-            break;
-          }
-
-          // Throttle UI updates to avoid excessive re-renders
-          const now = Date.now();
-          if (now - lastUpdateTime >= UPDATE_INTERVAL) {
-            setStreamingMessage(accumulatedText);
-            lastUpdateTime = now;
-          }
-        }
-
-        // Ensure final state is set
-        const finalText = chunks.join("").split("___METADATA___")[0];
-
-        setMessages((prev) =>
-          prev.map((msg) =>
-            msg.id === aiMessageId
-              ? { ...msg, message: finalText, streaming: false }
-              : msg
-          )
-        );
-
-        setStreamingMessage("");
-        setConversationHistory((prev) =>
-          [...prev, { role: "assistant" as const, content: finalText }].slice(
-            -10
-          )
-        );
-      } catch (error: unknown) {
-        if (error instanceof Error && error.name === "AbortError") return;
-        console.error(error);
-        setMessages((prev) => [
-          ...prev,
-          {
-            id: `error-${Date.now()}`,
-            message: "Sorry, something went wrong. Please try again.",
-            sender: "ai" as const,
-            timestamp: new Date().toISOString(),
-            status: "error",
-          },
-        ]);
-      } finally {
-        setIsLoading(false);
-      }
+      await sendMessage(messageText);
     };
 
-    // Cleanup on unmount
-    useEffect(() => {
-      return () => {
-        if (abortControllerRef.current) {
-          abortControllerRef.current.abort();
-        }
-      };
-    }, []);
-
     // Expose sendMessage method to parent component
     useImperativeHandle(ref, () => ({
       sendMessage: (message) => {
-        setInputMessage(message);
-        // Trigger submit after a small delay to ensure state is updated
-        setTimeout(() => {
-          const form = document.querySelector("form");
-          if (form) {
-            form.dispatchEvent(
-              new Event("submit", { cancelable: true, bubbles: true })
-            );
-          }
-        }, 100);
+        sendMessage(message);
       },
     }));
 
@@ -346,11 +212,24 @@ const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(
             <div className="w-3 h-3 rounded-full bg-green-400"></div>
             <h2 className="font-medium">Medical Assistant</h2>
           </div>
+          <button
+            type="button"
+            onClick={() => setShowAskDoctor(true)}
+            disabled={isLoadingThread || escalation?.status === "open"}
+            className="flex items-center gap-1 px-2 py-1 text-sm rounded-md bg-primary-foreground/10 hover:bg-primary-foreground/20 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Stethoscope className="h-4 w-4" />
+            Ask a doctor
+          </button>
         </div>
 
         {/* Messages container */}
         <div className="flex-1 p-4 overflow-y-auto">
-          {messages.length === 0 ? (
+          {isLoadingThread ? (
+            <div className="flex items-center justify-center h-full">
+              <div className="animate-spin h-6 w-6 border-2 border-primary border-t-transparent rounded-full"></div>
+            </div>
+          ) : messages.length === 0 && !isLoading ? (
             <div className="flex flex-col items-center justify-center h-full text-center text-muted-foreground">
               <svg
                 className="w-16 h-16 mb-4 text-primary/20"
@@ -366,10 +245,14 @@ const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(
                 />
               </svg>
               <p className="text-lg font-medium">
-                How can I help with your medical concerns today?
+                {diagnosisId
+                  ? "What would you like to know about this diagnosis?"
+                  : "How can I help with your medical concerns today?"}
               </p>
               <p className="text-sm mt-2">
-                Your information remains private and secure
+                {diagnosisId
+                  ? "Answers are based on this record and show which part they come from"
+                  : "Your information remains private and secure"}
               </p>
             </div>
           ) : (
@@ -378,37 +261,55 @@ const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(
                 <div
                   key={msg.id}
                   className={`mb-4 ${
-                    msg.sender === "user" ? "ml-auto" : "mr-auto"
+                    msg.role === "user" ? "ml-auto" : "mr-auto"
                   } max-w-[85%]`}
                 >
+                  {msg.emergency && (
+                    <div className="mb-2">
+                      <EmergencyBanner
+                        matches={msg.emergency.matches}
+                        emergencyNumber={msg.emergency.emergencyNumber}
+                      />
+                    </div>
+                  )}
+                  {msg.role === "doctor" && (
+                    <div className="flex items-center gap-1 mb-1 text-xs font-medium text-blue-700">
+                      <Stethoscope className="h-3 w-3" />
+                      {msg.author?.name ?? "Your doctor"}
+                    </div>
+                  )}
                   <div
                     className={`p-3 rounded-lg ${
-                      msg.sender === "user"
+                      msg.role === "user"
                         ? "bg-primary text-primary-foreground rounded-br-none"
+                        : msg.role === "doctor"
+                        ? "bg-blue-50 text-blue-950 border border-blue-200 rounded-bl-none whitespace-pre-wrap"
                         : "bg-muted text-foreground rounded-bl-none"
-                    } ${msg.streaming ? "animate-pulse" : ""} ${
-                      msg.status === "error" ? "bg-red-100 text-red-900" : ""
-                    }`}
+                    } ${msg.failed ? "bg-red-100 text-red-900" : ""}`}
                   >
-                    {msg.sender === "ai" && !msg.status ? (
-                      msg.streaming ? (
-                        <div className="flex items-center space-x-2">
-                          <div className="animate-spin h-4 w-4 border-2 border-primary border-t-transparent rounded-full"></div>
-                          <span>Thinking...</span>
-                        </div>
-                      ) : (
-                        formatAIResponse(msg.message)
-                      )
-                    ) : (
-                      msg.message
-                    )}
+                    {msg.role === "assistant" && !msg.failed
+                      ? formatAIResponse(msg.content)
+                      : msg.content}
                   </div>
+                  {msg.citations && msg.citations.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-1 mt-1 text-xs text-muted-foreground">
+                      <span>Based on:</span>
+                      {msg.citations.map((citation) => (
+                        <span
+                          key={citation.section}
+                          className="px-2 py-0.5 rounded-full bg-primary/10 text-primary"
+                        >
+                          {citation.label}
+                        </span>
+                      ))}
+                    </div>
+                  )}
                   <div
                     className={`text-xs mt-1 text-muted-foreground ${
-                      msg.sender === "user" ? "text-right" : "text-left"
+                      msg.role === "user" ? "text-right" : "text-left"
                     }`}
                   >
-                    {new Date(msg.timestamp).toLocaleTimeString([], {
+                    {new Date(msg.createdAt).toLocaleTimeString([], {
                       hour: "2-digit",
                       minute: "2-digit",
                     })}
@@ -417,10 +318,17 @@ const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(
               ))}
 
               {/* Streaming message display */}
-              {streamingMessage && (
+              {isLoading && (
                 <div className="mb-4 mr-auto max-w-[85%]">
                   <div className="p-3 rounded-lg bg-muted text-foreground rounded-bl-none">
-                    {formatAIResponse(streamingMessage)}
+                    {streamingMessage ? (
+                      formatAIResponse(streamingMessage)
+                    ) : (
+                      <div className="flex items-center space-x-2">
+                        <div className="animate-spin h-4 w-4 border-2 border-primary border-t-transparent rounded-full"></div>
+                        <span>Thinking...</span>
+                      </div>
+                    )}
                   </div>
                 </div>
               )}
@@ -429,6 +337,21 @@ const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(
           <div ref={messagesEndRef} />
         </div>
 
+        <EmergencyAlertDialog alert={emergency} onClose={dismissEmergency} />
+        <AskDoctorDialog
+          open={showAskDoctor}
+          onOpenChange={setShowAskDoctor}
+          onEscalate={escalate}
+          requireNote={messages.length === 0}
+        />
+
+        {escalation && (
+          <div className="px-4 py-2 border-t text-xs text-muted-foreground flex items-start gap-2">
+            <Stethoscope className="h-4 w-4 flex-shrink-0 text-blue-600" />
+            <span>{escalationStatus(escalation)}</span>
+          </div>
+        )}
+
         {/* Input area */}
         <form onSubmit={handleSubmit} className="p-4 border-t">
           <div className="flex items-center space-x-2">
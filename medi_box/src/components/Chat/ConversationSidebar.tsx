@@ -0,0 +1,234 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Check, FileText, Loader2, MessageSquare, Pencil, Plus, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { useChatWidget } from "@/lib/hooks/useChatWidget";
+import { ConversationSummary, MAX_CONVERSATION_TITLE_LENGTH } from "@/lib/store/conversationRepository";
+
+interface ConversationSidebarProps {
+  // Changing it reloads the list, e.g. after a message was stored
+  refreshKey?: number;
+}
+
+function formatUpdatedAt(date: string) {
+  const updated = new Date(date);
+  return updated.toDateString() === new Date().toDateString()
+    ? updated.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+    : updated.toLocaleDateString();
+}
+
+// Past conversations of the signed-in user. Selecting one switches the
+// thread shown by the chat interface and the chat widget.
+export default function ConversationSidebar({ refreshKey }: ConversationSidebarProps) {
+  const { conversationId, setConversationId } = useChatWidget();
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editing, setEditing] = useState<{ id: string; title: string } | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<ConversationSummary | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const fetchConversations = useCallback(async () => {
+    try {
+      const response = await fetch("/api/conversations");
+      if (!response.ok) {
+        throw new Error(`Failed to fetch conversations: ${response.statusText}`);
+      }
+      const data = await response.json();
+      setConversations(data.conversations);
+    } catch (error) {
+      console.error("Error fetching conversations:", error);
+      toast.error("Failed to load your conversations");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchConversations();
+  }, [fetchConversations, refreshKey]);
+
+  const handleRename = async () => {
+    if (!editing) return;
+    const title = editing.title.trim();
+    if (!title) {
+      setEditing(null);
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/conversations/${editing.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || `API error: ${response.statusText}`);
+      }
+      setConversations((prev) => prev.map((item) => (item.id === editing.id ? { ...item, title } : item)));
+      setEditing(null);
+    } catch (error) {
+      console.error("Error renaming conversation:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to rename the conversation");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    setIsDeleting(true);
+
+    try {
+      const response = await fetch(`/api/conversations/${deleteTarget.id}`, { method: "DELETE" });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || `API error: ${response.statusText}`);
+      }
+      setConversations((prev) => prev.filter((item) => item.id !== deleteTarget.id));
+      if (conversationId === deleteTarget.id) setConversationId(null);
+      setDeleteTarget(null);
+    } catch (error) {
+      console.error("Error deleting conversation:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to delete the conversation");
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <Card className="p-4 h-full flex flex-col">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold">Conversations</h2>
+        <Button variant="outline" size="sm" onClick={() => setConversationId(null)}>
+          <Plus className="h-4 w-4 mr-1" />
+          New
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-6 w-6 text-primary animate-spin" />
+        </div>
+      ) : conversations.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Your conversations will appear here so you can come back to them later.
+        </p>
+      ) : (
+        <ul className="space-y-1 overflow-y-auto flex-1">
+          {conversations.map((conversation) => (
+            <li key={conversation.id}>
+              {editing?.id === conversation.id ? (
+                <form
+                  className="flex items-center gap-1 p-1"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    handleRename();
+                  }}
+                >
+                  <Input
+                    autoFocus
+                    value={editing.title}
+                    maxLength={MAX_CONVERSATION_TITLE_LENGTH}
+                    onChange={(e) => setEditing({ ...editing, title: e.target.value })}
+                    onKeyDown={(e) => e.key === "Escape" && setEditing(null)}
+                    className="h-8"
+                    aria-label="Conversation title"
+                  />
+                  <Button type="submit" variant="ghost" size="icon" className="h-8 w-8" aria-label="Save title">
+                    <Check className="h-4 w-4" />
+                  </Button>
+                  <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => setEditing(null)} aria-label="Cancel">
+                    <X className="h-4 w-4" />
+                  </Button>
+                </form>
+              ) : (
+                <div
+                  className={`group flex items-start gap-2 rounded-md p-2 transition-colors ${
+                    conversation.id === conversationId ? "bg-primary/10" : "hover:bg-muted/50"
+                  }`}
+                >
+                  <button
+                    type="button"
+                    className="flex-1 min-w-0 text-left"
+                    onClick={() => setConversationId(conversation.id)}
+                  >
+                    <span className="flex items-center gap-2">
+                      {conversation.diagnosisId ? (
+                        <FileText className="h-4 w-4 flex-shrink-0 text-muted-foreground" aria-label="About a diagnosis" />
+                      ) : (
+                        <MessageSquare className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                      )}
+                      <span className="text-sm font-medium truncate">{conversation.title}</span>
+                    </span>
+                    {conversation.preview && (
+                      <span className="block text-xs text-muted-foreground truncate mt-0.5">{conversation.preview}</span>
+                    )}
+                    <span className="block text-xs text-muted-foreground mt-0.5">
+                      {formatUpdatedAt(conversation.updatedAt)}
+                      {conversation.escalation && (
+                        <span className={conversation.escalation.status === "open" ? "text-amber-600" : "text-blue-600"}>
+                          {conversation.escalation.status === "open" ? " · Waiting for a doctor" : " · Doctor replied"}
+                        </span>
+                      )}
+                    </span>
+                  </button>
+                  <div className="flex opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => setEditing({ id: conversation.id, title: conversation.title })}
+                      aria-label="Rename conversation"
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => setDeleteTarget(conversation)}
+                      aria-label="Delete conversation"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Dialog open={!!deleteTarget} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete conversation?</DialogTitle>
+            <DialogDescription>
+              &ldquo;{deleteTarget?.title}&rdquo; and all its messages will be deleted. This cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteTarget(null)} disabled={isDeleting}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={isDeleting}>
+              {isDeleting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
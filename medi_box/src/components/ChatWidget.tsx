@@ -1,153 +1,60 @@
 "use client";
 
 import { useState, useEffect, useRef } from "react";
-import { Loader2, MessageSquare, Send, X, ChevronRight } from "lucide-react";
+import { Loader2, MessageSquare, Send, Stethoscope, X, ChevronRight } from "lucide-react";
 import { cn } from "@/lib/utils";
 import ReactMarkdown from "react-markdown";
 import { Button } from "@/components/ui/button";
 import { useChatWidget } from "@/lib/hooks/useChatWidget";
+import { useConversation } from "@/lib/hooks/useConversation";
+import EmergencyAlertDialog, { EmergencyBanner } from "@/components/triage/EmergencyAlert";
 import Link from "next/link";
 
-type Message = {
-  role: "user" | "assistant";
-  content: string;
-  timestamp: Date;
-  suggestions?: string[];
-};
-
 export default function ChatWidget() {
-  const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
-  const [loading, setLoading] = useState(false);
-  const [currentStreamingMessage, setCurrentStreamingMessage] = useState("");
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const streamingMessageRef = useRef<HTMLDivElement>(null);
   
   // Get chat widget state from global store
   const { isOpen, isMinimized, toggleChat, closeChat } = useChatWidget();
 
-  // Save/load messages from localStorage
-  useEffect(() => {
-    const savedMessages = localStorage.getItem("medassist-widget-messages");
-    if (savedMessages) {
-      try {
-        setMessages(JSON.parse(savedMessages));
-      } catch (e) {
-        console.error("Failed to parse saved messages:", e);
-      }
-    }
-  }, []);
+  // The thread is stored on the server and shared with the full chat page
+  const {
+    conversationId,
+    messages,
+    streamingText: currentStreamingMessage,
+    isSending: loading,
+    emergency,
+    dismissEmergency,
+    sendMessage,
+  } = useConversation();
+  const fullChatHref = conversationId ? `/patient/chat?conversation=${conversationId}` : "/patient/chat";
 
   useEffect(() => {
     if (messagesEndRef.current) {
       messagesEndRef.current.scrollIntoView({ behavior: "smooth" });
     }
-  }, [messages, currentStreamingMessage]);
-
-  useEffect(() => {
-    if (messages.length > 0) {
-      localStorage.setItem("medassist-widget-messages", JSON.stringify(messages));
+    if (streamingMessageRef.current) {
+      streamingMessageRef.current.scrollIntoView({ behavior: "smooth" });
     }
-  }, [messages]);
+  }, [messages, currentStreamingMessage]);
 
   const handleCloseWidget = (e: React.MouseEvent) => {
     e.stopPropagation();
     closeChat();
   };
 
-  const getAIResponse = async (userMessage: string) => {
-    setLoading(true);
-    setCurrentStreamingMessage("");
-
-    try {
-      const response = await fetch("/api/gemini", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          message: userMessage,
-          category: "General Consultation", // Default category
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error("Failed to get AI response");
-      }
-
-      const reader = response.body?.getReader();
-      if (!reader) throw new Error("No reader available");
-
-      let accumulatedResponse = "";
-
-      while (true) {
-        const { done, value } = await reader.read();
-
-        if (done) break;
-
-        const chunk = new TextDecoder().decode(value);
-
-        try {
-          const jsonData = JSON.parse(chunk);
-          if (jsonData.suggestions && jsonData.done) {
-            const assistantMessage = {
-              role: "assistant" as const,
-              content: accumulatedResponse.trim(),
-              timestamp: new Date(),
-              suggestions: jsonData.suggestions,
-            };
-            
-            setMessages(prev => [...prev, assistantMessage]);
-            setCurrentStreamingMessage("");
-            break;
-          }
-        } catch {
-          accumulatedResponse += chunk;
-          setCurrentStreamingMessage(accumulatedResponse);
-
-          if (streamingMessageRef.current) {
-            streamingMessageRef.current.scrollIntoView({ behavior: "smooth" });
-          }
-        }
-      }
-    } catch (error) {
-      console.error("Error getting AI response:", error);
-      const errorMessage = {
-        role: "assistant" as const,
-        content:
-          "I apologize, but I'm having trouble processing your request. Please try again.",
-        timestamp: new Date(),
-      };
-      setMessages(prev => [...prev, errorMessage]);
-    } finally {
-      setLoading(false);
-    }
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!input.trim()) return;
 
-    const userMessage = {
-      role: "user" as const,
-      content: input,
-      timestamp: new Date(),
-    };
-
-    setMessages(prev => [...prev, userMessage]);
+    const message = input;
     setInput("");
-    await getAIResponse(input);
+    await sendMessage(message);
   };
 
   const handleSuggestionClick = async (suggestion: string) => {
-    const userMessage = {
-      role: "user" as const,
-      content: suggestion,
-      timestamp: new Date(),
-    };
-
-    setMessages(prev => [...prev, userMessage]);
-    await getAIResponse(suggestion);
+    await sendMessage(suggestion);
   };
 
   return (
@@ -181,7 +88,7 @@ export default function ChatWidget() {
             <h3 className="font-bold">MedAssist Chat</h3>
           </div>
           <div className="flex items-center gap-2">
-            <Link href="/patient/dashboard/chat">
+            <Link href={fullChatHref}>
               <button
                 className="p-1 rounded-full hover:bg-white/20 transition-colors"
                 aria-label="Open full chat"
@@ -214,17 +121,33 @@ export default function ChatWidget() {
             <>
               {messages.map((message, index) => (
                 <div
-                  key={index}
+                  key={message.id}
                   className={cn(
                     "flex flex-col",
                     message.role === "user" ? "items-end" : "items-start"
                   )}
                 >
+                  {message.emergency && (
+                    <div className="mb-2 max-w-[85%]">
+                      <EmergencyBanner
+                        matches={message.emergency.matches}
+                        emergencyNumber={message.emergency.emergencyNumber}
+                      />
+                    </div>
+                  )}
+                  {message.role === "doctor" && (
+                    <span className="flex items-center gap-1 mb-1 pl-2 text-xs font-medium text-blue-700">
+                      <Stethoscope className="h-3 w-3" />
+                      {message.author?.name ?? "Your doctor"}
+                    </span>
+                  )}
                   <div
                     className={cn(
                       "rounded-2xl px-4 py-3 shadow-sm max-w-[85%]",
                       message.role === "user"
                         ? "bg-gradient-to-r from-teal-500 to-emerald-500 text-white"
+                        : message.role === "doctor"
+                        ? "bg-blue-50 text-blue-950 border border-blue-200 whitespace-pre-wrap"
                         : "bg-white text-slate-800 border border-slate-200"
                     )}
                   >
@@ -242,11 +165,16 @@ export default function ChatWidget() {
                       message.role === "user" ? "pr-2" : "pl-2"
                     )}
                   >
-                    {new Date(message.timestamp).toLocaleTimeString([], {
+                    {new Date(message.createdAt).toLocaleTimeString([], {
                       hour: "2-digit",
                       minute: "2-digit",
                     })}
                   </span>
+                  {message.citations && message.citations.length > 0 && (
+                    <p className="text-xs mt-1 pl-2 text-slate-500">
+                      Based on: {message.citations.map((citation) => citation.label).join(", ")}
+                    </p>
+                  )}
                   {message.role === "assistant" && message.suggestions && (
                     <div className="mt-2 flex flex-wrap gap-1 pl-2">
                       {message.suggestions.map((suggestion, idx) => (
@@ -315,13 +243,15 @@ export default function ChatWidget() {
           <div className="mt-2 text-center text-xs text-slate-500">
             <p>MedAssist provides general information only.</p>
             <div className="mt-1">
-              <Link href="/patient/dashboard/chat" className="text-teal-600 hover:underline">
+              <Link href={fullChatHref} className="text-teal-600 hover:underline">
                 Open full chat page
               </Link>
             </div>
           </div>
         </form>
       </div>
+
+      <EmergencyAlertDialog alert={emergency} onClose={dismissEmergency} />
     </>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,91 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Loader2 } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { homePathForRole, Role } from "@/lib/auth/session"
+
+interface LoginFormProps {
+  role: Exclude<Role, "admin">;
+  // Path to return to after sign-in, set by the middleware redirect
+  next?: string;
+}
+
+export default function LoginForm({ role, next }: LoginFormProps) {
+  const router = useRouter()
+  const [email, setEmail] = useState("")
+  const [password, setPassword] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+
+    try {
+      const response = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, password }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to sign in")
+      }
+
+      // Only follow same-site relative paths from the query string
+      const destination = next && next.startsWith("/") && !next.startsWith("//")
+        ? next
+        : homePathForRole(data.user.role)
+      router.push(destination)
+      router.refresh()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to sign in")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const idPrefix = role === "doctor" ? "doctor-" : ""
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}email`}>Email</Label>
+        <Input
+          id={`${idPrefix}email`}
+          type="email"
+          autoComplete="email"
+          placeholder="Enter your email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          required
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}password`}>Password</Label>
+        <Input
+          id={`${idPrefix}password`}
+          type="password"
+          autoComplete="current-password"
+          placeholder="Enter your password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          required
+        />
+      </div>
+      <Button type="submit" className="w-full" disabled={isSubmitting}>
+        {isSubmitting ? (
+          <>
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Signing in...
+          </>
+        ) : role === "doctor" ? "Login as Doctor" : "Login as Patient"}
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,26 @@
+"use client"
+
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+
+type LogoutButtonProps = Omit<React.ComponentProps<typeof Button>, "onClick">
+
+export default function LogoutButton({ children = "Logout", ...props }: LogoutButtonProps) {
+  const router = useRouter()
+
+  const handleLogout = async () => {
+    try {
+      await fetch("/api/auth/logout", { method: "POST" })
+    } catch (error) {
+      console.error("Error signing out:", error)
+    }
+    router.push("/")
+    router.refresh()
+  }
+
+  return (
+    <Button {...props} onClick={handleLogout}>
+      {children}
+    </Button>
+  )
+}
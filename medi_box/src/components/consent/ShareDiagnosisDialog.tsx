@@ -0,0 +1,309 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { toast } from "sonner"
+import { Copy, Loader2 } from "lucide-react"
+import type { ConsentScope } from "@/lib/store/consentRepository"
+
+export const SCOPE_LABELS: Record<ConsentScope, { label: string; description: string }> = {
+  view: { label: "View", description: "Read the diagnosis, images and history" },
+  comment: { label: "Comment", description: "Reply to your questions about the diagnosis" },
+  export: { label: "Export", description: "Download or print the report" },
+}
+
+const DEFAULT_GRANT_DAYS = 30
+const DEFAULT_LINK_DAYS = 7
+// Matches SHARE_LINK_MAX_DAYS on the server
+const MAX_LINK_DAYS = 30
+
+function dateInputValue(daysFromNow: number) {
+  const date = new Date(Date.now() + daysFromNow * 24 * 60 * 60 * 1000)
+  return date.toISOString().slice(0, 10)
+}
+
+interface ShareDiagnosisDialogProps {
+  diagnosisId: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+// Lets the patient grant a doctor or an organization time-limited access to a
+// diagnosis, or create a share link for someone without a MediBox account
+export default function ShareDiagnosisDialog({ diagnosisId, open, onOpenChange }: ShareDiagnosisDialogProps) {
+  const [mode, setMode] = useState<"grant" | "link">("grant")
+  const [granteeType, setGranteeType] = useState<"doctor" | "organization">("doctor")
+  const [email, setEmail] = useState("")
+  const [careTeamId, setCareTeamId] = useState("")
+  const [scopes, setScopes] = useState<ConsentScope[]>(["view"])
+  const [expiresOn, setExpiresOn] = useState(() => dateInputValue(DEFAULT_GRANT_DAYS))
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [linkExpiresOn, setLinkExpiresOn] = useState(() => dateInputValue(DEFAULT_LINK_DAYS))
+  const [pin, setPin] = useState("")
+  const [maxViews, setMaxViews] = useState("")
+  const [createdLinkUrl, setCreatedLinkUrl] = useState<string | null>(null)
+
+  const toggleScope = (scope: ConsentScope) => {
+    setScopes((current) =>
+      current.includes(scope) ? current.filter((item) => item !== scope) : [...current, scope]
+    )
+  }
+
+  const handleSubmit = async () => {
+    if (granteeType === "doctor" ? !email.trim() : !careTeamId.trim()) {
+      toast.error(granteeType === "doctor" ? "Enter the doctor's email" : "Enter the organization ID")
+      return
+    }
+    const grantee = granteeType === "doctor"
+      ? { type: "doctor", email: email.trim() }
+      : { type: "organization", careTeamId: careTeamId.trim() }
+
+    setIsSubmitting(true)
+    try {
+      // The grant runs until the end of the chosen day
+      const expiresAt = new Date(`${expiresOn}T23:59:59`).toISOString()
+      const response = await fetch("/api/consents", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ grantee, diagnosisIds: [diagnosisId], scopes, expiresAt }),
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || `API error: ${response.statusText}`)
+      }
+
+      toast.success("Access granted. You can revoke it at any time from Sharing.")
+      onOpenChange(false)
+    } catch (error) {
+      console.error("Error sharing diagnosis:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to share this diagnosis. Please try again.")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleCreateLink = async () => {
+    if (pin && !/^\d{4,8}$/.test(pin)) {
+      toast.error("The PIN must be 4 to 8 digits")
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      const response = await fetch("/api/share-links", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          diagnosisId,
+          expiresAt: new Date(`${linkExpiresOn}T23:59:59`).toISOString(),
+          pin: pin || undefined,
+          maxViews: maxViews ? Number(maxViews) : undefined,
+        }),
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || `API error: ${response.statusText}`)
+      }
+
+      setCreatedLinkUrl(result.link.url)
+    } catch (error) {
+      console.error("Error creating share link:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to create a share link. Please try again.")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleCopyLink = async () => {
+    if (!createdLinkUrl) return
+    try {
+      await navigator.clipboard.writeText(createdLinkUrl)
+      toast.success("Link copied")
+    } catch {
+      toast.error("Copy failed. Select the link and copy it manually.")
+    }
+  }
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      setCreatedLinkUrl(null)
+      setPin("")
+    }
+    onOpenChange(isOpen)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Share this diagnosis</DialogTitle>
+          <DialogDescription>
+            {mode === "grant"
+              ? "Give another doctor or organization access until the date you choose. Your own care team keeps its access either way."
+              : "Create a read-only link for someone without a MediBox account. Anyone with the link (and PIN, if you set one) can open the report until it expires."}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex border-b">
+          {([["grant", "Doctor or organization"], ["link", "Share link"]] as const).map(([value, label]) => (
+            <button
+              key={value}
+              type="button"
+              className={`px-3 py-2 text-sm border-b-2 -mb-px ${mode === value ? "border-primary font-medium" : "border-transparent text-muted-foreground"}`}
+              onClick={() => setMode(value)}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {mode === "link" ? (
+          createdLinkUrl ? (
+            <div className="space-y-3 py-2">
+              <p className="text-sm">Send this link to the person you want to share the report with{pin && ", and tell them the PIN separately"}.</p>
+              <div className="flex gap-2">
+                <Input readOnly value={createdLinkUrl} onFocus={(e) => e.target.select()} />
+                <Button variant="outline" size="icon" onClick={handleCopyLink} aria-label="Copy link">
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-4 py-2">
+              <div className="space-y-2">
+                <Label htmlFor="link-expiry">Link expires on</Label>
+                <Input
+                  id="link-expiry"
+                  type="date"
+                  min={dateInputValue(0)}
+                  max={dateInputValue(MAX_LINK_DAYS - 1)}
+                  value={linkExpiresOn}
+                  onChange={(e) => setLinkExpiresOn(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="link-pin">PIN (optional)</Label>
+                <Input
+                  id="link-pin"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  placeholder="4 to 8 digits"
+                  value={pin}
+                  onChange={(e) => setPin(e.target.value.replace(/\D/g, "").slice(0, 8))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="link-views">View limit (optional)</Label>
+                <Input
+                  id="link-views"
+                  type="number"
+                  min={1}
+                  max={100}
+                  placeholder="Unlimited"
+                  value={maxViews}
+                  onChange={(e) => setMaxViews(e.target.value)}
+                />
+              </div>
+            </div>
+          )
+        ) : (
+          <div className="space-y-4 py-2">
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                size="sm"
+                variant={granteeType === "doctor" ? "default" : "outline"}
+                onClick={() => setGranteeType("doctor")}
+              >
+                A doctor
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant={granteeType === "organization" ? "default" : "outline"}
+                onClick={() => setGranteeType("organization")}
+              >
+                An organization
+              </Button>
+            </div>
+            {granteeType === "doctor" ? (
+              <div className="space-y-2">
+                <Label htmlFor="share-email">Doctor&apos;s email</Label>
+                <Input
+                  id="share-email"
+                  type="email"
+                  placeholder="doctor@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                />
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="share-team">Organization ID</Label>
+                <Input
+                  id="share-team"
+                  placeholder="care-team-id"
+                  value={careTeamId}
+                  onChange={(e) => setCareTeamId(e.target.value)}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Permissions</Label>
+              {(Object.keys(SCOPE_LABELS) as ConsentScope[]).map((scope) => (
+                <label key={scope} className="flex items-start gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    className="mt-1"
+                    checked={scope === "view" || scopes.includes(scope)}
+                    disabled={scope === "view"}
+                    onChange={() => toggleScope(scope)}
+                  />
+                  <span>
+                    <span className="font-medium">{SCOPE_LABELS[scope].label}</span>
+                    <span className="text-muted-foreground"> — {SCOPE_LABELS[scope].description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="share-expiry">Access expires on</Label>
+              <Input
+                id="share-expiry"
+                type="date"
+                min={dateInputValue(0)}
+                max={dateInputValue(364)}
+                value={expiresOn}
+                onChange={(e) => setExpiresOn(e.target.value)}
+              />
+            </div>
+          </div>
+        )}
+        <DialogFooter className="sm:justify-between">
+          <Link href="/patient/consents" className="text-sm text-muted-foreground underline self-center">
+            Manage sharing
+          </Link>
+          {mode === "grant" ? (
+            <Button onClick={handleSubmit} disabled={isSubmitting || !expiresOn}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Grant access
+            </Button>
+          ) : createdLinkUrl ? (
+            <Button variant="outline" onClick={() => setCreatedLinkUrl(null)}>
+              Create another link
+            </Button>
+          ) : (
+            <Button onClick={handleCreateLink} disabled={isSubmitting || !linkExpiresOn}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Create link
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
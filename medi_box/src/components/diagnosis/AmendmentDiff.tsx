@@ -0,0 +1,47 @@
+"use client"
+
+import type { FieldDiff } from "@/lib/diagnoses/amendments"
+
+const FIELD_LABELS: Record<FieldDiff["field"], string> = {
+  aiDiagnosis: "Diagnosis",
+  treatmentRecommendations: "Treatment recommendations",
+  riskFactors: "Risk factors",
+}
+
+interface AmendmentDiffProps {
+  diff: FieldDiff[]
+}
+
+// Field-by-field view of what a doctor changed relative to the AI output
+export default function AmendmentDiff({ diff }: AmendmentDiffProps) {
+  if (diff.length === 0) {
+    return <p className="text-sm text-muted-foreground">No changes to the AI output.</p>
+  }
+
+  return (
+    <dl className="space-y-3 text-sm">
+      {diff.map((change) => (
+        <div key={change.field}>
+          <dt className="font-medium text-muted-foreground mb-1">{FIELD_LABELS[change.field]}</dt>
+          <dd className="space-y-1">
+            {change.field === "aiDiagnosis" ? (
+              <>
+                <div className="text-red-700 dark:text-red-400 line-through">{change.before}</div>
+                <div className="text-green-700 dark:text-green-400">{change.after}</div>
+              </>
+            ) : (
+              <>
+                {change.removed.map((item) => (
+                  <div key={`-${item}`} className="text-red-700 dark:text-red-400 line-through">− {item}</div>
+                ))}
+                {change.added.map((item) => (
+                  <div key={`+${item}`} className="text-green-700 dark:text-green-400">+ {item}</div>
+                ))}
+              </>
+            )}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  )
+}
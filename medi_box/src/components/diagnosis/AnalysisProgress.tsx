@@ -0,0 +1,92 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { AlertCircle, CheckCircle2, Loader2 } from "lucide-react"
+
+// Body of the `progress` and `done` events of /api/diagnoses/[id]/job/events
+export interface AnalysisStatus {
+  diagnosisStatus?: string
+  job: {
+    status: "queued" | "running" | "succeeded" | "dead"
+    attempts: number
+    maxAttempts: number
+    progress: { stage: string; percent: number; message: string }
+    nextAttemptAt?: string
+  } | null
+  finished: boolean
+}
+
+interface AnalysisProgressProps {
+  diagnosisId: string
+  // Called once, when the job has succeeded or is dead
+  onFinished?: (status: AnalysisStatus) => void
+}
+
+// Live progress of the background AI analysis of a diagnosis
+export default function AnalysisProgress({ diagnosisId, onFinished }: AnalysisProgressProps) {
+  const [status, setStatus] = useState<AnalysisStatus | null>(null)
+
+  useEffect(() => {
+    const events = new EventSource(`/api/diagnoses/${diagnosisId}/job/events`)
+    const update = (event: MessageEvent) => setStatus(JSON.parse(event.data))
+
+    events.addEventListener("progress", update)
+    events.addEventListener("done", (event) => {
+      update(event as MessageEvent)
+      // Closing stops EventSource from reconnecting once the stream ends
+      events.close()
+      onFinished?.(JSON.parse((event as MessageEvent).data))
+    })
+
+    return () => events.close()
+    // onFinished is left out so a new callback does not reopen the stream
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [diagnosisId])
+
+  const job = status?.job
+  const percent = job?.progress.percent ?? 0
+
+  if (job?.status === "dead") {
+    return (
+      <div className="flex items-start gap-3 text-sm">
+        <AlertCircle className="h-5 w-5 text-red-600 flex-shrink-0" />
+        <div>
+          <p className="font-medium text-red-700 dark:text-red-400">The analysis failed</p>
+          <p className="text-muted-foreground">
+            It did not succeed after {job.attempts} attempt{job.attempts === 1 ? "" : "s"}.
+          </p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2 text-sm">
+        <span className="flex items-center gap-2">
+          {job?.status === "succeeded" ? (
+            <CheckCircle2 className="h-4 w-4 text-green-600" />
+          ) : (
+            <Loader2 className="h-4 w-4 text-primary animate-spin" />
+          )}
+          {job?.progress.message ?? "Connecting..."}
+        </span>
+        <span className="text-muted-foreground">{percent}%</span>
+      </div>
+      <div
+        className="h-2 w-full rounded-full bg-muted overflow-hidden"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent}
+      >
+        <div className="h-full bg-primary transition-all duration-500" style={{ width: `${percent}%` }} />
+      </div>
+      {job && job.attempts > 1 && job.status !== "succeeded" && (
+        <p className="text-xs text-muted-foreground">
+          Attempt {job.attempts} of {job.maxAttempts}
+        </p>
+      )}
+    </div>
+  )
+}
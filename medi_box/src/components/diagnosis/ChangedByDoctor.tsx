@@ -0,0 +1,16 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+
+interface ChangedByDoctorProps {
+  label?: string
+}
+
+// Marks a value the doctor changed from what the AI suggested
+export default function ChangedByDoctor({ label = "Changed by your doctor" }: ChangedByDoctorProps) {
+  return (
+    <Badge variant="outline" className="bg-teal-50 text-teal-700 dark:bg-teal-900/20 dark:text-teal-400 text-xs font-normal">
+      {label}
+    </Badge>
+  )
+}
@@ -0,0 +1,122 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Loader2 } from "lucide-react"
+import { STATUS_DISPLAY, DiagnosisStatus } from "@/lib/diagnoses/status"
+
+// Audit entry as returned by GET /api/diagnoses/:id/history
+interface HistoryEntry {
+  id: string
+  action: string
+  actorName: string
+  actorRole: string
+  timestamp: string
+  beforeHash?: string
+  afterHash?: string
+  fromStatus?: DiagnosisStatus
+  toStatus?: DiagnosisStatus
+  details?: Record<string, unknown>
+  request: { method: string; path: string; ipAddress?: string }
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  create: "Submitted",
+  ai_result: "AI analysis",
+  view: "Viewed",
+  review: "Reviewed",
+  amendment: "Amended",
+  additional_info: "Patient answered",
+  share: "Shared",
+  link_access: "Share link opened",
+  export: "Exported",
+}
+
+interface HistoryTimelineProps {
+  diagnosisId: string
+  // Changing this value reloads the history, e.g. after a review action
+  refreshKey?: string
+}
+
+export default function HistoryTimeline({ diagnosisId, refreshKey }: HistoryTimelineProps) {
+  const [entries, setEntries] = useState<HistoryEntry[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    async function fetchHistory() {
+      setIsLoading(true)
+      setError(null)
+      try {
+        const response = await fetch(`/api/diagnoses/${diagnosisId}/history?limit=200`)
+        if (!response.ok) {
+          throw new Error(`Failed to fetch history: ${response.statusText}`)
+        }
+        const data = await response.json()
+        setEntries(data.entries)
+      } catch (err) {
+        console.error("Error fetching diagnosis history:", err)
+        setError("History is unavailable")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchHistory()
+  }, [diagnosisId, refreshKey])
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>History</CardTitle>
+        <CardDescription>Every action on this diagnosis, from the audit log</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading && entries.length === 0 ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-muted-foreground">{error}</p>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No history recorded yet.</p>
+        ) : (
+          <ol className="relative border-l ml-2 space-y-4">
+            {entries.map((entry) => {
+              const statusChanged = entry.fromStatus && entry.toStatus && entry.fromStatus !== entry.toStatus
+              const contentChanged = entry.beforeHash !== entry.afterHash
+              return (
+                <li key={entry.id} className="ml-4">
+                  <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border bg-background" />
+                  <div className="flex flex-wrap items-baseline justify-between gap-2">
+                    <p className="text-sm font-medium">
+                      {ACTION_LABELS[entry.action] ?? entry.action}
+                      {typeof entry.details?.reviewAction === "string" && entry.action === "review" && (
+                        <span className="text-muted-foreground font-normal"> ({entry.details.reviewAction.replace(/_/g, " ")})</span>
+                      )}
+                    </p>
+                    <time className="text-xs text-muted-foreground">{new Date(entry.timestamp).toLocaleString()}</time>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {entry.actorName} · {entry.actorRole}
+                    {entry.request.ipAddress && ` · ${entry.request.ipAddress}`}
+                  </p>
+                  {statusChanged && (
+                    <p className="text-xs mt-1">
+                      {STATUS_DISPLAY[entry.fromStatus!].label} → {STATUS_DISPLAY[entry.toStatus!].label}
+                    </p>
+                  )}
+                  {contentChanged && entry.afterHash && (
+                    <p className="text-xs text-muted-foreground font-mono mt-1" title={`${entry.beforeHash ?? "none"} → ${entry.afterHash}`}>
+                      {entry.beforeHash ? `${entry.beforeHash.slice(0, 10)}…` : "new"} → {entry.afterHash.slice(0, 10)}…
+                    </p>
+                  )}
+                </li>
+              )
+            })}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,65 @@
+"use client"
+
+import { useState } from "react"
+
+interface ImageFrameViewerProps {
+  src?: string
+  // Rendered DICOM frames; src is shown when there are none
+  frames?: string[]
+  alt: string
+  className?: string
+}
+
+function ImagePlaceholder({ label }: { label?: string }) {
+  return (
+    <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-muted">
+      <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="h-12 w-12 text-muted-foreground">
+        <rect width="18" height="18" x="3" y="3" rx="2" ry="2"></rect>
+        <circle cx="8.5" cy="8.5" r="1.5"></circle>
+        <path d="m21 15-5-5L5 21"></path>
+      </svg>
+      {label && <p className="text-muted-foreground text-sm">{label}</p>}
+    </div>
+  )
+}
+
+export default function ImageFrameViewer({ src, frames = [], alt, className = "aspect-square" }: ImageFrameViewerProps) {
+  const [frameIndex, setFrameIndex] = useState(0)
+  const [failed, setFailed] = useState<string | null>(null)
+
+  const current = frames.length > 0 ? frames[Math.min(frameIndex, frames.length - 1)] : src
+
+  return (
+    <div>
+      <div className={`relative bg-black ${className}`}>
+        {current && failed !== current ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            src={current}
+            alt={frames.length > 1 ? `${alt} (frame ${frameIndex + 1} of ${frames.length})` : alt}
+            className="absolute inset-0 h-full w-full object-contain"
+            onError={() => setFailed(current)}
+          />
+        ) : (
+          <ImagePlaceholder label={current ? "Image unavailable" : "No image available"} />
+        )}
+      </div>
+      {frames.length > 1 && (
+        <div className="flex items-center gap-3 p-3 border-t">
+          <input
+            type="range"
+            min={0}
+            max={frames.length - 1}
+            value={frameIndex}
+            onChange={(e) => setFrameIndex(Number(e.target.value))}
+            className="flex-1"
+            aria-label="Frame"
+          />
+          <span className="text-xs text-muted-foreground whitespace-nowrap">
+            Frame {frameIndex + 1} / {frames.length}
+          </span>
+        </div>
+      )}
+    </div>
+  )
+}
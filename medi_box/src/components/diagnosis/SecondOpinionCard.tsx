@@ -0,0 +1,95 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+
+export type SecondOpinionData =
+  | {
+      status: "available"
+      model: string
+      diagnosis: string
+      confidence: number
+      allProbabilities: Record<string, number>
+      agreement: "agree" | "partial" | "disagree"
+    }
+  | { status: "unavailable"; model: string; reason: string }
+
+const AGREEMENT_BADGES = {
+  agree: { label: "Models agree", className: "bg-green-100 text-green-800 dark:bg-green-800/20 dark:text-green-500" },
+  partial: { label: "Partial agreement", className: "bg-yellow-100 text-yellow-800 dark:bg-yellow-800/20 dark:text-yellow-500" },
+  disagree: { label: "Models disagree", className: "bg-red-100 text-red-800 dark:bg-red-800/20 dark:text-red-500" },
+}
+
+interface SecondOpinionCardProps {
+  secondOpinion: SecondOpinionData
+  // Primary AI diagnosis the classifier is compared against
+  aiDiagnosis: string
+}
+
+export default function SecondOpinionCard({ secondOpinion, aiDiagnosis }: SecondOpinionCardProps) {
+  if (secondOpinion.status === "unavailable") {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>ML Second Opinion</CardTitle>
+          <CardDescription>Image classifier ({secondOpinion.model})</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-muted-foreground">
+            No second opinion for this diagnosis: {secondOpinion.reason}.
+          </p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const badge = AGREEMENT_BADGES[secondOpinion.agreement]
+  const probabilities = Object.entries(secondOpinion.allProbabilities).sort((a, b) => b[1] - a[1])
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle>ML Second Opinion</CardTitle>
+          <Badge className={badge.className}>{badge.label}</Badge>
+        </div>
+        <CardDescription>Image classifier ({secondOpinion.model})</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4 text-sm">
+          <div>
+            <p className="text-muted-foreground">AI diagnosis</p>
+            <p className="font-medium">{aiDiagnosis}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Classifier</p>
+            <p className="font-medium">
+              {secondOpinion.diagnosis} ({Math.round(secondOpinion.confidence)}%)
+            </p>
+          </div>
+        </div>
+        <div className="space-y-2">
+          {probabilities.map(([label, probability]) => (
+            <div key={label}>
+              <div className="flex justify-between text-xs mb-1">
+                <span>{label}</span>
+                <span className="text-muted-foreground">{probability.toFixed(1)}%</span>
+              </div>
+              <div className="h-1.5 w-full rounded-full bg-muted">
+                <div
+                  className="h-1.5 rounded-full bg-primary"
+                  style={{ width: `${Math.min(100, Math.max(0, probability))}%` }}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+        {secondOpinion.agreement !== "agree" && (
+          <p className="text-xs text-muted-foreground">
+            The classifier&apos;s top label differs from the AI diagnosis. Review the images carefully before approving.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,21 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { normalizeDiagnosisStatus, STATUS_DISPLAY } from "@/lib/diagnoses/status"
+
+interface StatusBadgeProps {
+  status: string
+  // Patients see plainer wording than clinicians
+  audience?: "patient" | "doctor"
+  className?: string
+}
+
+export default function StatusBadge({ status, audience = "doctor", className }: StatusBadgeProps) {
+  const display = STATUS_DISPLAY[normalizeDiagnosisStatus(status)]
+
+  return (
+    <Badge className={`${display.className} ${className ?? ""}`}>
+      {audience === "patient" ? display.patientLabel : display.label}
+    </Badge>
+  )
+}
@@ -0,0 +1,65 @@
+"use client"
+
+import { Download } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import ImageFrameViewer from "@/components/diagnosis/ImageFrameViewer"
+
+export interface StudyImage {
+  uploadId?: string
+  fileName?: string
+  src: string
+  thumbnailSrc?: string
+  frames?: string[]
+}
+
+// Older diagnoses only carry a single imageSrc
+export function studyImagesOf(diagnosis: { images?: StudyImage[]; imageSrc?: string; imageUploadId?: string }): StudyImage[] {
+  if (diagnosis.images && diagnosis.images.length > 0) return diagnosis.images
+  return diagnosis.imageSrc ? [{ src: diagnosis.imageSrc, uploadId: diagnosis.imageUploadId }] : []
+}
+
+interface StudyImageGalleryProps {
+  images: StudyImage[]
+  label: string
+  viewerClassName?: string
+}
+
+export default function StudyImageGallery({ images, label, viewerClassName }: StudyImageGalleryProps) {
+  if (images.length === 0) {
+    return <ImageFrameViewer alt={label} className={viewerClassName} />
+  }
+
+  return (
+    <div className={images.length > 1 ? "grid gap-4 md:grid-cols-2" : undefined}>
+      {images.map((image, index) => (
+        <div key={image.uploadId ?? image.src} className="border rounded-lg overflow-hidden">
+          <ImageFrameViewer
+            src={image.src}
+            frames={image.frames}
+            alt={`${label}, image ${index + 1} of ${images.length}`}
+            className={viewerClassName}
+          />
+          <div className="p-3 bg-muted/50 flex justify-between items-center gap-2">
+            <div className="min-w-0">
+              <p className="text-sm font-medium truncate">
+                {images.length > 1 ? `Image ${index + 1} of ${images.length}` : label}
+                {image.frames && image.frames.length > 0 && " · DICOM"}
+              </p>
+              {image.fileName && (
+                <p className="text-xs text-muted-foreground truncate">{image.fileName}</p>
+              )}
+            </div>
+            {image.uploadId && (
+              <Button variant="outline" size="sm" asChild>
+                <a href={`/api/uploads/${image.uploadId}`} download>
+                  <Download size={14} className="mr-2" />
+                  Download
+                </a>
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,194 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { useRouter } from "next/navigation"
+import { toast } from "sonner"
+import { Bell, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+
+// Notification as returned by /api/notifications and its event stream
+export interface AppNotification {
+  id: string
+  type: "diagnosis_pending" | "analysis_finished" | "review_completed" | "doctor_reply" | "chat_escalated" | "share_accessed"
+  title: string
+  message: string
+  diagnosisId?: string
+  link?: string
+  createdAt: string
+  readAt?: string
+}
+
+interface NotificationCenterProps {
+  // Called for every notification that arrives while the page is open
+  onNotification?: (notification: AppNotification) => void
+}
+
+function timeAgo(date: string) {
+  const minutes = Math.floor((Date.now() - new Date(date).getTime()) / 60000)
+  if (minutes < 1) return "Just now"
+  if (minutes < 60) return `${minutes} min ago`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return `${hours} h ago`
+  return new Date(date).toLocaleDateString()
+}
+
+// Bell with the unread count and a dropdown of recent notifications. New
+// ones arrive over server-sent events; read state is kept on the server.
+export default function NotificationCenter({ onNotification }: NotificationCenterProps) {
+  const router = useRouter()
+  const [notifications, setNotifications] = useState<AppNotification[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [isOpen, setIsOpen] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+  const containerRef = useRef<HTMLDivElement>(null)
+  // Kept in a ref so a new callback does not reopen the stream
+  const onNotificationRef = useRef(onNotification)
+
+  useEffect(() => {
+    onNotificationRef.current = onNotification
+  }, [onNotification])
+
+  useEffect(() => {
+    async function fetchNotifications() {
+      try {
+        const response = await fetch("/api/notifications")
+        if (!response.ok) {
+          throw new Error(`Failed to fetch notifications: ${response.statusText}`)
+        }
+        const data = await response.json()
+        setNotifications(data.notifications)
+        setUnreadCount(data.unreadCount)
+      } catch (error) {
+        console.error("Error fetching notifications:", error)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchNotifications()
+
+    const events = new EventSource("/api/notifications/events")
+    events.addEventListener("notification", (event) => {
+      const notification: AppNotification = JSON.parse((event as MessageEvent).data)
+      setNotifications(prev => [notification, ...prev.filter(item => item.id !== notification.id)])
+      toast(notification.title, { description: notification.message })
+      onNotificationRef.current?.(notification)
+    })
+    events.addEventListener("unread", (event) => {
+      setUnreadCount(JSON.parse((event as MessageEvent).data).count)
+    })
+
+    return () => events.close()
+  }, [])
+
+  // Close the dropdown on a click outside it or on Escape
+  useEffect(() => {
+    if (!isOpen) return
+
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setIsOpen(false)
+    }
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === "Escape") setIsOpen(false)
+    }
+    document.addEventListener("mousedown", handleClick)
+    document.addEventListener("keydown", handleKey)
+    return () => {
+      document.removeEventListener("mousedown", handleClick)
+      document.removeEventListener("keydown", handleKey)
+    }
+  }, [isOpen])
+
+  const markRead = async (ids?: string[]) => {
+    const readAt = new Date().toISOString()
+    setNotifications(prev => prev.map(item => (!ids || ids.includes(item.id)) && !item.readAt ? { ...item, readAt } : item))
+
+    try {
+      const response = await fetch("/api/notifications/read", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ids }),
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || `API error: ${response.statusText}`)
+      }
+      setUnreadCount(result.unreadCount)
+    } catch (error) {
+      console.error("Error updating notifications:", error)
+      toast.error("Failed to update notifications")
+    }
+  }
+
+  const handleSelect = (notification: AppNotification) => {
+    if (!notification.readAt) markRead([notification.id])
+    setIsOpen(false)
+    if (notification.link) router.push(notification.link)
+  }
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="relative"
+        onClick={() => setIsOpen(open => !open)}
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : "Notifications"}
+        aria-expanded={isOpen}
+      >
+        <Bell className="h-5 w-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-red-600 text-[10px] font-medium leading-4 text-white">
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </span>
+        )}
+      </Button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-50 mt-2 w-80 rounded-md border bg-white dark:bg-slate-950 shadow-lg">
+          <div className="flex items-center justify-between border-b px-3 py-2">
+            <h3 className="text-sm font-medium">Notifications</h3>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => markRead()}
+              disabled={unreadCount === 0}
+            >
+              Mark all as read
+            </Button>
+          </div>
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 text-primary animate-spin" />
+            </div>
+          ) : notifications.length === 0 ? (
+            <p className="px-3 py-6 text-center text-sm text-muted-foreground">No notifications yet</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y">
+              {notifications.map((notification) => (
+                <li key={notification.id}>
+                  <button
+                    type="button"
+                    className="flex w-full gap-2 px-3 py-2 text-left hover:bg-muted/50 transition-colors"
+                    onClick={() => handleSelect(notification)}
+                  >
+                    <span
+                      className={`mt-1.5 h-2 w-2 flex-shrink-0 rounded-full ${notification.readAt ? "bg-transparent" : "bg-primary"}`}
+                      aria-hidden
+                    />
+                    <span className="min-w-0">
+                      <span className={`block text-sm ${notification.readAt ? "" : "font-medium"}`}>{notification.title}</span>
+                      <span className="block text-xs text-muted-foreground">{notification.message}</span>
+                      <span className="block text-xs text-muted-foreground mt-0.5">{timeAgo(notification.createdAt)}</span>
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
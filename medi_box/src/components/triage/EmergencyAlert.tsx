@@ -0,0 +1,96 @@
+"use client"
+
+import { AlertTriangle, Phone } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import type { EmergencyAlert, TriageMatch } from "@/lib/triage/rules"
+
+interface EmergencyAlertDialogProps {
+  // The dialog is open while an alert is set
+  alert: EmergencyAlert | null
+  onClose: () => void
+}
+
+interface EmergencyBannerProps {
+  matches: TriageMatch[]
+  emergencyNumber?: string
+  title?: string
+}
+
+function MatchList({ matches }: { matches: TriageMatch[] }) {
+  return (
+    <ul className="space-y-2">
+      {matches.map((match) => (
+        <li key={match.ruleId} className="text-sm">
+          <span className="font-medium">{match.title}:</span> {match.guidance}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+// Interrupts the patient when triage finds emergency red flags in what they
+// wrote; it stays until they acknowledge it
+export default function EmergencyAlertDialog({ alert, onClose }: EmergencyAlertDialogProps) {
+  return (
+    <Dialog open={!!alert} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="border-red-600 border-2">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-red-700 dark:text-red-400">
+            <AlertTriangle className="h-5 w-5" />
+            This may be a medical emergency
+          </DialogTitle>
+          <DialogDescription>
+            What you described can be a sign of a serious condition. Get help now; do not wait for the
+            assistant or for a doctor to review your submission.
+          </DialogDescription>
+        </DialogHeader>
+        {alert && <MatchList matches={alert.matches} />}
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            I understand
+          </Button>
+          {alert && (
+            <Button variant="destructive" asChild>
+              <a href={`tel:${alert.emergencyNumber}`}>
+                <Phone className="h-4 w-4 mr-2" />
+                Call {alert.emergencyNumber}
+              </a>
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+// Lasting notice of the red flags found, e.g. on the diagnosis page
+export function EmergencyBanner({ matches, emergencyNumber, title = "Possible emergency" }: EmergencyBannerProps) {
+  return (
+    <div
+      role="alert"
+      className="rounded-md border border-red-300 bg-red-50 p-4 text-red-900 dark:border-red-800 dark:bg-red-900/20 dark:text-red-200"
+    >
+      <div className="flex items-start gap-3">
+        <AlertTriangle className="h-5 w-5 flex-shrink-0 text-red-600" />
+        <div className="flex-1 space-y-2">
+          <p className="font-medium">{title}</p>
+          <MatchList matches={matches} />
+          {emergencyNumber && (
+            <a href={`tel:${emergencyNumber}`} className="inline-flex items-center gap-1 text-sm font-medium underline">
+              <Phone className="h-4 w-4" />
+              Call {emergencyNumber}
+            </a>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,18 @@
+// Runs once when the server starts. The job worker picks up jobs queued
+// before a restart and retries that are due; it only runs on the Node.js
+// runtime.
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    // A misconfigured AI provider is reported now rather than on the first
+    // analysis; requests keep failing until it is fixed
+    const { getAIProvider } = await import('@/lib/ai/ai');
+    try {
+      getAIProvider();
+    } catch (error) {
+      console.error("AI provider is not configured:", error);
+    }
+
+    const { kickJobWorker } = await import('@/lib/jobs/jobQueue');
+    kickJobWorker();
+  }
+}
@@ -0,0 +1,53 @@
+// AI provider facade; the backend is chosen by AI_PROVIDER and defaults to
+// Gemini. The offline mock returns canned diagnoses, so it is only used when
+// asked for by name: a missing API key fails instead of falling back to it.
+import type { AIProvider } from './aiProvider';
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+
+export type {
+  AIProvider,
+  ChatChunk,
+  ChatGrounding,
+  ChatMessage,
+  ChatRequest,
+  ChatSafety,
+  ChatUsage,
+  MedicalImageData,
+  MedicalImagePart,
+  RecordCitation,
+  RecordExcerpt,
+  SymptomData,
+} from './aiProvider';
+
+export type AIProviderName = 'gemini' | 'mock';
+
+let provider: AIProvider | undefined;
+
+export function getAIProviderName(): AIProviderName {
+  const configured = process.env.AI_PROVIDER || 'gemini';
+  if (configured !== 'gemini' && configured !== 'mock') {
+    throw new Error(`Unknown AI_PROVIDER "${configured}"; use gemini or mock`);
+  }
+  return configured;
+}
+
+export function getAIProvider(): AIProvider {
+  if (!provider) {
+    if (getAIProviderName() === 'gemini') {
+      const apiKey = process.env.GOOGLE_AI_API_KEY;
+      if (!apiKey) {
+        throw new Error('GOOGLE_AI_API_KEY is not configured');
+      }
+
+      provider = createGeminiProvider({
+        apiKey,
+        analysisModel: process.env.GEMINI_ANALYSIS_MODEL || 'gemini-1.5-flash',
+        chatModel: process.env.GEMINI_CHAT_MODEL || 'gemini-2.5-flash-lite',
+      });
+    } else {
+      provider = createMockProvider();
+    }
+  }
+  return provider;
+}
@@ -0,0 +1,85 @@
+import type { DiagnosisAnalysis } from './analysis';
+
+export type SymptomData = {
+  description: string;
+  duration: string;
+  severity: string;
+  medicalHistory?: string;
+};
+
+export type MedicalImagePart = {
+  imageData: string; // Base64 encoded image bytes (no data URL prefix)
+  mimeType: string; // e.g., "image/png", "image/jpeg"
+  studyDetails?: string[]; // De-identified DICOM header fields, if any
+};
+
+export type MedicalImageData = {
+  images: MedicalImagePart[]; // Ordered images of one study
+  imageType: string; // e.g., "X-ray", "MRI", "CT scan"
+  bodyPart: string;
+};
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// A part of the patient's own record the assistant may draw on
+export interface RecordExcerpt {
+  // Stable key, e.g. 'symptoms'
+  section: string;
+  // Name the assistant cites the excerpt by, in square brackets
+  label: string;
+  content: string;
+}
+
+export type RecordCitation = Pick<RecordExcerpt, 'section' | 'label'>;
+
+// The record a chat is about. It is the only patient data the assistant sees.
+export interface ChatGrounding {
+  subject: string;
+  excerpts: RecordExcerpt[];
+}
+
+export interface ChatRequest {
+  message: string;
+  category?: string;
+  // Earlier turns, oldest first
+  history?: ChatMessage[];
+  grounding?: ChatGrounding;
+  // Emergencies triage found in the message; the reply must lead with them
+  emergencies?: string[];
+}
+
+export interface ChatSafety {
+  // The model refused, or stopped generating part way through the reply
+  blocked: boolean;
+  reason?: string;
+  ratings: { category: string; probability: string }[];
+}
+
+export interface ChatUsage {
+  promptTokens: number;
+  replyTokens: number;
+  totalTokens: number;
+}
+
+// A streamed reply is a series of text chunks followed by the safety
+// verdict and the token usage of the whole reply
+export type ChatChunk =
+  | { type: 'text'; text: string }
+  | { type: 'safety'; safety: ChatSafety }
+  | { type: 'usage'; usage: ChatUsage };
+
+// Contract shared by every AI backend (Gemini, local mock). Routes only
+// talk to the provider returned by getAIProvider().
+export interface AIProvider {
+  readonly name: string;
+  // Model identifiers, recorded with each analysis
+  readonly models: { text: string; vision: string; chat: string };
+  analyzeSymptoms(symptoms: SymptomData): Promise<DiagnosisAnalysis>;
+  analyzeImages(study: MedicalImageData): Promise<DiagnosisAnalysis>;
+  // Yields the reply as it is generated
+  streamChat(request: ChatRequest): AsyncIterable<ChatChunk>;
+  followUp(diagnosis: string, patientQuestion?: string): Promise<string>;
+}
@@ -0,0 +1,120 @@
+import { z } from 'zod';
+
+// Structured result every diagnostic analysis must produce. Model output is
+// validated against this schema before anything is stored.
+
+export const DifferentialItemSchema = z.object({
+  condition: z.string().trim().min(1),
+  // Likelihood of this condition, 0-100
+  confidence: z.number().min(0).max(100),
+  rationale: z.string().trim().default(''),
+});
+
+export const DiagnosisAnalysisSchema = z.object({
+  summary: z.string().trim().min(1),
+  findings: z.array(z.string().trim().min(1)).default([]),
+  // Most likely condition first
+  differential: z.array(DifferentialItemSchema).min(1),
+  riskFactors: z.array(z.string().trim().min(1)).default([]),
+  // Signs that need urgent medical attention
+  redFlags: z.array(z.string().trim().min(1)).default([]),
+  recommendations: z.array(z.string().trim().min(1)).default([]),
+  limitations: z.string().trim().optional(),
+});
+
+export type DifferentialItem = z.infer<typeof DifferentialItemSchema>;
+export type DiagnosisAnalysis = z.infer<typeof DiagnosisAnalysisSchema>;
+
+// Raised when the model never produced output matching the schema
+export class AnalysisValidationError extends Error {
+  constructor(message: string, public readonly issues: string[], public readonly rawOutput: string) {
+    super(message);
+    this.name = 'AnalysisValidationError';
+  }
+}
+
+export type AnalysisParseResult =
+  | { success: true; analysis: DiagnosisAnalysis }
+  | { success: false; issues: string[] };
+
+// Models sometimes wrap JSON in a markdown fence despite being asked not to
+function stripCodeFence(text: string): string {
+  const fenced = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  return fenced ? fenced[1] : text.trim();
+}
+
+export function parseDiagnosisAnalysis(text: string): AnalysisParseResult {
+  let json: unknown;
+  try {
+    json = JSON.parse(stripCodeFence(text));
+  } catch (error) {
+    return { success: false, issues: [`Output is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  const result = DiagnosisAnalysisSchema.safeParse(json);
+  if (!result.success) {
+    return {
+      success: false,
+      issues: result.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`),
+    };
+  }
+
+  // Keep the differential ordered by likelihood regardless of model output
+  const differential = [...result.data.differential].sort((a, b) => b.confidence - a.confidence);
+  return { success: true, analysis: { ...result.data, differential } };
+}
+
+// Shape of the JSON the model is asked for, spelled out for the prompt
+export const ANALYSIS_JSON_INSTRUCTIONS = `
+Respond with a single JSON object and nothing else, using exactly these fields:
+{
+  "summary": string,               // two or three sentence overview
+  "findings": string[],            // key observations
+  "differential": [                // possible conditions, most likely first
+    { "condition": string, "confidence": number (0-100), "rationale": string }
+  ],
+  "riskFactors": string[],
+  "redFlags": string[],            // signs that need urgent medical attention
+  "recommendations": string[],     // next steps and further tests
+  "limitations": string            // what limits this assessment
+}
+`;
+
+// Prompt used to ask the model to fix output that failed validation
+export function buildRepairPrompt(previousOutput: string, issues: string[]): string {
+  return `
+Your previous response could not be used because it did not match the required JSON format.
+
+Problems found:
+${issues.map((issue) => `- ${issue}`).join('\n')}
+
+Previous response:
+${previousOutput}
+
+${ANALYSIS_JSON_INSTRUCTIONS}
+Return the corrected JSON object only.
+`;
+}
+
+// Human-readable sections for the stored aiResponse
+export function analysisToSections(analysis: DiagnosisAnalysis): string[] {
+  const sections = [analysis.summary];
+  if (analysis.findings.length > 0) {
+    sections.push(`Key findings: ${analysis.findings.join('; ')}`);
+  }
+  sections.push(
+    `Differential diagnosis: ${analysis.differential
+      .map((item) => `${item.condition} (${Math.round(item.confidence)}%)${item.rationale ? ` - ${item.rationale}` : ''}`)
+      .join('; ')}`
+  );
+  if (analysis.redFlags.length > 0) {
+    sections.push(`Seek urgent care if: ${analysis.redFlags.join('; ')}`);
+  }
+  if (analysis.recommendations.length > 0) {
+    sections.push(`Recommendations: ${analysis.recommendations.join('; ')}`);
+  }
+  if (analysis.limitations) {
+    sections.push(`Limitations: ${analysis.limitations}`);
+  }
+  return sections;
+}
@@ -0,0 +1,173 @@
+import {
+  FinishReason,
+  GoogleGenerativeAI,
+  HarmBlockThreshold,
+  HarmCategory,
+  Part,
+  ResponseSchema,
+  SchemaType,
+} from '@google/generative-ai';
+import type { AIProvider } from './aiProvider';
+import { AnalysisValidationError, buildRepairPrompt, DiagnosisAnalysis, parseDiagnosisAnalysis } from './analysis';
+import { chatPrompt, followUpPrompt, imageAnalysisPrompt, imageLabel, symptomAnalysisPrompt } from './prompts';
+
+export interface GeminiProviderOptions {
+  apiKey: string;
+  // Must support JSON response schemas and image input
+  analysisModel: string;
+  chatModel: string;
+}
+
+const MAX_ANALYSIS_ATTEMPTS = 3;
+
+// Enhanced safety settings for medical content
+const safetySettings = [
+  HarmCategory.HARM_CATEGORY_HARASSMENT,
+  HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+  HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+  HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+].map((category) => ({ category, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE }));
+
+// Finish reasons that mean the reply was withheld or cut short by a filter
+const BLOCKING_FINISH_REASONS: FinishReason[] = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+];
+
+const stringList: ResponseSchema = { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } };
+
+// Mirrors DiagnosisAnalysisSchema so Gemini constrains its output to it
+const analysisResponseSchema: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    summary: { type: SchemaType.STRING },
+    findings: stringList,
+    differential: {
+      type: SchemaType.ARRAY,
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          condition: { type: SchemaType.STRING },
+          confidence: { type: SchemaType.NUMBER, description: 'Likelihood from 0 to 100' },
+          rationale: { type: SchemaType.STRING },
+        },
+        required: ['condition', 'confidence', 'rationale'],
+      },
+    },
+    riskFactors: stringList,
+    redFlags: stringList,
+    recommendations: stringList,
+    limitations: { type: SchemaType.STRING },
+  },
+  required: ['summary', 'findings', 'differential', 'riskFactors', 'redFlags', 'recommendations'],
+};
+
+export function createGeminiProvider({ apiKey, analysisModel, chatModel }: GeminiProviderOptions): AIProvider {
+  const genAI = new GoogleGenerativeAI(apiKey);
+
+  const analysis = genAI.getGenerativeModel({
+    model: analysisModel,
+    safetySettings,
+    generationConfig: {
+      responseMimeType: 'application/json',
+      responseSchema: analysisResponseSchema,
+      temperature: 0.2,
+    },
+  });
+
+  const chat = genAI.getGenerativeModel({
+    model: chatModel,
+    safetySettings,
+    generationConfig: {
+      temperature: 0.7,
+      topP: 0.9,
+      topK: 40,
+      maxOutputTokens: 2048,
+    },
+  });
+
+  // Generate an analysis and validate it; output that fails validation is sent
+  // back to the model with the problems listed, up to MAX_ANALYSIS_ATTEMPTS
+  async function generateAnalysis(parts: Array<string | Part>): Promise<DiagnosisAnalysis> {
+    let request = parts;
+    let output = '';
+    let issues: string[] = [];
+    for (let attempt = 1; attempt <= MAX_ANALYSIS_ATTEMPTS; attempt++) {
+      const result = await analysis.generateContent(request);
+      output = result.response.text();
+
+      const parsed = parseDiagnosisAnalysis(output);
+      if (parsed.success) return parsed.analysis;
+
+      issues = parsed.issues;
+      console.warn(`Gemini analysis attempt ${attempt} failed validation:`, issues);
+      request = [buildRepairPrompt(output, issues)];
+    }
+
+    throw new AnalysisValidationError(
+      `Gemini output failed validation after ${MAX_ANALYSIS_ATTEMPTS} attempts`,
+      issues,
+      output
+    );
+  }
+
+  return {
+    name: 'gemini',
+    models: { text: analysisModel, vision: analysisModel, chat: chatModel },
+
+    analyzeSymptoms(symptoms) {
+      return generateAnalysis([symptomAnalysisPrompt(symptoms)]);
+    },
+
+    analyzeImages(study) {
+      // Label each image, then attach it as an inline part
+      const imageParts = study.images.flatMap((image, index) => [
+        imageLabel(study, index),
+        { inlineData: { data: image.imageData, mimeType: image.mimeType } },
+      ]);
+      return generateAnalysis([imageAnalysisPrompt(study), ...imageParts]);
+    },
+
+    async *streamChat(request) {
+      const result = await chat.generateContentStream(chatPrompt(request));
+      // chunk.text() throws once the reply is blocked, so read the parts
+      for await (const chunk of result.stream) {
+        const text = chunk.candidates?.[0]?.content?.parts?.map((part) => part.text ?? '').join('');
+        if (text) yield { type: 'text', text };
+      }
+
+      const response = await result.response;
+      const candidate = response.candidates?.[0];
+      const blockReason = response.promptFeedback?.blockReason;
+      const finishReason = candidate?.finishReason;
+      const ratings = candidate?.safetyRatings ?? response.promptFeedback?.safetyRatings ?? [];
+      yield {
+        type: 'safety',
+        safety: {
+          blocked: !!blockReason || (!!finishReason && BLOCKING_FINISH_REASONS.includes(finishReason)),
+          reason: blockReason ?? (finishReason === FinishReason.STOP ? undefined : finishReason),
+          ratings: ratings.map(({ category, probability }) => ({ category, probability })),
+        },
+      };
+
+      const usage = response.usageMetadata;
+      if (usage) {
+        yield {
+          type: 'usage',
+          usage: {
+            promptTokens: usage.promptTokenCount,
+            replyTokens: usage.candidatesTokenCount,
+            totalTokens: usage.totalTokenCount,
+          },
+        };
+      }
+    },
+
+    async followUp(diagnosis, patientQuestion) {
+      const result = await chat.generateContent(followUpPrompt(diagnosis, patientQuestion));
+      return result.response.text();
+    },
+  };
+}
@@ -0,0 +1,165 @@
+import type { AIProvider, ChatGrounding, MedicalImageData, SymptomData } from './aiProvider';
+import type { DiagnosisAnalysis } from './analysis';
+
+// Deterministic offline provider for tests and demos. The same input always
+// produces the same output and nothing leaves the process.
+
+const MOCK_MODEL = 'medibox-mock-1';
+
+interface SymptomRule {
+  keywords: RegExp;
+  analysis: Pick<DiagnosisAnalysis, 'differential' | 'riskFactors' | 'redFlags' | 'recommendations'>;
+}
+
+const SYMPTOM_RULES: SymptomRule[] = [
+  {
+    keywords: /chest pain|shortness of breath|palpitation/i,
+    analysis: {
+      differential: [
+        { condition: 'Musculoskeletal chest pain', confidence: 45, rationale: 'Most common cause of chest pain in outpatients' },
+        { condition: 'Acute coronary syndrome', confidence: 25, rationale: 'Must be excluded when chest pain is reported' },
+        { condition: 'Gastro-oesophageal reflux', confidence: 20, rationale: 'Burning chest discomfort can mimic cardiac pain' },
+      ],
+      riskFactors: ['Smoking', 'Hypertension', 'Family history of heart disease'],
+      redFlags: ['Pain spreading to the arm, jaw or back', 'Sweating or fainting', 'Severe shortness of breath'],
+      recommendations: ['Obtain an ECG', 'Seek same-day clinical assessment'],
+    },
+  },
+  {
+    keywords: /cough|fever|sore throat|congestion/i,
+    analysis: {
+      differential: [
+        { condition: 'Viral upper respiratory tract infection', confidence: 70, rationale: 'Cough and fever are typical of a viral infection' },
+        { condition: 'Community-acquired pneumonia', confidence: 20, rationale: 'Possible if fever persists or breathing worsens' },
+        { condition: 'Allergic rhinitis', confidence: 10, rationale: 'Considered when symptoms are seasonal' },
+      ],
+      riskFactors: ['Age over 65', 'Chronic lung disease', 'Smoking'],
+      redFlags: ['Difficulty breathing', 'Fever above 39.5 °C for more than three days', 'Coughing up blood'],
+      recommendations: ['Rest and fluids', 'Paracetamol for fever', 'Chest X-ray if symptoms persist beyond 10 days'],
+    },
+  },
+  {
+    keywords: /headache|migraine/i,
+    analysis: {
+      differential: [
+        { condition: 'Tension-type headache', confidence: 60, rationale: 'Most frequent primary headache' },
+        { condition: 'Migraine', confidence: 30, rationale: 'Likely if headache is throbbing with nausea or light sensitivity' },
+        { condition: 'Medication-overuse headache', confidence: 10, rationale: 'Relevant with frequent analgesic use' },
+      ],
+      riskFactors: ['Stress', 'Poor sleep', 'Frequent analgesic use'],
+      redFlags: ['Sudden severe "thunderclap" headache', 'Headache with fever and neck stiffness', 'New weakness or confusion'],
+      recommendations: ['Keep a headache diary', 'Regular sleep and hydration', 'Review analgesic use with a doctor'],
+    },
+  },
+];
+
+const DEFAULT_ANALYSIS: SymptomRule['analysis'] = {
+  differential: [
+    { condition: 'Non-specific symptoms', confidence: 50, rationale: 'The description does not match a specific pattern' },
+  ],
+  riskFactors: [],
+  redFlags: ['Symptoms that worsen rapidly', 'Loss of consciousness'],
+  recommendations: ['Book a routine appointment with a doctor'],
+};
+
+const LIMITATIONS = 'Generated by the offline mock provider; not a clinical assessment.';
+
+function analyzeSymptoms(symptoms: SymptomData): DiagnosisAnalysis {
+  const rule = SYMPTOM_RULES.find(({ keywords }) => keywords.test(symptoms.description));
+  const analysis = rule?.analysis ?? DEFAULT_ANALYSIS;
+  return {
+    summary: `Symptoms reported for ${symptoms.duration || 'an unspecified duration'} with ${symptoms.severity || 'unspecified'} severity. ${analysis.differential[0].condition} is the most likely explanation.`,
+    findings: [`Reported: ${symptoms.description}`],
+    ...analysis,
+    limitations: LIMITATIONS,
+  };
+}
+
+function analyzeImages(study: MedicalImageData): DiagnosisAnalysis {
+  const subject = `${study.bodyPart} ${study.imageType}`.trim();
+  return {
+    summary: `${study.images.length} image(s) of the ${subject} reviewed. No acute abnormality is identified.`,
+    findings: study.images.map((image, index) => `Image ${index + 1}: no focal abnormality`),
+    differential: [
+      { condition: `Normal ${subject}`, confidence: 80, rationale: 'No focal abnormality seen' },
+      { condition: 'Subtle early pathology', confidence: 20, rationale: 'Cannot be excluded on imaging alone' },
+    ],
+    riskFactors: [],
+    redFlags: ['New or worsening pain', 'Symptoms that do not match a normal study'],
+    recommendations: ['Correlate with clinical findings', 'Radiologist review'],
+    limitations: LIMITATIONS,
+  };
+}
+
+// Quotes the first lines of the record, cited the way the real model is asked to
+function groundedSection(grounding?: ChatGrounding): string {
+  if (!grounding) return '';
+  const quoted = grounding.excerpts
+    .slice(0, 3)
+    .map(({ label, content }) => `- **${label}:** ${content.split('\n')[0].replace(/^- /, '')} [${label}]`);
+  return `### From your record (${grounding.subject})
+
+${quoted.join('\n')}
+
+`;
+}
+
+function chatReply(message: string, category?: string, grounding?: ChatGrounding, emergencies: string[] = []): string {
+  const urgent = emergencies.length > 0
+    ? `**What you describe may be an emergency (${emergencies.join(', ').toLowerCase()}). Please contact emergency services now.**\n\n`
+    : '';
+  return `## ${category || 'General Health'}
+
+${urgent}Thanks for your question: **"${message}"**
+
+${groundedSection(grounding)}This reply comes from the offline demo assistant, so it is general information rather than medical advice. Please talk to a healthcare professional about your situation, and **seek immediate medical attention** if you have severe or sudden symptoms.
+
+**Follow-up Questions:**
+- What symptoms should make me see a doctor urgently?
+- How can I manage this at home in the meantime?
+- Which tests might a doctor recommend?
+- How long does recovery usually take?`;
+}
+
+// Rough count of about four characters per token
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function createMockProvider(): AIProvider {
+  return {
+    name: 'mock',
+    models: { text: MOCK_MODEL, vision: MOCK_MODEL, chat: MOCK_MODEL },
+
+    async analyzeSymptoms(symptoms) {
+      return analyzeSymptoms(symptoms);
+    },
+
+    async analyzeImages(study) {
+      return analyzeImages(study);
+    },
+
+    async *streamChat({ message, category, history = [], grounding, emergencies }) {
+      const reply = chatReply(message, category, grounding, emergencies);
+      // Stream word by word so clients exercise their streaming path
+      for (const word of reply.split(/(?<=\s)/)) {
+        yield { type: 'text', text: word };
+      }
+
+      yield { type: 'safety', safety: { blocked: false, ratings: [] } };
+      const promptTokens = estimateTokens([...history.map(({ content }) => content), message].join('\n'));
+      const replyTokens = estimateTokens(reply);
+      yield { type: 'usage', usage: { promptTokens, replyTokens, totalTokens: promptTokens + replyTokens } };
+    },
+
+    async followUp(diagnosis, patientQuestion) {
+      return [
+        `Follow-up for ${diagnosis}:`,
+        patientQuestion ? `Regarding "${patientQuestion}", please discuss this with your doctor at your next appointment.` : '',
+        '1. Attend the follow-up appointment recommended by your doctor.',
+        '2. Seek immediate care if symptoms suddenly worsen.',
+        'This information is supplementary to professional medical advice.',
+      ].filter(Boolean).join('\n');
+    },
+  };
+}
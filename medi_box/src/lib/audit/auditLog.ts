@@ -0,0 +1,96 @@
+import { createHash } from 'crypto';
+import { NextRequest } from 'next/server';
+import type { Session } from '@/lib/auth/session';
+import { canonicalJson } from '@/lib/diagnoses/canonical';
+import { AuditAction, AuditEntry, AuditRequestMetadata, getAuditRepository } from '@/lib/store/auditStore';
+import type { DiagnosisData } from '@/lib/store/diagnosesStore';
+
+// Writes diagnosis history to the append-only audit log. Routes call
+// recordDiagnosisAudit after every read or write of a diagnosis they
+// want on the record.
+
+export function hashDiagnosis(diagnosis: DiagnosisData): string {
+  return createHash('sha256').update(canonicalJson(diagnosis)).digest('hex');
+}
+
+export function requestMetadata(request: NextRequest): AuditRequestMetadata {
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  return {
+    method: request.method,
+    path: request.nextUrl.pathname,
+    ipAddress: forwardedFor?.split(',')[0].trim() || request.headers.get('x-real-ip') || undefined,
+    userAgent: request.headers.get('user-agent') || undefined,
+  };
+}
+
+export interface DiagnosisAuditEvent {
+  action: AuditAction;
+  // Omitted for create; equal to after for read-only actions
+  before?: DiagnosisData;
+  after: DiagnosisData;
+  details?: Record<string, unknown>;
+}
+
+type AuditActor = Pick<AuditEntry, 'actorId' | 'actorName' | 'actorRole'>;
+
+function appendDiagnosisEntry(
+  request: AuditRequestMetadata,
+  actor: AuditActor,
+  { action, before, after, details }: DiagnosisAuditEvent
+): Promise<AuditEntry> {
+  const afterHash = hashDiagnosis(after);
+
+  return getAuditRepository().appendEntry({
+    diagnosisId: after.id,
+    action,
+    ...actor,
+    timestamp: new Date().toISOString(),
+    beforeHash: before ? (before === after ? afterHash : hashDiagnosis(before)) : undefined,
+    afterHash,
+    fromStatus: before?.status,
+    toStatus: after.status,
+    details,
+    request,
+  });
+}
+
+export async function recordDiagnosisAudit(
+  request: NextRequest,
+  session: Session,
+  event: DiagnosisAuditEvent
+): Promise<AuditEntry> {
+  return appendDiagnosisEntry(
+    requestMetadata(request),
+    { actorId: session.id, actorName: session.name, actorRole: session.role },
+    event
+  );
+}
+
+// Work done for a user after their request has returned, such as the AI
+// analysis run by the job queue. Recorded as the system acting on their
+// behalf, with the metadata of the request that started it.
+export function recordSystemAudit(
+  onBehalfOf: { userId: string; request: AuditRequestMetadata },
+  event: DiagnosisAuditEvent
+): Promise<AuditEntry> {
+  return appendDiagnosisEntry(
+    onBehalfOf.request,
+    { actorId: 'system', actorName: 'AI analysis', actorRole: 'system' },
+    { ...event, details: { ...event.details, onBehalfOf: onBehalfOf.userId } }
+  );
+}
+
+// An attempt to open a diagnosis through a share link. There is no session;
+// the link stands in for the actor, and details.outcome says what happened.
+export async function recordShareLinkAudit(
+  request: NextRequest,
+  diagnosis: DiagnosisData,
+  shareLinkId: string,
+  details: Record<string, unknown>
+): Promise<AuditEntry> {
+  return appendDiagnosisEntry(
+    requestMetadata(request),
+    { actorId: `share_link:${shareLinkId}`, actorName: 'Share link recipient', actorRole: 'share_link' },
+    { action: 'link_access', before: diagnosis, after: diagnosis, details: { shareLinkId, ...details } }
+  );
+}
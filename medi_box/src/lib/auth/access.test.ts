@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import { ConsentScope, getConsentRepository } from '@/lib/store/consentStore';
+import { Conversation } from '@/lib/store/conversationRepository';
+import { DiagnosisData } from '@/lib/store/diagnosesRepository';
+import { canAccessDiagnosis, canAccessDiagnosisWithConsent, canAnswerEscalation, diagnosisScopeFor } from './access';
+import { SessionUser } from './session';
+
+const patient: SessionUser = { id: 'patient-1', name: "Pat", email: 'pat@example.com', role: 'patient' };
+const otherPatient: SessionUser = { id: 'patient-2', name: "Sam", email: 'sam@example.com', role: 'patient' };
+const teamDoctor: SessionUser = { id: 'doctor-1', name: "Dr. Team", email: 'team@example.com', role: 'doctor', careTeamId: 'cardiology' };
+const otherDoctor: SessionUser = { id: 'doctor-2', name: "Dr. Other", email: 'other@example.com', role: 'doctor', careTeamId: 'dermatology' };
+const admin: SessionUser = { id: 'admin-1', name: "Admin", email: 'admin@example.com', role: 'admin' };
+
+let nextId = 0;
+
+function diagnosis(overrides: Partial<DiagnosisData> = {}): DiagnosisData {
+  return {
+    id: `diagnosis-${++nextId}`,
+    patientId: patient.id,
+    patientName: patient.name,
+    careTeamId: 'cardiology',
+    diagnosisDate: '2026-01-15',
+    type: 'Symptom Analysis',
+    aiDiagnosis: "Tension headache",
+    confidence: 80,
+    status: 'awaiting_review',
+    symptoms: "Headache",
+    doctorName: "Pending Review",
+    doctorFeedback: "",
+    imageSrc: "",
+    aiModelData: { modelVersion: 'mock', analysisTimestamp: '', processingTime: '', featuresAnalyzed: '' },
+    treatmentRecommendations: [],
+    riskFactors: [],
+    ...overrides,
+  };
+}
+
+function escalated(diagnosisId?: string, careTeamId = 'cardiology'): Pick<Conversation, 'diagnosisId' | 'escalation'> {
+  return {
+    diagnosisId,
+    escalation: { status: 'open', patientName: patient.name, careTeamId, requestedAt: '2026-01-15T10:00:00.000Z' },
+  };
+}
+
+async function grantConsent(record: DiagnosisData, scopes: ConsentScope[], expiresAt = '2999-01-01T00:00:00.000Z') {
+  return getConsentRepository().addGrant({
+    patientId: record.patientId,
+    grantee: { type: 'doctor', doctorId: otherDoctor.id, name: otherDoctor.name, email: otherDoctor.email },
+    diagnosisIds: [record.id],
+    scopes,
+    createdAt: '2026-01-15T10:00:00.000Z',
+    expiresAt,
+  });
+}
+
+describe('canAccessDiagnosis', () => {
+  it('lets the patient see only their own diagnoses', () => {
+    expect(canAccessDiagnosis(patient, diagnosis())).toBe(true);
+    expect(canAccessDiagnosis(otherPatient, diagnosis())).toBe(false);
+  });
+
+  it("lets a doctor see their team's queue while the diagnosis is unassigned", () => {
+    expect(canAccessDiagnosis(teamDoctor, diagnosis())).toBe(true);
+    expect(canAccessDiagnosis(otherDoctor, diagnosis())).toBe(false);
+  });
+
+  it('limits an assigned diagnosis to its doctor', () => {
+    expect(canAccessDiagnosis(otherDoctor, diagnosis({ assignedDoctorId: otherDoctor.id }))).toBe(true);
+    expect(canAccessDiagnosis(teamDoctor, diagnosis({ assignedDoctorId: otherDoctor.id }))).toBe(false);
+  });
+
+  it('lets admins see everything', () => {
+    expect(canAccessDiagnosis(admin, diagnosis({ careTeamId: undefined }))).toBe(true);
+  });
+
+  it('does not give a doctor without a care team the unassigned queue', () => {
+    const teamless = { ...teamDoctor, careTeamId: undefined };
+    expect(diagnosisScopeFor(teamless)).toEqual({ doctor: { doctorId: teamless.id, careTeamId: undefined } });
+    expect(canAccessDiagnosis(teamless, diagnosis())).toBe(false);
+  });
+});
+
+describe('canAnswerEscalation', () => {
+  it('follows the diagnosis the conversation is about', () => {
+    const record = diagnosis();
+    expect(canAnswerEscalation(teamDoctor, escalated(record.id), record)).toBe(true);
+    expect(canAnswerEscalation(otherDoctor, escalated(record.id), record)).toBe(false);
+
+    const reassigned = { ...record, assignedDoctorId: otherDoctor.id };
+    expect(canAnswerEscalation(teamDoctor, escalated(record.id), reassigned)).toBe(false);
+    expect(canAnswerEscalation(otherDoctor, escalated(record.id), reassigned)).toBe(true);
+  });
+
+  it('refuses a conversation whose diagnosis no longer exists', () => {
+    expect(canAnswerEscalation(teamDoctor, escalated('missing'), undefined)).toBe(false);
+  });
+
+  it('sends other conversations to the care team', () => {
+    expect(canAnswerEscalation(teamDoctor, escalated(undefined, 'cardiology'), undefined)).toBe(true);
+    expect(canAnswerEscalation(otherDoctor, escalated(undefined, 'cardiology'), undefined)).toBe(false);
+  });
+
+  it('refuses patients and conversations that were never escalated', () => {
+    const record = diagnosis();
+    expect(canAnswerEscalation(patient, escalated(record.id), record)).toBe(false);
+    expect(canAnswerEscalation(teamDoctor, { diagnosisId: record.id }, record)).toBe(false);
+  });
+
+  it('lets admins answer any escalation', () => {
+    expect(canAnswerEscalation(admin, escalated(undefined, 'dermatology'), undefined)).toBe(true);
+  });
+});
+
+describe('canAccessDiagnosisWithConsent', () => {
+  it('needs no grant within the care relationship', async () => {
+    expect(await canAccessDiagnosisWithConsent(teamDoctor, diagnosis(), 'export')).toBe(true);
+  });
+
+  it('lets another doctor in with a grant for the diagnosis and scope', async () => {
+    const record = diagnosis();
+    expect(await canAccessDiagnosisWithConsent(otherDoctor, record)).toBe(false);
+
+    await grantConsent(record, ['view']);
+    expect(await canAccessDiagnosisWithConsent(otherDoctor, record)).toBe(true);
+    expect(await canAccessDiagnosisWithConsent(otherDoctor, record, 'comment')).toBe(false);
+    expect(await canAccessDiagnosisWithConsent(otherDoctor, record, 'export')).toBe(false);
+  });
+
+  it('only covers the diagnoses named in the grant', async () => {
+    const shared = diagnosis();
+    await grantConsent(shared, ['view']);
+    expect(await canAccessDiagnosisWithConsent(otherDoctor, diagnosis())).toBe(false);
+  });
+
+  it('ignores expired and revoked grants', async () => {
+    const expired = diagnosis();
+    await grantConsent(expired, ['view'], '2020-01-01T00:00:00.000Z');
+    expect(await canAccessDiagnosisWithConsent(otherDoctor, expired)).toBe(false);
+
+    const revoked = diagnosis();
+    const grant = await grantConsent(revoked, ['view']);
+    await getConsentRepository().revokeGrant(grant.id, new Date().toISOString());
+    expect(await canAccessDiagnosisWithConsent(otherDoctor, revoked)).toBe(false);
+  });
+
+  it('never lets a grant reach other patients', async () => {
+    const record = diagnosis();
+    await grantConsent(record, ['view']);
+    expect(await canAccessDiagnosisWithConsent(otherPatient, record)).toBe(false);
+  });
+});
@@ -0,0 +1,72 @@
+import { ConsentScope, getConsentRepository } from '@/lib/store/consentStore';
+import { Conversation, EscalationFilter } from '@/lib/store/conversationRepository';
+import { DiagnosisData, DiagnosisFilter, matchesDiagnosisFilter } from '@/lib/store/diagnosesRepository';
+import { SessionUser } from './session';
+
+// Care team for patients who sign up on their own
+export const DEFAULT_CARE_TEAM_ID = process.env.DEFAULT_CARE_TEAM_ID || 'general-medicine';
+
+// The slice of diagnoses a signed-in user may see
+export function diagnosisScopeFor(user: SessionUser): DiagnosisFilter {
+  switch (user.role) {
+    case 'patient':
+      return { patientId: user.id };
+    case 'doctor':
+      return { doctor: { doctorId: user.id, careTeamId: user.careTeamId } };
+    case 'admin':
+      return {};
+  }
+}
+
+// Access through the care relationship: the owning patient, the assigned
+// doctor or the care team's queue, and admins
+export function canAccessDiagnosis(user: SessionUser, diagnosis: DiagnosisData): boolean {
+  return matchesDiagnosisFilter(diagnosis, diagnosisScopeFor(user));
+}
+
+// Inbox candidates for a doctor: the escalations of their care team.
+// canAnswerEscalation decides which of them they may open.
+export function escalationScopeFor(user: SessionUser): EscalationFilter {
+  if (user.role === 'admin') return {};
+  return { careTeamIds: user.careTeamId ? [user.careTeamId] : [] };
+}
+
+// A conversation about a diagnosis follows the diagnosis as it is now: its
+// assigned doctor, or the care team's queue while it is unassigned. Other
+// conversations go to the care team. The caller loads the diagnosis, which
+// is undefined when the conversation has none or it no longer exists.
+export function canAnswerEscalation(
+  user: SessionUser,
+  conversation: Pick<Conversation, 'diagnosisId' | 'escalation'>,
+  diagnosis: DiagnosisData | undefined
+): boolean {
+  const { escalation, diagnosisId } = conversation;
+  if (!escalation || user.role === 'patient') return false;
+  if (user.role === 'admin') return true;
+
+  if (diagnosisId) {
+    return !!diagnosis && canAccessDiagnosis(user, diagnosis);
+  }
+  return !!user.careTeamId && escalation.careTeamId === user.careTeamId;
+}
+
+// Access through the care relationship or, for other doctors, an active
+// consent grant from the patient that covers this diagnosis and scope
+export async function canAccessDiagnosisWithConsent(
+  user: SessionUser,
+  diagnosis: DiagnosisData,
+  scope: ConsentScope = 'view'
+): Promise<boolean> {
+  if (canAccessDiagnosis(user, diagnosis)) return true;
+  if (user.role !== 'doctor') return false;
+
+  const grants = await getConsentRepository().listActiveGrantsFor(
+    { doctorId: user.id, careTeamId: user.careTeamId },
+    new Date().toISOString()
+  );
+  return grants.some((grant) =>
+    grant.patientId === diagnosis.patientId &&
+    grant.diagnosisIds.includes(diagnosis.id) &&
+    grant.scopes.includes(scope)
+  );
+}
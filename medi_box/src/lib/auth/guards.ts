@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createSessionToken,
+  Role,
+  Session,
+  SESSION_COOKIE,
+  SESSION_MAX_AGE_SECONDS,
+  SessionUser,
+  verifySessionToken,
+} from './session';
+
+export type AuthorizationResult =
+  | { session: Session; error: null }
+  | { session: null; error: NextResponse };
+
+export async function getSession(request: NextRequest): Promise<Session | null> {
+  return verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+}
+
+// Route handler guard: resolves the signed-in user or a 401/403 response.
+// Admins pass every role check.
+export async function authorize(request: NextRequest, roles?: Role[]): Promise<AuthorizationResult> {
+  const session = await getSession(request);
+
+  if (!session) {
+    return {
+      session: null,
+      error: NextResponse.json({ error: "Authentication required" }, { status: 401 }),
+    };
+  }
+
+  if (roles && session.role !== 'admin' && !roles.includes(session.role)) {
+    return {
+      session: null,
+      error: NextResponse.json({ error: "You do not have access to this resource" }, { status: 403 }),
+    };
+  }
+
+  return { session, error: null };
+}
+
+export async function setSessionCookie(response: NextResponse, user: SessionUser): Promise<void> {
+  response.cookies.set(SESSION_COOKIE, await createSessionToken(user), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_MAX_AGE_SECONDS,
+  });
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, '', { path: '/', maxAge: 0 });
+}
@@ -0,0 +1,115 @@
+// Signed session tokens. Uses Web Crypto only so the same code runs in the
+// edge middleware and in Node route handlers.
+
+export type Role = 'patient' | 'doctor' | 'admin';
+
+export const ROLES: Role[] = ['patient', 'doctor', 'admin'];
+
+export interface SessionUser {
+  id: string;
+  name: string;
+  email: string;
+  role: Role;
+  careTeamId?: string;
+}
+
+export interface Session extends SessionUser {
+  issuedAt: number;
+  expiresAt: number;
+}
+
+export const SESSION_COOKIE = 'medibox_session';
+
+// Sessions last for one working shift
+export const SESSION_MAX_AGE_SECONDS = 8 * 60 * 60;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function getAuthSecret(): string {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) {
+    throw new Error('AUTH_SECRET is not configured');
+  }
+  return secret;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+async function getSigningKey(): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(getAuthSecret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+// Sign an arbitrary JSON payload as `<payload>.<signature>`
+export async function signPayload(payload: object): Promise<string> {
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign('HMAC', await getSigningKey(), encoder.encode(body));
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+// Returns the payload when the signature is valid, otherwise null
+export async function verifyPayload<T>(token: string): Promise<T | null> {
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await getSigningKey(),
+      fromBase64Url(signature),
+      encoder.encode(body)
+    );
+    if (!valid) return null;
+
+    return JSON.parse(decoder.decode(fromBase64Url(body))) as T;
+  } catch {
+    return null;
+  }
+}
+
+export async function createSessionToken(user: SessionUser): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  const session: Session = {
+    id: user.id,
+    name: user.name,
+    email: user.email,
+    role: user.role,
+    careTeamId: user.careTeamId,
+    issuedAt: now,
+    expiresAt: now + SESSION_MAX_AGE_SECONDS,
+  };
+  return signPayload(session);
+}
+
+export async function verifySessionToken(token: string | undefined): Promise<Session | null> {
+  if (!token) return null;
+
+  const session = await verifyPayload<Session>(token);
+  if (!session || !ROLES.includes(session.role)) return null;
+  if (session.expiresAt < Math.floor(Date.now() / 1000)) return null;
+
+  return session;
+}
+
+// Landing page for each role after sign-in
+export function homePathForRole(role: Role): string {
+  return role === 'patient' ? '/patient/dashboard' : '/doctor/dashboard';
+}
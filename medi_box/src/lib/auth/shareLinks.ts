@@ -0,0 +1,65 @@
+import { signPayload, verifyPayload } from './session';
+
+// Tokens for share links. The link token goes in the URL the patient hands
+// out; opening the link returns a short-lived access token that lets the
+// public report load its images. Both are signed with the session key and
+// carry a purpose so neither can stand in for the other or for a session.
+
+// Longest a share link may stay valid
+export const SHARE_LINK_MAX_DAYS = 30;
+
+// How long images stay viewable after the report was opened
+const ACCESS_TOKEN_SECONDS = 60 * 60;
+
+interface ShareLinkTokenPayload {
+  purpose: 'share_link';
+  linkId: string;
+  diagnosisId: string;
+}
+
+interface ShareAccessTokenPayload {
+  purpose: 'share_access';
+  linkId: string;
+  diagnosisId: string;
+  expiresAt: number;
+}
+
+export interface ShareTokenClaims {
+  linkId: string;
+  diagnosisId: string;
+}
+
+// Deterministic, so the patient's link list can rebuild each URL
+export function createShareLinkToken({ linkId, diagnosisId }: ShareTokenClaims): Promise<string> {
+  const payload: ShareLinkTokenPayload = { purpose: 'share_link', linkId, diagnosisId };
+  return signPayload(payload);
+}
+
+// Expiry and revocation live on the stored link, not in the token
+export async function readShareLinkToken(token: string): Promise<ShareTokenClaims | null> {
+  const payload = await verifyPayload<ShareLinkTokenPayload>(token);
+  if (!payload || payload.purpose !== 'share_link') return null;
+  return { linkId: payload.linkId, diagnosisId: payload.diagnosisId };
+}
+
+export function createShareAccessToken({ linkId, diagnosisId }: ShareTokenClaims, linkExpiresAt: string): Promise<string> {
+  const linkExpiry = Math.floor(new Date(linkExpiresAt).getTime() / 1000);
+  const payload: ShareAccessTokenPayload = {
+    purpose: 'share_access',
+    linkId,
+    diagnosisId,
+    expiresAt: Math.min(Math.floor(Date.now() / 1000) + ACCESS_TOKEN_SECONDS, linkExpiry),
+  };
+  return signPayload(payload);
+}
+
+export async function readShareAccessToken(token: string): Promise<ShareTokenClaims | null> {
+  const payload = await verifyPayload<ShareAccessTokenPayload>(token);
+  if (!payload || payload.purpose !== 'share_access') return null;
+  if (payload.expiresAt < Math.floor(Date.now() / 1000)) return null;
+  return { linkId: payload.linkId, diagnosisId: payload.diagnosisId };
+}
+
+export function shareLinkUrl(origin: string, token: string): string {
+  return `${origin}/share/${token}`;
+}
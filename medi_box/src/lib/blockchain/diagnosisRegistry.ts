@@ -0,0 +1,164 @@
+import { ethers } from 'ethers';
+import { canonicalJson, finalizedRecord } from '@/lib/diagnoses/canonical';
+import type { DiagnosisData } from '@/lib/store/diagnosesStore';
+
+// Anchors reviewed diagnoses in the DiagnosisRegistry contract
+// (contracts/DiagnosisRegistry.sol) and checks records against it. Anchoring
+// is optional: without BLOCKCHAIN_RPC_URL, BLOCKCHAIN_PRIVATE_KEY and
+// DIAGNOSIS_REGISTRY_ADDRESS nothing is sent and verification reports it.
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+
+const REGISTRY_ABI = [
+  'function anchor(bytes32 diagnosisKey, bytes32 recordHash)',
+  'function getAnchor(bytes32 diagnosisKey) view returns (bytes32 recordHash, uint64 anchoredAt, address anchoredBy)',
+  'event DiagnosisAnchored(bytes32 indexed diagnosisKey, bytes32 recordHash, address indexed anchoredBy, uint64 anchoredAt)',
+];
+
+// Stored on the diagnosis after each anchoring attempt
+export type BlockchainAnchor =
+  | {
+      status: 'anchored';
+      recordHash: string;
+      contractAddress: string;
+      chainId: number;
+      transactionHash: string;
+      blockNumber: number;
+      anchoredAt: string;
+    }
+  | { status: 'failed'; recordHash: string; error: string; attemptedAt: string };
+
+export type AnchorVerification =
+  | { status: 'verified'; recordHash: string; onChainHash: string; anchoredAt: string; contractAddress: string; chainId: number }
+  | { status: 'mismatch'; recordHash: string; onChainHash: string; anchoredAt: string; contractAddress: string; chainId: number }
+  | { status: 'not_anchored'; recordHash: string; contractAddress: string; chainId: number };
+
+export class BlockchainNotConfiguredError extends Error {
+  constructor() {
+    super('Blockchain anchoring is not configured');
+    this.name = 'BlockchainNotConfiguredError';
+  }
+}
+
+// Reads need only the RPC URL and the contract address
+function isRegistryConfigured(): boolean {
+  return Boolean(process.env.BLOCKCHAIN_RPC_URL && process.env.DIAGNOSIS_REGISTRY_ADDRESS);
+}
+
+// Anchoring also needs the key of the contract owner
+export function isAnchoringConfigured(): boolean {
+  return isRegistryConfigured() && Boolean(process.env.BLOCKCHAIN_PRIVATE_KEY);
+}
+
+// keccak256 of the canonical finalized record, as stored on-chain
+export function diagnosisRecordHash(diagnosis: DiagnosisData): string {
+  return ethers.utils.keccak256(ethers.utils.toUtf8Bytes(canonicalJson(finalizedRecord(diagnosis))));
+}
+
+function diagnosisKey(diagnosisId: string): string {
+  return ethers.utils.keccak256(ethers.utils.toUtf8Bytes(diagnosisId));
+}
+
+function getTimeoutMs(): number {
+  const configured = Number(process.env.BLOCKCHAIN_TIMEOUT_MS);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_TIMEOUT_MS;
+}
+
+function withTimeout<T>(promise: Promise<T>, what: string): Promise<T> {
+  const timeoutMs = getTimeoutMs();
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`${what} timed out after ${timeoutMs} ms`)), timeoutMs);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+}
+
+function getRegistry(withSigner: boolean): ethers.Contract {
+  if (!(withSigner ? isAnchoringConfigured() : isRegistryConfigured())) throw new BlockchainNotConfiguredError();
+
+  // Next bundles ethers' browser fetch path, whose default `referrer: "client"`
+  // is rejected by Node's fetch; skipFetchSetup leaves those options unset
+  const provider = new ethers.providers.JsonRpcProvider({
+    url: process.env.BLOCKCHAIN_RPC_URL!,
+    skipFetchSetup: true,
+  });
+  if (!withSigner) {
+    return new ethers.Contract(process.env.DIAGNOSIS_REGISTRY_ADDRESS!, REGISTRY_ABI, provider);
+  }
+
+  const wallet = new ethers.Wallet(process.env.BLOCKCHAIN_PRIVATE_KEY!, provider);
+  return new ethers.Contract(process.env.DIAGNOSIS_REGISTRY_ADDRESS!, REGISTRY_ABI, wallet);
+}
+
+// Anchors the diagnosis and waits for one confirmation. Never throws:
+// failures are returned so they can be stored on the diagnosis, and the
+// anchoring job tries again later.
+export async function anchorDiagnosis(diagnosis: DiagnosisData): Promise<BlockchainAnchor> {
+  const recordHash = diagnosisRecordHash(diagnosis);
+
+  try {
+    const registry = getRegistry(true);
+    const receipt = await withTimeout(
+      (async () => {
+        const transaction: ethers.ContractTransaction = await registry.anchor(diagnosisKey(diagnosis.id), recordHash);
+        return transaction.wait(1);
+      })(),
+      'Anchoring transaction'
+    );
+    const network = await registry.provider.getNetwork();
+
+    return {
+      status: 'anchored',
+      recordHash,
+      contractAddress: registry.address,
+      chainId: network.chainId,
+      transactionHash: receipt.transactionHash,
+      blockNumber: receipt.blockNumber,
+      anchoredAt: new Date().toISOString(),
+    };
+  } catch (error) {
+    console.error('Blockchain anchoring failed:', error);
+    return {
+      status: 'failed',
+      recordHash,
+      error: error instanceof Error ? error.message : String(error),
+      attemptedAt: new Date().toISOString(),
+    };
+  }
+}
+
+// Recomputes the record hash from the stored diagnosis and compares it with
+// the on-chain anchor. Throws BlockchainNotConfiguredError or RPC errors.
+export async function verifyDiagnosisAnchor(diagnosis: DiagnosisData): Promise<AnchorVerification> {
+  const recordHash = diagnosisRecordHash(diagnosis);
+  const registry = getRegistry(false);
+
+  const [[onChainHash, anchoredAt], network] = await withTimeout(
+    Promise.all([
+      registry.getAnchor(diagnosisKey(diagnosis.id)) as Promise<[string, ethers.BigNumber, string]>,
+      registry.provider.getNetwork(),
+    ]),
+    'Anchor lookup'
+  );
+  const location = { contractAddress: registry.address, chainId: network.chainId };
+
+  if (onChainHash === ethers.constants.HashZero) {
+    return { status: 'not_anchored', recordHash, ...location };
+  }
+
+  return {
+    status: onChainHash.toLowerCase() === recordHash.toLowerCase() ? 'verified' : 'mismatch',
+    recordHash,
+    onChainHash,
+    anchoredAt: new Date(anchoredAt.toNumber() * 1000).toISOString(),
+    ...location,
+  };
+}
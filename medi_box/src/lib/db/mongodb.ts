@@ -0,0 +1,34 @@
+import { Db, MongoClient } from 'mongodb';
+
+// Cache the client promise on globalThis so hot reloads and separate route
+// bundles reuse one connection pool instead of opening a new one each time.
+// A failed connection is dropped from the cache so the next call retries.
+const globalForMongo = globalThis as typeof globalThis & {
+  _mongoClientPromise?: Promise<MongoClient>;
+};
+
+export function getMongoClient(): Promise<MongoClient> {
+  const uri = process.env.MONGODB_URI;
+  if (!uri) {
+    throw new Error('MONGODB_URI is not configured');
+  }
+
+  if (!globalForMongo._mongoClientPromise) {
+    // Omit undefined fields instead of storing nulls, so optional
+    // properties stay absent exactly as they are in the in-memory store
+    const clientPromise = new MongoClient(uri, { ignoreUndefined: true }).connect();
+    globalForMongo._mongoClientPromise = clientPromise;
+    clientPromise.catch(() => {
+      if (globalForMongo._mongoClientPromise === clientPromise) {
+        globalForMongo._mongoClientPromise = undefined;
+      }
+    });
+  }
+
+  return globalForMongo._mongoClientPromise;
+}
+
+export async function getMongoDb(): Promise<Db> {
+  const client = await getMongoClient();
+  return client.db(process.env.MONGODB_DB || 'medibox');
+}
@@ -0,0 +1,83 @@
+import { z } from 'zod';
+
+// Doctor amendments to the AI result. The diagnosis keeps the doctor-confirmed
+// values in its regular fields; the amendment records what the AI originally
+// said and a field-level diff between the two. Shared with the client views.
+
+export const AMENDABLE_FIELDS = ['aiDiagnosis', 'treatmentRecommendations', 'riskFactors'] as const;
+
+export type AmendableField = (typeof AMENDABLE_FIELDS)[number];
+
+export interface AmendableValues {
+  aiDiagnosis: string;
+  treatmentRecommendations: string[];
+  riskFactors: string[];
+}
+
+// Body of an amend review; omitted fields keep their current value
+export const AmendmentRequestSchema = z
+  .object({
+    aiDiagnosis: z.string().trim().min(1),
+    treatmentRecommendations: z.array(z.string().trim().min(1)),
+    riskFactors: z.array(z.string().trim().min(1)),
+  })
+  .partial()
+  .strict();
+
+export type AmendmentRequest = z.infer<typeof AmendmentRequestSchema>;
+
+export type FieldDiff =
+  | { field: 'aiDiagnosis'; before: string; after: string }
+  | { field: 'treatmentRecommendations' | 'riskFactors'; added: string[]; removed: string[] };
+
+export interface DiagnosisAmendment {
+  // The AI output as first produced, before any doctor edits
+  original: AmendableValues;
+  // The doctor-confirmed values, as stored on the diagnosis
+  amended: AmendableValues;
+  // Differences between original and amended; unchanged fields are omitted
+  diff: FieldDiff[];
+  amendedBy: string;
+  amendedByName: string;
+  amendedAt: string;
+}
+
+export function amendableValuesOf(values: AmendableValues): AmendableValues {
+  return {
+    aiDiagnosis: values.aiDiagnosis,
+    treatmentRecommendations: [...values.treatmentRecommendations],
+    riskFactors: [...values.riskFactors],
+  };
+}
+
+// Field-level diff. List items are compared as whole entries, so an edited
+// item shows up as one removal plus one addition.
+export function diffAmendableValues(before: AmendableValues, after: AmendableValues): FieldDiff[] {
+  const diff: FieldDiff[] = [];
+
+  if (before.aiDiagnosis !== after.aiDiagnosis) {
+    diff.push({ field: 'aiDiagnosis', before: before.aiDiagnosis, after: after.aiDiagnosis });
+  }
+
+  for (const field of ['treatmentRecommendations', 'riskFactors'] as const) {
+    const added = after[field].filter((item) => !before[field].includes(item));
+    const removed = before[field].filter((item) => !after[field].includes(item));
+    if (added.length > 0 || removed.length > 0) {
+      diff.push({ field, added, removed });
+    }
+  }
+
+  return diff;
+}
+
+// Whether a doctor changed this field, or this list item, relative to the AI
+export function isChangedByDoctor(
+  amendment: Pick<DiagnosisAmendment, 'diff'> | undefined,
+  field: AmendableField,
+  item?: string
+): boolean {
+  const change = amendment?.diff.find((entry) => entry.field === field);
+  if (!change) return false;
+  if (change.field === 'aiDiagnosis' || item === undefined) return true;
+  return change.added.includes(item);
+}
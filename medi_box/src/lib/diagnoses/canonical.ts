@@ -0,0 +1,40 @@
+import type { DiagnosisData } from '@/lib/store/diagnosesStore';
+
+// JSON with object keys sorted and undefined members dropped, so equal
+// records always serialize the same regardless of property order or backend
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item ?? null)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// The clinical content a reviewed diagnosis is vouched for by. Workflow state
+// (status, assignment, anchoring receipts) is left out so closing a diagnosis
+// or recording where it was anchored does not change its fingerprint.
+export function finalizedRecord(diagnosis: DiagnosisData) {
+  return {
+    id: diagnosis.id,
+    patientId: diagnosis.patientId,
+    diagnosisDate: diagnosis.diagnosisDate,
+    type: diagnosis.type,
+    symptoms: diagnosis.symptoms,
+    imageUploadIds: (diagnosis.images ?? []).map((image) => image.uploadId),
+    aiDiagnosis: diagnosis.aiDiagnosis,
+    confidence: diagnosis.confidence,
+    aiAnalysis: diagnosis.aiAnalysis,
+    modelVersion: diagnosis.aiModelData.modelVersion,
+    treatmentRecommendations: diagnosis.treatmentRecommendations,
+    riskFactors: diagnosis.riskFactors,
+    amendment: diagnosis.amendment,
+    doctorFeedback: diagnosis.doctorFeedback,
+    reviewedBy: diagnosis.reviewedBy,
+    reviewDate: diagnosis.reviewDate,
+  };
+}
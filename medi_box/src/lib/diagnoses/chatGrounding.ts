@@ -0,0 +1,82 @@
+import type { ChatGrounding, RecordCitation, RecordExcerpt } from '@/lib/ai/aiProvider';
+import type { DiagnosisData } from '@/lib/store/diagnosesRepository';
+import { REVIEWED_STATUSES } from './status';
+
+// Grounds a chat in one diagnosis. Only fields the patient already sees on
+// their report go into the excerpts; the patient's name, care team, other
+// records and internal fields never reach the model.
+
+const AWAITING_ANALYSIS: DiagnosisData['status'][] = ['submitted', 'ai_processing', 'ai_failed'];
+
+function bullets(items: string[]): string {
+  return items.map((item) => `- ${item}`).join('\n');
+}
+
+function reviewStatusOf(diagnosis: DiagnosisData): string {
+  if (REVIEWED_STATUSES.includes(diagnosis.status)) {
+    return `Reviewed by ${diagnosis.doctorName}${diagnosis.reviewDate ? ` on ${diagnosis.reviewDate.slice(0, 10)}` : ''}`;
+  }
+  if (diagnosis.status === 'rejected') return `${diagnosis.doctorName} did not confirm the AI result`;
+  if (diagnosis.status === 'needs_more_info') return 'A doctor has asked the patient for more information';
+  if (AWAITING_ANALYSIS.includes(diagnosis.status)) return 'The AI analysis is not available yet';
+  if (diagnosis.status === 'closed') return 'Closed';
+  return 'Waiting for a doctor to review it';
+}
+
+export function chatGroundingOf(diagnosis: DiagnosisData): ChatGrounding {
+  const excerpts: RecordExcerpt[] = [
+    { section: 'review_status', label: 'Review status', content: reviewStatusOf(diagnosis) },
+  ];
+
+  if (diagnosis.symptoms) {
+    excerpts.push({ section: 'symptoms', label: 'Symptoms', content: diagnosis.symptoms });
+  }
+
+  if (!AWAITING_ANALYSIS.includes(diagnosis.status)) {
+    const analysis = diagnosis.aiAnalysis;
+    excerpts.push({
+      section: 'ai_findings',
+      label: 'AI findings',
+      content: [
+        `Most likely: ${diagnosis.aiDiagnosis} (${diagnosis.confidence}% confidence)`,
+        analysis?.summary,
+        analysis?.findings.length ? bullets(analysis.findings) : undefined,
+        analysis?.redFlags.length ? `Warning signs:\n${bullets(analysis.redFlags)}` : undefined,
+      ].filter(Boolean).join('\n'),
+    });
+  }
+
+  if (diagnosis.doctorFeedback) {
+    excerpts.push({
+      section: 'doctor_feedback',
+      label: 'Doctor feedback',
+      content: `${diagnosis.doctorName}: ${diagnosis.doctorFeedback}`,
+    });
+  }
+
+  if (diagnosis.treatmentRecommendations.length > 0) {
+    excerpts.push({ section: 'treatment_plan', label: 'Treatment plan', content: bullets(diagnosis.treatmentRecommendations) });
+  }
+
+  if (diagnosis.riskFactors.length > 0) {
+    excerpts.push({ section: 'risk_factors', label: 'Risk factors', content: bullets(diagnosis.riskFactors) });
+  }
+
+  if (diagnosis.additionalInfo?.length) {
+    excerpts.push({
+      section: 'patient_answers',
+      label: 'Patient answers',
+      content: bullets(diagnosis.additionalInfo.map(({ message }) => message)),
+    });
+  }
+
+  return { subject: `${diagnosis.type} from ${diagnosis.diagnosisDate}`, excerpts };
+}
+
+// Excerpts the reply cites, in record order
+export function citationsIn(reply: string, grounding: ChatGrounding): RecordCitation[] {
+  const text = reply.toLowerCase();
+  return grounding.excerpts
+    .filter(({ label }) => text.includes(`[${label.toLowerCase()}]`))
+    .map(({ section, label }) => ({ section, label }));
+}
@@ -0,0 +1,25 @@
+import { getDiagnosesRepository, DiagnosisData } from '@/lib/store/diagnosesStore';
+import { canTransition, DiagnosisStatus, InvalidTransitionError } from './status';
+
+// Move a diagnosis to a new status, applying updates in the same write.
+// Throws InvalidTransitionError when the lifecycle forbids the move or the
+// status changed underneath us; routes map that to 409.
+export async function transitionDiagnosis(
+  diagnosis: DiagnosisData,
+  to: DiagnosisStatus,
+  updates: Partial<DiagnosisData> = {}
+): Promise<DiagnosisData> {
+  if (!canTransition(diagnosis.status, to)) {
+    throw new InvalidTransitionError(diagnosis.status, to);
+  }
+
+  const updated = await getDiagnosesRepository().updateDiagnosisIfStatus(diagnosis.id, diagnosis.status, {
+    ...updates,
+    status: to,
+    statusUpdatedAt: new Date().toISOString(),
+  });
+  if (!updated) {
+    throw new InvalidTransitionError(diagnosis.status, to, 'The diagnosis was changed by someone else; reload and try again');
+  }
+  return updated;
+}
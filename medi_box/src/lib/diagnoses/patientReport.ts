@@ -0,0 +1,69 @@
+import type { DiagnosisData } from '@/lib/store/diagnosesRepository';
+
+// The part of a diagnosis shown on the patient's report page. Shared links
+// render exactly this, so a recipient sees what the patient sees and none of
+// the internal fields (AI transcript, care team, audit and anchoring data).
+export type PatientReport = Pick<
+  DiagnosisData,
+  | 'id'
+  | 'patientName'
+  | 'diagnosisDate'
+  | 'type'
+  | 'aiDiagnosis'
+  | 'confidence'
+  | 'status'
+  | 'symptoms'
+  | 'doctorName'
+  | 'doctorFeedback'
+  | 'imageSrc'
+  | 'imageUploadId'
+  | 'images'
+  | 'treatmentRecommendations'
+  | 'riskFactors'
+  | 'amendment'
+  | 'reviewDate'
+> & {
+  aiAnalysis?: { redFlags: string[] };
+};
+
+export function patientReportOf(diagnosis: DiagnosisData): PatientReport {
+  return {
+    id: diagnosis.id,
+    patientName: diagnosis.patientName,
+    diagnosisDate: diagnosis.diagnosisDate,
+    type: diagnosis.type,
+    aiDiagnosis: diagnosis.aiDiagnosis,
+    confidence: diagnosis.confidence,
+    status: diagnosis.status,
+    symptoms: diagnosis.symptoms,
+    doctorName: diagnosis.doctorName,
+    doctorFeedback: diagnosis.doctorFeedback,
+    imageSrc: diagnosis.imageSrc,
+    imageUploadId: diagnosis.imageUploadId,
+    images: diagnosis.images,
+    treatmentRecommendations: diagnosis.treatmentRecommendations,
+    riskFactors: diagnosis.riskFactors,
+    amendment: diagnosis.amendment,
+    reviewDate: diagnosis.reviewDate,
+    aiAnalysis: diagnosis.aiAnalysis ? { redFlags: diagnosis.aiAnalysis.redFlags } : undefined,
+  };
+}
+
+// Rewrites the report's upload URLs so they can be fetched without a session
+export function withImageAccess(report: PatientReport, accessToken: string): PatientReport {
+  const rewrite = (src: string) => {
+    if (!src.startsWith('/api/uploads/')) return src;
+    return `${src}${src.includes('?') ? '&' : '?'}share=${encodeURIComponent(accessToken)}`;
+  };
+
+  return {
+    ...report,
+    imageSrc: rewrite(report.imageSrc),
+    images: report.images?.map((image) => ({
+      ...image,
+      src: rewrite(image.src),
+      thumbnailSrc: image.thumbnailSrc && rewrite(image.thumbnailSrc),
+      frames: image.frames?.map(rewrite),
+    })),
+  };
+}
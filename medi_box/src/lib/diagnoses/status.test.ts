@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import {
+  allowedTransitions,
+  canTransition,
+  DIAGNOSIS_STATUSES,
+  DiagnosisStatus,
+  isDiagnosisStatus,
+  normalizeDiagnosisStatus,
+  OPEN_REVIEW_STATUSES,
+  REVIEWED_STATUSES,
+} from './status';
+
+describe('diagnosis lifecycle', () => {
+  it('moves a submission through analysis into the review queue', () => {
+    expect(canTransition('submitted', 'ai_processing')).toBe(true);
+    expect(canTransition('ai_processing', 'awaiting_review')).toBe(true);
+    expect(canTransition('awaiting_review', 'in_review')).toBe(true);
+    expect(canTransition('in_review', 'approved')).toBe(true);
+  });
+
+  it('retries a failed analysis', () => {
+    expect(canTransition('ai_processing', 'ai_failed')).toBe(true);
+    expect(canTransition('ai_failed', 'ai_processing')).toBe(true);
+    expect(canTransition('ai_failed', 'awaiting_review')).toBe(false);
+  });
+
+  it('sends an information request back to the queue once answered', () => {
+    expect(canTransition('in_review', 'needs_more_info')).toBe(true);
+    expect(canTransition('needs_more_info', 'awaiting_review')).toBe(true);
+    expect(canTransition('needs_more_info', 'approved')).toBe(false);
+  });
+
+  it('lets a reviewed diagnosis be amended again but not reviewed from scratch', () => {
+    expect(canTransition('approved', 'amended')).toBe(true);
+    expect(canTransition('amended', 'amended')).toBe(true);
+    expect(canTransition('approved', 'in_review')).toBe(false);
+    expect(canTransition('rejected', 'approved')).toBe(false);
+  });
+
+  it('never skips the analysis or the review', () => {
+    expect(canTransition('submitted', 'awaiting_review')).toBe(false);
+    expect(canTransition('submitted', 'approved')).toBe(false);
+    expect(canTransition('ai_processing', 'approved')).toBe(false);
+  });
+
+  it('ends every lifecycle at closed, which has no way out', () => {
+    expect(allowedTransitions('closed')).toEqual([]);
+    const canReachClosed = (status: DiagnosisStatus, seen = new Set<DiagnosisStatus>()): boolean => {
+      if (status === 'closed') return true;
+      if (seen.has(status)) return false;
+      seen.add(status);
+      return allowedTransitions(status).some((next) => canReachClosed(next, seen));
+    };
+    for (const status of DIAGNOSIS_STATUSES) {
+      expect(canReachClosed(status), status).toBe(true);
+    }
+  });
+
+  it('only allows transitions to known statuses', () => {
+    for (const status of DIAGNOSIS_STATUSES) {
+      for (const next of allowedTransitions(status)) {
+        expect(isDiagnosisStatus(next)).toBe(true);
+      }
+    }
+  });
+
+  it('keeps open and reviewed statuses apart', () => {
+    expect(OPEN_REVIEW_STATUSES.filter((status) => REVIEWED_STATUSES.includes(status))).toEqual([]);
+  });
+});
+
+describe('normalizeDiagnosisStatus', () => {
+  it('reads the old pending status as awaiting_review', () => {
+    expect(normalizeDiagnosisStatus('pending')).toBe('awaiting_review');
+  });
+
+  it('keeps known statuses and falls back to submitted', () => {
+    expect(normalizeDiagnosisStatus('in_review')).toBe('in_review');
+    expect(normalizeDiagnosisStatus('bogus')).toBe('submitted');
+  });
+});
@@ -0,0 +1,117 @@
+// Diagnosis lifecycle. Every status change goes through canTransition, so
+// the allowed transitions below are the single source of truth. This module
+// has no server dependencies and is shared with the client views.
+
+export const DIAGNOSIS_STATUSES = [
+  'submitted',
+  'ai_processing',
+  'ai_failed',
+  'awaiting_review',
+  'in_review',
+  'needs_more_info',
+  'approved',
+  'amended',
+  'rejected',
+  'closed',
+] as const;
+
+export type DiagnosisStatus = (typeof DIAGNOSIS_STATUSES)[number];
+
+const TRANSITIONS: Record<DiagnosisStatus, readonly DiagnosisStatus[]> = {
+  submitted: ['ai_processing', 'closed'],
+  ai_processing: ['awaiting_review', 'ai_failed'],
+  ai_failed: ['ai_processing', 'closed'],
+  awaiting_review: ['in_review', 'needs_more_info', 'approved', 'amended', 'rejected', 'closed'],
+  // Releasing a review puts the diagnosis back in the queue
+  in_review: ['awaiting_review', 'needs_more_info', 'approved', 'amended', 'rejected'],
+  needs_more_info: ['awaiting_review', 'closed'],
+  approved: ['amended', 'closed'],
+  amended: ['amended', 'closed'],
+  rejected: ['closed'],
+  closed: [],
+};
+
+// Statuses that still need a doctor's decision
+export const OPEN_REVIEW_STATUSES: DiagnosisStatus[] = ['awaiting_review', 'in_review'];
+
+// Statuses where a doctor has signed off on the result
+export const REVIEWED_STATUSES: DiagnosisStatus[] = ['approved', 'amended'];
+
+export function isDiagnosisStatus(value: unknown): value is DiagnosisStatus {
+  return typeof value === 'string' && (DIAGNOSIS_STATUSES as readonly string[]).includes(value);
+}
+
+// Records written before the lifecycle existed used "pending"
+export function normalizeDiagnosisStatus(value: string): DiagnosisStatus {
+  if (value === 'pending') return 'awaiting_review';
+  return isDiagnosisStatus(value) ? value : 'submitted';
+}
+
+export function allowedTransitions(from: DiagnosisStatus): readonly DiagnosisStatus[] {
+  return TRANSITIONS[from];
+}
+
+export function canTransition(from: DiagnosisStatus, to: DiagnosisStatus): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+export class InvalidTransitionError extends Error {
+  constructor(public readonly from: DiagnosisStatus, public readonly to: DiagnosisStatus, message?: string) {
+    super(message ?? `Cannot move a diagnosis from ${from} to ${to}`);
+    this.name = 'InvalidTransitionError';
+  }
+}
+
+// Display text and badge colours for every status
+export const STATUS_DISPLAY: Record<DiagnosisStatus, { label: string; patientLabel: string; className: string }> = {
+  submitted: {
+    label: 'Submitted',
+    patientLabel: 'Submitted',
+    className: 'bg-slate-100 text-slate-800 dark:bg-slate-800/40 dark:text-slate-300',
+  },
+  ai_processing: {
+    label: 'AI Processing',
+    patientLabel: 'Analyzing',
+    className: 'bg-blue-100 text-blue-800 dark:bg-blue-800/20 dark:text-blue-400',
+  },
+  ai_failed: {
+    label: 'AI Failed',
+    patientLabel: 'Analysis Failed',
+    className: 'bg-red-100 text-red-800 dark:bg-red-800/20 dark:text-red-500',
+  },
+  awaiting_review: {
+    label: 'Awaiting Review',
+    patientLabel: 'Pending Review',
+    className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-800/20 dark:text-yellow-500',
+  },
+  in_review: {
+    label: 'In Review',
+    patientLabel: 'In Review',
+    className: 'bg-indigo-100 text-indigo-800 dark:bg-indigo-800/20 dark:text-indigo-400',
+  },
+  needs_more_info: {
+    label: 'Needs More Info',
+    patientLabel: 'Information Requested',
+    className: 'bg-orange-100 text-orange-800 dark:bg-orange-800/20 dark:text-orange-400',
+  },
+  approved: {
+    label: 'Approved',
+    patientLabel: 'Doctor Approved',
+    className: 'bg-green-100 text-green-800 dark:bg-green-800/20 dark:text-green-500',
+  },
+  amended: {
+    label: 'Amended',
+    patientLabel: 'Doctor Amended',
+    className: 'bg-teal-100 text-teal-800 dark:bg-teal-800/20 dark:text-teal-400',
+  },
+  rejected: {
+    label: 'Rejected',
+    patientLabel: 'Not Confirmed',
+    className: 'bg-red-100 text-red-800 dark:bg-red-800/20 dark:text-red-500',
+  },
+  closed: {
+    label: 'Closed',
+    patientLabel: 'Closed',
+    className: 'bg-gray-100 text-gray-700 dark:bg-gray-800/40 dark:text-gray-400',
+  },
+};
@@ -0,0 +1,87 @@
+import type { ChatSafety, ChatUsage, RecordCitation } from '@/lib/ai/aiProvider';
+import type { EmergencyAlert } from '@/lib/triage/rules';
+import { serverSentEvent } from './serverSentEvents';
+
+// Wire format of a chat reply from POST /api/gemini: server-sent events, in
+// this order: `emergency` when triage flagged the message, `delta` for each
+// piece of text, then `safety`, `usage`, `suggestions`, `citations` when the
+// chat is about a diagnosis, and `done`.
+// An `error` event ends the stream early instead.
+// The stream is read with fetch, since EventSource cannot send a POST.
+export type ChatStreamEvent =
+  | { event: 'emergency'; data: EmergencyAlert }
+  | { event: 'delta'; data: { text: string } }
+  | { event: 'safety'; data: ChatSafety }
+  | { event: 'usage'; data: ChatUsage }
+  | { event: 'suggestions'; data: { suggestions: string[] } }
+  // Parts of the diagnosis record the reply cites
+  | { event: 'citations'; data: { citations: RecordCitation[] } }
+  | { event: 'error'; data: { message: string } }
+  | {
+      event: 'done';
+      data: {
+        category: string;
+        timestamp: string;
+        // Whether the exchange was added to the conversation
+        stored: boolean;
+      };
+    };
+
+const CHAT_STREAM_EVENTS: ReadonlySet<string> = new Set([
+  'emergency',
+  'delta',
+  'safety',
+  'usage',
+  'suggestions',
+  'citations',
+  'error',
+  'done',
+]);
+
+export function chatStreamEvent(event: ChatStreamEvent): string {
+  return serverSentEvent(event.event, event.data);
+}
+
+function parseFrame(frame: string): ChatStreamEvent | undefined {
+  let event = 'message';
+  const data: string[] = [];
+  for (const line of frame.split('\n')) {
+    // Lines starting with a colon are comments
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+  }
+  // Unknown events are skipped so the server can add new ones
+  if (!CHAT_STREAM_EVENTS.has(event) || data.length === 0) return undefined;
+
+  try {
+    return { event, data: JSON.parse(data.join('\n')) } as ChatStreamEvent;
+  } catch (error) {
+    console.error('Malformed chat stream event:', error);
+    return undefined;
+  }
+}
+
+// Yields the events of a chat reply as they arrive
+export async function* readChatStream(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatStreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      let end: number;
+      while ((end = buffer.indexOf('\n\n')) !== -1) {
+        const event = parseFrame(buffer.slice(0, end));
+        buffer = buffer.slice(end + 2);
+        if (event) yield event;
+      }
+
+      if (done) break;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
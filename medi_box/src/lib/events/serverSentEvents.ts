@@ -0,0 +1,66 @@
+// Server-sent event streams fed by polling the stores. The stores have no
+// change feed, and polling works the same with the in-memory store and with
+// several app instances sharing MongoDB.
+
+// Comment lines keep proxies from closing an idle connection
+const KEEP_ALIVE_MS = 15000;
+// EventSource reconnects by itself after the server closes the stream
+const MAX_STREAM_MS = 10 * 60 * 1000;
+
+export function serverSentEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+export interface PollResult {
+  // Already formatted with serverSentEvent
+  events: string[];
+  // Nothing more will happen; the stream closes after these events
+  done?: boolean;
+}
+
+// Calls `poll` every intervalMs until it reports done, the client
+// disconnects or the stream reaches its maximum lifetime
+export function pollingEventStream(
+  signal: AbortSignal,
+  poll: () => Promise<PollResult>,
+  intervalMs: number
+): Response {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      const startedAt = Date.now();
+      let lastWrite = startedAt;
+
+      const send = (chunk: string) => {
+        controller.enqueue(encoder.encode(chunk));
+        lastWrite = Date.now();
+      };
+
+      try {
+        while (!signal.aborted && Date.now() - startedAt < MAX_STREAM_MS) {
+          const { events, done } = await poll();
+          for (const event of events) send(event);
+          if (done) break;
+          if (events.length === 0 && Date.now() - lastWrite >= KEEP_ALIVE_MS) {
+            send(': keep-alive\n\n');
+          }
+          await new Promise(resolve => setTimeout(resolve, intervalMs));
+        }
+        controller.close();
+      } catch (error) {
+        // The client went away while an event was being written
+        if (signal.aborted) return;
+        console.error("Streaming error:", error);
+        controller.error(error);
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,198 @@
+import type { DiagnosisData, NewDiagnosis } from '@/lib/store/diagnosesRepository';
+import {
+  Attachment,
+  BundleResource,
+  CodeableConcept,
+  Condition,
+  containedResources,
+  DiagnosticReport,
+  FhirResource,
+  LOINC_SYSTEM,
+  Media,
+  MEDIBOX_CODE_SYSTEM,
+  Observation,
+  Patient,
+  PATIENT_ID_SYSTEM,
+  Practitioner,
+  Reference,
+  RISK_FACTOR_EXTENSION,
+  SYMPTOM_LOINC_CODE,
+  TREATMENT_EXTENSION
+} from './resources';
+
+// Maps the DiagnosticReports of a validated bundle back to diagnoses, the
+// reverse of diagnosisExport. Related resources are found through the
+// report's references, in the bundle or contained in the report.
+
+// Every imported report starts in awaiting_review: its interpreter has not
+// signed anything off in MediBox, so a doctor here reviews it like any other.
+// The source's status, interpreter and conclusion are kept in importedFrom.
+
+// Report statuses that carry no usable result
+const SKIPPED_REPORT_STATUSES = ['cancelled', 'entered-in-error'];
+
+const IMPORTED_MODEL = 'External report (FHIR import)';
+
+// How the report's subject identifies the MediBox patient
+export interface PatientMatch {
+  patientId?: string;
+  email?: string;
+  display?: string;
+}
+
+export type SourceReview = Pick<NonNullable<DiagnosisData['importedFrom']>, 'reportStatus' | 'interpreter' | 'conclusion'>;
+
+export type ImportedReport =
+  | {
+      // `DiagnosticReport/<id>` or the entry's fullUrl, for messages
+      source: string;
+      reportId?: string;
+      skipped?: undefined;
+      patient: PatientMatch;
+      diagnosis: Omit<NewDiagnosis, 'patientId' | 'patientName' | 'careTeamId' | 'imageSrc'>;
+      sourceReview: SourceReview;
+      // Images with their content embedded; URL-only images are not fetched
+      images: Attachment[];
+      skippedImages: number;
+    }
+  | { source: string; reportId?: string; skipped: string };
+
+function conceptText(concept?: CodeableConcept): string | undefined {
+  return concept?.text
+    ?? concept?.coding?.find((coding) => coding.display)?.display
+    ?? concept?.coding?.find((coding) => coding.code)?.code;
+}
+
+function hasCoding(concept: CodeableConcept | undefined, system: string, code: string): boolean {
+  return !!concept?.coding?.some((coding) => coding.system === system && coding.code === code);
+}
+
+function nameText(resource?: Patient | Practitioner): string | undefined {
+  const [name] = resource?.name ?? [];
+  if (!name) return undefined;
+  return name.text ?? [...(name.prefix ?? []), ...(name.given ?? []), name.family].filter(Boolean).join(' ');
+}
+
+// FHIR dates may stop at the year or month; diagnosis dates are full days
+function toDay(value?: string): string | undefined {
+  return value && value.length >= 10 ? value.slice(0, 10) : undefined;
+}
+
+// Looks resources up by fullUrl or by `Type/id`, the forms bundle
+// references take
+class ResourceIndex {
+  private readonly byKey = new Map<string, FhirResource>();
+
+  constructor(resources: BundleResource[]) {
+    for (const { fullUrl, resource } of resources) {
+      if (fullUrl) this.byKey.set(fullUrl, resource);
+      if (resource.id) this.byKey.set(`${resource.resourceType}/${resource.id}`, resource);
+    }
+  }
+
+  resolve(reference: Reference | undefined, report: DiagnosticReport): FhirResource | undefined {
+    const target = reference?.reference;
+    if (!target) return undefined;
+    if (target === '#') return report;
+    if (target.startsWith('#')) {
+      return containedResources(report).find((resource) => resource.id === target.slice(1));
+    }
+    // An absolute URL resolves like the `Type/id` at its end
+    return this.byKey.get(target) ?? this.byKey.get(target.split('/').slice(-2).join('/'));
+  }
+}
+
+function patientMatchOf(subject: Reference | undefined, patient: Patient | undefined): PatientMatch {
+  const identifiers = [...(patient?.identifier ?? []), ...(subject?.identifier ? [subject.identifier] : [])];
+  return {
+    patientId: identifiers.find((identifier) => identifier.system === PATIENT_ID_SYSTEM)?.value,
+    email: patient?.telecom?.find((contact) => contact.system === 'email')?.value,
+    display: nameText(patient) ?? subject?.display,
+  };
+}
+
+function importReport(entry: BundleResource, report: DiagnosticReport, index: ResourceIndex, conditions: Condition[]): ImportedReport {
+  const source = report.id ? `DiagnosticReport/${report.id}` : entry.fullUrl ?? 'DiagnosticReport';
+  const reportId = report.id ?? entry.fullUrl;
+  if (SKIPPED_REPORT_STATUSES.includes(report.status)) {
+    return { source, reportId, skipped: `report status is ${report.status}` };
+  }
+
+  const resolve = <T extends FhirResource['resourceType']>(reference: Reference | undefined, type: T) => {
+    const resource = index.resolve(reference, report);
+    return resource?.resourceType === type ? (resource as Extract<FhirResource, { resourceType: T }>) : undefined;
+  };
+
+  const observations = (report.result ?? [])
+    .map((reference) => resolve(reference, 'Observation'))
+    .filter((observation): observation is Observation => !!observation);
+  const symptoms = observations
+    .filter((observation) => hasCoding(observation.code, LOINC_SYSTEM, SYMPTOM_LOINC_CODE))
+    .map((observation) => observation.valueString ?? conceptText(observation.valueCodeableConcept))
+    .filter((text): text is string => !!text);
+  const confidence = observations.find((observation) => hasCoding(observation.code, MEDIBOX_CODE_SYSTEM, 'ai-confidence'));
+
+  // The Condition that cites this report as evidence
+  const condition = [...conditions, ...containedResources(report)].find((resource): resource is Condition =>
+    resource.resourceType === 'Condition' &&
+    !!resource.evidence?.some((evidence) => evidence.detail?.some((detail) => index.resolve(detail, report) === report))
+  );
+
+  const interpreter = report.resultsInterpreter?.[0];
+  const doctorName = nameText(resolve(interpreter, 'Practitioner')) ?? interpreter?.display;
+
+  const media = (report.media ?? [])
+    .map((item) => resolve(item.link, 'Media'))
+    .filter((item): item is Media => !!item);
+  const images = media.map((item) => item.content).filter((content) => !!content.data && !!content.contentType);
+
+  const extensionValues = (url: string) => (report.extension ?? [])
+    .filter((extension) => extension.url === url && extension.valueString)
+    .map((extension) => extension.valueString as string);
+
+  return {
+    source,
+    reportId,
+    patient: patientMatchOf(report.subject, resolve(report.subject, 'Patient')),
+    diagnosis: {
+      diagnosisDate: toDay(report.effectiveDateTime) ?? toDay(report.issued) ?? new Date().toISOString().split('T')[0],
+      type: conceptText(report.code) ?? 'Imported report',
+      aiDiagnosis: conceptText(condition?.code) ?? conceptText(report.conclusionCode?.[0]) ?? 'Unspecified',
+      confidence: Math.round(confidence?.valueQuantity?.value ?? 0),
+      status: 'awaiting_review',
+      statusUpdatedAt: new Date().toISOString(),
+      symptoms: symptoms.join('; '),
+      doctorName: 'Pending Review',
+      doctorFeedback: '',
+      aiModelData: {
+        modelVersion: conceptText(confidence?.method) ?? IMPORTED_MODEL,
+        analysisTimestamp: confidence?.effectiveDateTime ?? '',
+        processingTime: '',
+        featuresAnalyzed: '',
+      },
+      treatmentRecommendations: extensionValues(TREATMENT_EXTENSION),
+      riskFactors: extensionValues(RISK_FACTOR_EXTENSION),
+    },
+    sourceReview: {
+      reportStatus: report.status,
+      interpreter: doctorName,
+      conclusion: report.conclusion,
+    },
+    images,
+    skippedImages: media.length - images.length,
+  };
+}
+
+// One entry per DiagnosticReport in the bundle, in bundle order
+export function importedReportsOf(resources: BundleResource[]): ImportedReport[] {
+  const index = new ResourceIndex(resources);
+  const conditions = resources
+    .map(({ resource }) => resource)
+    .filter((resource): resource is Condition => resource.resourceType === 'Condition');
+
+  return resources.flatMap((entry) =>
+    entry.resource.resourceType === 'DiagnosticReport'
+      ? [importReport(entry, entry.resource, index, conditions)]
+      : []
+  );
+}
@@ -0,0 +1,262 @@
+import { normalizeDiagnosisStatus, REVIEWED_STATUSES } from '@/lib/diagnoses/status';
+import type { DiagnosisStatus } from '@/lib/diagnoses/status';
+import type { DiagnosisData } from '@/lib/store/diagnosesRepository';
+import type { UserRecord } from '@/lib/store/usersRepository';
+import {
+  Bundle,
+  CONDITION_CLINICAL_SYSTEM,
+  CONDITION_VERIFICATION_SYSTEM,
+  Condition,
+  DIAGNOSIS_ID_SYSTEM,
+  DIAGNOSTIC_SERVICE_SYSTEM,
+  DiagnosticReport,
+  DiagnosticReportStatus,
+  FhirResource,
+  LOINC_SYSTEM,
+  Media,
+  MEDIBOX_CODE_SYSTEM,
+  Observation,
+  Patient,
+  PATIENT_ID_SYSTEM,
+  Practitioner,
+  PRACTITIONER_ID_SYSTEM,
+  Reference,
+  RISK_FACTOR_EXTENSION,
+  STATUS_EXTENSION,
+  SYMPTOM_LOINC_CODE,
+  TREATMENT_EXTENSION
+} from './resources';
+
+// Maps diagnoses to FHIR R4. A diagnosis becomes a DiagnosticReport whose
+// results are the reported symptoms and the AI confidence (Observations),
+// whose media are the study images (Media) and whose interpreter is the
+// reviewing doctor (Practitioner). The diagnosed condition is a Condition
+// citing the report as evidence.
+
+// The closest FHIR report status for each lifecycle status. The exact
+// status travels in STATUS_EXTENSION.
+const REPORT_STATUS: Record<DiagnosisStatus, DiagnosticReportStatus> = {
+  submitted: 'registered',
+  ai_processing: 'registered',
+  ai_failed: 'registered',
+  awaiting_review: 'preliminary',
+  in_review: 'preliminary',
+  needs_more_info: 'preliminary',
+  approved: 'final',
+  amended: 'amended',
+  // The report is final; its Condition is refuted
+  rejected: 'final',
+  // 'cancelled' when it was closed without a review
+  closed: 'final',
+};
+
+// Statuses that have no AI result yet, so no Condition or confidence
+const WITHOUT_RESULT: DiagnosisStatus[] = ['submitted', 'ai_processing', 'ai_failed'];
+
+// Builds a reference to another resource of the same export: `#id` when the
+// resources are contained in the report, `Type/id` when they are bundle entries
+type ReferenceTo = (resourceType: FhirResource['resourceType'], id: string, display?: string) => Reference;
+
+const bundleReference: ReferenceTo = (resourceType, id, display) => ({ reference: `${resourceType}/${id}`, display });
+
+const containedReference: ReferenceTo = (resourceType, id, display) => ({
+  // A contained resource points back at its container with a bare '#'
+  reference: resourceType === 'DiagnosticReport' ? '#' : `#${id}`,
+  display,
+});
+
+function conditionVerification(status: DiagnosisStatus): 'confirmed' | 'refuted' | 'provisional' {
+  if (REVIEWED_STATUSES.includes(status)) return 'confirmed';
+  return status === 'rejected' ? 'refuted' : 'provisional';
+}
+
+function absoluteUrl(origin: string, src: string): string {
+  return src.startsWith('/') ? `${origin}${src}` : src;
+}
+
+function patientReference(diagnosis: DiagnosisData): Reference {
+  return {
+    reference: `Patient/${diagnosis.patientId}`,
+    identifier: { system: PATIENT_ID_SYSTEM, value: diagnosis.patientId },
+    display: diagnosis.patientName,
+  };
+}
+
+export function patientResource(patient: Pick<UserRecord, 'id' | 'name' | 'email'>): Patient {
+  return {
+    resourceType: 'Patient',
+    id: patient.id,
+    identifier: [{ system: PATIENT_ID_SYSTEM, value: patient.id }],
+    name: [{ text: patient.name }],
+    telecom: [{ system: 'email', value: patient.email }],
+  };
+}
+
+// The report plus every resource it references, except the Patient
+function diagnosisResources(
+  diagnosis: DiagnosisData,
+  origin: string,
+  referenceTo: ReferenceTo
+): { report: DiagnosticReport; related: FhirResource[] } {
+  const status = normalizeDiagnosisStatus(diagnosis.status);
+  const hasResult = !WITHOUT_RESULT.includes(status);
+  const subject = patientReference(diagnosis);
+  const reportReference = referenceTo('DiagnosticReport', diagnosis.id);
+  const related: FhirResource[] = [];
+  const results: Reference[] = [];
+
+  if (diagnosis.symptoms) {
+    const id = `${diagnosis.id}-symptoms`;
+    const symptoms: Observation = {
+      resourceType: 'Observation',
+      id,
+      status: 'final',
+      code: {
+        coding: [{ system: LOINC_SYSTEM, code: SYMPTOM_LOINC_CODE, display: 'Symptom' }],
+        text: 'Reported symptoms',
+      },
+      subject,
+      effectiveDateTime: diagnosis.diagnosisDate,
+      valueString: diagnosis.symptoms,
+    };
+    related.push(symptoms);
+    results.push(referenceTo('Observation', id));
+  }
+
+  if (hasResult) {
+    const id = `${diagnosis.id}-confidence`;
+    const confidence: Observation = {
+      resourceType: 'Observation',
+      id,
+      status: 'final',
+      code: {
+        coding: [{ system: MEDIBOX_CODE_SYSTEM, code: 'ai-confidence', display: 'AI diagnosis confidence' }],
+        text: 'AI diagnosis confidence',
+      },
+      subject,
+      effectiveDateTime: diagnosis.aiModelData.analysisTimestamp || diagnosis.diagnosisDate,
+      valueQuantity: { value: diagnosis.confidence, unit: '%', system: 'http://unitsofmeasure.org', code: '%' },
+      method: { text: diagnosis.aiModelData.modelVersion },
+    };
+    related.push(confidence);
+    results.push(referenceTo('Observation', id));
+
+    const verification = conditionVerification(status);
+    const condition: Condition = {
+      resourceType: 'Condition',
+      id: `${diagnosis.id}-condition`,
+      clinicalStatus: verification === 'refuted'
+        ? undefined
+        : { coding: [{ system: CONDITION_CLINICAL_SYSTEM, code: 'active' }] },
+      verificationStatus: { coding: [{ system: CONDITION_VERIFICATION_SYSTEM, code: verification }] },
+      code: { text: diagnosis.aiDiagnosis },
+      subject,
+      recordedDate: diagnosis.aiModelData.analysisTimestamp || diagnosis.diagnosisDate,
+      evidence: [{ detail: [reportReference] }],
+    };
+    related.push(condition);
+  }
+
+  const images = diagnosis.images ?? (diagnosis.imageSrc
+    ? [{ uploadId: diagnosis.imageUploadId ?? '', fileName: diagnosis.type, src: diagnosis.imageSrc }]
+    : []);
+  const mediaIds = images.map((_, index) => `${diagnosis.id}-image-${index + 1}`);
+  const media = images.map((image, index): Media => ({
+    resourceType: 'Media',
+    id: mediaIds[index],
+    status: 'completed',
+    type: { coding: [{ system: 'http://terminology.hl7.org/CodeSystem/media-type', code: 'image' }] },
+    subject,
+    createdDateTime: diagnosis.diagnosisDate,
+    content: { url: absoluteUrl(origin, image.src), title: image.fileName },
+  }));
+  related.push(...media);
+
+  let interpreter: Reference | undefined;
+  if (diagnosis.reviewedBy) {
+    const practitioner: Practitioner = {
+      resourceType: 'Practitioner',
+      id: diagnosis.reviewedBy,
+      identifier: [{ system: PRACTITIONER_ID_SYSTEM, value: diagnosis.reviewedBy }],
+      name: [{ text: diagnosis.doctorName }],
+    };
+    related.push(practitioner);
+    interpreter = referenceTo('Practitioner', diagnosis.reviewedBy, diagnosis.doctorName);
+  }
+
+  const report: DiagnosticReport = {
+    resourceType: 'DiagnosticReport',
+    id: diagnosis.id,
+    extension: [
+      { url: STATUS_EXTENSION, valueCode: status },
+      ...diagnosis.treatmentRecommendations.map((item) => ({ url: TREATMENT_EXTENSION, valueString: item })),
+      ...diagnosis.riskFactors.map((risk) => ({ url: RISK_FACTOR_EXTENSION, valueString: risk })),
+    ],
+    identifier: [{ system: DIAGNOSIS_ID_SYSTEM, value: diagnosis.id }],
+    status: status === 'closed' && !diagnosis.reviewDate ? 'cancelled' : REPORT_STATUS[status],
+    category: images.length > 0
+      ? [{ coding: [{ system: DIAGNOSTIC_SERVICE_SYSTEM, code: 'RAD', display: 'Radiology' }] }]
+      : undefined,
+    code: { text: diagnosis.type },
+    subject,
+    effectiveDateTime: diagnosis.diagnosisDate,
+    issued: diagnosis.reviewDate ?? diagnosis.statusUpdatedAt,
+    resultsInterpreter: interpreter ? [interpreter] : undefined,
+    result: results.length > 0 ? results : undefined,
+    media: media.length > 0
+      ? images.map((image, index) => ({ comment: image.fileName, link: referenceTo('Media', mediaIds[index]) }))
+      : undefined,
+    conclusion: diagnosis.doctorFeedback || undefined,
+    conclusionCode: hasResult ? [{ text: diagnosis.aiDiagnosis }] : undefined,
+    presentedForm: [{
+      contentType: 'application/pdf',
+      url: `${origin}/api/diagnoses/${diagnosis.id}/pdf`,
+      title: `${diagnosis.type} report`,
+    }],
+  };
+
+  return { report, related };
+}
+
+// A standalone DiagnosticReport with its related resources contained
+export function diagnosticReportOf(diagnosis: DiagnosisData, origin: string): DiagnosticReport {
+  const { report, related } = diagnosisResources(diagnosis, origin, containedReference);
+  return { ...report, contained: related.length > 0 ? related : undefined };
+}
+
+function fullUrlOf(origin: string, resource: FhirResource): string {
+  return `${origin}/api/fhir/${resource.resourceType}/${resource.id}`;
+}
+
+// Everything about one patient: the Patient followed by each diagnosis's
+// report and related resources. A doctor who reviewed several diagnoses
+// appears once.
+export function patientBundleOf(
+  patient: Pick<UserRecord, 'id' | 'name' | 'email'>,
+  diagnoses: DiagnosisData[],
+  origin: string
+): Bundle {
+  const resources: FhirResource[] = [patientResource(patient)];
+  for (const diagnosis of diagnoses) {
+    const { report, related } = diagnosisResources(diagnosis, origin, bundleReference);
+    resources.push(report, ...related);
+  }
+
+  const entries = new Map<string, FhirResource>();
+  for (const resource of resources) {
+    const fullUrl = fullUrlOf(origin, resource);
+    if (!entries.has(fullUrl)) entries.set(fullUrl, resource);
+  }
+
+  return {
+    resourceType: 'Bundle',
+    type: 'searchset',
+    timestamp: new Date().toISOString(),
+    total: diagnoses.length,
+    entry: [...entries].map(([fullUrl, resource]) => ({
+      fullUrl,
+      resource,
+      search: { mode: resource.resourceType === 'DiagnosticReport' ? 'match' : 'include' },
+    })),
+  };
+}
@@ -0,0 +1,297 @@
+import { z } from 'zod';
+
+// The FHIR R4 resources MediBox reads and writes, limited to the elements the
+// mapping uses. Incoming bundles are validated against these schemas; other
+// elements pass through untouched and are ignored.
+
+// Identifiers MediBox puts on the resources it exports
+export const MEDIBOX_FHIR_SYSTEM = 'https://medibox.dev/fhir';
+export const PATIENT_ID_SYSTEM = `${MEDIBOX_FHIR_SYSTEM}/patient-id`;
+export const DIAGNOSIS_ID_SYSTEM = `${MEDIBOX_FHIR_SYSTEM}/diagnosis-id`;
+export const PRACTITIONER_ID_SYSTEM = `${MEDIBOX_FHIR_SYSTEM}/practitioner-id`;
+export const MEDIBOX_CODE_SYSTEM = `${MEDIBOX_FHIR_SYSTEM}/CodeSystem/medibox`;
+
+// Extensions carrying MediBox fields FHIR has no element for
+export const STATUS_EXTENSION = `${MEDIBOX_FHIR_SYSTEM}/StructureDefinition/diagnosis-status`;
+export const TREATMENT_EXTENSION = `${MEDIBOX_FHIR_SYSTEM}/StructureDefinition/treatment-recommendation`;
+export const RISK_FACTOR_EXTENSION = `${MEDIBOX_FHIR_SYSTEM}/StructureDefinition/risk-factor`;
+
+export const LOINC_SYSTEM = 'http://loinc.org';
+// LOINC "Symptom"
+export const SYMPTOM_LOINC_CODE = '75325-1';
+export const CONDITION_VERIFICATION_SYSTEM = 'http://terminology.hl7.org/CodeSystem/condition-ver-status';
+export const CONDITION_CLINICAL_SYSTEM = 'http://terminology.hl7.org/CodeSystem/condition-clinical';
+export const DIAGNOSTIC_SERVICE_SYSTEM = 'http://terminology.hl7.org/CodeSystem/v2-0074';
+
+const FhirIdSchema = z.string().regex(/^[A-Za-z0-9\-.]{1,64}$/, 'must be a FHIR id (letters, digits, "-" and ".", up to 64)');
+// date, dateTime and instant share this prefix; the time part is optional
+const FhirDateTimeSchema = z.string().regex(
+  /^\d{4}(-\d{2}(-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?)?)?$/,
+  'must be a FHIR date or dateTime'
+);
+
+export const CodingSchema = z.object({
+  system: z.string().optional(),
+  code: z.string().optional(),
+  display: z.string().optional(),
+}).passthrough();
+
+export const CodeableConceptSchema = z.object({
+  coding: z.array(CodingSchema).optional(),
+  text: z.string().optional(),
+}).passthrough();
+
+export const IdentifierSchema = z.object({
+  system: z.string().optional(),
+  value: z.string().optional(),
+}).passthrough();
+
+export const ReferenceSchema = z.object({
+  reference: z.string().min(1).optional(),
+  identifier: IdentifierSchema.optional(),
+  display: z.string().optional(),
+}).passthrough();
+
+export const AttachmentSchema = z.object({
+  contentType: z.string().optional(),
+  // Base64 content
+  data: z.string().optional(),
+  url: z.string().optional(),
+  title: z.string().optional(),
+  creation: FhirDateTimeSchema.optional(),
+}).passthrough();
+
+const ExtensionSchema = z.object({
+  url: z.string().min(1),
+  valueCode: z.string().optional(),
+  valueString: z.string().optional(),
+}).passthrough();
+
+const HumanNameSchema = z.object({
+  text: z.string().optional(),
+  family: z.string().optional(),
+  given: z.array(z.string()).optional(),
+  prefix: z.array(z.string()).optional(),
+}).passthrough();
+
+const ContactPointSchema = z.object({
+  system: z.string().optional(),
+  value: z.string().optional(),
+}).passthrough();
+
+const resourceBase = {
+  id: FhirIdSchema.optional(),
+  extension: z.array(ExtensionSchema).optional(),
+};
+
+export const PatientSchema = z.object({
+  resourceType: z.literal('Patient'),
+  ...resourceBase,
+  identifier: z.array(IdentifierSchema).optional(),
+  name: z.array(HumanNameSchema).optional(),
+  telecom: z.array(ContactPointSchema).optional(),
+}).passthrough();
+
+export const PractitionerSchema = z.object({
+  resourceType: z.literal('Practitioner'),
+  ...resourceBase,
+  identifier: z.array(IdentifierSchema).optional(),
+  name: z.array(HumanNameSchema).optional(),
+}).passthrough();
+
+export const ObservationSchema = z.object({
+  resourceType: z.literal('Observation'),
+  ...resourceBase,
+  status: z.enum(['registered', 'preliminary', 'final', 'amended', 'corrected', 'cancelled', 'entered-in-error', 'unknown']),
+  code: CodeableConceptSchema,
+  subject: ReferenceSchema.optional(),
+  effectiveDateTime: FhirDateTimeSchema.optional(),
+  valueString: z.string().optional(),
+  valueCodeableConcept: CodeableConceptSchema.optional(),
+  valueQuantity: z.object({
+    value: z.number().optional(),
+    unit: z.string().optional(),
+    system: z.string().optional(),
+    code: z.string().optional(),
+  }).passthrough().optional(),
+  method: CodeableConceptSchema.optional(),
+}).passthrough();
+
+export const ConditionSchema = z.object({
+  resourceType: z.literal('Condition'),
+  ...resourceBase,
+  clinicalStatus: CodeableConceptSchema.optional(),
+  verificationStatus: CodeableConceptSchema.optional(),
+  code: CodeableConceptSchema.optional(),
+  subject: ReferenceSchema,
+  recordedDate: FhirDateTimeSchema.optional(),
+  evidence: z.array(z.object({
+    code: z.array(CodeableConceptSchema).optional(),
+    detail: z.array(ReferenceSchema).optional(),
+  }).passthrough()).optional(),
+}).passthrough();
+
+export const MediaSchema = z.object({
+  resourceType: z.literal('Media'),
+  ...resourceBase,
+  status: z.enum(['preparation', 'in-progress', 'not-done', 'on-hold', 'stopped', 'completed', 'entered-in-error', 'unknown']),
+  type: CodeableConceptSchema.optional(),
+  subject: ReferenceSchema.optional(),
+  createdDateTime: FhirDateTimeSchema.optional(),
+  content: AttachmentSchema,
+}).passthrough();
+
+export const DIAGNOSTIC_REPORT_STATUSES = [
+  'registered',
+  'partial',
+  'preliminary',
+  'final',
+  'amended',
+  'corrected',
+  'appended',
+  'cancelled',
+  'entered-in-error',
+  'unknown',
+] as const;
+
+export type DiagnosticReportStatus = (typeof DIAGNOSTIC_REPORT_STATUSES)[number];
+
+export const DiagnosticReportSchema = z.object({
+  resourceType: z.literal('DiagnosticReport'),
+  ...resourceBase,
+  // Checked against the resource schemas separately, like bundle entries
+  contained: z.array(z.object({ resourceType: z.string() }).passthrough()).optional(),
+  identifier: z.array(IdentifierSchema).optional(),
+  status: z.enum(DIAGNOSTIC_REPORT_STATUSES),
+  category: z.array(CodeableConceptSchema).optional(),
+  code: CodeableConceptSchema,
+  subject: ReferenceSchema.optional(),
+  effectiveDateTime: FhirDateTimeSchema.optional(),
+  issued: FhirDateTimeSchema.optional(),
+  resultsInterpreter: z.array(ReferenceSchema).optional(),
+  result: z.array(ReferenceSchema).optional(),
+  media: z.array(z.object({
+    comment: z.string().optional(),
+    link: ReferenceSchema,
+  }).passthrough()).optional(),
+  conclusion: z.string().optional(),
+  conclusionCode: z.array(CodeableConceptSchema).optional(),
+  presentedForm: z.array(AttachmentSchema).optional(),
+}).passthrough();
+
+export const BUNDLE_TYPES = [
+  'document',
+  'message',
+  'transaction',
+  'transaction-response',
+  'batch',
+  'batch-response',
+  'history',
+  'searchset',
+  'collection',
+] as const;
+
+export const BundleSchema = z.object({
+  resourceType: z.literal('Bundle'),
+  id: FhirIdSchema.optional(),
+  type: z.enum(BUNDLE_TYPES),
+  timestamp: FhirDateTimeSchema.optional(),
+  total: z.number().int().nonnegative().optional(),
+  entry: z.array(z.object({
+    fullUrl: z.string().optional(),
+    // Checked against the resource schemas separately
+    resource: z.object({ resourceType: z.string() }).passthrough().optional(),
+    request: z.object({ method: z.string(), url: z.string() }).passthrough().optional(),
+    response: z.object({ status: z.string(), location: z.string().optional() }).passthrough().optional(),
+  }).passthrough()).optional(),
+}).passthrough();
+
+export type Coding = z.infer<typeof CodingSchema>;
+export type CodeableConcept = z.infer<typeof CodeableConceptSchema>;
+export type Reference = z.infer<typeof ReferenceSchema>;
+export type Attachment = z.infer<typeof AttachmentSchema>;
+export type Patient = z.infer<typeof PatientSchema>;
+export type Practitioner = z.infer<typeof PractitionerSchema>;
+export type Observation = z.infer<typeof ObservationSchema>;
+export type Condition = z.infer<typeof ConditionSchema>;
+export type Media = z.infer<typeof MediaSchema>;
+export type DiagnosticReport = z.infer<typeof DiagnosticReportSchema>;
+export type Bundle = z.infer<typeof BundleSchema>;
+
+export type FhirResource = Patient | Practitioner | Observation | Condition | Media | DiagnosticReport;
+
+// Resource types the mapping understands. Anything else in a bundle, such as
+// an Encounter, only has to carry a resourceType and is otherwise ignored.
+const RESOURCE_SCHEMAS = {
+  Patient: PatientSchema,
+  Practitioner: PractitionerSchema,
+  Observation: ObservationSchema,
+  Condition: ConditionSchema,
+  Media: MediaSchema,
+  DiagnosticReport: DiagnosticReportSchema,
+} as const;
+
+// A validated resource with the URL other resources use to reference it
+export interface BundleResource {
+  fullUrl?: string;
+  resource: FhirResource;
+}
+
+export type BundleParseResult =
+  | { success: true; bundle: Bundle; resources: BundleResource[] }
+  | { success: false; issues: string[] };
+
+function formatIssues(error: z.ZodError, prefix: string): string[] {
+  return error.issues.map((issue) => {
+    const path = [prefix, ...issue.path].filter((part) => part !== '').join('.');
+    return `${path || '(root)'}: ${issue.message}`;
+  });
+}
+
+function parseResource(raw: { resourceType: string }, path: string, issues: string[]): FhirResource | undefined {
+  const schema = RESOURCE_SCHEMAS[raw.resourceType as keyof typeof RESOURCE_SCHEMAS];
+  if (!schema) return undefined;
+
+  const parsed = schema.safeParse(raw);
+  if (!parsed.success) {
+    issues.push(...formatIssues(parsed.error, path));
+    return undefined;
+  }
+
+  if (parsed.data.resourceType === 'DiagnosticReport') {
+    parsed.data.contained?.forEach((contained, index) => {
+      parseResource(contained, `${path}.contained.${index}`, issues);
+    });
+  }
+  return parsed.data;
+}
+
+// Validates a bundle and every resource in it; any invalid resource fails
+// the whole bundle so an import never applies half of it
+export function parseBundle(input: unknown): BundleParseResult {
+  const parsed = BundleSchema.safeParse(input);
+  if (!parsed.success) {
+    return { success: false, issues: formatIssues(parsed.error, '') };
+  }
+
+  const issues: string[] = [];
+  const resources: BundleResource[] = [];
+  parsed.data.entry?.forEach((entry, index) => {
+    if (!entry.resource) return;
+    const resource = parseResource(entry.resource, `entry.${index}.resource`, issues);
+    if (resource) resources.push({ fullUrl: entry.fullUrl, resource });
+  });
+
+  return issues.length > 0
+    ? { success: false, issues }
+    : { success: true, bundle: parsed.data, resources };
+}
+
+// Resources contained in a report, validated by parseBundle
+export function containedResources(report: DiagnosticReport): FhirResource[] {
+  return (report.contained ?? []).flatMap((raw) => {
+    const schema = RESOURCE_SCHEMAS[raw.resourceType as keyof typeof RESOURCE_SCHEMAS];
+    const parsed = schema?.safeParse(raw);
+    return parsed?.success ? [parsed.data] : [];
+  });
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+
+// FHIR endpoints answer in application/fhir+json and report errors as
+// OperationOutcome resources rather than the { error } bodies of the rest
+// of the API.
+
+export const FHIR_CONTENT_TYPE = 'application/fhir+json';
+
+export type IssueCode = 'invalid' | 'not-found' | 'processing' | 'exception' | 'not-supported';
+
+export interface OperationOutcome {
+  resourceType: 'OperationOutcome';
+  issue: {
+    severity: 'fatal' | 'error' | 'warning' | 'information';
+    code: IssueCode;
+    diagnostics: string;
+  }[];
+}
+
+export function operationOutcome(code: IssueCode, messages: string[], severity: 'error' | 'warning' = 'error'): OperationOutcome {
+  return {
+    resourceType: 'OperationOutcome',
+    issue: messages.map((diagnostics) => ({ severity, code, diagnostics })),
+  };
+}
+
+export function fhirResponse(resource: object, init?: { status?: number; headers?: Record<string, string> }): NextResponse {
+  return NextResponse.json(resource, {
+    status: init?.status,
+    headers: { 'Content-Type': FHIR_CONTENT_TYPE, ...init?.headers },
+  });
+}
+
+export function fhirError(status: number, code: IssueCode, messages: string[]): NextResponse {
+  return fhirResponse(operationOutcome(code, messages), { status });
+}
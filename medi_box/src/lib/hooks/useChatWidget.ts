@@ -5,18 +5,24 @@ import { create } from 'zustand';
 interface ChatWidgetState {
   isOpen: boolean;
   isMinimized: boolean;
+  // Conversation shown by both the widget and the full chat page:
+  // undefined until resolved, null for a new conversation not yet stored
+  conversationId: string | null | undefined;
   toggleChat: () => void;
   closeChat: () => void;
   openChat: () => void;
+  setConversationId: (conversationId: string | null) => void;
 }
 
 export const useChatWidget = create<ChatWidgetState>((set) => ({
   isOpen: false,
   isMinimized: true,
+  conversationId: undefined,
   toggleChat: () => set((state: ChatWidgetState) => ({ 
     isMinimized: !state.isMinimized,
     isOpen: state.isMinimized ? true : state.isOpen
   })),
   closeChat: () => set({ isOpen: false, isMinimized: true }),
   openChat: () => set({ isOpen: true, isMinimized: false }),
-})); 
\ No newline at end of file
+  setConversationId: (conversationId) => set({ conversationId }),
+}));
@@ -0,0 +1,302 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { RecordCitation } from '@/lib/ai/aiProvider';
+import { readChatStream } from '@/lib/events/chatStream';
+import type { EmergencyAlert } from '@/lib/triage/rules';
+import { useChatWidget } from './useChatWidget';
+
+// Message of a stored conversation, as shown by the chat components
+export interface ThreadMessage {
+  id: string;
+  role: 'user' | 'assistant' | 'doctor';
+  content: string;
+  suggestions?: string[];
+  citations?: RecordCitation[];
+  emergency?: EmergencyAlert;
+  // The doctor who wrote a `doctor` message
+  author?: { id: string; name: string };
+  createdAt: string;
+  // Shown in the thread but not stored: the exchange failed
+  failed?: boolean;
+}
+
+// Hand-off of the conversation to a doctor, as returned by the API
+export interface ThreadEscalation {
+  status: 'open' | 'answered';
+  note?: string;
+  requestedAt: string;
+  doctorName?: string;
+  answeredAt?: string;
+}
+
+interface UseConversationOptions {
+  // Called after a message exchange is stored, e.g. to refresh a history list
+  onStored?: () => void;
+  // Chat about this diagnosis instead of the shared thread
+  diagnosisId?: string;
+}
+
+const FAILED_REPLY = 'Sorry, something went wrong. Please try again.';
+const BLOCKED_REPLY = "The assistant can't answer this question. Please rephrase it, or ask your doctor.";
+// How often a conversation waiting for a doctor checks for the reply
+const ESCALATION_POLL_MS = 30000;
+
+// The chat thread shared by the widget and the full chat page. Messages are
+// stored on the server; the conversation shown is kept in the chat widget
+// store, where other components can switch it, and defaults to the user's
+// most recent conversation. A chat about a diagnosis keeps its own thread,
+// defaulting to the latest conversation about that diagnosis.
+export function useConversation({ onStored, diagnosisId }: UseConversationOptions = {}) {
+  const widget = useChatWidget();
+  const [diagnosisConversationId, setDiagnosisConversationId] = useState<string | null | undefined>(undefined);
+  const conversationId = diagnosisId ? diagnosisConversationId : widget.conversationId;
+  const setConversationId = diagnosisId ? setDiagnosisConversationId : widget.setConversationId;
+  const [messages, setMessages] = useState<ThreadMessage[]>([]);
+  const [streamingText, setStreamingText] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  // Emergency triage found in the last message sent, until acknowledged
+  const [emergency, setEmergency] = useState<EmergencyAlert | null>(null);
+  const [escalation, setEscalation] = useState<ThreadEscalation | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Conversation created by sendMessage, whose messages are already on screen
+  const createdIdRef = useRef<string | null>(null);
+
+  // Pick up the most recent conversation when none is chosen yet
+  useEffect(() => {
+    if (conversationId !== undefined) return;
+
+    // A page may choose a shared conversation while the list loads
+    const chosenElsewhere = () => !diagnosisId && useChatWidget.getState().conversationId !== undefined;
+
+    async function resolveConversation() {
+      try {
+        const query = diagnosisId ? `?diagnosisId=${encodeURIComponent(diagnosisId)}` : '';
+        const response = await fetch(`/api/conversations${query}`);
+        if (!response.ok) throw new Error(`API error: ${response.statusText}`);
+        const data = await response.json();
+        if (chosenElsewhere()) return;
+        setConversationId(data.conversations[0]?.id ?? null);
+      } catch (error) {
+        console.error('Error fetching conversations:', error);
+        if (!chosenElsewhere()) setConversationId(null);
+      }
+    }
+
+    resolveConversation();
+  }, [conversationId, setConversationId, diagnosisId]);
+
+  useEffect(() => {
+    if (!conversationId || conversationId === createdIdRef.current) {
+      // A new conversation, or one sendMessage created: nothing to load
+      if (!conversationId) setMessages([]);
+      setEscalation(null);
+      createdIdRef.current = null;
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    async function fetchConversation() {
+      setIsLoading(true);
+      try {
+        const response = await fetch(`/api/conversations/${conversationId}`);
+        if (response.status === 404) {
+          // Deleted elsewhere; start over
+          if (!cancelled) setConversationId(null);
+          return;
+        }
+        if (!response.ok) throw new Error(`API error: ${response.statusText}`);
+        const data = await response.json();
+        if (!cancelled) {
+          setMessages(data.conversation.messages);
+          setEscalation(data.conversation.escalation ?? null);
+        }
+      } catch (error) {
+        console.error('Error fetching conversation:', error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    }
+
+    fetchConversation();
+    return () => {
+      cancelled = true;
+    };
+  }, [conversationId, setConversationId]);
+
+  // While a doctor has yet to answer, look for the reply now and then
+  const waitingForDoctor = escalation?.status === 'open';
+  useEffect(() => {
+    if (!conversationId || !waitingForDoctor || isSending) return;
+
+    const timer = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/conversations/${conversationId}`);
+        if (!response.ok) return;
+        const data = await response.json();
+        if (data.conversation.escalation?.status === 'answered') {
+          setMessages(data.conversation.messages);
+          setEscalation(data.conversation.escalation);
+        }
+      } catch (error) {
+        console.error('Error checking for a doctor reply:', error);
+      }
+    }, ESCALATION_POLL_MS);
+    return () => clearInterval(timer);
+  }, [conversationId, waitingForDoctor, isSending]);
+
+  // Stop a reply still streaming when the component goes away
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  const sendMessage = useCallback(async (text: string) => {
+    const message = text.trim();
+    if (!message || isSending) return;
+
+    setIsSending(true);
+    setStreamingText('');
+    setMessages((prev) => [
+      ...prev,
+      { id: `pending-${Date.now()}`, role: 'user', content: message, createdAt: new Date().toISOString() },
+    ]);
+
+    try {
+      let id = conversationId;
+      if (!id) {
+        const response = await fetch('/api/conversations', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ diagnosisId }),
+        });
+        const result = await response.json().catch(() => ({}));
+        if (!response.ok) throw new Error(result.error || FAILED_REPLY);
+        id = result.conversation.id as string;
+        createdIdRef.current = id;
+        setConversationId(id);
+      }
+
+      abortControllerRef.current = new AbortController();
+      const response = await fetch('/api/gemini', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message, category: 'general', conversationId: id }),
+        signal: abortControllerRef.current.signal,
+      });
+      if (!response.ok || !response.body) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.error || 'Failed to get response');
+      }
+
+      let reply = '';
+      let suggestions: string[] | undefined;
+      let citations: RecordCitation[] | undefined;
+      let alert: EmergencyAlert | undefined;
+      let blocked = false;
+      let stored = false;
+      let finished = false;
+      for await (const event of readChatStream(response.body)) {
+        if (event.event === 'emergency') {
+          alert = event.data;
+          setEmergency(event.data);
+        } else if (event.event === 'delta') {
+          reply += event.data.text;
+          setStreamingText(reply);
+        } else if (event.event === 'suggestions') {
+          suggestions = event.data.suggestions;
+        } else if (event.event === 'citations') {
+          citations = event.data.citations;
+        } else if (event.event === 'safety') {
+          blocked = event.data.blocked;
+        } else if (event.event === 'error') {
+          throw new Error(event.data.message);
+        } else if (event.event === 'done') {
+          stored = event.data.stored;
+          finished = true;
+        }
+      }
+      // The connection dropped before the reply was complete
+      if (!finished) throw new Error(FAILED_REPLY);
+
+      setMessages((prev) => [
+        ...prev,
+        blocked
+          ? { id: `blocked-${Date.now()}`, role: 'assistant', content: BLOCKED_REPLY, createdAt: new Date().toISOString(), failed: true }
+          : { id: `reply-${Date.now()}`, role: 'assistant', content: reply.trim(), suggestions, citations, emergency: alert, createdAt: new Date().toISOString() },
+      ]);
+      if (stored) onStored?.();
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') return;
+      console.error('Error sending message:', error);
+      setMessages((prev) => [
+        ...prev,
+        {
+          id: `error-${Date.now()}`,
+          role: 'assistant',
+          content: error instanceof Error && error.message ? error.message : FAILED_REPLY,
+          createdAt: new Date().toISOString(),
+          failed: true,
+        },
+      ]);
+    } finally {
+      setStreamingText('');
+      setIsSending(false);
+    }
+  }, [conversationId, diagnosisId, isSending, onStored, setConversationId]);
+
+  // Hands the conversation to a doctor; a conversation is started first when
+  // there is none yet, in which case the note is the question. Throws with a
+  // message to show when the request fails.
+  const escalate = useCallback(async (note?: string) => {
+    let id = conversationId;
+    if (!id) {
+      const response = await fetch('/api/conversations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ diagnosisId }),
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(result.error || 'Failed to start a conversation');
+      id = result.conversation.id as string;
+      createdIdRef.current = id;
+      setConversationId(id);
+    }
+
+    const response = await fetch(`/api/conversations/${id}/escalation`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ note: note?.trim() || undefined }),
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(result.error || 'Failed to contact a doctor');
+    setEscalation(result.escalation);
+    onStored?.();
+  }, [conversationId, diagnosisId, onStored, setConversationId]);
+
+  const startNewConversation = useCallback(() => {
+    abortControllerRef.current?.abort();
+    setConversationId(null);
+  }, [setConversationId]);
+
+  const lastMessage = messages[messages.length - 1];
+
+  return {
+    conversationId: conversationId ?? null,
+    messages,
+    streamingText,
+    // Follow-up questions offered with the latest reply
+    suggestions: lastMessage?.role === 'assistant' ? lastMessage.suggestions ?? [] : [],
+    isLoading: isLoading || conversationId === undefined,
+    isSending,
+    emergency,
+    dismissEmergency: () => setEmergency(null),
+    // Set once the patient handed the conversation to a doctor
+    escalation,
+    escalate,
+    sendMessage,
+    startNewConversation,
+  };
+}
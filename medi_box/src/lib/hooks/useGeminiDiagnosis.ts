@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { SymptomData, MedicalImageData } from '@/lib/gemini';
+import type { MedicalImageData, SymptomData } from '@/lib/ai/aiProvider';
 
 export type DiagnosisResult = {
   result: string;
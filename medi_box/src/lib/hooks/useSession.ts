@@ -0,0 +1,33 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { SessionUser } from '@/lib/auth/session';
+
+// Loads the signed-in user for client components
+export function useSession() {
+  const [user, setUser] = useState<SessionUser | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchSession() {
+      try {
+        const response = await fetch('/api/auth/session');
+        const data = await response.json();
+        if (!cancelled) setUser(data.user ?? null);
+      } catch (error) {
+        console.error('Error fetching session:', error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    }
+
+    fetchSession();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { user, isLoading };
+}
@@ -0,0 +1,190 @@
+import { getAIProvider, SymptomData } from '@/lib/ai/ai';
+import { AnalysisValidationError, analysisToSections, DiagnosisAnalysis } from '@/lib/ai/analysis';
+import { recordSystemAudit } from '@/lib/audit/auditLog';
+import { transitionDiagnosis } from '@/lib/diagnoses/lifecycle';
+import { classifyStudy, SecondOpinion, toSecondOpinion } from '@/lib/ml/imageClassifier';
+import { notifyAnalysisFinished, notifyDiagnosisPending } from '@/lib/notifications/notify';
+import { DiagnosisData, DiagnosisTriage, getDiagnosis } from '@/lib/store/diagnosesStore';
+import { getJobRepository, Job, toPublicJob } from '@/lib/store/jobStore';
+import { getUploadsRepository, UploadRecord } from '@/lib/store/uploadsStore';
+import { mergeTriageMatches } from '@/lib/triage/rules';
+import { triageText } from '@/lib/triage/triage';
+import { describeDicomForAnalysis, suggestAnalysisFields } from '@/lib/uploads/dicom';
+import { readAnalysisImage } from '@/lib/uploads/medicalImages';
+import { JobHandler, PermanentJobError } from './jobHandler';
+
+// Runs the AI analysis of a submitted diagnosis. POST /api/diagnoses
+// records the diagnosis as submitted and enqueues this job; the job moves it
+// to ai_processing, then to awaiting_review with the result, or to
+// ai_failed once every attempt has failed.
+
+export type DiagnosisAnalysisPayload =
+  | { type: 'symptoms'; data: SymptomData }
+  | { type: 'image'; data: { imageType: string; bodyPart: string }; uploadIds: string[] };
+
+function failureMessage(error: Error): string {
+  return error instanceof AnalysisValidationError
+    ? "The AI analysis could not be validated. Please try again."
+    : "The AI analysis failed. Please try again.";
+}
+
+// Triage of the submission, extended with red flags the analysis found. Only
+// the summary and findings are checked: the red flag list names warning
+// signs to watch for, not what the patient has.
+async function triageAnalysis(diagnosis: DiagnosisData, analysis: DiagnosisAnalysis): Promise<DiagnosisTriage> {
+  const found = await triageText([analysis.summary, ...analysis.findings].join('\n'));
+  const matches = mergeTriageMatches(diagnosis.triage?.matches ?? [], found?.matches ?? []);
+  return { urgent: matches.length > 0, matches, checkedAt: new Date().toISOString() };
+}
+
+async function loadUploads(uploadIds: string[]): Promise<UploadRecord[]> {
+  const uploads: UploadRecord[] = [];
+  for (const uploadId of uploadIds) {
+    const upload = await getUploadsRepository().getUpload(uploadId);
+    if (!upload) throw new PermanentJobError(`Upload ${uploadId} no longer exists`);
+    uploads.push(upload);
+  }
+  return uploads;
+}
+
+// The diagnosis in ai_processing: fresh submissions and dead-lettered jobs
+// an admin retried still need the move, retries after a failed attempt
+// are already there
+async function startProcessing(diagnosis: DiagnosisData): Promise<DiagnosisData> {
+  if (diagnosis.status === 'submitted' || diagnosis.status === 'ai_failed') {
+    return transitionDiagnosis(diagnosis, 'ai_processing');
+  }
+  if (diagnosis.status !== 'ai_processing') {
+    throw new PermanentJobError(`Diagnosis ${diagnosis.id} is ${diagnosis.status}; there is nothing to analyse`);
+  }
+  return diagnosis;
+}
+
+export const diagnosisAnalysisHandler: JobHandler = {
+  async run({ job, reportProgress }) {
+    const payload = job.payload as DiagnosisAnalysisPayload;
+    const before = job.diagnosisId ? await getDiagnosis(job.diagnosisId) : undefined;
+    if (!before) throw new PermanentJobError(`Diagnosis ${job.diagnosisId} not found`);
+
+    const processing = await startProcessing(before);
+    const provider = getAIProvider();
+    const startedAt = Date.now();
+    let analysis: DiagnosisAnalysis;
+    let secondOpinion: SecondOpinion | undefined;
+
+    if (payload.type === 'symptoms') {
+      await reportProgress('analyzing', 30, "Analyzing your symptoms");
+      analysis = await provider.analyzeSymptoms(payload.data);
+    }
+    else {
+      // DICOM uploads are analysed from their rendered frame plus whitelisted
+      // header fields, so no PHI is sent to the AI provider
+      await reportProgress('preparing', 10, "Preparing your images");
+      const uploads = await loadUploads(payload.uploadIds);
+      const studyImages = [];
+      for (const upload of uploads) {
+        studyImages.push({ upload, ...(await readAnalysisImage(upload)) });
+      }
+
+      // The ML classifier gives a second opinion in parallel; it reports
+      // itself unavailable rather than failing the job. A DICOM image is
+      // judged by its own modality and body part, others by the study's
+      await reportProgress('analyzing', 30, `Analyzing ${uploads.length === 1 ? 'your image' : `${uploads.length} images`}`);
+      const [imageAnalysis, classification] = await Promise.all([
+        provider.analyzeImages({
+          images: studyImages.map(({ upload, bytes, mimeType }) => ({
+            imageData: bytes.toString('base64'),
+            mimeType,
+            studyDetails: upload.dicomMetadata ? describeDicomForAnalysis(upload.dicomMetadata) : undefined
+          })),
+          imageType: payload.data.imageType,
+          bodyPart: payload.data.bodyPart
+        }),
+        classifyStudy(studyImages.map(({ upload, bytes, mimeType }) => {
+          const fields = upload.dicomMetadata ? suggestAnalysisFields(upload.dicomMetadata) : {};
+          return {
+            bytes,
+            mimeType,
+            imageType: fields.imageType ?? payload.data.imageType,
+            bodyPart: fields.bodyPart ?? payload.data.bodyPart
+          };
+        }))
+      ]);
+      analysis = imageAnalysis;
+      secondOpinion = toSecondOpinion(classification, analysis);
+    }
+
+    await reportProgress('saving', 90, "Saving the results");
+    const [primary] = analysis.differential;
+    const sections = analysisToSections(analysis);
+    const triage = await triageAnalysis(processing, analysis);
+
+    const newDiagnosis = await transitionDiagnosis(processing, 'awaiting_review', {
+      aiDiagnosis: primary.condition,
+      confidence: Math.round(primary.confidence),
+      aiModelData: {
+        ...processing.aiModelData,
+        analysisTimestamp: new Date().toISOString(),
+        processingTime: `${((Date.now() - startedAt) / 1000).toFixed(1)} seconds`,
+        secondOpinion
+      },
+      treatmentRecommendations: analysis.recommendations,
+      riskFactors: analysis.riskFactors,
+      aiAnalysis: analysis,
+      aiResponse: {
+        fullText: sections.join('\n\n'),
+        sections
+      },
+      aiError: undefined,
+      triage
+    });
+    // One entry spans the whole analysis, so the hashes chain onto the
+    // entry before it (the create entry, or the previous failure)
+    await recordSystemAudit(job.requestedBy, {
+      action: 'ai_result',
+      before,
+      after: newDiagnosis,
+      details: {
+        provider: provider.name,
+        model: newDiagnosis.aiModelData.modelVersion,
+        aiDiagnosis: newDiagnosis.aiDiagnosis,
+        jobId: job.id,
+        attempt: job.attempts,
+        urgent: triage.urgent
+      }
+    });
+    await notifyAnalysisFinished(newDiagnosis);
+    await notifyDiagnosisPending(newDiagnosis, 'analyzed');
+  },
+
+  async onDeadLetter(job: Job, error: Error) {
+    const before = job.diagnosisId ? await getDiagnosis(job.diagnosisId) : undefined;
+    if (!before || (before.status !== 'submitted' && before.status !== 'ai_processing')) return;
+
+    const message = failureMessage(error);
+    const processing = before.status === 'submitted' ? await transitionDiagnosis(before, 'ai_processing') : before;
+    const failed = await transitionDiagnosis(processing, 'ai_failed', { aiError: message });
+    await recordSystemAudit(job.requestedBy, {
+      action: 'ai_result',
+      before,
+      after: failed,
+      details: { provider: getAIProvider().name, error: message, jobId: job.id, attempts: job.attempts }
+    });
+    await notifyAnalysisFinished(failed);
+  },
+};
+
+// Where a diagnosis's analysis stands, for polling and the event stream.
+// Diagnoses from before the queue existed have no job.
+export async function analysisStatusOf(diagnosisId: string) {
+  const [diagnosis, job] = await Promise.all([
+    getDiagnosis(diagnosisId),
+    getJobRepository().getLatestJobForDiagnosis(diagnosisId, 'diagnosis_analysis')
+  ]);
+  return {
+    diagnosisStatus: diagnosis?.status,
+    job: job ? toPublicJob(job) : null,
+    // Nothing more will happen without someone acting on the diagnosis
+    finished: !job || job.status === 'succeeded' || job.status === 'dead'
+  };
+}
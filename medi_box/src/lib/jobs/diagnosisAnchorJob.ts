@@ -0,0 +1,35 @@
+import { recordSystemAudit } from '@/lib/audit/auditLog';
+import { anchorDiagnosis, isAnchoringConfigured } from '@/lib/blockchain/diagnosisRegistry';
+import { REVIEWED_STATUSES } from '@/lib/diagnoses/status';
+import { getDiagnosis, updateDiagnosis } from '@/lib/store/diagnosesStore';
+import { JobHandler, PermanentJobError } from './jobHandler';
+
+// Fingerprints a reviewed diagnosis on-chain. The review route enqueues this
+// job after an approval or amendment, so a slow chain never holds up the
+// review. The record is hashed as it is when the job runs, and every attempt
+// is stored on the diagnosis as blockchainAnchor; a failed one is retried.
+
+export const diagnosisAnchorHandler: JobHandler = {
+  async run({ job, reportProgress }) {
+    const before = job.diagnosisId ? await getDiagnosis(job.diagnosisId) : undefined;
+    if (!before) throw new PermanentJobError(`Diagnosis ${job.diagnosisId} not found`);
+    if (!REVIEWED_STATUSES.includes(before.status)) {
+      throw new PermanentJobError(`Diagnosis ${before.id} is ${before.status}; only reviewed diagnoses are anchored`);
+    }
+    if (!isAnchoringConfigured()) throw new PermanentJobError('Blockchain anchoring is not configured');
+
+    await reportProgress('anchoring', 50, "Recording the fingerprint on-chain");
+    const blockchainAnchor = await anchorDiagnosis(before);
+    const anchored = await updateDiagnosis(before.id, { blockchainAnchor });
+    if (anchored) {
+      await recordSystemAudit(job.requestedBy, {
+        action: 'anchor',
+        before,
+        after: anchored,
+        details: { ...blockchainAnchor, jobId: job.id, attempt: job.attempts }
+      });
+    }
+
+    if (blockchainAnchor.status === 'failed') throw new Error(blockchainAnchor.error);
+  },
+};
@@ -0,0 +1,26 @@
+import type { Job } from '@/lib/store/jobRepository';
+
+// What a job type plugs into the queue. Handlers live next to this file and
+// are registered in jobQueue.ts.
+
+export interface JobContext {
+  job: Job;
+  // Stored on the job for clients polling or subscribing to its status
+  reportProgress(stage: string, percent: number, message: string): Promise<void>;
+}
+
+export interface JobHandler {
+  // Throws to fail the attempt; the queue retries it with backoff
+  run(context: JobContext): Promise<void>;
+  // Called once the job has used up its attempts and is dead-lettered
+  onDeadLetter?(job: Job, error: Error): Promise<void>;
+}
+
+// Retrying cannot help, e.g. the diagnosis was deleted or closed meanwhile.
+// The job is dead-lettered straight away.
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentJobError';
+  }
+}
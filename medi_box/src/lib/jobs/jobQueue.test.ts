@@ -0,0 +1,186 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getJobRepository, Job, JobStatus } from '@/lib/store/jobStore';
+import { JobContext, PermanentJobError } from './jobHandler';
+import { backoffDelayMs, enqueueJob, kickJobWorker } from './jobQueue';
+
+const handler = vi.hoisted(() => ({
+  run: vi.fn<(context: JobContext) => Promise<void>>(),
+  onDeadLetter: vi.fn<(job: Job, error: Error) => Promise<void>>(),
+}));
+
+vi.mock('./diagnosisAnalysisJob', () => ({ diagnosisAnalysisHandler: handler }));
+vi.mock('./diagnosisAnchorJob', () => ({ diagnosisAnchorHandler: { run: vi.fn() } }));
+
+const JOB_LOCK_MS = 2 * 60 * 1000;
+const JOB_LOCK_RENEW_MS = JOB_LOCK_MS / 4;
+
+const requestedBy = { userId: 'patient-1', request: { method: 'POST', path: '/api/diagnoses' } };
+
+const globalForQueue = globalThis as typeof globalThis & {
+  _memoryJobs?: Map<string, Job>;
+  _jobWorker?: { timer?: ReturnType<typeof setTimeout> };
+};
+
+function waitForJob(id: string, status: JobStatus): Promise<Job> {
+  return vi.waitFor(async () => {
+    const job = await getJobRepository().getJob(id);
+    expect(job?.status).toBe(status);
+    return job!;
+  });
+}
+
+// Runs the handler until the test lets it finish; resolves with the
+// context of the attempt once it has started
+function holdHandler(): { started: Promise<JobContext>; finish: () => void } {
+  let finish!: () => void;
+  const started = new Promise<JobContext>((resolve) => {
+    handler.run.mockImplementationOnce((context) => {
+      resolve(context);
+      return new Promise<void>((done) => { finish = done; });
+    });
+  });
+  return { started, finish: () => finish() };
+}
+
+beforeEach(() => {
+  handler.run.mockReset().mockResolvedValue(undefined);
+  handler.onDeadLetter.mockReset().mockResolvedValue(undefined);
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  clearTimeout(globalForQueue._jobWorker?.timer);
+  globalForQueue._memoryJobs?.clear();
+});
+
+describe('job queue', () => {
+  it('runs an enqueued job and records its progress', async () => {
+    handler.run.mockImplementation(async ({ reportProgress }) => {
+      await reportProgress('analyzing', 50, "Halfway");
+    });
+
+    const job = await enqueueJob('diagnosis_analysis', { type: 'symptoms' }, { diagnosisId: 'diagnosis-1', requestedBy });
+    expect(job).toMatchObject({ status: 'queued', attempts: 0 });
+
+    const finished = await waitForJob(job.id, 'succeeded');
+    expect(finished).toMatchObject({ attempts: 1, progress: { stage: 'done', percent: 100 } });
+    expect(finished.lockedBy).toBeUndefined();
+    expect(finished.lockedUntil).toBeUndefined();
+    expect(handler.run).toHaveBeenCalledTimes(1);
+  });
+
+  it('puts a failed attempt back in the queue with a backoff', async () => {
+    handler.run.mockRejectedValue(new Error("Provider unavailable"));
+
+    const job = await enqueueJob('diagnosis_analysis', {}, { requestedBy });
+    // Queued is also where the job starts, so wait for the attempt too
+    const requeued = await vi.waitFor(async () => {
+      const current = await getJobRepository().getJob(job.id);
+      expect(current).toMatchObject({ status: 'queued', attempts: 1 });
+      return current!;
+    });
+
+    expect(requeued.errors).toEqual([expect.objectContaining({ attempt: 1, message: "Provider unavailable" })]);
+    expect(requeued.progress.stage).toBe('retrying');
+    expect(requeued.runAt > new Date().toISOString()).toBe(true);
+    expect(handler.onDeadLetter).not.toHaveBeenCalled();
+  });
+
+  it('dead-letters a permanent failure straight away', async () => {
+    handler.run.mockRejectedValue(new PermanentJobError("Diagnosis is closed"));
+
+    const job = await enqueueJob('diagnosis_analysis', {}, { requestedBy });
+    const dead = await waitForJob(job.id, 'dead');
+
+    expect(dead.attempts).toBe(1);
+    expect(handler.onDeadLetter).toHaveBeenCalledWith(expect.objectContaining({ id: job.id, status: 'dead' }), expect.any(PermanentJobError));
+  });
+
+  it('dead-letters a job that has used up its attempts', async () => {
+    handler.run.mockRejectedValue(new Error("Provider unavailable"));
+
+    const job = await getJobRepository().addJob({
+      type: 'diagnosis_analysis',
+      payload: {},
+      maxAttempts: 1,
+      runAt: new Date().toISOString(),
+      progress: { stage: 'queued', percent: 0, message: "Waiting to start" },
+      requestedBy,
+    });
+    kickJobWorker();
+
+    const dead = await waitForJob(job.id, 'dead');
+    expect(dead.errors).toHaveLength(1);
+    expect(handler.onDeadLetter).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('job locks', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date', 'setInterval', 'clearInterval'] });
+  });
+
+  it('renews the lock while the job runs', async () => {
+    const { started, finish } = holdHandler();
+    const job = await enqueueJob('diagnosis_analysis', {}, { requestedBy });
+    await started;
+
+    const claimed = await getJobRepository().getJob(job.id);
+    await vi.advanceTimersByTimeAsync(JOB_LOCK_RENEW_MS);
+    const renewed = await getJobRepository().getJob(job.id);
+
+    expect(renewed?.lockedBy).toBe(claimed?.lockedBy);
+    expect(Date.parse(renewed!.lockedUntil!)).toBe(Date.now() + JOB_LOCK_MS);
+    expect(renewed!.lockedUntil! > claimed!.lockedUntil!).toBe(true);
+
+    finish();
+    await waitForJob(job.id, 'succeeded');
+  });
+
+  it('stops renewing once the job has finished', async () => {
+    const job = await enqueueJob('diagnosis_analysis', {}, { requestedBy });
+    const finished = await waitForJob(job.id, 'succeeded');
+
+    await vi.advanceTimersByTimeAsync(JOB_LOCK_RENEW_MS * 2);
+    expect(await getJobRepository().getJob(job.id)).toEqual(finished);
+  });
+
+  it('does not record the result of a worker that lost its lock', async () => {
+    const { started, finish } = holdHandler();
+    const job = await enqueueJob('diagnosis_analysis', {}, { requestedBy });
+    const { job: claimed } = await started;
+
+    // The lock expired and another worker claimed the job
+    await vi.advanceTimersByTimeAsync(JOB_LOCK_MS);
+    const lockedUntil = new Date(Date.now() + JOB_LOCK_MS).toISOString();
+    const reclaimed = await getJobRepository().updateJob(job.id, { lockedBy: 'other-worker', lockedUntil });
+    expect(reclaimed?.lockedBy).not.toBe(claimed.lockedBy);
+
+    await vi.advanceTimersByTimeAsync(JOB_LOCK_RENEW_MS);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('lost its lock'));
+
+    finish();
+    await vi.waitFor(() => {
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('the result is not recorded'));
+    });
+    expect(await getJobRepository().getJob(job.id)).toMatchObject({ status: 'running', lockedBy: 'other-worker', lockedUntil });
+  });
+});
+
+describe('backoffDelayMs', () => {
+  it('doubles the delay for every attempt, with jitter', () => {
+    for (let i = 0; i < 20; i++) {
+      expect(backoffDelayMs(1)).toBeGreaterThanOrEqual(1500);
+      expect(backoffDelayMs(1)).toBeLessThanOrEqual(2500);
+      expect(backoffDelayMs(3)).toBeGreaterThanOrEqual(6000);
+      expect(backoffDelayMs(3)).toBeLessThanOrEqual(10000);
+    }
+  });
+
+  it('caps the delay at five minutes before jitter', () => {
+    expect(backoffDelayMs(30)).toBeLessThanOrEqual(5 * 60 * 1000 * 1.25);
+  });
+});
@@ -0,0 +1,215 @@
+import { randomUUID } from 'crypto';
+import type { AuditRequestMetadata } from '@/lib/store/auditRepository';
+import { getJobRepository, Job, JobProgress, JobType } from '@/lib/store/jobStore';
+import { diagnosisAnalysisHandler } from './diagnosisAnalysisJob';
+import { diagnosisAnchorHandler } from './diagnosisAnchorJob';
+import { JobHandler, PermanentJobError } from './jobHandler';
+
+// Background job queue. Jobs are kept in the job store and run by a worker
+// inside the server process, started from src/instrumentation.ts and woken
+// whenever a job is enqueued. Failed attempts are retried with exponential
+// backoff; a job that runs out of attempts moves to the dead-letter list.
+// With DATA_STORE=mongodb queued jobs survive restarts, and several app
+// instances can share the queue because claiming a job is atomic.
+
+const HANDLERS: Record<JobType, JobHandler> = {
+  diagnosis_analysis: diagnosisAnalysisHandler,
+  diagnosis_anchor: diagnosisAnchorHandler,
+};
+
+export const JOB_MAX_ATTEMPTS = Number(process.env.JOB_MAX_ATTEMPTS) || 3;
+// Delay before the first retry; doubled for every further attempt
+const JOB_BACKOFF_MS = Number(process.env.JOB_BACKOFF_MS) || 2000;
+const JOB_BACKOFF_MAX_MS = 5 * 60 * 1000;
+// Jobs run at the same time by one server process
+const JOB_CONCURRENCY = Number(process.env.JOB_CONCURRENCY) || 2;
+// A running job's lock is renewed while it runs; one not renewed by then is
+// taken to be abandoned by a crashed worker and claimed again
+const JOB_LOCK_MS = 2 * 60 * 1000;
+const JOB_LOCK_RENEW_MS = JOB_LOCK_MS / 4;
+// An idle worker still checks for due jobs this often
+const JOB_POLL_INTERVAL_MS = 5000;
+
+const QUEUED_PROGRESS: JobProgress = { stage: 'queued', percent: 0, message: "Waiting to start" };
+
+// Worker state is kept on globalThis: route handlers and the
+// instrumentation hook may load separate copies of this module, and they
+// must share one worker
+const globalForQueue = globalThis as typeof globalThis & {
+  _jobWorker?: { active: number; timer?: ReturnType<typeof setTimeout> };
+};
+
+function workerState() {
+  if (!globalForQueue._jobWorker) {
+    globalForQueue._jobWorker = { active: 0 };
+  }
+  return globalForQueue._jobWorker;
+}
+
+export function backoffDelayMs(attempt: number): number {
+  const delay = Math.min(JOB_BACKOFF_MAX_MS, JOB_BACKOFF_MS * 2 ** (attempt - 1));
+  // Jitter keeps jobs that failed together from retrying together
+  return Math.round(delay * (0.75 + Math.random() * 0.5));
+}
+
+// Only the claim holding the lock records progress and the outcome. A
+// worker whose lock expired and passed to another claim finds its updates
+// refused, and the other claim's result counts.
+async function runJob(job: Job, lockId: string): Promise<void> {
+  const repository = getJobRepository();
+  const handler = HANDLERS[job.type];
+  const updateOwnJob = (updates: Partial<Omit<Job, 'id'>>) => repository.updateLockedJob(job.id, lockId, updates);
+
+  const lockRenewal = setInterval(() => {
+    updateOwnJob({ lockedUntil: new Date(Date.now() + JOB_LOCK_MS).toISOString() })
+      .then((renewed) => {
+        if (!renewed) console.warn(`Job ${job.id} (${job.type}) lost its lock to another worker`);
+      })
+      .catch((error) => console.error(`Job ${job.id} lock renewal error:`, error));
+  }, JOB_LOCK_RENEW_MS);
+
+  try {
+    await handler.run({
+      job,
+      reportProgress: async (stage, percent, message) => {
+        await updateOwnJob({ progress: { stage, percent, message } });
+      },
+    });
+    const finished = await updateOwnJob({
+      status: 'succeeded',
+      lockedUntil: undefined,
+      lockedBy: undefined,
+      finishedAt: new Date().toISOString(),
+      progress: { stage: 'done', percent: 100, message: "Finished" },
+    });
+    if (!finished) console.warn(`Job ${job.id} (${job.type}) finished after losing its lock; the result is not recorded`);
+  } catch (caught) {
+    const error = caught instanceof Error ? caught : new Error(String(caught));
+    const failedAt = new Date().toISOString();
+    const errors = [...job.errors, { attempt: job.attempts, message: error.message, failedAt }];
+
+    if (error instanceof PermanentJobError || job.attempts >= job.maxAttempts) {
+      const dead = await updateOwnJob({
+        status: 'dead',
+        errors,
+        lockedUntil: undefined,
+        lockedBy: undefined,
+        finishedAt: failedAt,
+        progress: { stage: 'failed', percent: job.progress.percent, message: "Failed" },
+      });
+      if (!dead) {
+        console.warn(`Job ${job.id} (${job.type}) failed after losing its lock; the failure is not recorded:`, error.message);
+        return;
+      }
+      console.error(`Job ${job.id} (${job.type}) dead-lettered after ${job.attempts} attempt(s):`, error);
+      try {
+        await handler.onDeadLetter?.(dead, error);
+      } catch (deadLetterError) {
+        console.error(`Job ${job.id} dead-letter handler error:`, deadLetterError);
+      }
+      return;
+    }
+
+    const delay = backoffDelayMs(job.attempts);
+    const requeued = await updateOwnJob({
+      status: 'queued',
+      errors,
+      lockedUntil: undefined,
+      lockedBy: undefined,
+      runAt: new Date(Date.now() + delay).toISOString(),
+      progress: {
+        stage: 'retrying',
+        percent: 0,
+        message: `Attempt ${job.attempts} of ${job.maxAttempts} failed, trying again shortly`,
+      },
+    });
+    if (!requeued) {
+      console.warn(`Job ${job.id} (${job.type}) failed after losing its lock; the failure is not recorded:`, error.message);
+      return;
+    }
+    console.warn(`Job ${job.id} (${job.type}) attempt ${job.attempts} failed, retrying in ${delay} ms:`, error.message);
+  } finally {
+    clearInterval(lockRenewal);
+  }
+}
+
+// Claims and runs due jobs until none is left
+async function workLoop(): Promise<void> {
+  const repository = getJobRepository();
+  for (;;) {
+    const now = Date.now();
+    const lockId = randomUUID();
+    const job = await repository.claimNextJob(new Date(now).toISOString(), new Date(now + JOB_LOCK_MS).toISOString(), lockId);
+    if (!job) return;
+    await runJob(job, lockId);
+  }
+}
+
+// Sleep until the next retry is due, or the poll interval if that is sooner
+async function scheduleWake(): Promise<void> {
+  const state = workerState();
+  let delay = JOB_POLL_INTERVAL_MS;
+  try {
+    const nextRunAt = await getJobRepository().nextRunAt();
+    if (nextRunAt) delay = Math.min(delay, Math.max(0, Date.parse(nextRunAt) - Date.now()));
+  } catch (error) {
+    console.error("Job worker error:", error);
+  }
+
+  clearTimeout(state.timer);
+  state.timer = setTimeout(kickJobWorker, delay);
+  // The worker alone must not keep the process alive
+  state.timer.unref?.();
+}
+
+// Starts worker loops up to the concurrency limit. Safe to call any time;
+// loops that find nothing to claim exit straight away.
+export function kickJobWorker(): void {
+  const state = workerState();
+  while (state.active < JOB_CONCURRENCY) {
+    state.active += 1;
+    workLoop()
+      .catch((error) => console.error("Job worker error:", error))
+      .finally(() => {
+        state.active -= 1;
+        if (state.active === 0) void scheduleWake();
+      });
+  }
+}
+
+export async function enqueueJob(
+  type: JobType,
+  payload: Record<string, unknown>,
+  options: { diagnosisId?: string; requestedBy: { userId: string; request: AuditRequestMetadata } }
+): Promise<Job> {
+  const job = await getJobRepository().addJob({
+    type,
+    payload,
+    diagnosisId: options.diagnosisId,
+    maxAttempts: JOB_MAX_ATTEMPTS,
+    runAt: new Date().toISOString(),
+    progress: QUEUED_PROGRESS,
+    requestedBy: options.requestedBy,
+  });
+  kickJobWorker();
+  return job;
+}
+
+// Puts a dead-lettered job back in the queue with a fresh set of attempts.
+// Returns undefined when the job does not exist or is not dead.
+export async function retryDeadJob(id: string): Promise<Job | undefined> {
+  const repository = getJobRepository();
+  const job = await repository.getJob(id);
+  if (!job || job.status !== 'dead') return undefined;
+
+  const requeued = await repository.updateJob(id, {
+    status: 'queued',
+    attempts: 0,
+    maxAttempts: JOB_MAX_ATTEMPTS,
+    runAt: new Date().toISOString(),
+    finishedAt: undefined,
+    progress: QUEUED_PROGRESS,
+  });
+  kickJobWorker();
+  return requeued;
+}
@@ -0,0 +1,125 @@
+import { z } from 'zod';
+import type { DiagnosisAnalysis } from '@/lib/ai/analysis';
+
+// Client for the Python image classifier in ml/ (POST /api/predict), used as
+// a second opinion next to the main AI provider. The service is optional:
+// when ML_SERVICE_URL is unset or the call fails, the result is "unavailable".
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+const PredictionSchema = z.object({
+  diagnosis: z.string(),
+  confidence: z.number(),
+  all_probabilities: z.record(z.number()),
+});
+
+export type ModelAgreement = 'agree' | 'partial' | 'disagree';
+
+export type SecondOpinion =
+  | {
+      status: 'available';
+      model: string;
+      diagnosis: string;
+      // Percentages, 0-100
+      confidence: number;
+      allProbabilities: Record<string, number>;
+      // How the classifier's top label compares with the AI provider's differential
+      agreement: ModelAgreement;
+    }
+  | { status: 'unavailable'; model: string; reason: string };
+
+const MODEL_NAME = 'medibox-ml-classifier';
+
+// The model is trained on chest X-rays only; any other image would still get
+// one of its labels, so those are not sent to it
+const X_RAY_TYPE = /x-?ray|radiograph/i;
+const CHEST_PART = /chest|thora|lung/i;
+
+export type ClassifierImage = { bytes: Buffer; mimeType: string; imageType: string; bodyPart: string };
+
+function isSupportedImage(image: Pick<ClassifierImage, 'imageType' | 'bodyPart'>): boolean {
+  return X_RAY_TYPE.test(image.imageType) && CHEST_PART.test(image.bodyPart);
+}
+
+// Phrases the AI provider may use for each classifier label
+const LABEL_PATTERNS: Record<string, RegExp> = {
+  Pneumonia: /pneumonia|consolidation/i,
+  Normal: /\bnormal\b|no acute|unremarkable/i,
+  'COVID-19': /covid|sars-cov-2/i,
+  Tuberculosis: /tuberculosis|\btb\b/i,
+  'Lung Cancer': /cancer|carcinoma|malignan|neoplasm|tumou?r/i,
+};
+
+function mentions(condition: string, label: string): boolean {
+  const pattern = LABEL_PATTERNS[label];
+  return pattern ? pattern.test(condition) : condition.toLowerCase().includes(label.toLowerCase());
+}
+
+export function compareWithAnalysis(label: string, analysis: DiagnosisAnalysis): ModelAgreement {
+  const [primary, ...others] = analysis.differential;
+  if (primary && mentions(primary.condition, label)) return 'agree';
+  if (others.some((item) => mentions(item.condition, label))) return 'partial';
+  return 'disagree';
+}
+
+async function predict(baseUrl: string, image: { bytes: Buffer; mimeType: string }, timeoutMs: number) {
+  const form = new FormData();
+  form.append('image', new Blob([new Uint8Array(image.bytes)], { type: image.mimeType }), 'image');
+
+  const response = await fetch(new URL('/api/predict', baseUrl), {
+    method: 'POST',
+    body: form,
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+  if (!response.ok) {
+    throw new Error(`ML service responded with ${response.status}`);
+  }
+  return PredictionSchema.parse(await response.json());
+}
+
+export type StudyClassification =
+  | { status: 'available'; diagnosis: string; confidence: number; allProbabilities: Record<string, number> }
+  | { status: 'unavailable'; reason: string };
+
+// Classify every supported image of a study and average the per-class
+// probabilities. Never throws; failures are reported as unavailable.
+export async function classifyStudy(studyImages: ClassifierImage[]): Promise<StudyClassification> {
+  const baseUrl = process.env.ML_SERVICE_URL;
+  if (!baseUrl) {
+    return { status: 'unavailable', reason: 'ML service is not configured' };
+  }
+  const images = studyImages.filter(isSupportedImage);
+  if (images.length === 0) {
+    return { status: 'unavailable', reason: 'The classifier only reads chest X-rays' };
+  }
+  const timeoutMs = Number(process.env.ML_SERVICE_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS;
+
+  let predictions;
+  try {
+    predictions = await Promise.all(images.map((image) => predict(baseUrl, image, timeoutMs)));
+  } catch (error) {
+    console.error('ML second opinion failed:', error);
+    return { status: 'unavailable', reason: 'ML service is unavailable' };
+  }
+
+  const allProbabilities: Record<string, number> = {};
+  for (const prediction of predictions) {
+    for (const [label, probability] of Object.entries(prediction.all_probabilities)) {
+      allProbabilities[label] = (allProbabilities[label] ?? 0) + probability / predictions.length;
+    }
+  }
+  const [diagnosis, confidence] = Object.entries(allProbabilities).sort((a, b) => b[1] - a[1])[0] ?? ['Unknown', 0];
+
+  return { status: 'available', diagnosis, confidence, allProbabilities };
+}
+
+export function toSecondOpinion(classification: StudyClassification, analysis: DiagnosisAnalysis): SecondOpinion {
+  if (classification.status === 'unavailable') {
+    return { status: 'unavailable', model: MODEL_NAME, reason: classification.reason };
+  }
+  return {
+    ...classification,
+    model: MODEL_NAME,
+    agreement: compareWithAnalysis(classification.diagnosis, analysis),
+  };
+}
@@ -0,0 +1,152 @@
+import { Conversation } from '@/lib/store/conversationStore';
+import { DiagnosisData } from '@/lib/store/diagnosesStore';
+import { getNotificationRepository, NewNotification } from '@/lib/store/notificationStore';
+import { getUsersRepository } from '@/lib/store/usersStore';
+
+// Notifications for diagnosis events. They are stored per recipient and
+// delivered live by GET /api/notifications/events. A notification is a side
+// effect: failing to write one is logged and never fails the action that
+// caused it.
+
+const REVIEW_OUTCOMES: Partial<Record<DiagnosisData['status'], string>> = {
+  approved: "approved",
+  amended: "reviewed and updated",
+  rejected: "reviewed and did not confirm",
+};
+
+async function notify(notifications: NewNotification[]): Promise<void> {
+  try {
+    await getNotificationRepository().addNotifications(notifications);
+  } catch (error) {
+    console.error("Notification error:", error);
+  }
+}
+
+function patientLink(diagnosis: DiagnosisData): string {
+  return `/patient/diagnosis/${diagnosis.id}`;
+}
+
+// Doctors working the queue the diagnosis is in
+async function careTeamDoctorIds(diagnosis: Pick<DiagnosisData, 'careTeamId'>): Promise<string[]> {
+  const doctors = await getUsersRepository().listUsers('doctor');
+  return doctors
+    .filter((doctor) => doctor.careTeamId === diagnosis.careTeamId)
+    .map((doctor) => doctor.id);
+}
+
+// Doctors who may open the diagnosis: the assigned doctor, or the care team
+// while it is unassigned, as in diagnosisScopeFor
+async function reviewingDoctorIds(diagnosis: DiagnosisData): Promise<string[]> {
+  return diagnosis.assignedDoctorId ? [diagnosis.assignedDoctorId] : careTeamDoctorIds(diagnosis);
+}
+
+// Where the patient reads the conversation: the Ask tab for a conversation
+// about a diagnosis, the chat page otherwise
+function patientConversationLink(conversation: Conversation): string {
+  return conversation.diagnosisId
+    ? `/patient/diagnosis/${conversation.diagnosisId}?tab=ask`
+    : `/patient/chat?conversation=${conversation.id}`;
+}
+
+// The diagnosis entered the review queue, after its analysis or after the
+// patient answered a doctor's question
+export async function notifyDiagnosisPending(diagnosis: DiagnosisData, reason: 'analyzed' | 'answered'): Promise<void> {
+  try {
+    const doctorIds = await reviewingDoctorIds(diagnosis);
+    await notify(doctorIds.map((userId) => ({
+      userId,
+      type: 'diagnosis_pending',
+      title: `${diagnosis.triage?.urgent ? "Urgent: " : ""}${reason === 'answered' ? "Patient answered your question" : "New diagnosis to review"}`,
+      message: `${diagnosis.patientName} · ${diagnosis.type}: ${diagnosis.aiDiagnosis}`,
+      diagnosisId: diagnosis.id,
+      link: `/doctor/diagnosis/${diagnosis.id}`,
+    })));
+  } catch (error) {
+    console.error("Notification error:", error);
+  }
+}
+
+export async function notifyAnalysisFinished(diagnosis: DiagnosisData): Promise<void> {
+  const failed = diagnosis.status === 'ai_failed';
+  await notify([{
+    userId: diagnosis.patientId,
+    type: 'analysis_finished',
+    title: failed ? "Analysis failed" : "Analysis ready",
+    message: failed
+      ? `The AI analysis of your ${diagnosis.type} could not be completed`
+      : `Your ${diagnosis.type} has been analyzed and is waiting for a doctor's review`,
+    diagnosisId: diagnosis.id,
+    link: patientLink(diagnosis),
+  }]);
+}
+
+// Sent for the review statuses only; other review actions do not concern
+// the patient, or have their own notification
+export async function notifyReviewCompleted(diagnosis: DiagnosisData): Promise<void> {
+  const outcome = REVIEW_OUTCOMES[diagnosis.status];
+  if (!outcome) return;
+
+  await notify([{
+    userId: diagnosis.patientId,
+    type: 'review_completed',
+    title: "Diagnosis reviewed",
+    message: `${diagnosis.doctorName} ${outcome} your ${diagnosis.type}`,
+    diagnosisId: diagnosis.id,
+    link: patientLink(diagnosis),
+  }]);
+}
+
+export async function notifyDoctorReply(diagnosis: DiagnosisData, doctorName: string): Promise<void> {
+  await notify([{
+    userId: diagnosis.patientId,
+    type: 'doctor_reply',
+    title: "Message from your doctor",
+    message: `${doctorName} wrote to you about your ${diagnosis.type}`,
+    diagnosisId: diagnosis.id,
+    link: patientLink(diagnosis),
+  }]);
+}
+
+// The patient handed a chat conversation to a doctor: the one assigned to
+// the diagnosis it is about, else the doctors of the care team
+export async function notifyChatEscalated(conversation: Conversation, diagnosis?: DiagnosisData): Promise<void> {
+  const { escalation } = conversation;
+  if (!escalation) return;
+
+  try {
+    const doctorIds = diagnosis ? await reviewingDoctorIds(diagnosis) : await careTeamDoctorIds(escalation);
+    await notify(doctorIds.map((userId) => ({
+      userId,
+      type: 'chat_escalated',
+      title: "Patient asked for a doctor",
+      message: `${escalation.patientName} · ${conversation.title}`,
+      diagnosisId: conversation.diagnosisId,
+      link: `/doctor/inbox?conversation=${conversation.id}`,
+    })));
+  } catch (error) {
+    console.error("Notification error:", error);
+  }
+}
+
+export async function notifyEscalationAnswered(conversation: Conversation, doctorName: string): Promise<void> {
+  await notify([{
+    userId: conversation.userId,
+    type: 'doctor_reply',
+    title: "Message from your doctor",
+    message: `${doctorName} replied to "${conversation.title}"`,
+    diagnosisId: conversation.diagnosisId,
+    link: patientConversationLink(conversation),
+  }]);
+}
+
+export async function notifyShareAccessed(diagnosis: DiagnosisData, link: { viewCount: number; maxViews?: number }): Promise<void> {
+  const views = link.maxViews === undefined ? `view ${link.viewCount}` : `view ${link.viewCount} of ${link.maxViews}`;
+  await notify([{
+    userId: diagnosis.patientId,
+    type: 'share_accessed',
+    title: "Share link opened",
+    message: `Someone opened your shared ${diagnosis.type} (${views})`,
+    diagnosisId: diagnosis.id,
+    link: '/patient/consents',
+  }]);
+}
@@ -0,0 +1,305 @@
+import { PDFDocument, PDFFont, PDFImage, PDFPage, rgb, StandardFonts } from 'pdf-lib';
+import { normalizeDiagnosisStatus, REVIEWED_STATUSES, STATUS_DISPLAY } from '@/lib/diagnoses/status';
+import type { DiagnosisData } from '@/lib/store/diagnosesRepository';
+
+// Renders a diagnosis as a printable PDF report. Uses the PDF standard fonts
+// and pdf-lib only, so it runs in the route handler without any external
+// service or font files.
+
+// Image of the study, already converted to JPEG
+export interface ReportImage {
+  fileName: string;
+  jpeg: Uint8Array;
+}
+
+export interface DiagnosisPdfOptions {
+  images: ReportImage[];
+  generatedAt: Date;
+  // Shown in the footer, e.g. the signed-in user who exported the report
+  generatedFor?: string;
+}
+
+const PAGE_WIDTH = 595.28; // A4
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_HEIGHT = 30;
+const MAX_IMAGE_HEIGHT = 260;
+
+const TEXT_COLOR = rgb(0.1, 0.1, 0.12);
+const MUTED_COLOR = rgb(0.42, 0.45, 0.5);
+const RULE_COLOR = rgb(0.82, 0.84, 0.87);
+const ALERT_COLOR = rgb(0.72, 0.11, 0.11);
+
+const AI_DISCLOSURE =
+  'This report was produced with the help of an AI model. The AI output is a decision aid, not a diagnosis: ' +
+  'it can be wrong or incomplete, and it is only clinically endorsed where a doctor has reviewed it. ' +
+  'Contact your care team with any questions about this report.';
+
+// Standard fonts only cover WinAnsi; anything else is simplified or replaced
+function printable(text: string, font: PDFFont): string {
+  const supported = new Set(font.getCharacterSet());
+  return Array.from(text.replace(/\r\n?/g, '\n').replace(/\t/g, '  '))
+    .map((char) => {
+      if (char === '\n' || supported.has(char.codePointAt(0)!)) return char;
+      const base = char.normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+      return base && Array.from(base).every((c) => supported.has(c.codePointAt(0)!)) ? base : '?';
+    })
+    .join('');
+}
+
+// Writes flowing content top to bottom and adds pages as needed
+class ReportWriter {
+  private page!: PDFPage;
+  private y = 0;
+
+  constructor(
+    private readonly doc: PDFDocument,
+    private readonly regular: PDFFont,
+    private readonly bold: PDFFont
+  ) {
+    this.addPage();
+  }
+
+  private addPage() {
+    this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  private ensureSpace(height: number) {
+    if (this.y - height < MARGIN + FOOTER_HEIGHT) this.addPage();
+  }
+
+  private wrap(text: string, font: PDFFont, size: number, width: number): string[] {
+    const lines: string[] = [];
+    for (const paragraph of text.split('\n')) {
+      let line = '';
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (font.widthOfTextAtSize(candidate, size) <= width) {
+          line = candidate;
+          continue;
+        }
+        if (line) lines.push(line);
+        // Break words that are wider than the whole line, such as hashes
+        line = word;
+        while (font.widthOfTextAtSize(line, size) > width && line.length > 1) {
+          let cut = line.length - 1;
+          while (cut > 1 && font.widthOfTextAtSize(line.slice(0, cut), size) > width) cut--;
+          lines.push(line.slice(0, cut));
+          line = line.slice(cut);
+        }
+      }
+      lines.push(line);
+    }
+    return lines;
+  }
+
+  text(
+    text: string,
+    { size = 10, bold = false, color = TEXT_COLOR, indent = 0, gapAfter = 4 }:
+      { size?: number; bold?: boolean; color?: ReturnType<typeof rgb>; indent?: number; gapAfter?: number } = {}
+  ) {
+    const font = bold ? this.bold : this.regular;
+    const lineHeight = size * 1.35;
+    for (const line of this.wrap(printable(text, font), font, size, CONTENT_WIDTH - indent)) {
+      this.ensureSpace(lineHeight);
+      this.y -= lineHeight;
+      this.page.drawText(line, { x: MARGIN + indent, y: this.y + size * 0.3, size, font, color });
+    }
+    this.y -= gapAfter;
+  }
+
+  // "Label: value" on one line, wrapping when the value is long
+  field(label: string, value: string) {
+    this.text(`${label}: ${value}`, { gapAfter: 1 });
+  }
+
+  bullets(items: string[], color = TEXT_COLOR) {
+    if (items.length === 0) {
+      this.text('None recorded', { color: MUTED_COLOR });
+      return;
+    }
+    for (const item of items) {
+      this.ensureSpace(14);
+      this.page.drawText('-', { x: MARGIN + 4, y: this.y - 10, size: 10, font: this.regular, color });
+      this.text(item, { indent: 14, color, gapAfter: 2 });
+    }
+    this.y -= 2;
+  }
+
+  heading(title: string) {
+    this.ensureSpace(40);
+    this.y -= 10;
+    this.text(title, { size: 13, bold: true, gapAfter: 2 });
+    this.rule();
+  }
+
+  rule() {
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.y },
+      thickness: 0.75,
+      color: RULE_COLOR,
+    });
+    this.y -= 8;
+  }
+
+  space(height: number) {
+    this.y -= height;
+  }
+
+  image(image: PDFImage, caption: string) {
+    const scale = Math.min(CONTENT_WIDTH / image.width, MAX_IMAGE_HEIGHT / image.height, 1);
+    const width = image.width * scale;
+    const height = image.height * scale;
+    this.ensureSpace(height + 20);
+    this.y -= height;
+    this.page.drawImage(image, { x: MARGIN, y: this.y, width, height });
+    this.y -= 4;
+    this.text(caption, { size: 8, color: MUTED_COLOR, gapAfter: 8 });
+  }
+
+  signatureLine(label: string) {
+    this.ensureSpace(50);
+    this.y -= 30;
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: MARGIN + 220, y: this.y },
+      thickness: 0.75,
+      color: TEXT_COLOR,
+    });
+    this.y -= 2;
+    this.text(label, { size: 8, color: MUTED_COLOR });
+  }
+}
+
+function formatDate(value: string | undefined): string {
+  if (!value) return 'Unknown';
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toUTCString().replace(' GMT', ' UTC');
+}
+
+// Sections are stored as "Label: text"; the label is shown as a subheading
+function writeAnalysisSection(writer: ReportWriter, section: string) {
+  const match = section.match(/^([A-Z][A-Za-z ]{2,40}):\s+([\s\S]+)$/);
+  if (match) {
+    writer.text(match[1], { bold: true, gapAfter: 1 });
+    writer.text(match[2], { gapAfter: 6 });
+  } else {
+    writer.text(section, { gapAfter: 6 });
+  }
+}
+
+export async function renderDiagnosisPdf(
+  diagnosis: DiagnosisData,
+  { images, generatedAt, generatedFor }: DiagnosisPdfOptions
+): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  const regular = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const writer = new ReportWriter(doc, regular, bold);
+
+  const diagnosisStatus = normalizeDiagnosisStatus(diagnosis.status);
+  const status = STATUS_DISPLAY[diagnosisStatus];
+  const reviewed = REVIEWED_STATUSES.includes(diagnosisStatus) || diagnosisStatus === 'rejected' || diagnosisStatus === 'closed';
+
+  doc.setTitle(`MediBox medical report ${diagnosis.id}`);
+  doc.setSubject(`${diagnosis.type} for ${diagnosis.patientName}`);
+  doc.setProducer('MediBox');
+  doc.setCreationDate(generatedAt);
+
+  writer.text('MediBox Medical Report', { size: 20, bold: true, gapAfter: 2 });
+  writer.text(`Report ${diagnosis.id}`, { size: 9, color: MUTED_COLOR, gapAfter: 1 });
+  writer.text(`Generated ${formatDate(generatedAt.toISOString())}`, { size: 9, color: MUTED_COLOR, gapAfter: 6 });
+
+  writer.heading('Patient');
+  writer.field('Name', diagnosis.patientName);
+  writer.field('Patient ID', diagnosis.patientId);
+  writer.field('Examination', diagnosis.type);
+  writer.field('Date', diagnosis.diagnosisDate);
+  writer.field('Status', status.label);
+
+  writer.heading('Reported symptoms');
+  writer.text(diagnosis.symptoms || 'None reported');
+  if (diagnosis.additionalInfo && diagnosis.additionalInfo.length > 0) {
+    writer.text('Additional information from the patient', { bold: true, gapAfter: 1 });
+    writer.bullets(diagnosis.additionalInfo.map((info) => `${info.message} (${formatDate(info.providedAt)})`));
+  }
+
+  writer.heading('AI analysis');
+  writer.text(diagnosis.aiDiagnosis, { size: 12, bold: true, gapAfter: 1 });
+  writer.text(`Confidence ${diagnosis.confidence}%`, { color: MUTED_COLOR, gapAfter: 6 });
+  if (diagnosis.amendment) {
+    writer.text(
+      `The diagnosis, treatment recommendations and risk factors below include changes made by ${diagnosis.amendment.amendedByName} ` +
+      `on ${formatDate(diagnosis.amendment.amendedAt)}. The original AI result was: ${diagnosis.amendment.original.aiDiagnosis}.`,
+      { size: 9, color: MUTED_COLOR, gapAfter: 6 }
+    );
+  }
+  // The stored sections already include the red flags; older records
+  // without sections only have the structured analysis
+  const sections = diagnosis.aiResponse?.sections ?? [];
+  if (sections.length > 0) {
+    sections.forEach((section) => writeAnalysisSection(writer, section));
+  } else if (diagnosis.aiError) {
+    writer.text(`The AI analysis failed: ${diagnosis.aiError}`, { color: ALERT_COLOR });
+  } else if (diagnosis.aiAnalysis && diagnosis.aiAnalysis.redFlags.length > 0) {
+    writer.text('Seek urgent care if', { bold: true, color: ALERT_COLOR, gapAfter: 1 });
+    writer.bullets(diagnosis.aiAnalysis.redFlags, ALERT_COLOR);
+  }
+
+  writer.heading('Treatment recommendations');
+  writer.bullets(diagnosis.treatmentRecommendations);
+
+  writer.heading('Risk factors');
+  writer.bullets(diagnosis.riskFactors);
+
+  writer.heading('Doctor review');
+  if (reviewed) {
+    writer.text(diagnosis.doctorFeedback || 'No feedback recorded', { gapAfter: 8 });
+    writer.field('Reviewed by', diagnosis.doctorName);
+    writer.field('Review date', formatDate(diagnosis.reviewDate));
+    writer.field('Outcome', status.label);
+    writer.signatureLine(`Signature, ${diagnosis.doctorName}`);
+  } else {
+    writer.text(`${status.patientLabel}. This report has not been reviewed by a doctor yet.`, { color: MUTED_COLOR });
+  }
+  if (diagnosis.blockchainAnchor?.status === 'anchored') {
+    writer.space(4);
+    writer.text(
+      `Record fingerprint ${diagnosis.blockchainAnchor.recordHash} anchored on chain ${diagnosis.blockchainAnchor.chainId} ` +
+      `in transaction ${diagnosis.blockchainAnchor.transactionHash}.`,
+      { size: 8, color: MUTED_COLOR }
+    );
+  }
+
+  if (images.length > 0) {
+    writer.heading(images.length > 1 ? `Images (${images.length})` : 'Image');
+    for (const [index, image] of images.entries()) {
+      const embedded = await doc.embedJpg(image.jpeg);
+      writer.image(embedded, `${index + 1}. ${image.fileName}`);
+    }
+  }
+
+  writer.heading('AI model disclosure');
+  writer.field('Model', diagnosis.aiModelData.modelVersion);
+  writer.field('Analysed', formatDate(diagnosis.aiModelData.analysisTimestamp));
+  writer.field('Processing time', diagnosis.aiModelData.processingTime);
+  writer.field('Features analysed', diagnosis.aiModelData.featuresAnalyzed);
+  const { secondOpinion } = diagnosis.aiModelData;
+  if (secondOpinion?.status === 'available') {
+    writer.field('Image classifier', `${secondOpinion.diagnosis} (${secondOpinion.confidence}%, ${secondOpinion.model})`);
+  }
+  writer.space(4);
+  writer.text(AI_DISCLOSURE, { size: 9, color: MUTED_COLOR });
+
+  // Footers go on last, once the page count is known
+  const pages = doc.getPages();
+  pages.forEach((page, index) => {
+    const footer = `MediBox report ${diagnosis.id}${generatedFor ? ` - exported by ${generatedFor}` : ''} - page ${index + 1} of ${pages.length}`;
+    page.drawText(printable(footer, regular), { x: MARGIN, y: MARGIN - 20, size: 7, font: regular, color: MUTED_COLOR });
+  });
+
+  return doc.save();
+}
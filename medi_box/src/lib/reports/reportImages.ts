@@ -0,0 +1,39 @@
+import sharp from 'sharp';
+import type { ReportImage } from '@/lib/reports/diagnosisPdf';
+import { getObjectStorage } from '@/lib/storage/storage';
+import type { DiagnosisData } from '@/lib/store/diagnosesRepository';
+import { getUploadsRepository } from '@/lib/store/uploadsStore';
+
+// Longest side of an image in the PDF; enough for print at page width
+const MAX_REPORT_IMAGE_SIZE = 1200;
+
+// Loads the study images of a diagnosis as JPEGs for the PDF report. DICOM
+// uploads use their first rendered frame. Images that cannot be read are
+// left out rather than failing the whole report.
+export async function loadReportImages(diagnosis: DiagnosisData): Promise<ReportImage[]> {
+  const uploadIds = diagnosis.images?.length
+    ? diagnosis.images.map((image) => image.uploadId)
+    : diagnosis.imageUploadId ? [diagnosis.imageUploadId] : [];
+
+  const images: ReportImage[] = [];
+  for (const uploadId of uploadIds) {
+    try {
+      const upload = await getUploadsRepository().getUpload(uploadId);
+      if (!upload || (upload.diagnosisId && upload.diagnosisId !== diagnosis.id)) continue;
+
+      const stored = await getObjectStorage().get(upload.frameKeys?.[0] ?? upload.storageKey);
+      if (!stored) continue;
+
+      const jpeg = await sharp(stored.bytes)
+        .rotate()
+        .resize({ width: MAX_REPORT_IMAGE_SIZE, height: MAX_REPORT_IMAGE_SIZE, fit: 'inside', withoutEnlargement: true })
+        .flatten({ background: '#ffffff' })
+        .jpeg({ quality: 85 })
+        .toBuffer();
+      images.push({ fileName: upload.fileName, jpeg: new Uint8Array(jpeg) });
+    } catch (error) {
+      console.error(`Failed to load image ${uploadId} for the report:`, error);
+    }
+  }
+  return images;
+}
@@ -0,0 +1,46 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ObjectStorage } from './objectStorage';
+
+// Local filesystem backend. Each object is written next to a small JSON
+// sidecar holding its content type.
+
+function resolveKey(root: string, key: string): string {
+  const resolved = path.resolve(root, key);
+  // Keys come from our own code, but never allow one to escape the root
+  if (!resolved.startsWith(path.resolve(root) + path.sep)) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+  return resolved;
+}
+
+export function createFilesystemObjectStorage(root: string): ObjectStorage {
+  return {
+    async put(key, bytes, contentType) {
+      const filePath = resolveKey(root, key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, bytes);
+      await fs.writeFile(`${filePath}.meta.json`, JSON.stringify({ contentType }));
+    },
+
+    async get(key) {
+      const filePath = resolveKey(root, key);
+      try {
+        const [bytes, meta] = await Promise.all([
+          fs.readFile(filePath),
+          fs.readFile(`${filePath}.meta.json`, 'utf8'),
+        ]);
+        return { bytes, contentType: JSON.parse(meta).contentType };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      const filePath = resolveKey(root, key);
+      await fs.rm(filePath, { force: true });
+      await fs.rm(`${filePath}.meta.json`, { force: true });
+    },
+  };
+}
@@ -0,0 +1,12 @@
+// Binary object storage for uploaded files. Keys are opaque, slash-separated
+// paths chosen by the caller (e.g. `uploads/<id>/original`).
+export interface StoredObject {
+  bytes: Buffer;
+  contentType: string;
+}
+
+export interface ObjectStorage {
+  put(key: string, bytes: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredObject | undefined>;
+  delete(key: string): Promise<void>;
+}
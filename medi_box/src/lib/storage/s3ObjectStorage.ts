@@ -0,0 +1,60 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { ObjectStorage } from './objectStorage';
+
+// S3-compatible backend (AWS S3, MinIO, Cloudflare R2, ...)
+
+export interface S3ObjectStorageOptions {
+  bucket: string;
+  region?: string;
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+}
+
+export function createS3ObjectStorage(options: S3ObjectStorageOptions): ObjectStorage {
+  const client = new S3Client({
+    region: options.region || 'us-east-1',
+    endpoint: options.endpoint,
+    // Self-hosted S3 implementations generally need path-style URLs
+    forcePathStyle: !!options.endpoint,
+    credentials: options.accessKeyId && options.secretAccessKey
+      ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+      : undefined,
+  });
+
+  return {
+    async put(key, bytes, contentType) {
+      await client.send(new PutObjectCommand({
+        Bucket: options.bucket,
+        Key: key,
+        Body: bytes,
+        ContentType: contentType,
+      }));
+    },
+
+    async get(key) {
+      try {
+        const result = await client.send(new GetObjectCommand({ Bucket: options.bucket, Key: key }));
+        if (!result.Body) return undefined;
+
+        return {
+          bytes: Buffer.from(await result.Body.transformToByteArray()),
+          contentType: result.ContentType || 'application/octet-stream',
+        };
+      } catch (error) {
+        if (error instanceof NoSuchKey) return undefined;
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      await client.send(new DeleteObjectCommand({ Bucket: options.bucket, Key: key }));
+    },
+  };
+}
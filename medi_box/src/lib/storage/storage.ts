@@ -0,0 +1,33 @@
+// Object storage facade; the backend is chosen by STORAGE_DRIVER.
+import path from 'path';
+import { createFilesystemObjectStorage } from './filesystemObjectStorage';
+import { ObjectStorage } from './objectStorage';
+import { createS3ObjectStorage } from './s3ObjectStorage';
+
+export type { ObjectStorage, StoredObject } from './objectStorage';
+
+let storage: ObjectStorage | undefined;
+
+export function getObjectStorage(): ObjectStorage {
+  if (!storage) {
+    if (process.env.STORAGE_DRIVER === 's3') {
+      const bucket = process.env.S3_BUCKET;
+      if (!bucket) {
+        throw new Error('S3_BUCKET is not configured');
+      }
+
+      storage = createS3ObjectStorage({
+        bucket,
+        region: process.env.S3_REGION,
+        endpoint: process.env.S3_ENDPOINT,
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      });
+    } else {
+      storage = createFilesystemObjectStorage(
+        path.resolve(process.env.UPLOADS_DIR || '.uploads')
+      );
+    }
+  }
+  return storage;
+}
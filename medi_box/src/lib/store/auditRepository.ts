@@ -0,0 +1,60 @@
+import type { Role } from '@/lib/auth/session';
+import type { DiagnosisStatus } from '@/lib/diagnoses/status';
+
+export type AuditAction =
+  | 'create'
+  | 'ai_result'
+  | 'view'
+  | 'review'
+  | 'amendment'
+  | 'anchor'
+  | 'additional_info'
+  | 'share'
+  | 'link_access'
+  | 'export';
+
+// Who made the request and from where
+export interface AuditRequestMetadata {
+  method: string;
+  path: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+// One immutable entry of a diagnosis's history
+export interface AuditEntry {
+  id: string;
+  diagnosisId: string;
+  action: AuditAction;
+  actorId: string;
+  actorName: string;
+  // 'system' for work done on the actor's behalf, such as the AI analysis;
+  // 'share_link' for someone opening a patient's share link without an account
+  actorRole: Role | 'system' | 'share_link';
+  timestamp: string;
+  // SHA-256 of the diagnosis record before and after the action;
+  // read-only actions carry the same hash in both
+  beforeHash?: string;
+  afterHash?: string;
+  fromStatus?: DiagnosisStatus;
+  toStatus?: DiagnosisStatus;
+  // Action-specific context, e.g. the review action or the amended fields
+  details?: Record<string, unknown>;
+  request: AuditRequestMetadata;
+}
+
+export type NewAuditEntry = Omit<AuditEntry, 'id'>;
+
+export interface AuditListOptions {
+  offset?: number;
+  limit?: number;
+}
+
+// Contract shared by every audit backend (in-memory, MongoDB). The log is
+// append-only: there is deliberately no way to update or delete an entry.
+export interface AuditRepository {
+  appendEntry(entry: NewAuditEntry): Promise<AuditEntry>;
+  // Oldest first
+  listEntries(diagnosisId: string, options?: AuditListOptions): Promise<AuditEntry[]>;
+  countEntries(diagnosisId: string): Promise<number>;
+}
@@ -0,0 +1,25 @@
+// Audit log store facade; the backing repository is chosen by DATA_STORE.
+import { AuditRepository } from './auditRepository';
+import { getStoreDriver } from './config';
+import { createMemoryAuditRepository } from './memoryAuditRepository';
+import { createMongoAuditRepository } from './mongoAuditRepository';
+
+export type {
+  AuditAction,
+  AuditEntry,
+  AuditListOptions,
+  AuditRepository,
+  AuditRequestMetadata,
+  NewAuditEntry
+} from './auditRepository';
+
+let repository: AuditRepository | undefined;
+
+export function getAuditRepository(): AuditRepository {
+  if (!repository) {
+    repository = getStoreDriver() === 'mongodb'
+      ? createMongoAuditRepository()
+      : createMemoryAuditRepository();
+  }
+  return repository;
+}
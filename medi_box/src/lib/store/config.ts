@@ -0,0 +1,7 @@
+// Selects the persistence backend for every store in the app.
+// DATA_STORE=mongodb requires MONGODB_URI; anything else falls back to memory.
+export type StoreDriver = 'memory' | 'mongodb';
+
+export function getStoreDriver(): StoreDriver {
+  return process.env.DATA_STORE === 'mongodb' ? 'mongodb' : 'memory';
+}
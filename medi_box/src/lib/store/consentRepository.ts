@@ -0,0 +1,54 @@
+// What a grantee may do with the shared diagnoses
+export type ConsentScope = 'view' | 'comment' | 'export';
+
+export const CONSENT_SCOPES: ConsentScope[] = ['view', 'comment', 'export'];
+
+// A single doctor, or every doctor of an organization (care team)
+export type ConsentGrantee =
+  | { type: 'doctor'; doctorId: string; name: string; email: string }
+  | { type: 'organization'; careTeamId: string };
+
+export interface ConsentGrant {
+  id: string;
+  // The patient who owns the diagnoses and gave consent
+  patientId: string;
+  grantee: ConsentGrantee;
+  diagnosisIds: string[];
+  scopes: ConsentScope[];
+  createdAt: string;
+  expiresAt: string;
+  revokedAt?: string;
+}
+
+export type NewConsentGrant = Omit<ConsentGrant, 'id' | 'revokedAt'>;
+
+export type ConsentGrantStatus = 'active' | 'expired' | 'revoked';
+
+// Who is asking, for grant lookups
+export interface ConsentGranteeRef {
+  doctorId: string;
+  careTeamId?: string;
+}
+
+// Contract shared by every consent backend (in-memory, MongoDB)
+export interface ConsentRepository {
+  getGrant(id: string): Promise<ConsentGrant | undefined>;
+  addGrant(grant: NewConsentGrant): Promise<ConsentGrant>;
+  // Sets revokedAt once; revoking again leaves the first timestamp
+  revokeGrant(id: string, revokedAt: string): Promise<ConsentGrant | undefined>;
+  // Every grant the patient gave, newest first
+  listGrantsByPatient(patientId: string): Promise<ConsentGrant[]>;
+  // Grants active at `now` that name this doctor or their organization
+  listActiveGrantsFor(grantee: ConsentGranteeRef, now: string): Promise<ConsentGrant[]>;
+}
+
+export function consentGrantStatus(grant: ConsentGrant, now = new Date().toISOString()): ConsentGrantStatus {
+  if (grant.revokedAt) return 'revoked';
+  return grant.expiresAt <= now ? 'expired' : 'active';
+}
+
+export function grantNamesGrantee(grant: ConsentGrant, { doctorId, careTeamId }: ConsentGranteeRef): boolean {
+  return grant.grantee.type === 'doctor'
+    ? grant.grantee.doctorId === doctorId
+    : !!careTeamId && grant.grantee.careTeamId === careTeamId;
+}
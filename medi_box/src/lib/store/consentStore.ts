@@ -0,0 +1,27 @@
+// Consent store facade; the backing repository is chosen by DATA_STORE.
+import { getStoreDriver } from './config';
+import { ConsentRepository } from './consentRepository';
+import { createMemoryConsentRepository } from './memoryConsentRepository';
+import { createMongoConsentRepository } from './mongoConsentRepository';
+
+export type {
+  ConsentGrant,
+  ConsentGrantee,
+  ConsentGranteeRef,
+  ConsentGrantStatus,
+  ConsentRepository,
+  ConsentScope,
+  NewConsentGrant
+} from './consentRepository';
+export { CONSENT_SCOPES, consentGrantStatus } from './consentRepository';
+
+let repository: ConsentRepository | undefined;
+
+export function getConsentRepository(): ConsentRepository {
+  if (!repository) {
+    repository = getStoreDriver() === 'mongodb'
+      ? createMongoConsentRepository()
+      : createMemoryConsentRepository();
+  }
+  return repository;
+}
@@ -0,0 +1,147 @@
+import type { RecordCitation } from '@/lib/ai/aiProvider';
+import type { EmergencyAlert } from '@/lib/triage/rules';
+
+// Who wrote a chat message: the signed-in user, the AI assistant, or a
+// doctor answering an escalated conversation
+export type ConversationRole = 'user' | 'assistant' | 'doctor';
+
+export interface ConversationMessage {
+  id: string;
+  role: ConversationRole;
+  content: string;
+  // Follow-up questions the assistant offered with its reply
+  suggestions?: string[];
+  // Parts of the diagnosis record the reply draws on
+  citations?: RecordCitation[];
+  // Set on the reply to a message triage flagged as an emergency
+  emergency?: EmergencyAlert;
+  // The doctor who wrote a `doctor` message
+  author?: { id: string; name: string };
+  createdAt: string;
+}
+
+// `open` while the patient waits for a doctor, `answered` once one replied
+export type EscalationStatus = 'open' | 'answered';
+
+// The patient handed the conversation to a doctor
+export interface ConversationEscalation {
+  status: EscalationStatus;
+  patientName: string;
+  // Team whose inbox it lands in: the team of the diagnosis it is about,
+  // or the patient's own
+  careTeamId?: string;
+  // What the patient wants the doctor to look at
+  note?: string;
+  requestedAt: string;
+  // The doctor who replied last
+  doctorId?: string;
+  doctorName?: string;
+  answeredAt?: string;
+}
+
+export interface Conversation {
+  id: string;
+  // Owner; only they can read or change the conversation
+  userId: string;
+  title: string;
+  // Diagnosis the conversation is about; its record grounds the replies
+  diagnosisId?: string;
+  escalation?: ConversationEscalation;
+  messages: ConversationMessage[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type NewConversation = Pick<Conversation, 'userId' | 'title' | 'diagnosisId'>;
+
+export type NewConversationMessage = Omit<ConversationMessage, 'id' | 'createdAt'>;
+
+// Conversation without its messages, for the history list
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  diagnosisId?: string;
+  escalation?: ConversationEscalation;
+  messageCount: number;
+  // Start of the last message
+  preview?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ConversationFilter {
+  // Only the conversations about this diagnosis
+  diagnosisId?: string;
+}
+
+// Escalated conversation in a doctor's inbox
+export interface EscalationSummary extends ConversationSummary {
+  // The patient who owns the conversation
+  userId: string;
+  escalation: ConversationEscalation;
+}
+
+// Restricts the inbox listing to some care teams; an empty list matches
+// nothing. Which of those a doctor may answer also depends on who the
+// diagnosis is assigned to, which the conversation does not record.
+export interface EscalationFilter {
+  careTeamIds?: string[];
+  status?: EscalationStatus;
+}
+
+export const DEFAULT_CONVERSATION_TITLE = "New conversation";
+export const MAX_CONVERSATION_TITLE_LENGTH = 100;
+export const CONVERSATION_PREVIEW_LENGTH = 120;
+// Older messages stay stored but are not sent to the AI provider
+export const CONVERSATION_CONTEXT_MESSAGES = 10;
+
+// Contract shared by every conversation backend (in-memory, MongoDB)
+export interface ConversationRepository {
+  getConversation(id: string): Promise<Conversation | undefined>;
+  // Most recently updated first
+  listConversations(userId: string, filter?: ConversationFilter): Promise<ConversationSummary[]>;
+  addConversation(conversation: NewConversation): Promise<Conversation>;
+  renameConversation(id: string, title: string): Promise<Conversation | undefined>;
+  deleteConversation(id: string): Promise<boolean>;
+  // Appends in order. An untitled conversation is named after its first
+  // user message.
+  appendMessages(id: string, messages: NewConversationMessage[]): Promise<Conversation | undefined>;
+  setEscalation(id: string, escalation: ConversationEscalation): Promise<Conversation | undefined>;
+  // Open escalations first, then longest waiting first
+  listEscalations(filter?: EscalationFilter): Promise<EscalationSummary[]>;
+}
+
+export function toConversationSummary({ id, title, diagnosisId, escalation, messages, createdAt, updatedAt }: Conversation): ConversationSummary {
+  const last = messages[messages.length - 1];
+  return {
+    id,
+    title,
+    diagnosisId,
+    escalation,
+    messageCount: messages.length,
+    preview: last?.content.slice(0, CONVERSATION_PREVIEW_LENGTH),
+    createdAt,
+    updatedAt
+  };
+}
+
+// Title for an untitled conversation whose first user message is `content`
+export function titleFromMessage(content: string): string {
+  const line = content.trim().split('\n')[0];
+  return line.length > 60 ? `${line.slice(0, 57)}...` : line;
+}
+
+// Reference implementation of EscalationFilter, used by the in-memory backend
+export function matchesEscalationFilter(conversation: Conversation, filter: EscalationFilter): boolean {
+  const { escalation } = conversation;
+  if (!escalation) return false;
+  if (filter.status && escalation.status !== filter.status) return false;
+  if (filter.careTeamIds && !(escalation.careTeamId && filter.careTeamIds.includes(escalation.careTeamId))) return false;
+  return true;
+}
+
+// Comparator for listEscalations, used by the in-memory backend
+export function compareEscalations(a: ConversationEscalation, b: ConversationEscalation): number {
+  if (a.status !== b.status) return a.status === 'open' ? -1 : 1;
+  return a.requestedAt.localeCompare(b.requestedAt);
+}
@@ -0,0 +1,37 @@
+// Conversation store facade; the backing repository is chosen by DATA_STORE.
+import { getStoreDriver } from './config';
+import { ConversationRepository } from './conversationRepository';
+import { createMemoryConversationRepository } from './memoryConversationRepository';
+import { createMongoConversationRepository } from './mongoConversationRepository';
+
+export type {
+  Conversation,
+  ConversationEscalation,
+  ConversationFilter,
+  ConversationMessage,
+  ConversationRepository,
+  ConversationRole,
+  ConversationSummary,
+  EscalationFilter,
+  EscalationStatus,
+  EscalationSummary,
+  NewConversation,
+  NewConversationMessage
+} from './conversationRepository';
+export {
+  CONVERSATION_CONTEXT_MESSAGES,
+  DEFAULT_CONVERSATION_TITLE,
+  MAX_CONVERSATION_TITLE_LENGTH,
+  toConversationSummary
+} from './conversationRepository';
+
+let repository: ConversationRepository | undefined;
+
+export function getConversationRepository(): ConversationRepository {
+  if (!repository) {
+    repository = getStoreDriver() === 'mongodb'
+      ? createMongoConversationRepository()
+      : createMemoryConversationRepository();
+  }
+  return repository;
+}
@@ -0,0 +1,202 @@
+import type { DiagnosisAnalysis } from '@/lib/ai/analysis';
+import type { BlockchainAnchor } from '@/lib/blockchain/diagnosisRegistry';
+import type { DiagnosisAmendment } from '@/lib/diagnoses/amendments';
+import type { DiagnosisStatus } from '@/lib/diagnoses/status';
+import type { SecondOpinion } from '@/lib/ml/imageClassifier';
+import type { TriageMatch } from '@/lib/triage/rules';
+
+// One image of an imaging study
+export interface DiagnosisImage {
+  uploadId: string;
+  fileName: string;
+  src: string;
+  thumbnailSrc?: string;
+  // Rendered frames when the image was a DICOM upload
+  frames?: string[];
+}
+
+// Result of the emergency triage of the submission and of the AI analysis
+export interface DiagnosisTriage {
+  // Emergency red flags were found; the diagnosis leads the review queue
+  urgent: boolean;
+  matches: TriageMatch[];
+  checkedAt: string;
+}
+
+// Type definition for diagnosis data
+export interface DiagnosisData {
+  id: string;
+  // Owning patient
+  patientId: string;
+  patientName: string;
+  // Care team whose queue the diagnosis lands in until a doctor is assigned
+  careTeamId?: string;
+  assignedDoctorId?: string;
+  diagnosisDate: string;
+  type: string;
+  aiDiagnosis: string;
+  confidence: number;
+  status: DiagnosisStatus;
+  symptoms: string;
+  doctorName: string;
+  doctorFeedback: string;
+  // First image of the study, kept for list views and older records
+  imageSrc: string;
+  imageUploadId?: string;
+  thumbnailSrc?: string;
+  // Every image of the study, in submission order
+  images?: DiagnosisImage[];
+  aiModelData: {
+    modelVersion: string;
+    analysisTimestamp: string;
+    processingTime: string;
+    featuresAnalyzed: string;
+    // ML classifier result for image diagnoses
+    secondOpinion?: SecondOpinion;
+  };
+  treatmentRecommendations: string[];
+  riskFactors: string[];
+  // Validated structured output of the AI analysis
+  aiAnalysis?: DiagnosisAnalysis;
+  aiResponse?: {
+    fullText: string;
+    sections: string[];
+  };
+  reviewDate?: string;
+  // User id of the reviewing doctor
+  reviewedBy?: string;
+  // Set when the AI analysis failed (status ai_failed)
+  aiError?: string;
+  // Doctor edits to aiDiagnosis, treatmentRecommendations and riskFactors,
+  // with the original AI values; those fields hold the amended values
+  amendment?: DiagnosisAmendment;
+  // Receipt of the latest on-chain anchoring of the reviewed record
+  blockchainAnchor?: BlockchainAnchor;
+  // Answers the patient gave after a doctor asked for more information
+  additionalInfo?: { message: string; providedAt: string }[];
+  // Set when the diagnosis was created from another system's FHIR bundle
+  // rather than analysed here
+  importedFrom?: {
+    format: 'fhir_r4';
+    bundleId?: string;
+    // id or fullUrl of the source DiagnosticReport
+    reportId?: string;
+    importedAt: string;
+    importedBy: string;
+    // What the source system recorded, for the reviewing doctor
+    reportStatus?: string;
+    interpreter?: string;
+    conclusion?: string;
+  };
+  statusUpdatedAt?: string;
+  triage?: DiagnosisTriage;
+}
+
+export type NewDiagnosis = Omit<DiagnosisData, 'id'>;
+
+// Restricts a listing to what the caller may see. Omitted fields do not filter.
+export interface DiagnosisFilter {
+  patientId?: string;
+  // A doctor sees diagnoses assigned to them plus the unassigned
+  // diagnoses waiting in their care team's queue
+  doctor?: {
+    doctorId: string;
+    careTeamId?: string;
+  };
+  // One status or any of several
+  status?: DiagnosisStatus | DiagnosisStatus[];
+  // Case-insensitive match anywhere in the diagnosis type
+  type?: string;
+  // Inclusive diagnosisDate bounds, YYYY-MM-DD
+  from?: string;
+  to?: string;
+  // Reviewed on or after this day, YYYY-MM-DD
+  reviewedFrom?: string;
+}
+
+// Age sorts use diagnosisDate; confidence sorts use the AI confidence;
+// `urgent` puts urgent diagnoses first, then the oldest
+export type DiagnosisSort = 'newest' | 'oldest' | 'confidence_desc' | 'confidence_asc' | 'urgent';
+
+export const DIAGNOSIS_SORTS: DiagnosisSort[] = ['newest', 'oldest', 'confidence_desc', 'confidence_asc', 'urgent'];
+
+export type DiagnosisSortField = 'diagnosisDate' | 'confidence' | 'urgent' | 'id';
+
+// Keys of each sort, most significant first, shared by every backend. The
+// id comes last so ties are broken the same way on every page.
+export const DIAGNOSIS_SORT_KEYS: Record<DiagnosisSort, [DiagnosisSortField, 1 | -1][]> = {
+  newest: [['diagnosisDate', -1], ['id', -1]],
+  oldest: [['diagnosisDate', 1], ['id', 1]],
+  confidence_desc: [['confidence', -1], ['diagnosisDate', -1], ['id', -1]],
+  confidence_asc: [['confidence', 1], ['diagnosisDate', -1], ['id', -1]],
+  urgent: [['urgent', -1], ['diagnosisDate', 1], ['id', 1]],
+};
+
+export interface DiagnosisListOptions {
+  sort?: DiagnosisSort;
+  offset?: number;
+  limit?: number;
+}
+
+// Contract shared by every diagnoses backend (in-memory, MongoDB)
+export interface DiagnosesRepository {
+  getDiagnosis(id: string): Promise<DiagnosisData | undefined>;
+  addDiagnosis(diagnosis: NewDiagnosis): Promise<DiagnosisData>;
+  // Fields set to undefined in the updates are removed from the diagnosis
+  updateDiagnosis(id: string, updates: Partial<DiagnosisData>): Promise<DiagnosisData | undefined>;
+  getAllDiagnoses(): Promise<DiagnosisData[]>;
+  listDiagnoses(filter: DiagnosisFilter, options?: DiagnosisListOptions): Promise<DiagnosisData[]>;
+  countDiagnoses(filter: DiagnosisFilter): Promise<number>;
+  // Applies the update only while the diagnosis still has expectedStatus;
+  // returns undefined when it is missing or its status has moved on
+  updateDiagnosisIfStatus(
+    id: string,
+    expectedStatus: DiagnosisStatus,
+    updates: Partial<DiagnosisData>
+  ): Promise<DiagnosisData | undefined>;
+}
+
+// Stored status values a status filter matches. Records written before the
+// lifecycle existed still say "pending", which reads as awaiting_review.
+export function storedStatusesFor(status: DiagnosisStatus | DiagnosisStatus[]): string[] {
+  const statuses: string[] = [status].flat();
+  return statuses.includes('awaiting_review') ? [...statuses, 'pending'] : statuses;
+}
+
+// Reference implementation of DiagnosisFilter, used by the in-memory
+// backend and by per-record access checks
+export function matchesDiagnosisFilter(diagnosis: DiagnosisData, filter: DiagnosisFilter): boolean {
+  if (filter.patientId && diagnosis.patientId !== filter.patientId) return false;
+  if (filter.status && !storedStatusesFor(filter.status).includes(diagnosis.status)) return false;
+  if (filter.type && !diagnosis.type.toLowerCase().includes(filter.type.toLowerCase())) return false;
+  if (filter.from && diagnosis.diagnosisDate < filter.from) return false;
+  if (filter.to && diagnosis.diagnosisDate > filter.to) return false;
+  if (filter.reviewedFrom && !(diagnosis.reviewDate && diagnosis.reviewDate >= filter.reviewedFrom)) return false;
+
+  if (filter.doctor) {
+    const { doctorId, careTeamId } = filter.doctor;
+    const assignedToDoctor = diagnosis.assignedDoctorId === doctorId;
+    const inTeamQueue = !diagnosis.assignedDoctorId && !!careTeamId && diagnosis.careTeamId === careTeamId;
+    if (!assignedToDoctor && !inTeamQueue) return false;
+  }
+
+  return true;
+}
+
+// Urgency ranks as MongoDB orders triage.urgent: missing, false, true
+function sortValue(diagnosis: DiagnosisData, field: DiagnosisSortField): string | number {
+  if (field === 'urgent') return diagnosis.triage ? Number(diagnosis.triage.urgent) + 1 : 0;
+  return diagnosis[field];
+}
+
+// Comparator for DiagnosisSort, used by the in-memory backend
+export function compareDiagnoses(sort: DiagnosisSort = 'newest') {
+  return (a: DiagnosisData, b: DiagnosisData): number => {
+    for (const [field, direction] of DIAGNOSIS_SORT_KEYS[sort]) {
+      const left = sortValue(a, field);
+      const right = sortValue(b, field);
+      if (left !== right) return (left < right ? -1 : 1) * direction;
+    }
+    return 0;
+  };
+}
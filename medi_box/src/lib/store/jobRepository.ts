@@ -0,0 +1,106 @@
+import type { AuditRequestMetadata } from './auditRepository';
+
+// Background work run by the job queue in src/lib/jobs
+export type JobType = 'diagnosis_analysis' | 'diagnosis_anchor';
+
+// queued -> running -> succeeded, or back to queued for a retry. A job
+// that used up its attempts is dead: it stays in the dead-letter list until
+// an admin retries it.
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'dead';
+
+export const JOB_STATUSES: JobStatus[] = ['queued', 'running', 'succeeded', 'dead'];
+
+export interface JobProgress {
+  // Machine-readable step, e.g. 'analyzing'
+  stage: string;
+  // 0-100
+  percent: number;
+  message: string;
+}
+
+export interface JobAttemptError {
+  attempt: number;
+  message: string;
+  failedAt: string;
+}
+
+export interface Job {
+  id: string;
+  type: JobType;
+  // Diagnosis the job works on, for status lookups
+  diagnosisId?: string;
+  payload: Record<string, unknown>;
+  status: JobStatus;
+  // Attempts started so far, including a running one
+  attempts: number;
+  maxAttempts: number;
+  // Earliest time the next attempt may start
+  runAt: string;
+  // A running job whose lock has expired is treated as abandoned by a
+  // crashed worker and claimed again
+  lockedUntil?: string;
+  // Lock id of the claim running the job; a new claim replaces it
+  lockedBy?: string;
+  progress: JobProgress;
+  errors: JobAttemptError[];
+  // Who enqueued the job and from where, for the audit entries it writes
+  requestedBy: { userId: string; request: AuditRequestMetadata };
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+}
+
+export type NewJob = Omit<Job, 'id' | 'status' | 'attempts' | 'errors' | 'createdAt' | 'updatedAt'>;
+
+export interface JobFilter {
+  status?: JobStatus;
+  type?: JobType;
+}
+
+// Contract shared by every job backend (in-memory, MongoDB)
+export interface JobRepository {
+  getJob(id: string): Promise<Job | undefined>;
+  addJob(job: NewJob): Promise<Job>;
+  // Most recent job of this type for a diagnosis
+  getLatestJobForDiagnosis(diagnosisId: string, type: JobType): Promise<Job | undefined>;
+  // Newest first
+  listJobs(filter: JobFilter, limit?: number): Promise<Job[]>;
+  // Atomically takes the oldest due job (queued with runAt <= now, or
+  // running with an expired lock), marks it running under lockedBy until
+  // lockedUntil and counts the attempt. Concurrent workers never claim the
+  // same job.
+  claimNextJob(now: string, lockedUntil: string, lockedBy: string): Promise<Job | undefined>;
+  // Fields set to undefined in the updates are removed from the job
+  updateJob(id: string, updates: Partial<Omit<Job, 'id'>>): Promise<Job | undefined>;
+  // Applies the update only while the job is still running under lockedBy;
+  // returns undefined once the lock has passed to another claim
+  updateLockedJob(id: string, lockedBy: string, updates: Partial<Omit<Job, 'id'>>): Promise<Job | undefined>;
+  // runAt of the earliest queued job, so the worker knows when to wake up
+  nextRunAt(): Promise<string | undefined>;
+}
+
+// Reference implementation of the claim condition, used by the in-memory backend
+export function isJobDue(job: Job, now: string): boolean {
+  if (job.status === 'queued') return job.runAt <= now;
+  return job.status === 'running' && !!job.lockedUntil && job.lockedUntil <= now;
+}
+
+// What clients see of a job. The payload and requester stay internal, and
+// so do attempt errors, which may carry provider details.
+export function toPublicJob(job: Job) {
+  return {
+    id: job.id,
+    type: job.type,
+    diagnosisId: job.diagnosisId,
+    status: job.status,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    progress: job.progress,
+    // When a failed attempt will be retried
+    nextAttemptAt: job.status === 'queued' && job.attempts > 0 ? job.runAt : undefined,
+    createdAt: job.createdAt,
+    finishedAt: job.finishedAt,
+  };
+}
+
+export type PublicJob = ReturnType<typeof toPublicJob>;
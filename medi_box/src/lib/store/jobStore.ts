@@ -0,0 +1,29 @@
+// Job store facade; the backing repository is chosen by DATA_STORE.
+import { getStoreDriver } from './config';
+import { JobRepository } from './jobRepository';
+import { createMemoryJobRepository } from './memoryJobRepository';
+import { createMongoJobRepository } from './mongoJobRepository';
+
+export type {
+  Job,
+  JobAttemptError,
+  JobFilter,
+  JobProgress,
+  JobRepository,
+  JobStatus,
+  JobType,
+  NewJob,
+  PublicJob
+} from './jobRepository';
+export { JOB_STATUSES, toPublicJob } from './jobRepository';
+
+let repository: JobRepository | undefined;
+
+export function getJobRepository(): JobRepository {
+  if (!repository) {
+    repository = getStoreDriver() === 'mongodb'
+      ? createMongoJobRepository()
+      : createMemoryJobRepository();
+  }
+  return repository;
+}
@@ -0,0 +1,38 @@
+import { randomUUID } from 'crypto';
+import { AuditEntry, AuditRepository } from './auditRepository';
+
+// In-memory audit backend used for tests and local development
+
+const globalForAudit = globalThis as typeof globalThis & {
+  _memoryAuditLog?: AuditEntry[];
+};
+
+function getAuditLog(): AuditEntry[] {
+  if (!globalForAudit._memoryAuditLog) {
+    globalForAudit._memoryAuditLog = [];
+  }
+  return globalForAudit._memoryAuditLog;
+}
+
+export function createMemoryAuditRepository(): AuditRepository {
+  return {
+    async appendEntry(entry) {
+      // Frozen so nothing holding a reference can rewrite history
+      const stored = Object.freeze({ ...entry, id: randomUUID() });
+      getAuditLog().push(stored);
+      return { ...stored };
+    },
+
+    async listEntries(diagnosisId, options = {}) {
+      const { offset = 0, limit } = options;
+      const entries = getAuditLog().filter((entry) => entry.diagnosisId === diagnosisId);
+      return entries
+        .slice(offset, limit === undefined ? undefined : offset + limit)
+        .map((entry) => ({ ...entry }));
+    },
+
+    async countEntries(diagnosisId) {
+      return getAuditLog().filter((entry) => entry.diagnosisId === diagnosisId).length;
+    },
+  };
+}
@@ -0,0 +1,53 @@
+import { randomUUID } from 'crypto';
+import { ConsentGrant, ConsentRepository, consentGrantStatus, grantNamesGrantee } from './consentRepository';
+
+// In-memory consent backend used for tests and local development
+
+const globalForConsent = globalThis as typeof globalThis & {
+  _memoryConsentGrants?: Map<string, ConsentGrant>;
+};
+
+function getGrantsMap(): Map<string, ConsentGrant> {
+  if (!globalForConsent._memoryConsentGrants) {
+    globalForConsent._memoryConsentGrants = new Map();
+  }
+  return globalForConsent._memoryConsentGrants;
+}
+
+export function createMemoryConsentRepository(): ConsentRepository {
+  return {
+    async getGrant(id) {
+      return getGrantsMap().get(id);
+    },
+
+    async addGrant(grant) {
+      const id = randomUUID();
+      const stored = { ...grant, id };
+      getGrantsMap().set(id, stored);
+      return stored;
+    },
+
+    async revokeGrant(id, revokedAt) {
+      const grants = getGrantsMap();
+      const existing = grants.get(id);
+      if (!existing) return undefined;
+      if (existing.revokedAt) return existing;
+
+      const updated = { ...existing, revokedAt };
+      grants.set(id, updated);
+      return updated;
+    },
+
+    async listGrantsByPatient(patientId) {
+      return Array.from(getGrantsMap().values())
+        .filter((grant) => grant.patientId === patientId)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+
+    async listActiveGrantsFor(grantee, now) {
+      return Array.from(getGrantsMap().values())
+        .filter((grant) => consentGrantStatus(grant, now) === 'active' && grantNamesGrantee(grant, grantee))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+  };
+}
@@ -0,0 +1,96 @@
+import { randomUUID } from 'crypto';
+import {
+  compareEscalations,
+  Conversation,
+  ConversationRepository,
+  DEFAULT_CONVERSATION_TITLE,
+  EscalationSummary,
+  matchesEscalationFilter,
+  titleFromMessage,
+  toConversationSummary
+} from './conversationRepository';
+
+// In-memory conversation backend used for tests and local development
+
+const globalForConversations = globalThis as typeof globalThis & {
+  _memoryConversations?: Map<string, Conversation>;
+};
+
+function getConversationsMap(): Map<string, Conversation> {
+  if (!globalForConversations._memoryConversations) {
+    globalForConversations._memoryConversations = new Map();
+  }
+  return globalForConversations._memoryConversations;
+}
+
+function update(id: string, changes: (existing: Conversation) => Partial<Conversation>): Conversation | undefined {
+  const conversations = getConversationsMap();
+  const existing = conversations.get(id);
+  if (!existing) return undefined;
+
+  const updated = { ...existing, ...changes(existing), updatedAt: new Date().toISOString() };
+  conversations.set(id, updated);
+  return updated;
+}
+
+export function createMemoryConversationRepository(): ConversationRepository {
+  return {
+    async getConversation(id) {
+      return getConversationsMap().get(id);
+    },
+
+    async listConversations(userId, filter = {}) {
+      return Array.from(getConversationsMap().values())
+        .filter((conversation) => conversation.userId === userId)
+        .filter((conversation) => !filter.diagnosisId || conversation.diagnosisId === filter.diagnosisId)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+        .map(toConversationSummary);
+    },
+
+    async addConversation(conversation) {
+      const now = new Date().toISOString();
+      const stored: Conversation = { ...conversation, id: randomUUID(), messages: [], createdAt: now, updatedAt: now };
+      getConversationsMap().set(stored.id, stored);
+      return stored;
+    },
+
+    async renameConversation(id, title) {
+      return update(id, () => ({ title }));
+    },
+
+    async deleteConversation(id) {
+      return getConversationsMap().delete(id);
+    },
+
+    async appendMessages(id, messages) {
+      const createdAt = new Date().toISOString();
+      return update(id, (existing) => {
+        const firstUserMessage = messages.find((message) => message.role === 'user');
+        return {
+          messages: [
+            ...existing.messages,
+            ...messages.map((message) => ({ ...message, id: randomUUID(), createdAt }))
+          ],
+          title: existing.title === DEFAULT_CONVERSATION_TITLE && existing.messages.length === 0 && firstUserMessage
+            ? titleFromMessage(firstUserMessage.content)
+            : existing.title
+        };
+      });
+    },
+
+    async setEscalation(id, escalation) {
+      return update(id, () => ({ escalation }));
+    },
+
+    async listEscalations(filter = {}) {
+      const escalations: EscalationSummary[] = [];
+      for (const conversation of getConversationsMap().values()) {
+        const { userId, escalation } = conversation;
+        if (escalation && matchesEscalationFilter(conversation, filter)) {
+          escalations.push({ ...toConversationSummary(conversation), userId, escalation });
+        }
+      }
+      return escalations.sort((a, b) => compareEscalations(a.escalation, b.escalation));
+    },
+  };
+}
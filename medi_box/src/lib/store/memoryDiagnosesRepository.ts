@@ -0,0 +1,198 @@
+import { randomUUID } from 'crypto';
+import { DEFAULT_CARE_TEAM_ID } from '@/lib/auth/access';
+import {
+  compareDiagnoses,
+  DiagnosesRepository,
+  DiagnosisData,
+  matchesDiagnosisFilter,
+  NewDiagnosis,
+  storedStatusesFor
+} from './diagnosesRepository';
+import { DEMO_USER_IDS } from './memoryUsersRepository';
+
+// In-memory diagnoses backend used for tests and local development.
+// Data lives for the lifetime of the server process only.
+
+// Sample data seeded into a fresh in-memory store
+const sampleDiagnoses: NewDiagnosis[] = [
+  {
+    patientId: DEMO_USER_IDS.johnSmith,
+    patientName: "John Smith",
+    careTeamId: DEFAULT_CARE_TEAM_ID,
+    assignedDoctorId: DEMO_USER_IDS.sarahWilliams,
+    reviewedBy: DEMO_USER_IDS.sarahWilliams,
+    diagnosisDate: "2023-05-10",
+    type: "X-Ray Analysis",
+    aiDiagnosis: "Pneumonia",
+    confidence: 87,
+    status: "approved",
+    symptoms: "Persistent cough for 10 days, fever, chest pain, difficulty breathing",
+    doctorName: "Dr. Sarah Williams",
+    doctorFeedback: "I concur with the AI diagnosis. The X-ray shows clear signs of pneumonia in the right lower lobe. I recommend a course of antibiotics (amoxicillin) and rest for at least 5 days. Please schedule a follow-up in one week.",
+    imageSrc: "/xray-sample.jpg",
+    aiModelData: {
+      modelVersion: "MedicalVisionV2.3",
+      analysisTimestamp: "2023-05-11T09:43:18Z",
+      processingTime: "3.2 seconds",
+      featuresAnalyzed: "217 anatomical landmarks detected"
+    },
+    treatmentRecommendations: [
+      "Antibiotics (amoxicillin) for 7 days",
+      "Rest for at least 5 days",
+      "Increased fluid intake",
+      "Follow-up appointment in one week",
+      "Monitor symptoms closely, seek immediate care if condition worsens"
+    ],
+    riskFactors: [
+      "History of respiratory conditions",
+      "Compromised immune system",
+      "Recent exposure to respiratory infections"
+    ]
+  },
+  {
+    patientId: DEMO_USER_IDS.janeDoe,
+    patientName: "Jane Doe",
+    careTeamId: DEFAULT_CARE_TEAM_ID,
+    diagnosisDate: "2023-06-22",
+    type: "Medical Image Analysis",
+    aiDiagnosis: "Migraine with Aura",
+    confidence: 78,
+    status: "awaiting_review",
+    symptoms: "Recurring headaches with visual disturbances, nausea, sensitivity to light and sound",
+    doctorName: "Pending Review",
+    doctorFeedback: "",
+    imageSrc: "/brain-scan.jpg",
+    aiModelData: {
+      modelVersion: "NeurologyVisionV1.5",
+      analysisTimestamp: "2023-06-22T14:20:33Z",
+      processingTime: "4.1 seconds",
+      featuresAnalyzed: "189 neurological patterns detected"
+    },
+    treatmentRecommendations: [
+      "Prescription migraine medication",
+      "Avoid known triggers",
+      "Keep a headache journal",
+      "Regular sleep schedule",
+      "Stress management techniques"
+    ],
+    riskFactors: [
+      "Family history of migraines",
+      "Hormonal fluctuations",
+      "Stress and anxiety",
+      "Sleep disruptions"
+    ]
+  },
+  {
+    patientId: DEMO_USER_IDS.johnSmith,
+    patientName: "John Smith",
+    careTeamId: DEFAULT_CARE_TEAM_ID,
+    diagnosisDate: new Date().toISOString().split('T')[0],
+    type: "Symptom Analysis",
+    aiDiagnosis: "Seasonal Allergic Rhinitis",
+    confidence: 92,
+    status: "awaiting_review",
+    symptoms: "Sneezing, runny nose, itchy eyes, congestion, worse outdoors",
+    doctorName: "Pending Review",
+    doctorFeedback: "",
+    imageSrc: "",
+    aiModelData: {
+      modelVersion: "GeminiMedical-2.0",
+      analysisTimestamp: new Date().toISOString(),
+      processingTime: "1.4 seconds",
+      featuresAnalyzed: "46 symptom patterns analyzed"
+    },
+    treatmentRecommendations: [
+      "Over-the-counter antihistamines",
+      "Nasal corticosteroids",
+      "Avoid known allergens",
+      "Keep windows closed during high pollen counts",
+      "Consider allergy testing for specific triggers"
+    ],
+    riskFactors: [
+      "History of allergies",
+      "Spring/summer season",
+      "Outdoor activities",
+      "Poor air quality"
+    ]
+  }
+];
+
+// Keep the map on globalThis so every route bundle in the process shares it
+const globalForDiagnoses = globalThis as typeof globalThis & {
+  _memoryDiagnoses?: Map<string, DiagnosisData>;
+};
+
+function getDiagnosesMap(): Map<string, DiagnosisData> {
+  if (!globalForDiagnoses._memoryDiagnoses) {
+    const diagnoses = new Map<string, DiagnosisData>();
+    for (const sample of sampleDiagnoses) {
+      const id = randomUUID();
+      diagnoses.set(id, { ...sample, id });
+    }
+    globalForDiagnoses._memoryDiagnoses = diagnoses;
+  }
+  return globalForDiagnoses._memoryDiagnoses;
+}
+
+// Fields updated to undefined are dropped, as $unset does in MongoDB
+function applyUpdates(existing: DiagnosisData, updates: Partial<DiagnosisData>): DiagnosisData {
+  const updated = { ...existing, ...updates, id: existing.id };
+  for (const key of Object.keys(updates) as (keyof DiagnosisData)[]) {
+    if (updates[key] === undefined) delete updated[key];
+  }
+  return updated;
+}
+
+export function createMemoryDiagnosesRepository(): DiagnosesRepository {
+  return {
+    async getDiagnosis(id) {
+      return getDiagnosesMap().get(id);
+    },
+
+    async addDiagnosis(diagnosis) {
+      const id = randomUUID();
+      const newDiagnosis = { ...diagnosis, id };
+      getDiagnosesMap().set(id, newDiagnosis);
+      return newDiagnosis;
+    },
+
+    async updateDiagnosis(id, updates) {
+      const diagnoses = getDiagnosesMap();
+      const existing = diagnoses.get(id);
+      if (!existing) return undefined;
+
+      const updated = applyUpdates(existing, updates);
+      diagnoses.set(id, updated);
+      return updated;
+    },
+
+    async getAllDiagnoses() {
+      return Array.from(getDiagnosesMap().values()).sort(compareDiagnoses());
+    },
+
+    async listDiagnoses(filter, { sort, offset = 0, limit } = {}) {
+      const matching = Array.from(getDiagnosesMap().values())
+        .filter((diagnosis) => matchesDiagnosisFilter(diagnosis, filter))
+        .sort(compareDiagnoses(sort));
+      return matching.slice(offset, limit === undefined ? undefined : offset + limit);
+    },
+
+    async updateDiagnosisIfStatus(id, expectedStatus, updates) {
+      const diagnoses = getDiagnosesMap();
+      const existing = diagnoses.get(id);
+      if (!existing || !storedStatusesFor(expectedStatus).includes(existing.status)) return undefined;
+
+      const updated = applyUpdates(existing, updates);
+      diagnoses.set(id, updated);
+      return updated;
+    },
+
+    async countDiagnoses(filter) {
+      let count = 0;
+      for (const diagnosis of getDiagnosesMap().values()) {
+        if (matchesDiagnosisFilter(diagnosis, filter)) count++;
+      }
+      return count;
+    },
+  };
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { isJobDue, Job, NewJob } from './jobRepository';
+import { createMemoryJobRepository } from './memoryJobRepository';
+
+const repository = createMemoryJobRepository();
+
+function newJob(runAt: string): NewJob {
+  return {
+    type: 'diagnosis_analysis',
+    payload: {},
+    maxAttempts: 3,
+    runAt,
+    progress: { stage: 'queued', percent: 0, message: "Waiting to start" },
+    requestedBy: { userId: 'patient-1', request: { method: 'POST', path: '/api/diagnoses' } },
+  };
+}
+
+// Jobs stay in the store between tests. Each test runs a year earlier
+// than the one before, so what earlier tests left behind is never due.
+function at(year: number, minute = 0): string {
+  return new Date(Date.UTC(year, 0, 1, 0, minute)).toISOString();
+}
+
+describe('isJobDue', () => {
+  const job = { status: 'queued', runAt: at(2100, 5) } as Job;
+
+  it('takes a queued job once its runAt has passed', () => {
+    expect(isJobDue(job, at(2100, 4))).toBe(false);
+    expect(isJobDue(job, at(2100, 5))).toBe(true);
+  });
+
+  it('takes a running job only once its lock has expired', () => {
+    const running = { ...job, status: 'running', lockedUntil: at(2100, 10) } as Job;
+    expect(isJobDue(running, at(2100, 9))).toBe(false);
+    expect(isJobDue(running, at(2100, 10))).toBe(true);
+    expect(isJobDue({ ...running, lockedUntil: undefined }, at(2100, 20))).toBe(false);
+  });
+
+  it('never takes a finished job', () => {
+    expect(isJobDue({ ...job, status: 'succeeded' }, at(2200))).toBe(false);
+    expect(isJobDue({ ...job, status: 'dead' }, at(2200))).toBe(false);
+  });
+});
+
+describe('claimNextJob', () => {
+  it('claims the oldest due job and counts the attempt', async () => {
+    const later = await repository.addJob(newJob(at(2109, 2)));
+    const earlier = await repository.addJob(newJob(at(2109, 1)));
+    await repository.addJob(newJob(at(2109, 30)));
+
+    const claimed = await repository.claimNextJob(at(2109, 5), at(2109, 7), 'lock-a');
+    expect(claimed).toMatchObject({ id: earlier.id, status: 'running', attempts: 1, lockedUntil: at(2109, 7), lockedBy: 'lock-a' });
+    expect((await repository.claimNextJob(at(2109, 5), at(2109, 7), 'lock-b'))?.id).toBe(later.id);
+    expect(await repository.claimNextJob(at(2109, 5), at(2109, 7), 'lock-c')).toBeUndefined();
+  });
+
+  it('gives a job to only one of several concurrent claims', async () => {
+    const job = await repository.addJob(newJob(at(2108)));
+    const claims = await Promise.all(
+      ['lock-a', 'lock-b', 'lock-c'].map((lockId) => repository.claimNextJob(at(2108, 1), at(2108, 3), lockId))
+    );
+    expect(claims.filter((claim) => claim?.id === job.id)).toHaveLength(1);
+  });
+
+  it('claims an abandoned job again once its lock expires', async () => {
+    const job = await repository.addJob(newJob(at(2107)));
+    await repository.claimNextJob(at(2107, 1), at(2107, 3), 'crashed');
+
+    expect(await repository.claimNextJob(at(2107, 2), at(2107, 4), 'lock-b')).toBeUndefined();
+    const reclaimed = await repository.claimNextJob(at(2107, 3), at(2107, 5), 'lock-b');
+    expect(reclaimed).toMatchObject({ id: job.id, attempts: 2, lockedBy: 'lock-b' });
+  });
+});
+
+describe('updateLockedJob', () => {
+  it('renews the lock for the claim that holds it', async () => {
+    const job = await repository.addJob(newJob(at(2106)));
+    await repository.claimNextJob(at(2106, 1), at(2106, 3), 'lock-a');
+
+    const renewed = await repository.updateLockedJob(job.id, 'lock-a', { lockedUntil: at(2106, 5) });
+    expect(renewed?.lockedUntil).toBe(at(2106, 5));
+    expect(await repository.claimNextJob(at(2106, 4), at(2106, 6), 'lock-b')).toBeUndefined();
+  });
+
+  it('refuses a claim whose lock passed to another one', async () => {
+    const job = await repository.addJob(newJob(at(2105)));
+    await repository.claimNextJob(at(2105, 1), at(2105, 3), 'lock-a');
+    await repository.claimNextJob(at(2105, 3), at(2105, 5), 'lock-b');
+
+    expect(await repository.updateLockedJob(job.id, 'lock-a', { status: 'succeeded' })).toBeUndefined();
+    expect((await repository.getJob(job.id))?.status).toBe('running');
+  });
+
+  it('refuses a job that is no longer running', async () => {
+    const job = await repository.addJob(newJob(at(2104)));
+    await repository.claimNextJob(at(2104, 1), at(2104, 3), 'lock-a');
+    await repository.updateLockedJob(job.id, 'lock-a', { status: 'succeeded', lockedBy: undefined, lockedUntil: undefined });
+
+    const finished = await repository.getJob(job.id);
+    expect(finished?.lockedBy).toBeUndefined();
+    expect(await repository.updateLockedJob(job.id, 'lock-a', { progress: finished!.progress })).toBeUndefined();
+  });
+});
@@ -0,0 +1,96 @@
+import { randomUUID } from 'crypto';
+import { isJobDue, Job, JobRepository } from './jobRepository';
+
+// In-memory job backend used for tests and local development
+
+const globalForJobs = globalThis as typeof globalThis & {
+  _memoryJobs?: Map<string, Job>;
+};
+
+function getJobsMap(): Map<string, Job> {
+  if (!globalForJobs._memoryJobs) {
+    globalForJobs._memoryJobs = new Map();
+  }
+  return globalForJobs._memoryJobs;
+}
+
+function newestFirst(a: Job, b: Job): number {
+  return b.createdAt.localeCompare(a.createdAt);
+}
+
+// Fields updated to undefined are dropped, as $unset does in MongoDB
+function applyUpdates(existing: Job, updates: Partial<Omit<Job, 'id'>>): Job {
+  const updated = { ...existing, ...updates, updatedAt: new Date().toISOString() };
+  for (const key of Object.keys(updates) as (keyof typeof updates)[]) {
+    if (updates[key] === undefined) delete updated[key];
+  }
+  return updated;
+}
+
+export function createMemoryJobRepository(): JobRepository {
+  return {
+    async getJob(id) {
+      return getJobsMap().get(id);
+    },
+
+    async addJob(job) {
+      const now = new Date().toISOString();
+      const stored: Job = { ...job, id: randomUUID(), status: 'queued', attempts: 0, errors: [], createdAt: now, updatedAt: now };
+      getJobsMap().set(stored.id, stored);
+      return stored;
+    },
+
+    async getLatestJobForDiagnosis(diagnosisId, type) {
+      return Array.from(getJobsMap().values())
+        .filter((job) => job.diagnosisId === diagnosisId && job.type === type)
+        .sort(newestFirst)[0];
+    },
+
+    async listJobs(filter, limit = 100) {
+      return Array.from(getJobsMap().values())
+        .filter((job) => (!filter.status || job.status === filter.status) && (!filter.type || job.type === filter.type))
+        .sort(newestFirst)
+        .slice(0, limit);
+    },
+
+    // Synchronous between the lookup and the write, so it is atomic within the process
+    async claimNextJob(now, lockedUntil, lockedBy) {
+      const jobs = getJobsMap();
+      const due = Array.from(jobs.values())
+        .filter((job) => isJobDue(job, now))
+        .sort((a, b) => a.runAt.localeCompare(b.runAt))[0];
+      if (!due) return undefined;
+
+      const claimed: Job = { ...due, status: 'running', attempts: due.attempts + 1, lockedUntil, lockedBy, updatedAt: now };
+      jobs.set(claimed.id, claimed);
+      return claimed;
+    },
+
+    async updateJob(id, updates) {
+      const jobs = getJobsMap();
+      const existing = jobs.get(id);
+      if (!existing) return undefined;
+
+      const updated = applyUpdates(existing, updates);
+      jobs.set(id, updated);
+      return updated;
+    },
+
+    async updateLockedJob(id, lockedBy, updates) {
+      const jobs = getJobsMap();
+      const existing = jobs.get(id);
+      if (!existing || existing.status !== 'running' || existing.lockedBy !== lockedBy) return undefined;
+
+      const updated = applyUpdates(existing, updates);
+      jobs.set(id, updated);
+      return updated;
+    },
+
+    async nextRunAt() {
+      return Array.from(getJobsMap().values())
+        .filter((job) => job.status === 'queued')
+        .map((job) => job.runAt)
+        .sort()[0];
+    },
+  };
+}
@@ -0,0 +1,53 @@
+import { randomUUID } from 'crypto';
+import { Notification, NotificationRepository } from './notificationRepository';
+
+// In-memory notification backend used for tests and local development
+
+const globalForNotifications = globalThis as typeof globalThis & {
+  _memoryNotifications?: Map<string, Notification>;
+};
+
+function getNotificationsMap(): Map<string, Notification> {
+  if (!globalForNotifications._memoryNotifications) {
+    globalForNotifications._memoryNotifications = new Map();
+  }
+  return globalForNotifications._memoryNotifications;
+}
+
+function notificationsOf(userId: string): Notification[] {
+  return Array.from(getNotificationsMap().values()).filter((notification) => notification.userId === userId);
+}
+
+export function createMemoryNotificationRepository(): NotificationRepository {
+  return {
+    async addNotifications(notifications) {
+      const createdAt = new Date().toISOString();
+      return notifications.map((notification) => {
+        const stored: Notification = { ...notification, id: randomUUID(), createdAt };
+        getNotificationsMap().set(stored.id, stored);
+        return stored;
+      });
+    },
+
+    async listNotifications(userId, { unreadOnly, since, limit = 50 } = {}) {
+      return notificationsOf(userId)
+        .filter((notification) => (!unreadOnly || !notification.readAt) && (!since || notification.createdAt >= since))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .slice(0, limit);
+    },
+
+    async countUnread(userId) {
+      return notificationsOf(userId).filter((notification) => !notification.readAt).length;
+    },
+
+    async markRead(userId, readAt, ids) {
+      const notifications = getNotificationsMap();
+      const unread = notificationsOf(userId)
+        .filter((notification) => !notification.readAt && (!ids || ids.includes(notification.id)));
+      for (const notification of unread) {
+        notifications.set(notification.id, { ...notification, readAt });
+      }
+      return unread.length;
+    },
+  };
+}
@@ -0,0 +1,78 @@
+import { randomUUID } from 'crypto';
+import { MAX_PIN_ATTEMPTS, ShareLink, ShareLinkRepository, shareLinkStatus } from './shareLinkRepository';
+
+// In-memory share link backend used for tests and local development
+
+const globalForShareLinks = globalThis as typeof globalThis & {
+  _memoryShareLinks?: Map<string, ShareLink>;
+};
+
+function getLinksMap(): Map<string, ShareLink> {
+  if (!globalForShareLinks._memoryShareLinks) {
+    globalForShareLinks._memoryShareLinks = new Map();
+  }
+  return globalForShareLinks._memoryShareLinks;
+}
+
+export function createMemoryShareLinkRepository(): ShareLinkRepository {
+  return {
+    async getLink(id) {
+      return getLinksMap().get(id);
+    },
+
+    async addLink(link) {
+      const id = randomUUID();
+      const stored = { ...link, id, viewCount: 0, failedPinAttempts: 0 };
+      getLinksMap().set(id, stored);
+      return stored;
+    },
+
+    async revokeLink(id, revokedAt) {
+      const links = getLinksMap();
+      const existing = links.get(id);
+      if (!existing) return undefined;
+      if (existing.revokedAt) return existing;
+
+      const updated = { ...existing, revokedAt };
+      links.set(id, updated);
+      return updated;
+    },
+
+    async listLinksByPatient(patientId) {
+      return Array.from(getLinksMap().values())
+        .filter((link) => link.patientId === patientId)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+
+    async recordView(id, now) {
+      const links = getLinksMap();
+      const existing = links.get(id);
+      if (!existing || shareLinkStatus(existing, now) !== 'active') return undefined;
+
+      const updated = { ...existing, viewCount: existing.viewCount + 1, lastViewedAt: now };
+      links.set(id, updated);
+      return updated;
+    },
+
+    // Synchronous between the check and the write, so it is atomic within the process
+    async claimPinAttempt(id) {
+      const links = getLinksMap();
+      const existing = links.get(id);
+      if (!existing || existing.failedPinAttempts >= MAX_PIN_ATTEMPTS) return undefined;
+
+      const updated = { ...existing, failedPinAttempts: existing.failedPinAttempts + 1 };
+      links.set(id, updated);
+      return updated;
+    },
+
+    async clearPinAttempts(id) {
+      const links = getLinksMap();
+      const existing = links.get(id);
+      if (!existing) return undefined;
+
+      const updated = { ...existing, failedPinAttempts: 0 };
+      links.set(id, updated);
+      return updated;
+    },
+  };
+}
@@ -0,0 +1,58 @@
+import { UploadRecord, UploadsRepository } from './uploadsRepository';
+
+// In-memory uploads backend used for tests and local development
+
+const globalForUploads = globalThis as typeof globalThis & {
+  _memoryUploads?: Map<string, UploadRecord>;
+};
+
+function getUploadsMap(): Map<string, UploadRecord> {
+  if (!globalForUploads._memoryUploads) {
+    globalForUploads._memoryUploads = new Map();
+  }
+  return globalForUploads._memoryUploads;
+}
+
+export function createMemoryUploadsRepository(): UploadsRepository {
+  return {
+    async getUpload(id) {
+      return getUploadsMap().get(id);
+    },
+
+    async addUpload(upload) {
+      getUploadsMap().set(upload.id, upload);
+      return upload;
+    },
+
+    async updateUpload(id, updates) {
+      const uploads = getUploadsMap();
+      const existing = uploads.get(id);
+      if (!existing) return undefined;
+
+      const updated = { ...existing, ...updates, id };
+      uploads.set(id, updated);
+      return updated;
+    },
+
+    // Synchronous between the check and the write, so only one caller wins
+    async attachUpload(id, diagnosisId) {
+      const uploads = getUploadsMap();
+      const existing = uploads.get(id);
+      if (!existing || existing.diagnosisId) return undefined;
+
+      const attached = { ...existing, diagnosisId };
+      uploads.set(id, attached);
+      return attached;
+    },
+
+    async detachUpload(id, diagnosisId) {
+      const uploads = getUploadsMap();
+      const existing = uploads.get(id);
+      if (existing?.diagnosisId !== diagnosisId) return;
+
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { diagnosisId: _detached, ...detached } = existing;
+      uploads.set(id, detached);
+    },
+  };
+}
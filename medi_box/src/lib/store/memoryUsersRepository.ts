@@ -0,0 +1,73 @@
+import { randomUUID } from 'crypto';
+import { DEFAULT_CARE_TEAM_ID } from '@/lib/auth/access';
+import { hashPassword } from '@/lib/auth/password';
+import { UserRecord, UsersRepository } from './usersRepository';
+
+// In-memory users backend used for tests and local development.
+// Seeded with one demo account per role; see README for the credentials.
+
+export const DEMO_PASSWORD = 'medibox-demo';
+
+// Fixed ids so the seeded diagnoses can reference their owners
+export const DEMO_USER_IDS = {
+  johnSmith: '5f0c2a52-3f4e-4d8e-9a43-1b2c3d4e5f01',
+  janeDoe: '5f0c2a52-3f4e-4d8e-9a43-1b2c3d4e5f02',
+  sarahWilliams: '5f0c2a52-3f4e-4d8e-9a43-1b2c3d4e5f03',
+  admin: '5f0c2a52-3f4e-4d8e-9a43-1b2c3d4e5f04',
+};
+
+const sampleUsers: Omit<UserRecord, 'passwordHash' | 'createdAt'>[] = [
+  { id: DEMO_USER_IDS.johnSmith, email: 'john.smith@medibox.dev', name: 'John Smith', role: 'patient', careTeamId: DEFAULT_CARE_TEAM_ID },
+  { id: DEMO_USER_IDS.janeDoe, email: 'jane.doe@medibox.dev', name: 'Jane Doe', role: 'patient', careTeamId: DEFAULT_CARE_TEAM_ID },
+  { id: DEMO_USER_IDS.sarahWilliams, email: 'sarah.williams@medibox.dev', name: 'Dr. Sarah Williams', role: 'doctor', careTeamId: DEFAULT_CARE_TEAM_ID },
+  { id: DEMO_USER_IDS.admin, email: 'admin@medibox.dev', name: 'MediBox Admin', role: 'admin' },
+];
+
+const globalForUsers = globalThis as typeof globalThis & {
+  _memoryUsers?: Promise<Map<string, UserRecord>>;
+};
+
+function getUsersMap(): Promise<Map<string, UserRecord>> {
+  if (!globalForUsers._memoryUsers) {
+    globalForUsers._memoryUsers = (async () => {
+      const users = new Map<string, UserRecord>();
+      for (const sample of sampleUsers) {
+        users.set(sample.id, {
+          ...sample,
+          passwordHash: await hashPassword(DEMO_PASSWORD),
+          createdAt: new Date().toISOString(),
+        });
+      }
+      return users;
+    })();
+  }
+  return globalForUsers._memoryUsers;
+}
+
+export function createMemoryUsersRepository(): UsersRepository {
+  return {
+    async getUser(id) {
+      return (await getUsersMap()).get(id);
+    },
+
+    async findUserByEmail(email) {
+      const normalized = email.trim().toLowerCase();
+      for (const user of (await getUsersMap()).values()) {
+        if (user.email === normalized) return user;
+      }
+      return undefined;
+    },
+
+    async addUser(user) {
+      const id = randomUUID();
+      const newUser = { ...user, email: user.email.trim().toLowerCase(), id };
+      (await getUsersMap()).set(id, newUser);
+      return newUser;
+    },
+
+    async listUsers(role) {
+      const users = Array.from((await getUsersMap()).values());
+      return role ? users.filter((user) => user.role === role) : users;
+    },
+  };
+}
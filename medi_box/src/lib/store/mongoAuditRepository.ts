@@ -0,0 +1,42 @@
+import { Collection, ObjectId } from 'mongodb';
+import { getIndexedCollection } from './mongoCollections';
+import { AuditEntry, AuditRepository } from './auditRepository';
+
+type AuditDocument = Omit<AuditEntry, 'id'> & { _id?: ObjectId };
+
+function getCollection(): Promise<Collection<AuditDocument>> {
+  return getIndexedCollection<AuditDocument>('audit_log', [
+    { key: { diagnosisId: 1, timestamp: 1 }, name: 'diagnosisId_timestamp' },
+  ]);
+}
+
+function toEntry({ _id, ...rest }: AuditDocument & { _id: ObjectId }): AuditEntry {
+  return { ...rest, id: _id.toHexString() };
+}
+
+// Only ever inserts; the application has no code path that modifies the
+// collection. Production deployments should also deny update and delete
+// to the application's database user.
+export function createMongoAuditRepository(): AuditRepository {
+  return {
+    async appendEntry(entry) {
+      const collection = await getCollection();
+      const { insertedId } = await collection.insertOne({ ...entry });
+      return { ...entry, id: insertedId.toHexString() };
+    },
+
+    async listEntries(diagnosisId, options = {}) {
+      const { offset = 0, limit } = options;
+      const collection = await getCollection();
+      let cursor = collection.find({ diagnosisId }).sort({ timestamp: 1, _id: 1 }).skip(offset);
+      if (limit !== undefined) cursor = cursor.limit(limit);
+      const documents = await cursor.toArray();
+      return documents.map(toEntry);
+    },
+
+    async countEntries(diagnosisId) {
+      const collection = await getCollection();
+      return collection.countDocuments({ diagnosisId });
+    },
+  };
+}
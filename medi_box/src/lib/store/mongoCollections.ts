@@ -0,0 +1,31 @@
+import { Collection, Document, IndexDescription, ObjectId } from 'mongodb';
+import { getMongoDb } from '@/lib/db/mongodb';
+
+// Index creation is kicked off once per collection per process;
+// createIndexes is a no-op on the server when the indexes already exist.
+// A failed attempt is forgotten so the next call tries again.
+const indexesReady = new Map<string, Promise<unknown>>();
+
+export async function getIndexedCollection<T extends Document>(
+  name: string,
+  indexes: IndexDescription[]
+): Promise<Collection<T>> {
+  const db = await getMongoDb();
+  const collection = db.collection<T>(name);
+
+  if (!indexesReady.has(name)) {
+    const ready = indexes.length > 0 ? collection.createIndexes(indexes) : Promise.resolve();
+    indexesReady.set(name, ready);
+    ready.catch(() => {
+      if (indexesReady.get(name) === ready) indexesReady.delete(name);
+    });
+  }
+  await indexesReady.get(name);
+
+  return collection;
+}
+
+// Ids reach the API as hex strings; anything else cannot match a document
+export function toObjectId(id: string): ObjectId | undefined {
+  return ObjectId.isValid(id) ? new ObjectId(id) : undefined;
+}
@@ -0,0 +1,66 @@
+import { Collection, Filter, ObjectId } from 'mongodb';
+import { getIndexedCollection, toObjectId } from './mongoCollections';
+import { ConsentGrant, ConsentRepository } from './consentRepository';
+
+type ConsentDocument = Omit<ConsentGrant, 'id'> & { _id?: ObjectId };
+
+function getCollection(): Promise<Collection<ConsentDocument>> {
+  return getIndexedCollection<ConsentDocument>('consent_grants', [
+    { key: { patientId: 1, createdAt: -1 }, name: 'patientId_createdAt' },
+    { key: { 'grantee.doctorId': 1, expiresAt: 1 }, name: 'granteeDoctorId_expiresAt' },
+    { key: { 'grantee.careTeamId': 1, expiresAt: 1 }, name: 'granteeCareTeamId_expiresAt' },
+  ]);
+}
+
+function toGrant({ _id, ...rest }: ConsentDocument & { _id: ObjectId }): ConsentGrant {
+  return { ...rest, id: _id.toHexString() };
+}
+
+export function createMongoConsentRepository(): ConsentRepository {
+  return {
+    async getGrant(id) {
+      const _id = toObjectId(id);
+      if (!_id) return undefined;
+
+      const collection = await getCollection();
+      const document = await collection.findOne({ _id });
+      return document ? toGrant(document) : undefined;
+    },
+
+    async addGrant(grant) {
+      const collection = await getCollection();
+      const { insertedId } = await collection.insertOne({ ...grant });
+      return { ...grant, id: insertedId.toHexString() };
+    },
+
+    async revokeGrant(id, revokedAt) {
+      const _id = toObjectId(id);
+      if (!_id) return undefined;
+
+      const collection = await getCollection();
+      await collection.updateOne({ _id, revokedAt: { $exists: false } }, { $set: { revokedAt } });
+      const document = await collection.findOne({ _id });
+      return document ? toGrant(document) : undefined;
+    },
+
+    async listGrantsByPatient(patientId) {
+      const collection = await getCollection();
+      const documents = await collection.find({ patientId }).sort({ createdAt: -1 }).toArray();
+      return documents.map(toGrant);
+    },
+
+    async listActiveGrantsFor({ doctorId, careTeamId }, now) {
+      const grantees: Filter<ConsentDocument>[] = [{ 'grantee.type': 'doctor', 'grantee.doctorId': doctorId }];
+      if (careTeamId) {
+        grantees.push({ 'grantee.type': 'organization', 'grantee.careTeamId': careTeamId });
+      }
+
+      const collection = await getCollection();
+      const documents = await collection
+        .find({ $or: grantees, revokedAt: { $exists: false }, expiresAt: { $gt: now } })
+        .sort({ createdAt: -1 })
+        .toArray();
+      return documents.map(toGrant);
+    },
+  };
+}
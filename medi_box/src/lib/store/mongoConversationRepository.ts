@@ -0,0 +1,168 @@
+import { randomUUID } from 'crypto';
+import { Collection, Filter, ObjectId } from 'mongodb';
+import {
+  Conversation,
+  ConversationMessage,
+  ConversationRepository,
+  ConversationSummary,
+  CONVERSATION_PREVIEW_LENGTH,
+  DEFAULT_CONVERSATION_TITLE,
+  EscalationFilter,
+  EscalationSummary,
+  titleFromMessage
+} from './conversationRepository';
+import { getIndexedCollection, toObjectId } from './mongoCollections';
+
+type ConversationDocument = Omit<Conversation, 'id'> & { _id?: ObjectId };
+
+function getCollection(): Promise<Collection<ConversationDocument>> {
+  return getIndexedCollection<ConversationDocument>('conversations', [
+    { key: { userId: 1, updatedAt: -1 }, name: 'userId_updatedAt' },
+    { key: { 'escalation.careTeamId': 1, 'escalation.status': 1 }, name: 'escalation_careTeam_status' },
+  ]);
+}
+
+// Mirrors matchesEscalationFilter in conversationRepository.ts
+function toEscalationQuery(filter: EscalationFilter): Filter<ConversationDocument> {
+  const query: Filter<ConversationDocument> = { escalation: { $exists: true } };
+  if (filter.status) query['escalation.status'] = filter.status;
+  if (filter.careTeamIds) query['escalation.careTeamId'] = { $in: filter.careTeamIds };
+  return query;
+}
+
+// Projection shared by the history list and the inbox
+const SUMMARY_PROJECTION = {
+  title: 1,
+  diagnosisId: 1,
+  escalation: 1,
+  createdAt: 1,
+  updatedAt: 1,
+  messageCount: { $size: '$messages' },
+  last: { $arrayElemAt: ['$messages', -1] },
+};
+
+type SummaryDocument = Omit<ConversationSummary, 'id' | 'preview'> & { _id: ObjectId; last?: ConversationMessage };
+
+function toSummary({ _id, last, ...summary }: SummaryDocument): ConversationSummary {
+  return {
+    ...summary,
+    id: _id.toHexString(),
+    preview: last?.content.slice(0, CONVERSATION_PREVIEW_LENGTH),
+  };
+}
+
+function toConversation({ _id, ...rest }: ConversationDocument & { _id: ObjectId }): Conversation {
+  return { ...rest, id: _id.toHexString() };
+}
+
+export function createMongoConversationRepository(): ConversationRepository {
+  return {
+    async getConversation(id) {
+      const _id = toObjectId(id);
+      if (!_id) return undefined;
+
+      const collection = await getCollection();
+      const document = await collection.findOne({ _id });
+      return document ? toConversation(document) : undefined;
+    },
+
+    // Projected on the server so the history list never loads whole threads
+    async listConversations(userId, filter = {}) {
+      const collection = await getCollection();
+      const documents = await collection
+        .aggregate<SummaryDocument>([
+          { $match: filter.diagnosisId ? { userId, diagnosisId: filter.diagnosisId } : { userId } },
+          { $sort: { updatedAt: -1 } },
+          { $project: SUMMARY_PROJECTION },
+        ])
+        .toArray();
+      return documents.map(toSummary);
+    },
+
+    async addConversation(conversation) {
+      const now = new Date().toISOString();
+      const stored: Omit<Conversation, 'id'> = { ...conversation, messages: [], createdAt: now, updatedAt: now };
+      const collection = await getCollection();
+      const { insertedId } = await collection.insertOne({ ...stored });
+      return { ...stored, id: insertedId.toHexString() };
+    },
+
+    async renameConversation(id, title) {
+      const _id = toObjectId(id);
+      if (!_id) return undefined;
+
+      const collection = await getCollection();
+      const document = await collection.findOneAndUpdate(
+        { _id },
+        { $set: { title, updatedAt: new Date().toISOString() } },
+        { returnDocument: 'after' }
+      );
+      return document ? toConversation(document) : undefined;
+    },
+
+    async deleteConversation(id) {
+      const _id = toObjectId(id);
+      if (!_id) return false;
+
+      const collection = await getCollection();
+      const { deletedCount } = await collection.deleteOne({ _id });
+      return deletedCount > 0;
+    },
+
+    async appendMessages(id, messages) {
+      const _id = toObjectId(id);
+      if (!_id) return undefined;
+
+      const createdAt = new Date().toISOString();
+      const collection = await getCollection();
+      const document = await collection.findOneAndUpdate(
+        { _id },
+        {
+          $push: { messages: { $each: messages.map((message) => ({ ...message, id: randomUUID(), createdAt })) } },
+          $set: { updatedAt: createdAt }
+        },
+        { returnDocument: 'after' }
+      );
+      if (!document) return undefined;
+
+      const conversation = toConversation(document);
+      const firstUserMessage = messages.find((message) => message.role === 'user');
+      if (conversation.title === DEFAULT_CONVERSATION_TITLE && conversation.messages.length === messages.length && firstUserMessage) {
+        // Conditional, so a rename made in the meantime wins
+        const title = titleFromMessage(firstUserMessage.content);
+        const { modifiedCount } = await collection.updateOne({ _id, title: DEFAULT_CONVERSATION_TITLE }, { $set: { title } });
+        if (modifiedCount > 0) conversation.title = title;
+      }
+      return conversation;
+    },
+
+    async setEscalation(id, escalation) {
+      const _id = toObjectId(id);
+      if (!_id) return undefined;
+
+      const collection = await getCollection();
+      const document = await collection.findOneAndUpdate(
+        { _id },
+        { $set: { escalation, updatedAt: new Date().toISOString() } },
+        { returnDocument: 'after' }
+      );
+      return document ? toConversation(document) : undefined;
+    },
+
+    async listEscalations(filter = {}) {
+      const collection = await getCollection();
+      const documents = await collection
+        .aggregate<SummaryDocument & { userId: string }>([
+          { $match: toEscalationQuery(filter) },
+          // 'open' sorts after 'answered', so descending puts it first
+          { $sort: { 'escalation.status': -1, 'escalation.requestedAt': 1 } },
+          { $project: { ...SUMMARY_PROJECTION, userId: 1 } },
+        ])
+        .toArray();
+      return documents.flatMap(({ userId, ...document }): EscalationSummary[] => {
+        const summary = toSummary(document);
+        return summary.escalation ? [{ ...summary, userId, escalation: summary.escalation }] : [];
+      });
+    },
+  };
+}
@@ -0,0 +1,156 @@
+import { Collection, Filter, Sort, SortDirection, UpdateFilter, WithId } from 'mongodb';
+import { DiagnosisStatus, normalizeDiagnosisStatus } from '@/lib/diagnoses/status';
+import { getIndexedCollection, toObjectId } from './mongoCollections';
+import {
+  DIAGNOSIS_SORT_KEYS,
+  DiagnosesRepository,
+  DiagnosisData,
+  DiagnosisFilter,
+  DiagnosisSort,
+  DiagnosisSortField,
+  NewDiagnosis,
+  storedStatusesFor
+} from './diagnosesRepository';
+
+// MongoDB diagnoses backend. Documents use ObjectId keys, exposed to the
+// rest of the app as their hex string `id`.
+
+type DiagnosisDocument = NewDiagnosis;
+
+function getCollection(): Promise<Collection<DiagnosisDocument>> {
+  return getIndexedCollection<DiagnosisDocument>('diagnoses', [
+    { key: { status: 1, diagnosisDate: -1 }, name: 'status_diagnosisDate' },
+    { key: { diagnosisDate: -1 }, name: 'diagnosisDate' },
+    { key: { patientId: 1, diagnosisDate: -1 }, name: 'patientId_diagnosisDate' },
+    { key: { assignedDoctorId: 1, diagnosisDate: -1 }, name: 'assignedDoctorId_diagnosisDate' },
+    { key: { careTeamId: 1, status: 1 }, name: 'careTeamId_status' },
+    { key: { status: 1, confidence: -1 }, name: 'status_confidence' },
+    { key: { status: 1, 'triage.urgent': -1, diagnosisDate: 1 }, name: 'status_triageUrgent' },
+  ]);
+}
+
+// Translate a DiagnosisFilter into the equivalent MongoDB query
+function toQuery(filter: DiagnosisFilter): Filter<DiagnosisDocument> {
+  const query: Filter<DiagnosisDocument> = {};
+  if (filter.patientId) query.patientId = filter.patientId;
+  if (filter.status) {
+    query.status = { $in: storedStatusesFor(filter.status) as DiagnosisStatus[] };
+  }
+  if (filter.type) {
+    query.type = { $regex: filter.type.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), $options: 'i' };
+  }
+  if (filter.from || filter.to) {
+    query.diagnosisDate = {
+      ...(filter.from ? { $gte: filter.from } : {}),
+      ...(filter.to ? { $lte: filter.to } : {}),
+    };
+  }
+
+  if (filter.reviewedFrom) query.reviewDate = { $gte: filter.reviewedFrom };
+
+  if (filter.doctor) {
+    const { doctorId, careTeamId } = filter.doctor;
+    query.$or = [{ assignedDoctorId: doctorId }];
+    if (careTeamId) {
+      query.$or.push({ assignedDoctorId: { $exists: false }, careTeamId });
+    }
+  }
+
+  return query;
+}
+
+const SORT_PATHS: Record<DiagnosisSortField, string> = {
+  diagnosisDate: 'diagnosisDate',
+  confidence: 'confidence',
+  urgent: 'triage.urgent',
+  id: '_id',
+};
+
+function toSort(sort: DiagnosisSort): Sort {
+  return DIAGNOSIS_SORT_KEYS[sort].map(([field, direction]): [string, SortDirection] => [SORT_PATHS[field], direction]);
+}
+
+// Fields updated to undefined are unset; with ignoreUndefined a $set would
+// silently keep them. Callers never overwrite the identifier. Returns
+// undefined when there is nothing to write, which the driver would reject.
+function toUpdate(updates: Partial<DiagnosisData>): UpdateFilter<DiagnosisDocument> | undefined {
+  const $set: Record<string, unknown> = {};
+  const $unset: Record<string, ''> = {};
+  for (const [key, value] of Object.entries(updates)) {
+    if (key === 'id') continue;
+    if (value === undefined) $unset[key] = '';
+    else $set[key] = value;
+  }
+  if (Object.keys($set).length === 0 && Object.keys($unset).length === 0) return undefined;
+  return {
+    ...(Object.keys($set).length > 0 ? { $set } : {}),
+    ...(Object.keys($unset).length > 0 ? { $unset } : {}),
+  } as UpdateFilter<DiagnosisDocument>;
+}
+
+function toDiagnosis({ _id, ...rest }: WithId<DiagnosisDocument>): DiagnosisData {
+  return { ...rest, status: normalizeDiagnosisStatus(rest.status), id: _id.toHexString() };
+}
+
+export function createMongoDiagnosesRepository(): DiagnosesRepository {
+  return {
+    async getDiagnosis(id) {
+      const _id = toObjectId(id);
+      if (!_id) return undefined;
+
+      const collection = await getCollection();
+      const document = await collection.findOne({ _id });
+      return document ? toDiagnosis(document) : undefined;
+    },
+
+    async addDiagnosis(diagnosis) {
+      const collection = await getCollection();
+      const { insertedId } = await collection.insertOne({ ...diagnosis });
+      return { ...diagnosis, id: insertedId.toHexString() };
+    },
+
+    async updateDiagnosis(id, updates) {
+      const _id = toObjectId(id);
+      if (!_id) return undefined;
+
+      const collection = await getCollection();
+      const update = toUpdate(updates);
+      const document = update
+        ? await collection.findOneAndUpdate({ _id }, update, { returnDocument: 'after' })
+        : await collection.findOne({ _id });
+      return document ? toDiagnosis(document) : undefined;
+    },
+
+    async getAllDiagnoses() {
+      const collection = await getCollection();
+      const documents = await collection.find().sort(toSort('newest')).toArray();
+      return documents.map(toDiagnosis);
+    },
+
+    async listDiagnoses(filter, { sort = 'newest', offset = 0, limit } = {}) {
+      const collection = await getCollection();
+      let cursor = collection.find(toQuery(filter)).sort(toSort(sort)).skip(offset);
+      if (limit !== undefined) cursor = cursor.limit(limit);
+      const documents = await cursor.toArray();
+      return documents.map(toDiagnosis);
+    },
+
+    async updateDiagnosisIfStatus(id, expectedStatus, updates) {
+      const _id = toObjectId(id);
+      if (!_id) return undefined;
+
+      const collection = await getCollection();
+      const query = { _id, status: { $in: storedStatusesFor(expectedStatus) as DiagnosisStatus[] } };
+      const update = toUpdate(updates);
+      const document = update
+        ? await collection.findOneAndUpdate(query, update, { returnDocument: 'after' })
+        : await collection.findOne(query);
+      return document ? toDiagnosis(document) : undefined;
+    },
+
+    async countDiagnoses(filter) {
+      const collection = await getCollection();
+      return collection.countDocuments(toQuery(filter));
+    },
+  };
+}
@@ -0,0 +1,113 @@
+import { Collection, ObjectId, UpdateFilter } from 'mongodb';
+import { Job, JobRepository } from './jobRepository';
+import { getIndexedCollection, toObjectId } from './mongoCollections';
+
+type JobDocument = Omit<Job, 'id'> & { _id?: ObjectId };
+
+function getCollection(): Promise<Collection<JobDocument>> {
+  return getIndexedCollection<JobDocument>('jobs', [
+    { key: { status: 1, runAt: 1 }, name: 'status_runAt' },
+    { key: { diagnosisId: 1, createdAt: -1 }, name: 'diagnosisId_createdAt' },
+  ]);
+}
+
+function toJob({ _id, ...rest }: JobDocument & { _id: ObjectId }): Job {
+  return { ...rest, id: _id.toHexString() };
+}
+
+// Fields updated to undefined are unset; with ignoreUndefined a $set would
+// silently keep them
+function toUpdate(updates: Partial<Omit<Job, 'id'>>): UpdateFilter<JobDocument> {
+  const $set: Record<string, unknown> = { updatedAt: new Date().toISOString() };
+  const $unset: Record<string, ''> = {};
+  for (const [key, value] of Object.entries(updates)) {
+    if (value === undefined) $unset[key] = '';
+    else $set[key] = value;
+  }
+  return { $set, ...(Object.keys($unset).length > 0 ? { $unset } : {}) } as UpdateFilter<JobDocument>;
+}
+
+export function createMongoJobRepository(): JobRepository {
+  return {
+    async getJob(id) {
+      const _id = toObjectId(id);
+      if (!_id) return undefined;
+
+      const collection = await getCollection();
+      const document = await collection.findOne({ _id });
+      return document ? toJob(document) : undefined;
+    },
+
+    async addJob(job) {
+      const now = new Date().toISOString();
+      const stored: Omit<Job, 'id'> = { ...job, status: 'queued', attempts: 0, errors: [], createdAt: now, updatedAt: now };
+      const collection = await getCollection();
+      const { insertedId } = await collection.insertOne({ ...stored });
+      return { ...stored, id: insertedId.toHexString() };
+    },
+
+    async getLatestJobForDiagnosis(diagnosisId, type) {
+      const collection = await getCollection();
+      const document = await collection.findOne({ diagnosisId, type }, { sort: { createdAt: -1 } });
+      return document ? toJob(document) : undefined;
+    },
+
+    async listJobs(filter, limit = 100) {
+      const collection = await getCollection();
+      const query: Partial<Pick<JobDocument, 'status' | 'type'>> = {};
+      if (filter.status) query.status = filter.status;
+      if (filter.type) query.type = filter.type;
+      const documents = await collection.find(query).sort({ createdAt: -1 }).limit(limit).toArray();
+      return documents.map(toJob);
+    },
+
+    // One findOneAndUpdate, so two workers (or two app instances) can
+    // never both claim a job
+    async claimNextJob(now, lockedUntil, lockedBy) {
+      const collection = await getCollection();
+      const document = await collection.findOneAndUpdate(
+        {
+          $or: [
+            { status: 'queued', runAt: { $lte: now } },
+            { status: 'running', lockedUntil: { $lte: now } },
+          ],
+        },
+        { $set: { status: 'running', lockedUntil, lockedBy, updatedAt: now }, $inc: { attempts: 1 } },
+        { sort: { runAt: 1 }, returnDocument: 'after' }
+      );
+      return document ? toJob(document) : undefined;
+    },
+
+    async updateJob(id, updates) {
+      const _id = toObjectId(id);
+      if (!_id) return undefined;
+
+      const collection = await getCollection();
+      const document = await collection.findOneAndUpdate(
+        { _id },
+        toUpdate(updates),
+        { returnDocument: 'after' }
+      );
+      return document ? toJob(document) : undefined;
+    },
+
+    async updateLockedJob(id, lockedBy, updates) {
+      const _id = toObjectId(id);
+      if (!_id) return undefined;
+
+      const collection = await getCollection();
+      const document = await collection.findOneAndUpdate(
+        { _id, status: 'running', lockedBy },
+        toUpdate(updates),
+        { returnDocument: 'after' }
+      );
+      return document ? toJob(document) : undefined;
+    },
+
+    async nextRunAt() {
+      const collection = await getCollection();
+      const document = await collection.findOne({ status: 'queued' }, { sort: { runAt: 1 }, projection: { runAt: 1 } });
+      return document?.runAt;
+    },
+  };
+}
@@ -0,0 +1,55 @@
+import { Collection, Filter, ObjectId } from 'mongodb';
+import { getIndexedCollection, toObjectId } from './mongoCollections';
+import { Notification, NotificationRepository } from './notificationRepository';
+
+type NotificationDocument = Omit<Notification, 'id'> & { _id?: ObjectId };
+
+function getCollection(): Promise<Collection<NotificationDocument>> {
+  return getIndexedCollection<NotificationDocument>('notifications', [
+    { key: { userId: 1, createdAt: -1 }, name: 'userId_createdAt' },
+    { key: { userId: 1, readAt: 1 }, name: 'userId_readAt' },
+  ]);
+}
+
+function toNotification({ _id, ...rest }: NotificationDocument & { _id: ObjectId }): Notification {
+  return { ...rest, id: _id.toHexString() };
+}
+
+export function createMongoNotificationRepository(): NotificationRepository {
+  return {
+    async addNotifications(notifications) {
+      if (notifications.length === 0) return [];
+
+      const createdAt = new Date().toISOString();
+      const documents = notifications.map((notification) => ({ ...notification, createdAt }));
+      const collection = await getCollection();
+      const { insertedIds } = await collection.insertMany(documents.map((document) => ({ ...document })));
+      return documents.map((document, index) => ({ ...document, id: insertedIds[index].toHexString() }));
+    },
+
+    async listNotifications(userId, { unreadOnly, since, limit = 50 } = {}) {
+      const collection = await getCollection();
+      const query: Filter<NotificationDocument> = { userId };
+      if (unreadOnly) query.readAt = { $exists: false };
+      if (since) query.createdAt = { $gte: since };
+      const documents = await collection.find(query).sort({ createdAt: -1 }).limit(limit).toArray();
+      return documents.map(toNotification);
+    },
+
+    async countUnread(userId) {
+      const collection = await getCollection();
+      return collection.countDocuments({ userId, readAt: { $exists: false } });
+    },
+
+    async markRead(userId, readAt, ids) {
+      const query: Filter<NotificationDocument> = { userId, readAt: { $exists: false } };
+      if (ids) {
+        query._id = { $in: ids.map(toObjectId).filter((id): id is ObjectId => !!id) };
+      }
+
+      const collection = await getCollection();
+      const { modifiedCount } = await collection.updateMany(query, { $set: { readAt } });
+      return modifiedCount;
+    },
+  };
+}
@@ -0,0 +1,98 @@
+import { Collection, ObjectId } from 'mongodb';
+import { getIndexedCollection, toObjectId } from './mongoCollections';
+import { MAX_PIN_ATTEMPTS, ShareLink, ShareLinkRepository } from './shareLinkRepository';
+
+type ShareLinkDocument = Omit<ShareLink, 'id'> & { _id?: ObjectId };
+
+function getCollection(): Promise<Collection<ShareLinkDocument>> {
+  return getIndexedCollection<ShareLinkDocument>('share_links', [
+    { key: { patientId: 1, createdAt: -1 }, name: 'patientId_createdAt' },
+  ]);
+}
+
+function toShareLink({ _id, ...rest }: ShareLinkDocument & { _id: ObjectId }): ShareLink {
+  return { ...rest, id: _id.toHexString() };
+}
+
+export function createMongoShareLinkRepository(): ShareLinkRepository {
+  return {
+    async getLink(id) {
+      const _id = toObjectId(id);
+      if (!_id) return undefined;
+
+      const collection = await getCollection();
+      const document = await collection.findOne({ _id });
+      return document ? toShareLink(document) : undefined;
+    },
+
+    async addLink(link) {
+      const stored = { ...link, viewCount: 0, failedPinAttempts: 0 };
+      const collection = await getCollection();
+      const { insertedId } = await collection.insertOne({ ...stored });
+      return { ...stored, id: insertedId.toHexString() };
+    },
+
+    async revokeLink(id, revokedAt) {
+      const _id = toObjectId(id);
+      if (!_id) return undefined;
+
+      const collection = await getCollection();
+      await collection.updateOne({ _id, revokedAt: { $exists: false } }, { $set: { revokedAt } });
+      const document = await collection.findOne({ _id });
+      return document ? toShareLink(document) : undefined;
+    },
+
+    async listLinksByPatient(patientId) {
+      const collection = await getCollection();
+      const documents = await collection.find({ patientId }).sort({ createdAt: -1 }).toArray();
+      return documents.map(toShareLink);
+    },
+
+    // The status check and the increment happen in one update so that
+    // concurrent opens cannot exceed maxViews
+    async recordView(id, now) {
+      const _id = toObjectId(id);
+      if (!_id) return undefined;
+
+      const collection = await getCollection();
+      const document = await collection.findOneAndUpdate(
+        {
+          _id,
+          revokedAt: { $exists: false },
+          expiresAt: { $gt: now },
+          failedPinAttempts: { $lt: MAX_PIN_ATTEMPTS },
+          $or: [{ maxViews: { $exists: false } }, { $expr: { $lt: ['$viewCount', '$maxViews'] } }],
+        },
+        { $inc: { viewCount: 1 }, $set: { lastViewedAt: now } },
+        { returnDocument: 'after' }
+      );
+      return document ? toShareLink(document) : undefined;
+    },
+
+    async claimPinAttempt(id) {
+      const _id = toObjectId(id);
+      if (!_id) return undefined;
+
+      const collection = await getCollection();
+      const document = await collection.findOneAndUpdate(
+        { _id, failedPinAttempts: { $lt: MAX_PIN_ATTEMPTS } },
+        { $inc: { failedPinAttempts: 1 } },
+        { returnDocument: 'after' }
+      );
+      return document ? toShareLink(document) : undefined;
+    },
+
+    async clearPinAttempts(id) {
+      const _id = toObjectId(id);
+      if (!_id) return undefined;
+
+      const collection = await getCollection();
+      const document = await collection.findOneAndUpdate(
+        { _id },
+        { $set: { failedPinAttempts: 0 } },
+        { returnDocument: 'after' }
+      );
+      return document ? toShareLink(document) : undefined;
+    },
+  };
+}
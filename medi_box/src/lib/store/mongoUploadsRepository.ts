@@ -0,0 +1,59 @@
+import { Collection } from 'mongodb';
+import { getIndexedCollection } from './mongoCollections';
+import { UploadRecord, UploadsRepository } from './uploadsRepository';
+
+// Caller-generated upload ids are stored as the document _id
+type UploadDocument = Omit<UploadRecord, 'id'> & { _id: string };
+
+function getCollection(): Promise<Collection<UploadDocument>> {
+  return getIndexedCollection<UploadDocument>('uploads', [
+    { key: { ownerId: 1, createdAt: -1 }, name: 'ownerId_createdAt' },
+  ]);
+}
+
+function toUpload({ _id, ...rest }: UploadDocument): UploadRecord {
+  return { ...rest, id: _id };
+}
+
+export function createMongoUploadsRepository(): UploadsRepository {
+  return {
+    async getUpload(id) {
+      const collection = await getCollection();
+      const document = await collection.findOne({ _id: id });
+      return document ? toUpload(document) : undefined;
+    },
+
+    async addUpload({ id, ...upload }) {
+      const collection = await getCollection();
+      await collection.insertOne({ ...upload, _id: id });
+      return { ...upload, id };
+    },
+
+    async updateUpload(id, updates) {
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { id: _ignored, ...fields } = updates;
+
+      // An empty $set is rejected by the driver
+      const collection = await getCollection();
+      const document = Object.keys(fields).length > 0
+        ? await collection.findOneAndUpdate({ _id: id }, { $set: fields }, { returnDocument: 'after' })
+        : await collection.findOne({ _id: id });
+      return document ? toUpload(document) : undefined;
+    },
+
+    async attachUpload(id, diagnosisId) {
+      const collection = await getCollection();
+      const document = await collection.findOneAndUpdate(
+        { _id: id, diagnosisId: { $exists: false } },
+        { $set: { diagnosisId } },
+        { returnDocument: 'after' }
+      );
+      return document ? toUpload(document) : undefined;
+    },
+
+    async detachUpload(id, diagnosisId) {
+      const collection = await getCollection();
+      await collection.updateOne({ _id: id, diagnosisId }, { $unset: { diagnosisId: '' } });
+    },
+  };
+}
@@ -0,0 +1,48 @@
+import { Collection, WithId } from 'mongodb';
+import { getIndexedCollection, toObjectId } from './mongoCollections';
+import { NewUser, UserRecord, UsersRepository } from './usersRepository';
+
+type UserDocument = NewUser;
+
+function getCollection(): Promise<Collection<UserDocument>> {
+  return getIndexedCollection<UserDocument>('users', [
+    { key: { email: 1 }, name: 'email_unique', unique: true },
+    { key: { role: 1 }, name: 'role' },
+  ]);
+}
+
+function toUser({ _id, ...rest }: WithId<UserDocument>): UserRecord {
+  return { ...rest, id: _id.toHexString() };
+}
+
+export function createMongoUsersRepository(): UsersRepository {
+  return {
+    async getUser(id) {
+      const _id = toObjectId(id);
+      if (!_id) return undefined;
+
+      const collection = await getCollection();
+      const document = await collection.findOne({ _id });
+      return document ? toUser(document) : undefined;
+    },
+
+    async findUserByEmail(email) {
+      const collection = await getCollection();
+      const document = await collection.findOne({ email: email.trim().toLowerCase() });
+      return document ? toUser(document) : undefined;
+    },
+
+    async addUser(user) {
+      const document = { ...user, email: user.email.trim().toLowerCase() };
+      const collection = await getCollection();
+      const { insertedId } = await collection.insertOne(document);
+      return { ...document, id: insertedId.toHexString() };
+    },
+
+    async listUsers(role) {
+      const collection = await getCollection();
+      const documents = await collection.find(role ? { role } : {}).sort({ name: 1 }).toArray();
+      return documents.map(toUser);
+    },
+  };
+}
@@ -0,0 +1,48 @@
+// Events a user is told about in the notification center
+export type NotificationType =
+  // A diagnosis entered the care team's review queue (doctors)
+  | 'diagnosis_pending'
+  // The AI analysis of the patient's submission succeeded or failed
+  | 'analysis_finished'
+  // A doctor approved, amended or rejected the diagnosis
+  | 'review_completed'
+  // A doctor wrote to the patient about a diagnosis or in an escalated chat
+  | 'doctor_reply'
+  // A patient asked for a doctor to answer a chat conversation (doctors)
+  | 'chat_escalated'
+  // Someone opened one of the patient's share links
+  | 'share_accessed';
+
+export interface Notification {
+  id: string;
+  // Recipient
+  userId: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  diagnosisId?: string;
+  // App page the notification opens
+  link?: string;
+  createdAt: string;
+  readAt?: string;
+}
+
+export type NewNotification = Omit<Notification, 'id' | 'createdAt' | 'readAt'>;
+
+export interface NotificationListOptions {
+  unreadOnly?: boolean;
+  // Only notifications created at or after this time
+  since?: string;
+  limit?: number;
+}
+
+// Contract shared by every notification backend (in-memory, MongoDB)
+export interface NotificationRepository {
+  addNotifications(notifications: NewNotification[]): Promise<Notification[]>;
+  // Newest first
+  listNotifications(userId: string, options?: NotificationListOptions): Promise<Notification[]>;
+  countUnread(userId: string): Promise<number>;
+  // Marks the given notifications of the user read, or all of them when no
+  // ids are given. Returns how many changed.
+  markRead(userId: string, readAt: string, ids?: string[]): Promise<number>;
+}
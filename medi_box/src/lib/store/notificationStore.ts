@@ -0,0 +1,24 @@
+// Notification store facade; the backing repository is chosen by DATA_STORE.
+import { getStoreDriver } from './config';
+import { createMemoryNotificationRepository } from './memoryNotificationRepository';
+import { createMongoNotificationRepository } from './mongoNotificationRepository';
+import { NotificationRepository } from './notificationRepository';
+
+export type {
+  NewNotification,
+  Notification,
+  NotificationListOptions,
+  NotificationRepository,
+  NotificationType
+} from './notificationRepository';
+
+let repository: NotificationRepository | undefined;
+
+export function getNotificationRepository(): NotificationRepository {
+  if (!repository) {
+    repository = getStoreDriver() === 'mongodb'
+      ? createMongoNotificationRepository()
+      : createMemoryNotificationRepository();
+  }
+  return repository;
+}
@@ -0,0 +1,53 @@
+// A signed, expiring link that opens a read-only copy of one diagnosis
+// without signing in
+export interface ShareLink {
+  id: string;
+  diagnosisId: string;
+  // The patient who created the link
+  patientId: string;
+  createdAt: string;
+  expiresAt: string;
+  // scrypt hash of the optional access PIN
+  pinHash?: string;
+  // Successful opens allowed; unlimited when omitted
+  maxViews?: number;
+  viewCount: number;
+  lastViewedAt?: string;
+  // Wrong PINs entered so far; the link locks at MAX_PIN_ATTEMPTS
+  failedPinAttempts: number;
+  revokedAt?: string;
+}
+
+export type NewShareLink = Omit<ShareLink, 'id' | 'viewCount' | 'lastViewedAt' | 'failedPinAttempts' | 'revokedAt'>;
+
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked' | 'exhausted' | 'locked';
+
+// Wrong PINs allowed before the link stops opening
+export const MAX_PIN_ATTEMPTS = 5;
+
+// Contract shared by every share link backend (in-memory, MongoDB)
+export interface ShareLinkRepository {
+  getLink(id: string): Promise<ShareLink | undefined>;
+  addLink(link: NewShareLink): Promise<ShareLink>;
+  // Sets revokedAt once; revoking again leaves the first timestamp
+  revokeLink(id: string, revokedAt: string): Promise<ShareLink | undefined>;
+  // Every link the patient created, newest first
+  listLinksByPatient(patientId: string): Promise<ShareLink[]>;
+  // Counts one open while the link is still active at `now`; returns
+  // undefined when it is missing or can no longer be opened
+  recordView(id: string, now: string): Promise<ShareLink | undefined>;
+  // Counts a PIN attempt before the PIN is checked, while fewer than
+  // MAX_PIN_ATTEMPTS are counted; returns undefined when the link is
+  // missing or locked. Atomic, so parallel guesses cannot pass the limit.
+  claimPinAttempt(id: string): Promise<ShareLink | undefined>;
+  // After a correct PIN, the attempts counted so far are cleared
+  clearPinAttempts(id: string): Promise<ShareLink | undefined>;
+}
+
+export function shareLinkStatus(link: ShareLink, now = new Date().toISOString()): ShareLinkStatus {
+  if (link.revokedAt) return 'revoked';
+  if (link.expiresAt <= now) return 'expired';
+  if (link.failedPinAttempts >= MAX_PIN_ATTEMPTS) return 'locked';
+  if (link.maxViews !== undefined && link.viewCount >= link.maxViews) return 'exhausted';
+  return 'active';
+}
@@ -0,0 +1,19 @@
+// Share link store facade; the backing repository is chosen by DATA_STORE.
+import { getStoreDriver } from './config';
+import { createMemoryShareLinkRepository } from './memoryShareLinkRepository';
+import { createMongoShareLinkRepository } from './mongoShareLinkRepository';
+import { ShareLinkRepository } from './shareLinkRepository';
+
+export type { NewShareLink, ShareLink, ShareLinkRepository, ShareLinkStatus } from './shareLinkRepository';
+export { MAX_PIN_ATTEMPTS, shareLinkStatus } from './shareLinkRepository';
+
+let repository: ShareLinkRepository | undefined;
+
+export function getShareLinkRepository(): ShareLinkRepository {
+  if (!repository) {
+    repository = getStoreDriver() === 'mongodb'
+      ? createMongoShareLinkRepository()
+      : createMemoryShareLinkRepository();
+  }
+  return repository;
+}
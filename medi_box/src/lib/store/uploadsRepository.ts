@@ -0,0 +1,33 @@
+import type { DicomMetadata } from '@/lib/uploads/dicom';
+
+// Metadata for a file stored through ObjectStorage
+export interface UploadRecord {
+  id: string;
+  ownerId: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  width?: number;
+  height?: number;
+  storageKey: string;
+  thumbnailKey?: string;
+  // DICOM uploads: one rendered PNG per frame and the de-identified header
+  frameKeys?: string[];
+  dicomMetadata?: DicomMetadata;
+  // Set once the upload is attached to a diagnosis
+  diagnosisId?: string;
+  createdAt: string;
+}
+
+// Contract shared by every uploads backend (in-memory, MongoDB).
+// Upload ids double as storage key prefixes, so callers generate them.
+export interface UploadsRepository {
+  getUpload(id: string): Promise<UploadRecord | undefined>;
+  addUpload(upload: UploadRecord): Promise<UploadRecord>;
+  updateUpload(id: string, updates: Partial<UploadRecord>): Promise<UploadRecord | undefined>;
+  // Attaches the upload only while it is attached to nothing; returns
+  // undefined when it is missing or another diagnosis got it first
+  attachUpload(id: string, diagnosisId: string): Promise<UploadRecord | undefined>;
+  // Undoes attachUpload, if the upload is still attached to diagnosisId
+  detachUpload(id: string, diagnosisId: string): Promise<void>;
+}
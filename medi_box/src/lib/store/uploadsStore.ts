@@ -0,0 +1,18 @@
+// Uploads store facade; the backing repository is chosen by DATA_STORE.
+import { getStoreDriver } from './config';
+import { createMemoryUploadsRepository } from './memoryUploadsRepository';
+import { createMongoUploadsRepository } from './mongoUploadsRepository';
+import { UploadsRepository } from './uploadsRepository';
+
+export type { UploadRecord, UploadsRepository } from './uploadsRepository';
+
+let repository: UploadsRepository | undefined;
+
+export function getUploadsRepository(): UploadsRepository {
+  if (!repository) {
+    repository = getStoreDriver() === 'mongodb'
+      ? createMongoUploadsRepository()
+      : createMemoryUploadsRepository();
+  }
+  return repository;
+}
@@ -0,0 +1,22 @@
+import { Role } from '@/lib/auth/session';
+
+export interface UserRecord {
+  id: string;
+  email: string;
+  name: string;
+  role: Role;
+  // Patients belong to the team that reviews their diagnoses; doctors to the team whose queue they work
+  careTeamId?: string;
+  passwordHash: string;
+  createdAt: string;
+}
+
+export type NewUser = Omit<UserRecord, 'id'>;
+
+// Contract shared by every users backend (in-memory, MongoDB)
+export interface UsersRepository {
+  getUser(id: string): Promise<UserRecord | undefined>;
+  findUserByEmail(email: string): Promise<UserRecord | undefined>;
+  addUser(user: NewUser): Promise<UserRecord>;
+  listUsers(role?: Role): Promise<UserRecord[]>;
+}
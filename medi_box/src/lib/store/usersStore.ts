@@ -0,0 +1,18 @@
+// Users store facade; the backing repository is chosen by DATA_STORE.
+import { getStoreDriver } from './config';
+import { UsersRepository } from './usersRepository';
+import { createMemoryUsersRepository } from './memoryUsersRepository';
+import { createMongoUsersRepository } from './mongoUsersRepository';
+
+export type { NewUser, UserRecord, UsersRepository } from './usersRepository';
+
+let repository: UsersRepository | undefined;
+
+export function getUsersRepository(): UsersRepository {
+  if (!repository) {
+    repository = getStoreDriver() === 'mongodb'
+      ? createMongoUsersRepository()
+      : createMemoryUsersRepository();
+  }
+  return repository;
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TRIAGE_RULES, fillGuidance, matchTriageRules, mergeTriageMatches, TriageMatch, TriageRule } from './rules';
+
+function matchedIds(text: string, rules: TriageRule[] = DEFAULT_TRIAGE_RULES): string[] {
+  return matchTriageRules(text, rules).map((rule) => rule.id);
+}
+
+describe('matchTriageRules', () => {
+  it('flags the emergencies the default rules describe', () => {
+    expect(matchedIds("I have crushing chest pain spreading to my left arm")).toEqual(['cardiac_chest_pain']);
+    expect(matchedIds("Her face is drooping and she has slurred speech")).toEqual(['stroke_signs']);
+    expect(matchedIds("I keep thinking I want to die")).toEqual(['suicidal_ideation']);
+    expect(matchedIds("My throat is closing after eating peanuts")).toEqual(['anaphylaxis']);
+    expect(matchedIds("I can't breathe properly")).toEqual(['severe_breathing']);
+    expect(matchedIds("This is the worst headache of my life")).toEqual(['thunderclap_headache']);
+  });
+
+  it('needs every pattern of a rule to match', () => {
+    expect(matchedIds("Some chest pain after a cold")).toEqual([]);
+  });
+
+  it('ignores ordinary complaints', () => {
+    expect(matchedIds("Mild headache and a runny nose for three days")).toEqual([]);
+  });
+
+  it('does not count a negated symptom', () => {
+    expect(matchedIds("No chest pain, but my left arm is sore")).toEqual([]);
+    expect(matchedIds("I am not gasping, just tired")).toEqual([]);
+  });
+
+  it('only looks for a negation within the same sentence', () => {
+    expect(matchedIds("No fever. I can't breathe since this morning")).toEqual(['severe_breathing']);
+  });
+
+  it('still counts a negated match when the symptom comes up again', () => {
+    expect(matchedIds("Not gasping earlier, but now gasping for air")).toEqual(['severe_breathing']);
+  });
+
+  it('never lets a negation hide thoughts of suicide', () => {
+    expect(matchedIds("I don't want to die but I keep thinking about suicide")).toEqual(['suicidal_ideation']);
+    expect(matchedIds("I'm not suicidal, I just feel low")).toEqual(['suicidal_ideation']);
+  });
+
+  it('is case-insensitive', () => {
+    expect(matchedIds("WORST HEADACHE OF MY LIFE")).toEqual(['thunderclap_headache']);
+  });
+
+  it('skips disabled rules', () => {
+    const rules = DEFAULT_TRIAGE_RULES.map((rule) => rule.id === 'severe_breathing' ? { ...rule, enabled: false } : rule);
+    expect(matchedIds("I can't breathe", rules)).toEqual([]);
+  });
+
+  it('returns matches in rule order', () => {
+    expect(matchedIds("I want to die and I can't breathe")).toEqual(['suicidal_ideation', 'severe_breathing']);
+  });
+});
+
+describe('fillGuidance', () => {
+  it('fills in every placeholder', () => {
+    const guidance = "Call {crisisLine}, or {emergencyNumber}. Then {emergencyNumber} again.";
+    expect(fillGuidance(guidance, { emergencyNumber: '112', crisisLine: '116 123' }))
+      .toBe("Call 116 123, or 112. Then 112 again.");
+  });
+});
+
+describe('mergeTriageMatches', () => {
+  const match = (ruleId: string, title = ruleId): TriageMatch => ({ ruleId, title, guidance: '' });
+
+  it('keeps each rule once, preferring the first list', () => {
+    const merged = mergeTriageMatches(
+      [match('stroke_signs', 'first')],
+      [match('stroke_signs', 'second'), match('anaphylaxis')]
+    );
+    expect(merged).toEqual([match('stroke_signs', 'first'), match('anaphylaxis')]);
+  });
+});
@@ -0,0 +1,113 @@
+// Rule-based emergency triage. Every rule is a set of regular expressions
+// that must all match the text; this module has no server dependencies and
+// is shared with the client views.
+
+export interface TriageRule {
+  id: string;
+  title: string;
+  // Case-insensitive regular expressions; the rule matches when each finds
+  // a match in the text
+  patterns: string[];
+  // Shown to the patient; {emergencyNumber} and {crisisLine} are filled in
+  guidance: string;
+  // A match right after "no", "not", "without"... does not count. Off for
+  // rules where a false alarm is far cheaper than a miss.
+  negatable?: boolean;
+  enabled?: boolean;
+}
+
+export interface TriageMatch {
+  ruleId: string;
+  title: string;
+  guidance: string;
+}
+
+// Emergency found in a chat message or a diagnosis
+export interface EmergencyAlert {
+  matches: TriageMatch[];
+  emergencyNumber: string;
+  detectedAt: string;
+}
+
+export const DEFAULT_TRIAGE_RULES: TriageRule[] = [
+  {
+    id: 'cardiac_chest_pain',
+    title: "Possible heart attack",
+    patterns: [
+      '\\bchest\\s+(pain|pressure|tightness|heaviness|discomfort)|\\b(pain|pressure|tightness|heaviness)\\s+in\\s+(my|the)\\s+chest',
+      '\\b(left\\s+)?arm\\b|\\bjaw\\b|\\bneck\\b|\\bshoulder|\\bsweat|short(ness)?\\s+of\\s+breath|\\bnause',
+    ],
+    guidance: "Call {emergencyNumber} now. Stop any activity, sit down and, unless you are allergic, chew an aspirin while you wait. Do not drive yourself to hospital.",
+  },
+  {
+    id: 'stroke_signs',
+    title: "Possible stroke",
+    patterns: [
+      '\\b(face|facial|mouth)\\s+(is\\s+)?droop|\\bdrooping\\s+(face|mouth|eyelid)|slurred\\s+speech|\\bslurring|(trouble|difficulty)\\s+(speaking|talking)|(can\'?t|cannot|unable\\s+to)\\s+(speak|talk|move\\s+my\\s+(arm|leg))|sudden\\s+(weakness|numbness|confusion|loss\\s+of\\s+(vision|balance))|(weak|numb)\\w*\\s+on\\s+one\\s+side',
+    ],
+    guidance: "Call {emergencyNumber} now and note the time the symptoms started. Face drooping, arm weakness and speech difficulty are signs of a stroke, where every minute counts.",
+  },
+  {
+    id: 'suicidal_ideation',
+    title: "Thoughts of suicide or self-harm",
+    patterns: [
+      '\\bsuicid|\\bkill\\s+myself|\\bend\\s+(my|it\\s+all)\\b|take\\s+my\\s+(own\\s+)?life|\\bwant\\s+to\\s+die|better\\s+off\\s+dead|\\bself[-\\s]?harm|\\bhurt(ing)?\\s+myself|\\bcut(ting)?\\s+myself',
+    ],
+    guidance: "You don't have to go through this alone. Call or text {crisisLine} to talk to someone now, or call {emergencyNumber} if you are in immediate danger.",
+    negatable: false,
+  },
+  {
+    id: 'anaphylaxis',
+    title: "Possible severe allergic reaction",
+    patterns: [
+      '\\banaphyla|\\bthroat\\s+(is\\s+)?(closing|swelling|swollen|tight)|\\b(tongue|lips?|face)\\s+(is\\s+|are\\s+)?(swelling|swollen)|\\bswollen\\s+(tongue|lips?|throat)|\\bhives\\b.*\\b(breath|swallow|wheez)',
+    ],
+    guidance: "Call {emergencyNumber} now. Use an adrenaline auto-injector (EpiPen) if you have one, and lie down with your legs raised unless you are struggling to breathe.",
+  },
+  {
+    id: 'severe_breathing',
+    title: "Severe difficulty breathing",
+    patterns: [
+      '(can\'?t|cannot|unable\\s+to)\\s+(breathe|catch\\s+my\\s+breath)|struggling\\s+to\\s+breathe|\\bgasping\\b|\\b(lips|face)\\s+(are\\s+|is\\s+)?(turning\\s+)?blue',
+    ],
+    guidance: "Call {emergencyNumber} now. Sit upright and loosen tight clothing while you wait for help.",
+  },
+  {
+    id: 'thunderclap_headache',
+    title: "Sudden severe headache",
+    patterns: ['worst\\s+headache\\s+of\\s+my\\s+life|\\bthunderclap|sudden\\s+(severe|excruciating)\\s+headache'],
+    guidance: "Call {emergencyNumber} or go to the nearest emergency department now. A sudden, severe headache can be a sign of bleeding in the brain.",
+  },
+];
+
+// A negation this close before a match cancels it, e.g. "no chest pain"
+const NEGATION = /\b(no|not|never|without|denies|denied|don'?t|doesn'?t|didn'?t|isn'?t|haven'?t|hasn'?t)\b(\s+\S+){0,2}\s*$/i;
+
+function matchesPattern(text: string, pattern: string, negatable: boolean): boolean {
+  for (const match of text.matchAll(new RegExp(pattern, 'gi'))) {
+    if (!negatable) return true;
+    // Only look back within the sentence the match is in
+    const before = text.slice(0, match.index).split(/[.!?;\n]/).pop() ?? '';
+    if (!NEGATION.test(before)) return true;
+  }
+  return false;
+}
+
+export function fillGuidance(guidance: string, contacts: { emergencyNumber: string; crisisLine: string }): string {
+  return guidance
+    .replaceAll('{emergencyNumber}', contacts.emergencyNumber)
+    .replaceAll('{crisisLine}', contacts.crisisLine);
+}
+
+// Matches of both lists, each rule once, the first list's first
+export function mergeTriageMatches(first: TriageMatch[], second: TriageMatch[]): TriageMatch[] {
+  return [...first, ...second.filter((match) => !first.some((existing) => existing.ruleId === match.ruleId))];
+}
+
+// Rules whose patterns all match, in rule order
+export function matchTriageRules(text: string, rules: TriageRule[]): TriageRule[] {
+  return rules.filter((rule) =>
+    rule.enabled !== false &&
+    rule.patterns.every((pattern) => matchesPattern(text, pattern, rule.negatable !== false))
+  );
+}
@@ -0,0 +1,88 @@
+import { promises as fs } from 'fs';
+import { z } from 'zod';
+import { DEFAULT_TRIAGE_RULES, EmergencyAlert, fillGuidance, matchTriageRules, TriageRule } from './rules';
+
+// Emergency triage of patient text, run by the chat route and by diagnosis
+// submission before anything reaches the AI provider, and again on what the
+// provider returns. Deterministic on purpose: the model is never the only
+// thing standing between a patient and emergency advice.
+
+const EMERGENCY_NUMBER = process.env.EMERGENCY_NUMBER || '911';
+const CRISIS_LINE = process.env.CRISIS_LINE || '988';
+
+const TriageRuleSchema = z.object({
+  id: z.string().trim().min(1),
+  title: z.string().trim().min(1),
+  patterns: z.array(z.string().min(1).refine((pattern) => {
+    try {
+      new RegExp(pattern, 'gi');
+      return true;
+    } catch {
+      return false;
+    }
+  }, "Invalid regular expression")).min(1),
+  guidance: z.string().trim().min(1),
+  negatable: z.boolean().optional(),
+  enabled: z.boolean().optional(),
+});
+
+// TRIAGE_RULES_FILE: rules with the id of a default rule replace it, others
+// are added; `"enabled": false` turns a rule off
+const TriageRulesFileSchema = z.object({
+  rules: z.array(TriageRuleSchema),
+  // Use only the rules in the file
+  replaceDefaults: z.boolean().optional(),
+});
+
+let rulesPromise: Promise<TriageRule[]> | undefined;
+
+async function loadRules(): Promise<TriageRule[]> {
+  const file = process.env.TRIAGE_RULES_FILE;
+  if (!file) return DEFAULT_TRIAGE_RULES;
+
+  // A broken rules file must not switch triage off, so it fails loudly
+  const parsed = TriageRulesFileSchema.safeParse(JSON.parse(await fs.readFile(file, 'utf8')));
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new Error(`Invalid triage rules in ${file}: ${issues.join('; ')}`);
+  }
+
+  const { rules, replaceDefaults } = parsed.data;
+  if (replaceDefaults) return rules;
+  const overridden = new Set(rules.map((rule) => rule.id));
+  return [...DEFAULT_TRIAGE_RULES.filter((rule) => !overridden.has(rule.id)), ...rules];
+}
+
+export function getTriageRules(): Promise<TriageRule[]> {
+  if (!rulesPromise) {
+    rulesPromise = loadRules().catch((error) => {
+      rulesPromise = undefined;
+      throw error;
+    });
+  }
+  return rulesPromise;
+}
+
+// The emergency the text describes, if any
+export async function triageText(text: string): Promise<EmergencyAlert | undefined> {
+  const matched = matchTriageRules(text, await getTriageRules());
+  if (matched.length === 0) return undefined;
+
+  const contacts = { emergencyNumber: EMERGENCY_NUMBER, crisisLine: CRISIS_LINE };
+  return {
+    matches: matched.map(({ id, title, guidance }) => ({ ruleId: id, title, guidance: fillGuidance(guidance, contacts) })),
+    emergencyNumber: EMERGENCY_NUMBER,
+    detectedAt: new Date().toISOString(),
+  };
+}
+
+// Markdown appended to a chat reply that flagged an emergency but does not
+// tell the patient how to get help
+export function emergencyNotice(alert: EmergencyAlert): string {
+  return [
+    '',
+    '',
+    '**⚠️ This may be a medical emergency.**',
+    ...alert.matches.map((match) => `- **${match.title}:** ${match.guidance}`),
+  ].join('\n');
+}
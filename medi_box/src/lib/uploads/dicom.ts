@@ -0,0 +1,440 @@
+import {
+  createJPEGBasicOffsetTable,
+  DataSet,
+  Element,
+  parseDicom,
+  readEncapsulatedImageFrame,
+  readEncapsulatedPixelDataFromFragments,
+} from 'dicom-parser';
+import { createHash } from 'crypto';
+import sharp from 'sharp';
+
+// DICOM (Part 10) ingestion: header metadata, de-identification and
+// rendering of each frame to PNG for viewing and AI analysis.
+
+export const DICOM_CONTENT_TYPE = 'application/dicom';
+
+// Cap on frames rendered from a single multi-frame object
+const MAX_RENDERED_FRAMES = 100;
+
+export interface DicomMetadata {
+  modality?: string;
+  bodyPartExamined?: string;
+  studyDate?: string;
+  studyDescription?: string;
+  seriesDescription?: string;
+  // Row and column spacing in millimetres
+  pixelSpacing?: [number, number];
+  rows?: number;
+  columns?: number;
+  numberOfFrames: number;
+  transferSyntaxUid?: string;
+}
+
+export interface ProcessedDicom {
+  metadata: DicomMetadata;
+  // Original file with PHI values blanked
+  deidentified: Buffer;
+  // One PNG per rendered frame
+  frames: { png: Buffer; width: number; height: number }[];
+}
+
+// Attributes the DICOM PS3.15 basic confidentiality profile removes or
+// empties: identifiers of the patient, the people involved and the
+// institution, dates and times, and free text that may name any of them
+const PHI_TAGS = [
+  'x00080012', // Instance Creation Date
+  'x00080013', // Instance Creation Time
+  'x00080020', // Study Date
+  'x00080021', // Series Date
+  'x00080022', // Acquisition Date
+  'x00080023', // Content Date
+  'x0008002a', // Acquisition DateTime
+  'x00080030', // Study Time
+  'x00080031', // Series Time
+  'x00080032', // Acquisition Time
+  'x00080033', // Content Time
+  'x00080050', // Accession Number
+  'x00080080', // Institution Name
+  'x00080081', // Institution Address
+  'x00080090', // Referring Physician's Name
+  'x00080092', // Referring Physician's Address
+  'x00080094', // Referring Physician's Telephone Numbers
+  'x0008009c', // Consulting Physician's Name
+  'x00080201', // Timezone Offset From UTC
+  'x00081010', // Station Name
+  'x00081030', // Study Description
+  'x0008103e', // Series Description
+  'x00081040', // Institutional Department Name
+  'x00081048', // Physician(s) of Record
+  'x00081050', // Performing Physician's Name
+  'x00081060', // Name of Physician(s) Reading Study
+  'x00081070', // Operators' Name
+  'x00081080', // Admitting Diagnoses Description
+  'x00082111', // Derivation Description
+  'x00100010', // Patient's Name
+  'x00100020', // Patient ID
+  'x00100021', // Issuer of Patient ID
+  'x00100030', // Patient's Birth Date
+  'x00100032', // Patient's Birth Time
+  'x00100040', // Patient's Sex
+  'x00101000', // Other Patient IDs
+  'x00101001', // Other Patient Names
+  'x00101005', // Patient's Birth Name
+  'x00101010', // Patient's Age
+  'x00101020', // Patient's Size
+  'x00101030', // Patient's Weight
+  'x00101040', // Patient's Address
+  'x00101060', // Patient's Mother's Birth Name
+  'x00101080', // Military Rank
+  'x00101081', // Branch of Service
+  'x00101090', // Medical Record Locator
+  'x00102000', // Medical Alerts
+  'x00102110', // Allergies
+  'x00102150', // Country of Residence
+  'x00102152', // Region of Residence
+  'x00102154', // Patient's Telephone Numbers
+  'x00102160', // Ethnic Group
+  'x00102180', // Occupation
+  'x001021b0', // Additional Patient History
+  'x001021f0', // Patient's Religious Preference
+  'x00102297', // Responsible Person
+  'x00102299', // Responsible Organization
+  'x00104000', // Patient Comments
+  'x00181000', // Device Serial Number
+  'x00181012', // Date of Secondary Capture
+  'x00181014', // Time of Secondary Capture
+  'x00181030', // Protocol Name
+  'x00184000', // Acquisition Comments
+  'x00200010', // Study ID
+  'x00204000', // Image Comments
+  'x00209158', // Frame Comments
+  'x00321030', // Reason for Study
+  'x00321032', // Requesting Physician
+  'x00321033', // Requesting Service
+  'x00321060', // Requested Procedure Description
+  'x00324000', // Study Comments
+  'x00380010', // Admission ID
+  'x00380020', // Admitting Date
+  'x00380021', // Admitting Time
+  'x00380500', // Patient State
+  'x00400002', // Scheduled Procedure Step Start Date
+  'x00400003', // Scheduled Procedure Step Start Time
+  'x00400004', // Scheduled Procedure Step End Date
+  'x00400005', // Scheduled Procedure Step End Time
+  'x00400006', // Scheduled Performing Physician's Name
+  'x00400007', // Scheduled Procedure Step Description
+  'x00400009', // Scheduled Procedure Step ID
+  'x00400010', // Scheduled Station Name
+  'x00400011', // Scheduled Procedure Step Location
+  'x00400241', // Performed Station Name
+  'x00400243', // Performed Location
+  'x00400244', // Performed Procedure Step Start Date
+  'x00400245', // Performed Procedure Step Start Time
+  'x00400250', // Performed Procedure Step End Date
+  'x00400251', // Performed Procedure Step End Time
+  'x00400253', // Performed Procedure Step ID
+  'x00400254', // Performed Procedure Step Description
+  'x00401001', // Requested Procedure ID
+  'x00401010', // Names of Intended Recipients of Results
+  'x00402008', // Order Entered By
+  'x00402009', // Order Enterer's Location
+  'x00402010', // Order Callback Phone Number
+  'x00402016', // Placer Order Number / Imaging Service Request
+  'x00402017', // Filler Order Number / Imaging Service Request
+  'x0040a075', // Verifying Observer Name
+  'x0040a123', // Person Name
+  'x0040a160', // Text Value
+  'x00700084', // Content Creator's Name
+  'x300e0008', // Reviewer Name
+  'x40082114', // Physician Approving Interpretation
+];
+
+// UIDs the profile replaces rather than removes, since the file needs them.
+// The replacement is derived from the original, so images of one study
+// still share their study and series UIDs after de-identification.
+const UID_TAGS = [
+  'x00020003', // Media Storage SOP Instance UID
+  'x00041511', // Referenced SOP Instance UID in File
+  'x00080014', // Instance Creator UID
+  'x00080018', // SOP Instance UID
+  'x00080058', // Failed SOP Instance UID List
+  'x00081155', // Referenced SOP Instance UID
+  'x00083010', // Irradiation Event UID
+  'x00181002', // Device UID
+  'x0020000d', // Study Instance UID
+  'x0020000e', // Series Instance UID
+  'x00200052', // Frame of Reference UID
+  'x00200200', // Synchronization Frame of Reference UID
+  'x00209161', // Concatenation UID
+  'x00209164', // Dimension Organization UID
+  'x0040a124', // UID
+  'x00880140', // Storage Media File-set UID
+  'x30060024', // Referenced Frame of Reference UID
+];
+
+const MODALITY_IMAGE_TYPES: Record<string, string> = {
+  CR: 'X-Ray',
+  DX: 'X-Ray',
+  RG: 'X-Ray',
+  CT: 'CT scan',
+  MR: 'MRI',
+  US: 'Ultrasound',
+  MG: 'Mammography',
+  NM: 'Nuclear medicine scan',
+  PT: 'PET scan',
+  XA: 'Angiography',
+};
+
+const UNCOMPRESSED_SYNTAXES = [
+  '1.2.840.10008.1.2', // Implicit VR Little Endian
+  '1.2.840.10008.1.2.1', // Explicit VR Little Endian
+  '1.2.840.10008.1.2.2', // Explicit VR Big Endian (retired)
+];
+
+// Encapsulated JPEG frames sharp can decode directly
+const JPEG_SYNTAXES = [
+  '1.2.840.10008.1.2.4.50', // JPEG Baseline
+  '1.2.840.10008.1.2.4.51', // JPEG Extended
+];
+
+// Part 10 files carry "DICM" after a 128-byte preamble
+export function isDicomBytes(bytes: Buffer): boolean {
+  return bytes.length > 132 && bytes.toString('ascii', 128, 132) === 'DICM';
+}
+
+export function looksLikeDicomFile(file: File): boolean {
+  return file.type === DICOM_CONTENT_TYPE || /\.dcm$/i.test(file.name);
+}
+
+function titleCase(value: string): string {
+  return value
+    .toLowerCase()
+    .split(/[\s_]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+// DICOM DA values are YYYYMMDD
+function formatDicomDate(value: string | undefined): string | undefined {
+  if (!value || !/^\d{8}$/.test(value)) return undefined;
+  return `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`;
+}
+
+function readMetadata(dataSet: DataSet): DicomMetadata {
+  const rowSpacing = dataSet.floatString('x00280030', 0);
+  const columnSpacing = dataSet.floatString('x00280030', 1);
+
+  return {
+    modality: dataSet.string('x00080060'),
+    bodyPartExamined: dataSet.string('x00180015'),
+    studyDate: formatDicomDate(dataSet.string('x00080020')),
+    studyDescription: dataSet.string('x00081030'),
+    seriesDescription: dataSet.string('x0008103e'),
+    pixelSpacing: rowSpacing !== undefined && columnSpacing !== undefined ? [rowSpacing, columnSpacing] : undefined,
+    rows: dataSet.uint16('x00280010'),
+    columns: dataSet.uint16('x00280011'),
+    numberOfFrames: dataSet.intString('x00280008') ?? 1,
+    transferSyntaxUid: dataSet.string('x00020010'),
+  };
+}
+
+function isPrivateTag(tag: string): boolean {
+  return parseInt(tag.substring(1, 5), 16) % 2 === 1;
+}
+
+// Curve data (50xx) and overlay data and comments (60xx,3000 and 60xx,4000)
+// repeat across groups and can carry burnt-in text
+function isCurveOrOverlayTag(tag: string): boolean {
+  return tag.startsWith('x50') || (tag.startsWith('x60') && /^(3000|4000)$/.test(tag.substring(5)));
+}
+
+// A "2.25." UID from a hash of the original, cut to the original's length
+// so the file layout is unchanged; too short a field is emptied instead
+function replacementUid(original: string, length: number): Buffer {
+  const digits = BigInt(`0x${createHash('sha256').update(original).digest('hex').slice(0, 32)}`).toString();
+  const uid = length >= 7 ? `2.25.${digits}`.slice(0, length) : '';
+  return Buffer.concat([Buffer.from(uid, 'ascii'), Buffer.alloc(length - uid.length)]);
+}
+
+// Overwrite PHI and private element values and replace UIDs in place,
+// recursing into sequences. Element lengths are unchanged so the file stays
+// parseable.
+function blankIdentifyingElements(dataSet: DataSet, bytes: Buffer): void {
+  for (const [tag, element] of Object.entries(dataSet.elements)) {
+    element.items?.forEach((item: Element) => {
+      if (item.dataSet) blankIdentifyingElements(item.dataSet, bytes);
+    });
+
+    if (tag === 'x7fe00010' || element.items) continue;
+    if (UID_TAGS.includes(tag)) {
+      const original = bytes.toString('ascii', element.dataOffset, element.dataOffset + element.length);
+      replacementUid(original, element.length).copy(bytes, element.dataOffset);
+      continue;
+    }
+    if (!PHI_TAGS.includes(tag) && !isPrivateTag(tag) && !isCurveOrOverlayTag(tag)) continue;
+
+    // String VRs are space padded; binary ones are zeroed
+    const fill = element.vr && /^(AE|AS|CS|DA|DS|DT|IS|LO|LT|PN|SH|ST|TM|UC|UT)$/.test(element.vr) ? 0x20 : 0x00;
+    bytes.fill(fill, element.dataOffset, element.dataOffset + element.length);
+  }
+}
+
+// Map stored pixel values to 8-bit grey using the VOI window when present
+function toGreyscale(values: Float64Array, dataSet: DataSet, invert: boolean): Buffer {
+  let lower: number;
+  let upper: number;
+
+  const windowCenter = dataSet.floatString('x00281050');
+  const windowWidth = dataSet.floatString('x00281051');
+  if (windowCenter !== undefined && windowWidth !== undefined && windowWidth > 0) {
+    lower = windowCenter - windowWidth / 2;
+    upper = windowCenter + windowWidth / 2;
+  } else {
+    lower = Infinity;
+    upper = -Infinity;
+    for (const value of values) {
+      if (value < lower) lower = value;
+      if (value > upper) upper = value;
+    }
+  }
+
+  const range = upper - lower || 1;
+  const output = Buffer.alloc(values.length);
+  for (let i = 0; i < values.length; i++) {
+    const scaled = Math.round(((values[i] - lower) / range) * 255);
+    const clamped = Math.min(255, Math.max(0, scaled));
+    output[i] = invert ? 255 - clamped : clamped;
+  }
+  return output;
+}
+
+async function renderUncompressedFrame(dataSet: DataSet, pixelData: Element, frameIndex: number): Promise<Buffer> {
+  const rows = dataSet.uint16('x00280010') ?? 0;
+  const columns = dataSet.uint16('x00280011') ?? 0;
+  const bitsAllocated = dataSet.uint16('x00280100') ?? 16;
+  const samplesPerPixel = dataSet.uint16('x00280002') ?? 1;
+  const signed = dataSet.uint16('x00280103') === 1;
+  const planar = dataSet.uint16('x00280006') === 1;
+  const photometric = dataSet.string('x00280004') ?? 'MONOCHROME2';
+  const littleEndian = dataSet.string('x00020010') !== '1.2.840.10008.1.2.2';
+
+  if (bitsAllocated !== 8 && bitsAllocated !== 16) {
+    throw new Error(`Unsupported DICOM bit depth: ${bitsAllocated}`);
+  }
+
+  const bytesPerSample = bitsAllocated / 8;
+  const pixelCount = rows * columns;
+  const frameLength = pixelCount * samplesPerPixel * bytesPerSample;
+  const frameOffset = pixelData.dataOffset + frameIndex * frameLength;
+  if (frameOffset + frameLength > pixelData.dataOffset + pixelData.length) {
+    throw new Error('DICOM pixel data is shorter than its header declares');
+  }
+
+  const view = new DataView(dataSet.byteArray.buffer, dataSet.byteArray.byteOffset + frameOffset, frameLength);
+  const readSample = (index: number): number => {
+    if (bitsAllocated === 8) return signed ? view.getInt8(index) : view.getUint8(index);
+    return signed ? view.getInt16(index * 2, littleEndian) : view.getUint16(index * 2, littleEndian);
+  };
+
+  if (samplesPerPixel === 3) {
+    if (bitsAllocated !== 8) {
+      throw new Error('Only 8-bit colour DICOM images are supported');
+    }
+    const rgb = Buffer.alloc(pixelCount * 3);
+    for (let i = 0; i < pixelCount; i++) {
+      for (let channel = 0; channel < 3; channel++) {
+        rgb[i * 3 + channel] = readSample(planar ? channel * pixelCount + i : i * 3 + channel);
+      }
+    }
+    return sharp(rgb, { raw: { width: columns, height: rows, channels: 3 } }).png().toBuffer();
+  }
+
+  // Apply the modality LUT (rescale) before windowing
+  const slope = dataSet.floatString('x00281053') ?? 1;
+  const intercept = dataSet.floatString('x00281052') ?? 0;
+  const values = new Float64Array(pixelCount);
+  for (let i = 0; i < pixelCount; i++) {
+    values[i] = readSample(i) * slope + intercept;
+  }
+
+  const grey = toGreyscale(values, dataSet, photometric === 'MONOCHROME1');
+  return sharp(grey, { raw: { width: columns, height: rows, channels: 1 } }).toColourspace('b-w').png().toBuffer();
+}
+
+async function renderFrames(dataSet: DataSet, metadata: DicomMetadata): Promise<ProcessedDicom['frames']> {
+  const pixelData = dataSet.elements.x7fe00010;
+  if (!pixelData) {
+    throw new Error('DICOM file contains no pixel data');
+  }
+
+  const syntax = metadata.transferSyntaxUid ?? UNCOMPRESSED_SYNTAXES[0];
+  const frameCount = Math.min(metadata.numberOfFrames, MAX_RENDERED_FRAMES);
+  const frames: ProcessedDicom['frames'] = [];
+
+  for (let frameIndex = 0; frameIndex < frameCount; frameIndex++) {
+    let png: Buffer;
+
+    if (UNCOMPRESSED_SYNTAXES.includes(syntax) && !pixelData.encapsulatedPixelData) {
+      png = await renderUncompressedFrame(dataSet, pixelData, frameIndex);
+    } else if (JPEG_SYNTAXES.includes(syntax) && pixelData.encapsulatedPixelData) {
+      const jpeg = metadata.numberOfFrames === 1
+        ? readEncapsulatedPixelDataFromFragments(dataSet, pixelData, 0, pixelData.fragments?.length)
+        : readEncapsulatedImageFrame(
+            dataSet,
+            pixelData,
+            frameIndex,
+            pixelData.basicOffsetTable?.length ? pixelData.basicOffsetTable : createJPEGBasicOffsetTable(dataSet, pixelData)
+          );
+      png = await sharp(Buffer.from(jpeg)).png().toBuffer();
+    } else {
+      throw new Error(`Unsupported DICOM transfer syntax: ${syntax}`);
+    }
+
+    const { width = 0, height = 0 } = await sharp(png).metadata();
+    frames.push({ png, width, height });
+  }
+
+  return frames;
+}
+
+export async function processDicom(bytes: Buffer): Promise<ProcessedDicom> {
+  let dataSet: DataSet;
+  try {
+    dataSet = parseDicom(new Uint8Array(bytes.buffer, bytes.byteOffset, bytes.length));
+  } catch (error) {
+    throw new Error(`Unable to parse DICOM file: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const metadata = readMetadata(dataSet);
+  const frames = await renderFrames(dataSet, metadata);
+
+  const deidentified = Buffer.from(bytes);
+  blankIdentifyingElements(dataSet, deidentified);
+
+  return {
+    metadata,
+    deidentified,
+    frames,
+  };
+}
+
+// Pre-fill values for the analysis form's image type and body part
+export function suggestAnalysisFields(metadata: DicomMetadata): { imageType?: string; bodyPart?: string } {
+  return {
+    imageType: metadata.modality ? MODALITY_IMAGE_TYPES[metadata.modality] ?? metadata.modality : undefined,
+    bodyPart: metadata.bodyPartExamined ? titleCase(metadata.bodyPartExamined) : undefined,
+  };
+}
+
+// Non-identifying header fields that may accompany an image to the AI
+// provider. Free-text descriptions are left out, since they may name people.
+export function describeDicomForAnalysis(metadata: DicomMetadata): string[] {
+  const lines: string[] = [];
+  if (metadata.modality) lines.push(`Modality: ${metadata.modality}`);
+  if (metadata.bodyPartExamined) lines.push(`Body part examined: ${metadata.bodyPartExamined}`);
+  if (metadata.pixelSpacing) lines.push(`Pixel spacing: ${metadata.pixelSpacing[0]} x ${metadata.pixelSpacing[1]} mm`);
+  if (metadata.rows && metadata.columns) lines.push(`Matrix: ${metadata.columns} x ${metadata.rows}`);
+  return lines;
+}
@@ -0,0 +1,205 @@
+import { randomUUID } from 'crypto';
+import sharp from 'sharp';
+import { getObjectStorage } from '@/lib/storage/storage';
+import type { DiagnosisImage } from '@/lib/store/diagnosesStore';
+import { getUploadsRepository, UploadRecord } from '@/lib/store/uploadsStore';
+import {
+  DICOM_CONTENT_TYPE,
+  isDicomBytes,
+  looksLikeDicomFile,
+  processDicom,
+  suggestAnalysisFields
+} from '@/lib/uploads/dicom';
+
+// Image formats the vision model accepts
+export const ALLOWED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+export const MAX_UPLOAD_BYTES = Number(process.env.UPLOAD_MAX_BYTES) || 10 * 1024 * 1024;
+
+// Images a single study may contain
+export const MAX_STUDY_IMAGES = Number(process.env.STUDY_MAX_IMAGES) || 10;
+
+const THUMBNAIL_SIZE = 256;
+
+// Detect the real format from the file signature; the browser-supplied
+// MIME type is only a hint
+function sniffImageType(bytes: Buffer): string | undefined {
+  if (bytes.length >= 8 && bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png';
+  }
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (bytes.length >= 12 && bytes.toString('ascii', 0, 4) === 'RIFF' && bytes.toString('ascii', 8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+  return undefined;
+}
+
+// Returns an error message for files we refuse to store, otherwise null
+export function validateImageFile(file: File): string | null {
+  if (!ALLOWED_IMAGE_TYPES.includes(file.type) && !looksLikeDicomFile(file)) {
+    return `${file.name}: unsupported file type. Allowed types: PNG, JPEG, WebP, DICOM`;
+  }
+  if (file.size === 0) {
+    return `${file.name}: file is empty`;
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return `${file.name}: file exceeds the ${Math.round(MAX_UPLOAD_BYTES / (1024 * 1024))} MB limit`;
+  }
+  return null;
+}
+
+export function uploadUrl(upload: UploadRecord, variant?: 'thumbnail' | 'frame', frame = 0): string {
+  if (variant === 'frame') return `/api/uploads/${upload.id}?variant=frame&frame=${frame}`;
+  return variant ? `/api/uploads/${upload.id}?variant=${variant}` : `/api/uploads/${upload.id}`;
+}
+
+// URLs of the rendered DICOM frames, empty for ordinary images
+export function frameUrls(upload: UploadRecord): string[] {
+  return (upload.frameKeys ?? []).map((_, index) => uploadUrl(upload, 'frame', index));
+}
+
+// Something a browser can display: the first frame for DICOM, else the original
+export function viewableUrl(upload: UploadRecord): string {
+  return upload.frameKeys?.length ? uploadUrl(upload, 'frame', 0) : uploadUrl(upload);
+}
+
+// Client-facing view of an upload
+export function toPublicUpload(upload: UploadRecord) {
+  return {
+    id: upload.id,
+    fileName: upload.fileName,
+    contentType: upload.contentType,
+    size: upload.size,
+    width: upload.width,
+    height: upload.height,
+    url: uploadUrl(upload),
+    thumbnailUrl: upload.thumbnailKey ? uploadUrl(upload, 'thumbnail') : undefined,
+    frameUrls: frameUrls(upload),
+    dicom: upload.dicomMetadata,
+    suggested: upload.dicomMetadata ? suggestAnalysisFields(upload.dicomMetadata) : undefined,
+    createdAt: upload.createdAt,
+  };
+}
+
+// How an upload is referenced from a diagnosis
+export function toDiagnosisImage(upload: UploadRecord): DiagnosisImage {
+  return {
+    uploadId: upload.id,
+    fileName: upload.fileName,
+    src: viewableUrl(upload),
+    thumbnailSrc: upload.thumbnailKey ? uploadUrl(upload, 'thumbnail') : undefined,
+    frames: upload.frameKeys ? frameUrls(upload) : undefined,
+  };
+}
+
+function makeThumbnail(bytes: Buffer): Promise<Buffer> {
+  return sharp(bytes)
+    .rotate()
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .jpeg({ quality: 80 })
+    .toBuffer();
+}
+
+// Store the de-identified DICOM object, a PNG per frame and a thumbnail of
+// the first frame. PHI never reaches storage.
+async function storeDicomStudy(ownerId: string, file: File, bytes: Buffer): Promise<UploadRecord> {
+  let dicom;
+  try {
+    dicom = await processDicom(bytes);
+  } catch (err) {
+    throw new Error(`${file.name}: ${err instanceof Error ? err.message : 'invalid DICOM file'}`);
+  }
+  if (dicom.frames.length === 0) {
+    throw new Error(`${file.name}: DICOM file contains no frames`);
+  }
+
+  const id = randomUUID();
+  const storageKey = `uploads/${id}/original`;
+  const thumbnailKey = `uploads/${id}/thumbnail`;
+  const frameKeys = dicom.frames.map((_, index) => `uploads/${id}/frames/${index}`);
+
+  const storage = getObjectStorage();
+  await storage.put(storageKey, dicom.deidentified, DICOM_CONTENT_TYPE);
+  for (const [index, frame] of dicom.frames.entries()) {
+    await storage.put(frameKeys[index], frame.png, 'image/png');
+  }
+  await storage.put(thumbnailKey, await makeThumbnail(dicom.frames[0].png), 'image/jpeg');
+
+  return getUploadsRepository().addUpload({
+    id,
+    ownerId,
+    fileName: file.name,
+    contentType: DICOM_CONTENT_TYPE,
+    size: dicom.deidentified.length,
+    width: dicom.frames[0].width,
+    height: dicom.frames[0].height,
+    storageKey,
+    thumbnailKey,
+    frameKeys,
+    dicomMetadata: dicom.metadata,
+    createdAt: new Date().toISOString(),
+  });
+}
+
+// Store the original and a JPEG thumbnail, then record the upload.
+// Throws when the bytes are not a decodable image of an allowed type.
+export async function storeMedicalImage(ownerId: string, file: File): Promise<UploadRecord> {
+  const bytes = Buffer.from(await file.arrayBuffer());
+
+  if (isDicomBytes(bytes)) {
+    return storeDicomStudy(ownerId, file, bytes);
+  }
+
+  const contentType = sniffImageType(bytes);
+  if (!contentType || contentType !== file.type) {
+    throw new Error(`${file.name}: file contents do not match a supported image format`);
+  }
+
+  const metadata = await sharp(bytes).metadata();
+  const thumbnail = await makeThumbnail(bytes);
+
+  const id = randomUUID();
+  const storageKey = `uploads/${id}/original`;
+  const thumbnailKey = `uploads/${id}/thumbnail`;
+
+  const storage = getObjectStorage();
+  await storage.put(storageKey, bytes, contentType);
+  await storage.put(thumbnailKey, thumbnail, 'image/jpeg');
+
+  return getUploadsRepository().addUpload({
+    id,
+    ownerId,
+    fileName: file.name,
+    contentType,
+    size: bytes.length,
+    width: metadata.width,
+    height: metadata.height,
+    storageKey,
+    thumbnailKey,
+    createdAt: new Date().toISOString(),
+  });
+}
+
+// Read the original bytes of an upload back from storage
+export async function readUploadBytes(upload: UploadRecord): Promise<Buffer> {
+  const stored = await getObjectStorage().get(upload.storageKey);
+  if (!stored) {
+    throw new Error(`Stored file for upload ${upload.id} is missing`);
+  }
+  return stored.bytes;
+}
+
+// The image sent for analysis: the first rendered frame for DICOM (never
+// the DICOM object itself), otherwise the original upload
+export async function readAnalysisImage(upload: UploadRecord): Promise<{ bytes: Buffer; mimeType: string }> {
+  if (!upload.frameKeys?.length) {
+    return { bytes: await readUploadBytes(upload), mimeType: upload.contentType };
+  }
+  const stored = await getObjectStorage().get(upload.frameKeys[0]);
+  if (!stored) {
+    throw new Error(`Rendered frame for upload ${upload.id} is missing`);
+  }
+  return { bytes: stored.bytes, mimeType: 'image/png' };
+}
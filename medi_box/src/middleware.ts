@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { homePathForRole, Role, SESSION_COOKIE, verifySessionToken } from '@/lib/auth/session';
+
+// Which roles may open each protected area. Admins may open all of them.
+const protectedAreas: { prefix: string; roles: Role[] }[] = [
+  { prefix: '/patient', roles: ['patient'] },
+  { prefix: '/doctor', roles: ['doctor'] },
+];
+
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const area = protectedAreas.find(({ prefix }) => pathname === prefix || pathname.startsWith(`${prefix}/`));
+  if (!area) return NextResponse.next();
+
+  let session = null;
+  try {
+    session = await verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+  } catch (error) {
+    console.error("Session verification failed:", error);
+  }
+
+  // Not signed in: send to the landing page and come back afterwards
+  if (!session) {
+    const loginUrl = new URL('/', request.url);
+    loginUrl.searchParams.set('next', `${pathname}${search}`);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  // Signed in with the wrong role: send to their own dashboard
+  if (session.role !== 'admin' && !area.roles.includes(session.role)) {
+    return NextResponse.redirect(new URL(homePathForRole(session.role), request.url));
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ['/patient/:path*', '/doctor/:path*'],
+};